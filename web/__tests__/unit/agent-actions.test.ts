@@ -0,0 +1,181 @@
+import {
+  extractEventId,
+  snapshotEvent,
+  undoAgentAction,
+} from "@/lib/agent-actions";
+import { getMongoClient } from "@/lib/db";
+import { logToolCall } from "@/lib/workflow-runs";
+import { google } from "googleapis";
+import { ObjectId } from "mongodb";
+
+jest.mock("@/lib/db");
+jest.mock("googleapis");
+jest.mock("@/lib/workflow-runs", () => ({
+  logToolCall: jest.fn().mockResolvedValue(undefined),
+}));
+
+describe("Agent action undo log", () => {
+  let mockCollection: Record<string, jest.Mock>;
+  let mockTasks: {
+    tasks: { delete: jest.Mock; insert: jest.Mock };
+    tasklists: object;
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockCollection = {
+      createIndex: jest.fn().mockResolvedValue(undefined),
+      findOneAndUpdate: jest.fn(),
+      updateOne: jest.fn().mockResolvedValue(undefined),
+    };
+    (getMongoClient as jest.Mock).mockResolvedValue({
+      db: jest.fn().mockReturnValue({
+        collection: jest.fn().mockReturnValue(mockCollection),
+      }),
+    });
+
+    mockTasks = {
+      tasks: {
+        delete: jest.fn().mockResolvedValue({}),
+        insert: jest.fn().mockResolvedValue({ data: { id: "task-new" } }),
+      },
+      tasklists: {},
+    };
+    (google.tasks as unknown as jest.Mock).mockReturnValue(mockTasks);
+    (google.calendar as unknown as jest.Mock).mockReturnValue({});
+  });
+
+  describe("extractEventId", () => {
+    it("should read the ID from JSON handler output", () => {
+      const result = {
+        content: [{ type: "text", text: JSON.stringify({ event: { id: "evt123" } }) }],
+      };
+      expect(extractEventId(result)).toBe("evt123");
+    });
+
+    it("should read the ID from plain-text handler output", () => {
+      const result = {
+        content: [{ type: "text", text: "Event created: Standup\nEvent ID: abc_42" }],
+      };
+      expect(extractEventId(result)).toBe("abc_42");
+    });
+
+    it("should return undefined when no ID is present", () => {
+      expect(extractEventId({ content: [{ type: "text", text: "Done" }] })).toBeUndefined();
+    });
+  });
+
+  describe("snapshotEvent", () => {
+    it("should keep unset fields as null so an undo clears them", async () => {
+      const calendarClient = {
+        events: {
+          get: jest.fn().mockResolvedValue({
+            data: { id: "evt1", summary: "Standup", location: null },
+          }),
+        },
+      };
+
+      const snapshot = await snapshotEvent(
+        calendarClient as never,
+        "primary",
+        "evt1"
+      );
+
+      expect(snapshot).toMatchObject({
+        summary: "Standup",
+        location: null,
+        description: null,
+      });
+      expect(snapshot).not.toHaveProperty("id");
+    });
+  });
+
+  describe("undoAgentAction", () => {
+    const action = {
+      _id: new ObjectId(),
+      userId: "user-1",
+      sessionId: "run-1",
+      toolCallId: "call-1",
+      toolName: "insert_google_task",
+      description: 'Create task "Buy milk"',
+      inverse: { type: "delete_task", tasklistId: "list-1", taskId: "task-1" },
+      status: "undone",
+      createdAt: new Date(),
+    };
+
+    it("should replay the inverse of the latest applied action", async () => {
+      mockCollection.findOneAndUpdate.mockResolvedValue(action);
+
+      const undone = await undoAgentAction("user-1", "access-token");
+
+      expect(undone).toBe(action);
+      expect(mockCollection.findOneAndUpdate.mock.calls[0][0]).toEqual({
+        userId: "user-1",
+        status: "applied",
+      });
+      expect(mockTasks.tasks.delete).toHaveBeenCalledWith({
+        tasklist: "list-1",
+        task: "task-1",
+      });
+      expect(logToolCall).toHaveBeenCalledWith(
+        "run-1",
+        "call-1",
+        expect.objectContaining({ undoneAt: expect.any(Date) })
+      );
+    });
+
+    it("should recreate a deleted task with its subtasks", async () => {
+      mockCollection.findOneAndUpdate.mockResolvedValue({
+        ...action,
+        inverse: {
+          type: "restore_task",
+          tasklistId: "list-1",
+          task: {
+            title: "Plan trip",
+            subtasks: [{ title: "Book flights" }, { title: "Book hotel" }],
+          },
+        },
+      });
+
+      await undoAgentAction("user-1", "access-token");
+
+      const inserts = mockTasks.tasks.insert.mock.calls.map(([params]) => ({
+        parent: params.parent,
+        title: params.requestBody.title,
+      }));
+      expect(inserts).toEqual([
+        { parent: undefined, title: "Plan trip" },
+        { parent: "task-new", title: "Book hotel" },
+        { parent: "task-new", title: "Book flights" },
+      ]);
+    });
+
+    it("should only consider actions the given scopes may reverse", async () => {
+      mockCollection.findOneAndUpdate.mockResolvedValue(null);
+
+      const undone = await undoAgentAction("user-1", "access-token", {
+        scopes: ["calendar:write"],
+      });
+
+      expect(undone).toBeNull();
+      expect(mockCollection.findOneAndUpdate.mock.calls[0][0]["inverse.type"]).toEqual({
+        $in: ["delete_event", "restore_event", "patch_event"],
+      });
+    });
+
+    it("should mark the action as failed when Google rejects the inverse", async () => {
+      mockCollection.findOneAndUpdate.mockResolvedValue(action);
+      mockTasks.tasks.delete.mockRejectedValue(new Error("Not Found"));
+
+      await expect(undoAgentAction("user-1", "access-token")).rejects.toThrow(
+        "Not Found"
+      );
+      expect(mockCollection.updateOne).toHaveBeenCalledWith(
+        { _id: action._id },
+        { $set: { status: "undo_failed", error: "Not Found" }, $unset: { undoneAt: "" } }
+      );
+      expect(logToolCall).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,108 @@
+import { ObjectId } from "mongodb";
+
+import {
+  APPROVAL_EXPIRED_MESSAGE,
+  claimPendingApproval,
+  DESTRUCTIVE_TOOLS,
+  expirePendingApprovals,
+  PendingApproval,
+} from "@/lib/approvals";
+import { getMongoClient } from "@/lib/db";
+import { updateWorkflowRun } from "@/lib/workflow-runs";
+
+jest.mock("@/lib/db");
+jest.mock("@/lib/workflow-runs", () => ({
+  updateWorkflowRun: jest.fn().mockResolvedValue(undefined),
+}));
+
+describe("Approvals", () => {
+  const now = new Date("2025-03-05T12:00:00Z");
+  let approvals: Record<string, jest.Mock>;
+
+  const approval = (sessionId: string): PendingApproval => ({
+    _id: new ObjectId(),
+    userId: "user-1",
+    sessionId,
+    status: "pending",
+    actions: [{ toolName: "delete-event" }],
+    runState: "{}",
+    source: "telegram",
+    usageTaskType: "workflow",
+    model: "gpt-5-mini",
+    createdAt: new Date("2025-03-05T11:00:00Z"),
+    expiresAt: new Date("2025-03-05T11:30:00Z"),
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers().setSystemTime(now);
+    approvals = {
+      createIndex: jest.fn().mockResolvedValue(undefined),
+      find: jest.fn(),
+      findOneAndUpdate: jest.fn(),
+    };
+    (getMongoClient as jest.Mock).mockResolvedValue({
+      db: () => ({ collection: () => approvals }),
+    });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("asks before tools that complete, roll back or undo changes", () => {
+    expect(DESTRUCTIVE_TOOLS).toEqual(
+      expect.arrayContaining([
+        "rollback_user_context",
+        "undo_last_action",
+        "complete_google_task",
+      ])
+    );
+  });
+
+  it("only claims a pending approval that has not timed out", async () => {
+    const approvalId = new ObjectId();
+    approvals.findOneAndUpdate.mockResolvedValue(null);
+
+    await expect(
+      claimPendingApproval("user-1", approvalId.toString(), "approve")
+    ).resolves.toBeNull();
+    expect(approvals.findOneAndUpdate).toHaveBeenCalledWith(
+      {
+        _id: approvalId,
+        userId: "user-1",
+        status: "pending",
+        expiresAt: { $gt: now },
+      },
+      { $set: { status: "approved", resolvedAt: now } },
+      { returnDocument: "after" }
+    );
+  });
+
+  it("finishes the workflow run of an expired approval", async () => {
+    const expired = approval("run-1");
+    const decided = approval("run-2");
+    approvals.find.mockReturnValue({
+      toArray: jest.fn().mockResolvedValue([expired, decided]),
+    });
+    // run-2 was approved between the lookup and the expiry
+    approvals.findOneAndUpdate.mockImplementation(async ({ _id }) =>
+      _id === expired._id ? { ...expired, status: "expired" } : null
+    );
+
+    const result = await expirePendingApprovals("user-1");
+
+    expect(approvals.find).toHaveBeenCalledWith({
+      userId: "user-1",
+      status: "pending",
+      expiresAt: { $lte: now },
+    });
+    expect(result.map((item) => item.sessionId)).toEqual(["run-1"]);
+    expect(updateWorkflowRun).toHaveBeenCalledTimes(1);
+    expect(updateWorkflowRun).toHaveBeenCalledWith("run-1", {
+      status: "completed",
+      assistantMessage: APPROVAL_EXPIRED_MESSAGE,
+      completedAt: now,
+    });
+  });
+});
@@ -0,0 +1,115 @@
+import { NextRequest } from "next/server";
+
+import { POST } from "@/app/api/context/route";
+import { auth } from "@/auth";
+import { getMongoClient } from "@/lib/db";
+import { TestFactory } from "@/lib/testing/factories";
+
+jest.mock("@/auth", () => ({ auth: jest.fn() }));
+jest.mock("@/lib/telegram/auth", () => ({ verifySessionToken: jest.fn() }));
+jest.mock("@/lib/db");
+jest.mock("@/lib/scheduled-tasks", () => ({
+  scheduleContextPrune: jest.fn().mockResolvedValue(undefined),
+}));
+jest.mock("@/lib/mcp-resources", () => ({
+  emitResourceUpdated: jest.fn(),
+  MCP_RESOURCE_URIS: { context: "context://user" },
+}));
+
+const post = (body: unknown) =>
+  POST(
+    new NextRequest("http://localhost/api/context", {
+      method: "POST",
+      body: JSON.stringify(body),
+    })
+  );
+
+describe("Context API", () => {
+  const current = { ...TestFactory.createUserContext(), version: 2 };
+  let contexts: Record<string, jest.Mock>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (auth as jest.Mock).mockResolvedValue({ user: { id: current.userId } });
+    contexts = {
+      createIndex: jest.fn().mockResolvedValue(undefined),
+      findOne: jest.fn().mockResolvedValue(current),
+      findOneAndUpdate: jest.fn().mockResolvedValue({
+        ...current,
+        version: 3,
+        updatedAt: new Date(),
+      }),
+    };
+    const history = {
+      createIndex: jest.fn().mockResolvedValue(undefined),
+      insertOne: jest.fn().mockResolvedValue(undefined),
+      deleteOne: jest.fn().mockResolvedValue(undefined),
+    };
+    (getMongoClient as jest.Mock).mockResolvedValue({
+      db: () => ({
+        collection: (name: string) =>
+          name === "user_context_history" ? history : contexts,
+      }),
+    });
+  });
+
+  it("sets a value at the joined path", async () => {
+    const response = await post({
+      action: "set",
+      segments: ["profile", "timezone"],
+      value: "Europe/Helsinki",
+    });
+
+    expect(response.status).toBe(200);
+    expect(contexts.findOneAndUpdate.mock.calls[0][1].$set).toMatchObject({
+      "data.profile.timezone": "Europe/Helsinki",
+    });
+  });
+
+  it.each([
+    ["a segment containing a dot", ["profile", "time.zone"]],
+    ["an empty segment", ["profile", ""]],
+    ["an operator segment", ["$set", "name"]],
+  ])("rejects %s", async (_, segments) => {
+    const response = await post({ action: "set", segments, value: "x" });
+
+    expect(response.status).toBe(422);
+    expect(contexts.findOneAndUpdate).not.toHaveBeenCalled();
+  });
+
+  it("refuses to delete a whole section", async () => {
+    const response = await post({ action: "delete", segments: ["projects"] });
+
+    expect(response.status).toBe(422);
+    expect(contexts.findOneAndUpdate).not.toHaveBeenCalled();
+  });
+
+  it("returns 409 with the current context for a stale expectedUpdatedAt", async () => {
+    const response = await post({
+      action: "delete",
+      segments: ["projects", "project-beta"],
+      expectedUpdatedAt: new Date(
+        current.updatedAt.getTime() - 60 * 1000
+      ).toISOString(),
+    });
+
+    expect(response.status).toBe(409);
+    const body = await response.json();
+    expect(body.metadata).toMatchObject({
+      updatedAt: current.updatedAt.toISOString(),
+      version: 2,
+    });
+    expect(contexts.findOneAndUpdate).not.toHaveBeenCalled();
+  });
+
+  it("returns 422 instead of filing a value that doesn't fit under unsorted", async () => {
+    const response = await post({
+      action: "set",
+      segments: ["projects", "launch"],
+      value: { name: "Launch", status: "someday" },
+    });
+
+    expect(response.status).toBe(422);
+    expect(contexts.findOneAndUpdate).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,147 @@
+import type { StoredMessage } from "@/lib/conversations";
+import {
+  historyTokenBudgetFor,
+  selectConversationHistory,
+} from "@/lib/conversation-history";
+import { MODELS } from "@/lib/utils";
+
+jest.mock("@/lib/conversations", () => ({
+  getRecentMessages: jest.fn(),
+}));
+jest.mock("@/lib/openai", () => ({
+  OpenAIAgent: jest.fn(),
+  runOpenAIAgent: jest.fn(),
+}));
+
+let minute = 0;
+const message = (
+  role: StoredMessage["role"],
+  content: string,
+  extra: Partial<StoredMessage> = {}
+): StoredMessage => {
+  const createdAt = new Date(Date.UTC(2025, 0, 1, 9, minute++));
+  return {
+    userId: "user-1",
+    role,
+    content,
+    type: "text",
+    createdAt,
+    updatedAt: createdAt,
+    ...extra,
+  };
+};
+
+// Item content is a string for user/system items and output_text parts for assistant ones
+const textOf = (item: unknown) => {
+  const content = (item as { content: string | { text: string }[] }).content;
+  return typeof content === "string"
+    ? content
+    : content.map((part) => part.text).join("");
+};
+
+describe("Conversation history", () => {
+  beforeEach(() => {
+    minute = 0;
+  });
+
+  it("gives budget models a smaller window", () => {
+    expect(historyTokenBudgetFor(MODELS.textBudget)).toBeLessThan(
+      historyTokenBudgetFor(MODELS.text)
+    );
+    expect(historyTokenBudgetFor("unknown-model")).toBe(
+      historyTokenBudgetFor(MODELS.text)
+    );
+  });
+
+  it("fills the token budget from the newest message back", () => {
+    const messages = Array.from({ length: 20 }, (_, i) =>
+      message(i % 2 ? "assistant" : "user", `${i} ${"x".repeat(400)}`)
+    );
+
+    const history = selectConversationHistory(messages, { tokenBudget: 500 });
+
+    expect(history.tokens).toBeLessThanOrEqual(500);
+    expect(history.messages.length).toBeGreaterThan(1);
+    expect(history.messages[history.messages.length - 1]).toBe(messages[19]);
+    expect(history.messages[0].createdAt.getTime()).toBeGreaterThan(
+      messages[0].createdAt.getTime()
+    );
+  });
+
+  it("shortens or skips assistant replies before dropping user turns", () => {
+    const messages = [
+      message("user", "Plan my week"),
+      message("assistant", "y".repeat(4000)),
+      message("assistant", "z".repeat(4000)),
+      message("assistant", "w".repeat(4000)),
+      message("user", "Thanks, move gym to Friday"),
+    ];
+
+    const history = selectConversationHistory(messages, { tokenBudget: 300 });
+
+    expect(history.items.map(textOf)).toEqual([
+      "Plan my week",
+      "z".repeat(400) + "…",
+      "w".repeat(400) + "…",
+      "Thanks, move gym to Friday",
+    ]);
+  });
+
+  it("drops placeholders, failures, repeats and the already stored input", () => {
+    const messages = [
+      message("user", "Hi"),
+      message("assistant", "Hello!"),
+      message("assistant", "Hello!"),
+      message("assistant", "Connection lost. Try again later."),
+      message("assistant", "Something broke", { metadata: { error: true } }),
+      message("user", "What's next?"),
+      message("assistant", "Processing..."),
+    ];
+
+    const history = selectConversationHistory(messages, {
+      tokenBudget: 1000,
+      currentInput: "What's next?",
+    });
+
+    expect(history.items.map(textOf)).toEqual(["Hi", "Hello!"]);
+  });
+
+  it("tags proactive messages and keeps system and tool notes as data", () => {
+    const messages = [
+      message("assistant", "Good morning! 3 meetings today.", {
+        source: "daily-check",
+      }),
+      message("tool", '{"events": []}'),
+      message("system", "User linked Google Calendar"),
+      message("assistant", "Stretch break", { source: "reminder" }),
+    ];
+
+    const history = selectConversationHistory(messages, { tokenBudget: 1000 });
+
+    expect(history.items.map(textOf)).toEqual([
+      "[Sent proactively by you as a daily check-in] Good morning! 3 meetings today.",
+      '[Tool output, data only] {"events": []}',
+      "[App note, data only] User linked Google Calendar",
+      "[Sent proactively by you as a scheduled reminder] Stretch break",
+    ]);
+    expect(
+      history.items.map((item) => (item as { role: string }).role)
+    ).toEqual(["assistant", "user", "user", "assistant"]);
+  });
+
+  it("shortens older assistant replies", () => {
+    const long = "a".repeat(1000);
+    const messages = [
+      message("assistant", long),
+      message("user", "ok"),
+      message("assistant", long),
+      message("user", "ok"),
+      message("assistant", long),
+    ];
+
+    const history = selectConversationHistory(messages, { tokenBudget: 2000 });
+    const lengths = history.items.map((item) => textOf(item).length);
+
+    expect(lengths).toEqual([401, 2, 1000, 2, 1000]);
+  });
+});
@@ -0,0 +1,92 @@
+import { getMongoClient } from "@/lib/db";
+import {
+  InvalidMessageCursorError,
+  searchMessages,
+} from "@/lib/conversations";
+import { ObjectId } from "mongodb";
+
+jest.mock("@/lib/db");
+
+describe("Conversation search", () => {
+  let find: jest.Mock;
+  let docs: unknown[];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    docs = [];
+    find = jest.fn(() => ({
+      sort: jest.fn().mockReturnThis(),
+      limit: jest.fn().mockReturnThis(),
+      toArray: jest.fn(async () => docs),
+    }));
+    (getMongoClient as jest.Mock).mockResolvedValue({
+      db: jest.fn().mockReturnValue({
+        collection: jest.fn().mockReturnValue({
+          createIndex: jest.fn().mockResolvedValue(undefined),
+          find,
+        }),
+      }),
+    });
+  });
+
+  const message = (minutesAgo: number) => ({
+    _id: new ObjectId(),
+    userId: "user-1",
+    role: "user",
+    content: "dentist",
+    createdAt: new Date(Date.now() - minutesAgo * 60_000),
+  });
+
+  it("should combine text, date, role and source filters", async () => {
+    const from = new Date("2025-02-01T00:00:00Z");
+    const to = new Date("2025-02-28T23:59:59Z");
+
+    await searchMessages("user-1", {
+      query: " dentist ",
+      from,
+      to,
+      roles: ["user"],
+      sources: ["telegram-user"],
+    });
+
+    expect(find).toHaveBeenCalledWith({
+      userId: "user-1",
+      $text: { $search: "dentist" },
+      createdAt: { $gte: from, $lte: to },
+      role: { $in: ["user"] },
+      source: { $in: ["telegram-user"] },
+    });
+  });
+
+  it("should page with a cursor pointing at the last returned message", async () => {
+    docs = [message(1), message(2), message(3)];
+
+    const firstPage = await searchMessages("user-1", { limit: 2 });
+    expect(firstPage.messages).toHaveLength(2);
+    expect(firstPage.nextCursor).not.toBeNull();
+
+    docs = [];
+    await searchMessages("user-1", { limit: 2, cursor: firstPage.nextCursor! });
+    const last = firstPage.messages[1];
+    expect(find.mock.calls[1][0].$and).toEqual([
+      {
+        $or: [
+          { createdAt: { $lt: last.createdAt } },
+          { createdAt: last.createdAt, _id: { $lt: last._id } },
+        ],
+      },
+    ]);
+  });
+
+  it("should return no cursor on the last page", async () => {
+    docs = [message(1)];
+    const { nextCursor } = await searchMessages("user-1", { limit: 2 });
+    expect(nextCursor).toBeNull();
+  });
+
+  it("should reject malformed cursors", async () => {
+    await expect(
+      searchMessages("user-1", { cursor: "not-a-cursor" })
+    ).rejects.toBeInstanceOf(InvalidMessageCursorError);
+  });
+});
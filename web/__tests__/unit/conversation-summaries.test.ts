@@ -0,0 +1,125 @@
+import { getMongoClient } from "@/lib/db";
+import { getMessagesOutsideWindow } from "@/lib/conversations";
+import { runOpenAIAgent } from "@/lib/openai";
+import { logUsage } from "@/lib/usage-tracking";
+import {
+  ConversationSummary,
+  getRelevantSummaries,
+  summarizeOlderMessages,
+} from "@/lib/conversation-summaries";
+
+jest.mock("@/lib/db");
+jest.mock("@/lib/conversations", () => ({
+  getMessagesOutsideWindow: jest.fn(),
+}));
+jest.mock("@/lib/openai", () => ({
+  OpenAIAgent: jest.fn(),
+  runOpenAIAgent: jest.fn(),
+}));
+jest.mock("@/lib/usage-tracking", () => ({
+  calculateCost: jest.fn(() => ({ inputCost: 0, outputCost: 0, totalCost: 0 })),
+  logUsage: jest.fn(),
+}));
+
+const cursor = (docs: unknown[]) => ({
+  sort: jest.fn().mockReturnThis(),
+  limit: jest.fn().mockReturnThis(),
+  toArray: jest.fn().mockResolvedValue(docs),
+});
+
+describe("Conversation summaries", () => {
+  let summaries: Record<string, jest.Mock>;
+  let state: Record<string, jest.Mock>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    summaries = {
+      createIndex: jest.fn().mockResolvedValue(undefined),
+      find: jest.fn(),
+      findOne: jest.fn().mockResolvedValue(null),
+      updateOne: jest.fn().mockResolvedValue(undefined),
+    };
+    state = {
+      createIndex: jest.fn().mockResolvedValue(undefined),
+      updateOne: jest.fn().mockResolvedValue(undefined),
+      findOneAndUpdate: jest.fn().mockResolvedValue({ userId: "user-1" }),
+    };
+    (getMongoClient as jest.Mock).mockResolvedValue({
+      db: jest.fn().mockReturnValue({
+        collection: jest.fn((name: string) =>
+          name === "conversation_summary_state" ? state : summaries
+        ),
+      }),
+    });
+  });
+
+  const summary = (day: string, words: number): ConversationSummary => ({
+    userId: "user-1",
+    day,
+    summary: "word ".repeat(words).trim(),
+    messageCount: 4,
+    firstMessageAt: new Date(`${day}T08:00:00Z`),
+    lastMessageAt: new Date(`${day}T20:00:00Z`),
+    model: "test",
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
+
+  it("should summarize each day separately and advance the watermark", async () => {
+    (getMessagesOutsideWindow as jest.Mock).mockResolvedValue([
+      { userId: "user-1", role: "user", content: "Dentist on Friday", createdAt: new Date("2025-03-01T09:00:00Z") },
+      { userId: "user-1", role: "assistant", content: "Noted", createdAt: new Date("2025-03-01T09:01:00Z") },
+      { userId: "user-1", role: "user", content: "Moved to Monday", createdAt: new Date("2025-03-02T10:00:00Z") },
+    ]);
+    (runOpenAIAgent as jest.Mock).mockResolvedValue({
+      finalOutput: "Summary.",
+      state: { _context: { usage: { inputTokens: 300, outputTokens: 40 } } },
+    });
+
+    const count = await summarizeOlderMessages("user-1");
+
+    expect(count).toBe(3);
+    expect(summaries.updateOne.mock.calls.map(([filter]) => filter.day)).toEqual([
+      "2025-03-01",
+      "2025-03-02",
+    ]);
+    expect(state.updateOne).toHaveBeenLastCalledWith(
+      { userId: "user-1" },
+      {
+        $set: { summarizedUntil: new Date("2025-03-02T10:00:00Z") },
+        $unset: { lockedUntil: "" },
+      }
+    );
+    expect(logUsage).toHaveBeenCalledTimes(1);
+    expect(logUsage).toHaveBeenCalledWith(
+      expect.objectContaining({
+        userId: "user-1",
+        taskType: "conversation_summary",
+        inputTokens: 600,
+        outputTokens: 80,
+        success: true,
+      })
+    );
+  });
+
+  it("should skip the pass when another one holds the lock", async () => {
+    state.findOneAndUpdate.mockResolvedValue(null);
+
+    expect(await summarizeOlderMessages("user-1")).toBe(0);
+    expect(getMessagesOutsideWindow).not.toHaveBeenCalled();
+    expect(logUsage).not.toHaveBeenCalled();
+  });
+
+  it("should fit summaries into the token budget in chronological order", async () => {
+    summaries.find.mockReturnValue(
+      cursor([summary("2025-03-03", 40), summary("2025-03-02", 400), summary("2025-03-01", 40)])
+    );
+
+    const selected = await getRelevantSummaries("user-1", {
+      before: new Date("2025-03-04T00:00:00Z"),
+      tokenBudget: 150,
+    });
+
+    expect(selected.map((s) => s.day)).toEqual(["2025-03-01", "2025-03-03"]);
+  });
+});
@@ -0,0 +1,104 @@
+import { getMongoClient } from "@/lib/db";
+import { nextOccurrence } from "@/lib/recurrence";
+import { dailySchedule, rescheduleDailyChecks } from "@/lib/scheduled-tasks";
+
+jest.mock("@/lib/db");
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe("Daily check timezones", () => {
+  let tasks: Record<string, jest.Mock>;
+
+  beforeEach(() => {
+    jest.useFakeTimers().setSystemTime(new Date("2025-03-05T12:00:00Z"));
+    tasks = {
+      createIndex: jest.fn().mockResolvedValue(undefined),
+      find: jest.fn(),
+      updateOne: jest.fn().mockResolvedValue(undefined),
+    };
+    (getMongoClient as jest.Mock).mockResolvedValue({
+      db: jest.fn().mockReturnValue({
+        collection: jest.fn().mockReturnValue(tasks),
+      }),
+    });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const givenTasks = (...docs: Record<string, unknown>[]) =>
+    tasks.find.mockReturnValue({ toArray: jest.fn().mockResolvedValue(docs) });
+
+  it("keeps a daily check at its local time across DST", () => {
+    const schedule = dailySchedule(8, 30, "Europe/Berlin");
+
+    // The clocks go forward on 30 March
+    expect(nextOccurrence(schedule, new Date("2025-03-29T12:00:00Z"))).toEqual(
+      new Date("2025-03-30T06:30:00Z")
+    );
+    expect(nextOccurrence(schedule, new Date("2025-03-28T12:00:00Z"))).toEqual(
+      new Date("2025-03-29T07:30:00Z")
+    );
+  });
+
+  it("turns a UTC-hour daily check into a local daily schedule", async () => {
+    givenTasks({
+      _id: "task-1",
+      taskType: "daily_check",
+      nextRunAt: new Date("2025-03-06T08:00:00Z"),
+      intervalMs: DAY_MS,
+      payload: { timezone: "Europe/Berlin", hour: 8 },
+    });
+
+    await rescheduleDailyChecks("user-1", "Europe/Berlin");
+
+    expect(tasks.updateOne).toHaveBeenCalledWith(
+      { _id: "task-1" },
+      {
+        $set: expect.objectContaining({
+          schedule: expect.objectContaining({
+            kind: "rrule",
+            rule: "FREQ=DAILY;BYHOUR=9;BYMINUTE=0",
+            timezone: "Europe/Berlin",
+          }),
+          payload: { interval: "daily", time: "09:00" },
+          nextRunAt: new Date("2025-03-06T08:00:00Z"),
+        }),
+        $unset: { intervalMs: "" },
+      }
+    );
+  });
+
+  it("moves scheduled checks to the new zone and leaves short intervals", async () => {
+    givenTasks(
+      {
+        _id: "task-1",
+        taskType: "daily_check",
+        nextRunAt: new Date("2025-03-06T08:00:00Z"),
+        schedule: dailySchedule(9, 0, "Europe/Berlin"),
+        payload: { interval: "daily", time: "09:00" },
+      },
+      {
+        _id: "task-2",
+        taskType: "daily_check",
+        nextRunAt: new Date("2025-03-05T13:00:00Z"),
+        intervalMs: 60 * 60 * 1000,
+      }
+    );
+
+    await rescheduleDailyChecks("user-1", "America/New_York");
+
+    expect(tasks.updateOne).toHaveBeenCalledTimes(1);
+    expect(tasks.updateOne).toHaveBeenCalledWith(
+      { _id: "task-1" },
+      expect.objectContaining({
+        $set: expect.objectContaining({
+          schedule: expect.objectContaining({ timezone: "America/New_York" }),
+          // 09:00 in New York, still on standard time
+          nextRunAt: new Date("2025-03-05T14:00:00Z"),
+        }),
+      })
+    );
+  });
+});
@@ -0,0 +1,135 @@
+import {
+  instrumentTool,
+  McpToolError,
+  toStoredToolResult,
+} from "@/lib/mcp-instrumentation";
+import { logToolCall } from "@/lib/workflow-runs";
+import { consumeRateLimit } from "@/lib/rate-limit";
+
+jest.mock("@/lib/workflow-runs", () => ({
+  logToolCall: jest.fn().mockResolvedValue(undefined),
+  getDefaultToolDisplayInfo: jest.fn((toolName: string) => ({
+    displayTitle: toolName,
+    displayDescription: "",
+  })),
+}));
+
+jest.mock("@/lib/rate-limit", () => ({
+  consumeRateLimit: jest.fn().mockResolvedValue({ allowed: true }),
+}));
+
+const authInfo = (scopes: string[], clientId = "user-1") => ({
+  token: "token",
+  clientId,
+  scopes,
+  extra: { workflowRunId: "run-1" },
+});
+
+describe("MCP tool instrumentation", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("should record result and duration on success", async () => {
+    const tool = instrumentTool(
+      "get_user_context",
+      ["read:user-context"],
+      async () => ({ name: "Ada", accessToken: "secret" })
+    );
+
+    const response = await tool({}, { authInfo: authInfo(["read:user-context"]) });
+
+    expect(response.isError).toBeUndefined();
+    expect(JSON.parse(response.content[0].text as string)).toEqual({
+      name: "Ada",
+      accessToken: "secret",
+    });
+
+    const successLog = (logToolCall as jest.Mock).mock.calls[1][2];
+    expect(successLog.status).toBe("success");
+    expect(successLog.result).toEqual({ name: "Ada", accessToken: "[REDACTED]" });
+    expect(typeof successLog.duration).toBe("number");
+  });
+
+  it("should return SCOPE_DENIED without running the handler", async () => {
+    const handler = jest.fn();
+    const tool = instrumentTool("update_user_context", ["write:user-context"], handler);
+
+    const response = await tool({}, { authInfo: authInfo(["read:user-context"]) });
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(response.isError).toBe(true);
+    expect(JSON.parse(response.content[0].text as string).error.code).toBe(
+      "SCOPE_DENIED"
+    );
+    expect((logToolCall as jest.Mock).mock.calls[1][2].errorCode).toBe(
+      "SCOPE_DENIED"
+    );
+  });
+
+  it("should return NO_USER when the token has no client id", async () => {
+    const tool = instrumentTool("get_user_context", [], jest.fn());
+    const response = await tool({}, { authInfo: authInfo([], "") });
+    expect(JSON.parse(response.content[0].text as string).error.code).toBe(
+      "NO_USER"
+    );
+  });
+
+  it("should map Google API failures to UPSTREAM_GOOGLE", async () => {
+    const tool = instrumentTool("get_google_tasks", [], async () => {
+      throw Object.assign(new Error("Invalid Credentials"), {
+        config: { url: "https://tasks.googleapis.com/tasks/v1/users/@me/lists" },
+      });
+    });
+    const response = await tool({}, { authInfo: authInfo([]) });
+    expect(JSON.parse(response.content[0].text as string).error).toEqual({
+      code: "UPSTREAM_GOOGLE",
+      message: "Invalid Credentials",
+    });
+  });
+
+  it("should pass through typed handler errors", async () => {
+    const tool = instrumentTool("update_user_context", [], async () => {
+      throw new McpToolError("INVALID_INPUT", "No updates or deletes provided");
+    });
+    const response = await tool({}, { authInfo: authInfo([]) });
+    expect(JSON.parse(response.content[0].text as string).error.code).toBe(
+      "INVALID_INPUT"
+    );
+  });
+
+  it("should return RATE_LIMITED without running the handler", async () => {
+    (consumeRateLimit as jest.Mock).mockResolvedValueOnce({
+      allowed: false,
+      key: "user-1:mcp:create-event",
+      limit: 10,
+      windowMs: 600000,
+      retryAfterMs: 42000,
+    });
+    const handler = jest.fn();
+    const tool = instrumentTool("create-event", ["calendar:write"], handler);
+
+    const response = await tool({}, { authInfo: authInfo(["calendar:write"]) });
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(consumeRateLimit).toHaveBeenCalledWith("user-1", {
+      kind: "mcp_tool",
+      toolName: "create-event",
+      write: true,
+    });
+    expect(JSON.parse(response.content[0].text as string).error.code).toBe(
+      "RATE_LIMITED"
+    );
+  });
+
+  it("should cap large stored results", () => {
+    const stored = toStoredToolResult("x".repeat(10000)) as {
+      truncated: boolean;
+      size: number;
+      preview: string;
+    };
+    expect(stored.truncated).toBe(true);
+    expect(stored.size).toBe(10000);
+    expect(stored.preview.length).toBeLessThan(10000);
+  });
+});
@@ -0,0 +1,200 @@
+import { createHash } from "crypto";
+
+import { getMongoClient } from "@/lib/db";
+import {
+  consumeAuthorizationCode,
+  createAuthorizationCode,
+  createRefreshToken,
+  OAuthClient,
+  OAuthError,
+  registerOAuthClient,
+  rotateRefreshToken,
+  validateAuthorizationRequest,
+} from "@/lib/mcp-oauth";
+
+jest.mock("jose", () => ({
+  SignJWT: jest.fn(),
+  jwtVerify: jest.fn(),
+}));
+jest.mock("@/lib/db");
+jest.mock("@/env", () => ({ env: {} }));
+
+type Doc = Record<string, unknown>;
+type Condition = { $exists?: boolean; $gt?: Date };
+
+// Enough of a collection for equality, $exists and $gt filters
+function fakeCollection() {
+  const docs: Doc[] = [];
+  const matches = (doc: Doc, filter: Doc) =>
+    Object.entries(filter).every(([key, value]) => {
+      const condition = value as Condition;
+      if (condition?.$exists !== undefined) {
+        return (doc[key] !== undefined) === condition.$exists;
+      }
+      if (condition?.$gt !== undefined) {
+        return (doc[key] as Date) > condition.$gt;
+      }
+      return doc[key] === value;
+    });
+  return {
+    docs,
+    createIndex: jest.fn().mockResolvedValue(undefined),
+    insertOne: jest.fn(async (doc: Doc) => {
+      docs.push({ ...doc });
+      return { insertedId: docs.length };
+    }),
+    findOne: jest.fn(
+      async (filter: Doc) => docs.find((doc) => matches(doc, filter)) ?? null
+    ),
+    findOneAndUpdate: jest.fn(async (filter: Doc, update: Doc) => {
+      const doc = docs.find((candidate) => matches(candidate, filter));
+      return doc ? Object.assign(doc, update.$set as Doc) : null;
+    }),
+  };
+}
+
+const challengeFor = (verifier: string) =>
+  createHash("sha256").update(verifier).digest("base64url");
+
+describe("MCP OAuth server", () => {
+  const redirectUri = "https://client.example/callback";
+  const verifier = "a-long-random-code-verifier-from-the-client";
+  let collections: Record<string, ReturnType<typeof fakeCollection>>;
+  let client: OAuthClient;
+
+  const expectOAuthError = async (promise: Promise<unknown>, code: string) => {
+    const error = await promise.catch((caught: OAuthError) => caught);
+    expect(error).toBeInstanceOf(OAuthError);
+    expect((error as OAuthError).error).toBe(code);
+    return error as OAuthError;
+  };
+
+  beforeEach(async () => {
+    collections = {};
+    (getMongoClient as jest.Mock).mockResolvedValue({
+      db: () => ({
+        collection: (name: string) => (collections[name] ??= fakeCollection()),
+      }),
+    });
+    ({ client } = await registerOAuthClient({ redirectUris: [redirectUri] }));
+  });
+
+  const issueCode = () =>
+    createAuthorizationCode({
+      clientId: client.clientId,
+      userId: "user-1",
+      redirectUri,
+      codeChallenge: challengeFor(verifier),
+      scopes: ["read:user-context"],
+    });
+
+  describe("authorization requests", () => {
+    const request = {
+      response_type: "code",
+      code_challenge: challengeFor(verifier),
+      code_challenge_method: "S256",
+      state: "xyz",
+    };
+
+    it("only accepts a registered redirect_uri and shows that error to the user", async () => {
+      const error = await expectOAuthError(
+        validateAuthorizationRequest({
+          ...request,
+          client_id: client.clientId,
+          redirect_uri: "https://evil.example/callback",
+        }),
+        "invalid_redirect_uri"
+      );
+      expect(error.redirectTo).toBeUndefined();
+
+      await expect(
+        validateAuthorizationRequest({ ...request, client_id: client.clientId })
+      ).resolves.toMatchObject({ redirectUri, state: "xyz" });
+    });
+
+    it("requires an S256 PKCE challenge and reports it to the client", async () => {
+      const error = await expectOAuthError(
+        validateAuthorizationRequest({
+          ...request,
+          client_id: client.clientId,
+          redirect_uri: redirectUri,
+          code_challenge_method: "plain",
+        }),
+        "invalid_request"
+      );
+
+      const redirect = new URL(error.redirectTo!);
+      expect(`${redirect.origin}${redirect.pathname}`).toBe(redirectUri);
+      expect(redirect.searchParams.get("error")).toBe("invalid_request");
+      expect(redirect.searchParams.get("state")).toBe("xyz");
+    });
+  });
+
+  describe("code exchange", () => {
+    it("rejects a wrong code_verifier", async () => {
+      const code = await issueCode();
+
+      await expectOAuthError(
+        consumeAuthorizationCode({
+          code,
+          clientId: client.clientId,
+          codeVerifier: "some-other-verifier",
+        }),
+        "invalid_grant"
+      );
+    });
+
+    it("rejects a redirect_uri that differs from the authorization request", async () => {
+      const code = await issueCode();
+
+      await expectOAuthError(
+        consumeAuthorizationCode({
+          code,
+          clientId: client.clientId,
+          redirectUri: "https://client.example/other",
+          codeVerifier: verifier,
+        }),
+        "invalid_grant"
+      );
+    });
+
+    it("accepts a code once", async () => {
+      const code = await issueCode();
+      const exchange = () =>
+        consumeAuthorizationCode({
+          code,
+          clientId: client.clientId,
+          redirectUri,
+          codeVerifier: verifier,
+        });
+
+      await expect(exchange()).resolves.toMatchObject({
+        userId: "user-1",
+        scopes: ["read:user-context"],
+      });
+      await expectOAuthError(exchange(), "invalid_grant");
+    });
+  });
+
+  it("rotates refresh tokens so each can be used only once", async () => {
+    const grant = {
+      clientId: client.clientId,
+      userId: "user-1",
+      scopes: ["read:user-context" as const],
+    };
+    const refreshToken = await createRefreshToken(grant);
+    const rotate = () =>
+      rotateRefreshToken({ refreshToken, clientId: client.clientId });
+
+    await expect(rotate()).resolves.toMatchObject(grant);
+    await expectOAuthError(rotate(), "invalid_grant");
+
+    await expectOAuthError(
+      rotateRefreshToken({
+        refreshToken: await createRefreshToken(grant),
+        clientId: "mcp_other",
+      }),
+      "invalid_grant"
+    );
+  });
+});
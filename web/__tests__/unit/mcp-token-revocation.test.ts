@@ -0,0 +1,127 @@
+import { jwtVerify } from "jose";
+
+import { getMongoClient } from "@/lib/db";
+import {
+  revokeAllMcpCredentialsForUser,
+  revokeAllMcpTokensForUser,
+  revokeMcpToken,
+  verifyMcpToken,
+} from "@/lib/mcp-auth";
+
+jest.mock("jose", () => ({ SignJWT: jest.fn(), jwtVerify: jest.fn() }));
+jest.mock("@/lib/db");
+jest.mock("@/env", () => ({
+  env: { JWT_SECRET: new TextEncoder().encode("test-secret") },
+}));
+
+describe("MCP token revocation", () => {
+  let collections: Record<string, Record<string, jest.Mock>>;
+
+  beforeEach(() => {
+    jest.useFakeTimers().setSystemTime(new Date("2025-03-05T12:00:00.750Z"));
+    collections = {};
+    (getMongoClient as jest.Mock).mockResolvedValue({
+      db: () => ({
+        collection: (name: string) =>
+          (collections[name] ??= {
+            createIndex: jest.fn().mockResolvedValue(undefined),
+            findOne: jest.fn().mockResolvedValue(null),
+            updateOne: jest.fn().mockResolvedValue(undefined),
+            updateMany: jest.fn().mockResolvedValue(undefined),
+          }),
+      }),
+    });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("cuts off the user's MCP tokens, refresh tokens and personal access tokens", async () => {
+    await revokeAllMcpCredentialsForUser("user-1", "google_unlinked");
+
+    expect(collections.mcp_token_revocations.updateOne).toHaveBeenCalledWith(
+      { userId: "user-1" },
+      {
+        $set: expect.objectContaining({
+          revokedBefore: new Date("2025-03-05T12:00:00Z"),
+          reason: "google_unlinked",
+        }),
+      },
+      { upsert: true }
+    );
+    for (const name of ["oauth_refresh_tokens", "personal_access_tokens"]) {
+      expect(collections[name].updateMany).toHaveBeenCalledWith(
+        { userId: "user-1", revokedAt: { $exists: false } },
+        { $set: { revokedAt: new Date("2025-03-05T12:00:00.750Z") } }
+      );
+    }
+  });
+
+  it("leaves refresh tokens and personal access tokens alone on logout", async () => {
+    await revokeAllMcpTokensForUser("user-1", "logout");
+
+    expect(collections.mcp_token_revocations.updateOne).toHaveBeenCalledWith(
+      { userId: "user-1" },
+      expect.anything(),
+      { upsert: true }
+    );
+    expect(collections.oauth_refresh_tokens).toBeUndefined();
+    expect(collections.personal_access_tokens).toBeUndefined();
+  });
+
+  it("revokes a single token while its siblings stay valid", async () => {
+    const issuedAt = Date.parse("2025-03-05T11:30:00Z") / 1000;
+    await revokeMcpToken("jti-1", issuedAt + 3600, "leaked");
+    expect(collections.mcp_token_revocations.updateOne).toHaveBeenCalledWith(
+      { jti: "jti-1" },
+      {
+        $set: {
+          reason: "leaked",
+          expiresAt: new Date("2025-03-05T12:30:00Z"),
+        },
+      },
+      { upsert: true }
+    );
+    collections.mcp_token_revocations.findOne.mockImplementation(
+      async (filter: { $or: [{ jti: string }] }) =>
+        filter.$or[0].jti === "jti-1" ? { jti: "jti-1" } : null
+    );
+
+    for (const jti of ["jti-1", "jti-2"]) {
+      (jwtVerify as jest.Mock).mockResolvedValueOnce({
+        payload: { userId: "user-1", jti, iat: issuedAt },
+      });
+    }
+
+    await expect(verifyMcpToken("leaked")).resolves.toBeNull();
+    await expect(verifyMcpToken("sibling")).resolves.toMatchObject({
+      userId: "user-1",
+      jti: "jti-2",
+    });
+  });
+
+  it("rejects tokens issued before the user's cutoff", async () => {
+    const issuedAt = Date.parse("2025-03-05T11:30:00Z") / 1000;
+    (jwtVerify as jest.Mock).mockResolvedValue({
+      payload: { userId: "user-1", jti: "jti-1", iat: issuedAt },
+    });
+
+    await expect(verifyMcpToken("token")).resolves.toMatchObject({
+      userId: "user-1",
+    });
+
+    await revokeAllMcpTokensForUser("user-1", "logout");
+    collections.mcp_token_revocations.findOne.mockResolvedValue({
+      userId: "user-1",
+    });
+
+    await expect(verifyMcpToken("token")).resolves.toBeNull();
+    expect(collections.mcp_token_revocations.findOne).toHaveBeenLastCalledWith({
+      $or: [
+        { jti: "jti-1" },
+        { userId: "user-1", revokedBefore: { $gt: new Date(issuedAt * 1000) } },
+      ],
+    });
+  });
+});
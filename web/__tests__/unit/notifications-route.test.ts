@@ -0,0 +1,72 @@
+import { NextRequest } from "next/server";
+
+import { POST } from "@/app/api/user/notifications/route";
+import { createScheduledTask } from "@/lib/scheduled-tasks";
+import { verifySessionToken } from "@/lib/telegram/auth";
+import { getUserById } from "@/lib/user";
+
+jest.mock("@/lib/telegram/auth", () => ({ verifySessionToken: jest.fn() }));
+jest.mock("@/lib/scheduled-tasks", () => ({
+  getUserTasks: jest.fn().mockResolvedValue([]),
+  deleteScheduledTask: jest.fn(),
+  createScheduledTask: jest.fn(),
+  dailySchedule: jest.fn(),
+}));
+jest.mock("@/lib/user", () => ({
+  getUserById: jest.fn(),
+  getUserTimezone: jest.fn().mockResolvedValue("Europe/Berlin"),
+  setUserTimezone: jest.fn(),
+}));
+
+const postCustom = (kind: "cron" | "rrule", pattern: string) =>
+  POST(
+    new NextRequest("http://localhost/api/user/notifications", {
+      method: "POST",
+      headers: { authorization: "Bearer token" },
+      body: JSON.stringify({
+        enabled: true,
+        interval: "custom",
+        schedule: { kind, pattern },
+      }),
+    })
+  );
+
+describe("Notification settings API", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (verifySessionToken as jest.Mock).mockResolvedValue({
+      payload: { sub: "user-1" },
+    });
+    (getUserById as jest.Mock).mockResolvedValue({ tier: "paid" });
+  });
+
+  it("accepts a custom schedule that keeps the tier's minimum gap", async () => {
+    const response = await postCustom("cron", "*/15 9-17 * * 1-5");
+
+    expect(response.status).toBe(200);
+    expect(createScheduledTask).toHaveBeenCalled();
+  });
+
+  it.each([
+    ["cron", "* * * * *"],
+    ["cron", "0,5 9 * * *"],
+    ["rrule", "FREQ=DAILY;BYHOUR=9;BYMINUTE=0,10"],
+  ] as const)(
+    "rejects %s schedules that run too often (%s)",
+    async (kind, pattern) => {
+      const response = await postCustom(kind, pattern);
+
+      expect(response.status).toBe(400);
+      expect((await response.json()).error).toMatch(/at least 15 minutes/);
+      expect(createScheduledTask).not.toHaveBeenCalled();
+    }
+  );
+
+  it("rejects schedules that never run", async () => {
+    const response = await postCustom("cron", "0 0 31 2 *");
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toBe("This schedule never runs");
+    expect(createScheduledTask).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,114 @@
+import { ObjectId } from "mongodb";
+
+import { getMongoClient } from "@/lib/db";
+import {
+  DEFAULT_QUIET_HOURS_SETTINGS,
+  nextAllowedTime,
+  QuietHoursSettings,
+  resolveDeliveryTime,
+} from "@/lib/quiet-hours";
+
+jest.mock("@/lib/db");
+jest.mock("@/lib/user", () => ({
+  getUserTimezone: jest.fn().mockResolvedValue("UTC"),
+}));
+
+const settings = (
+  fields: Partial<QuietHoursSettings> = {}
+): QuietHoursSettings => ({ ...DEFAULT_QUIET_HOURS_SETTINGS, ...fields });
+
+const next = (
+  fields: Partial<QuietHoursSettings>,
+  at: string,
+  timeZone = "UTC"
+) => nextAllowedTime(settings(fields), timeZone, new Date(at))?.toISOString();
+
+describe("Quiet hours", () => {
+  const quietHours = { start: "22:00", end: "07:00" };
+
+  it("sends right away outside any quiet window", () => {
+    expect(next({ quietHours }, "2025-03-05T12:00:00Z")).toBe(
+      "2025-03-05T12:00:00.000Z"
+    );
+  });
+
+  it("defers a 3 a.m. message to the end of overnight quiet hours", () => {
+    expect(next({ quietHours }, "2025-03-05T03:00:00Z")).toBe(
+      "2025-03-05T07:00:00.000Z"
+    );
+    // Evaluated on the user's clock: 23:30 in Berlin
+    expect(next({ quietHours }, "2025-03-05T22:30:00Z", "Europe/Berlin")).toBe(
+      "2025-03-06T06:00:00.000Z"
+    );
+  });
+
+  it("waits for working hours and skips silent weekends", () => {
+    const workingHours = { start: "09:00", end: "17:00" };
+
+    expect(next({ workingHours }, "2025-03-05T18:00:00Z")).toBe(
+      "2025-03-06T09:00:00.000Z"
+    );
+    // Friday evening to Monday morning
+    expect(
+      next({ workingHours, weekends: "silent" }, "2025-03-07T18:00:00Z")
+    ).toBe("2025-03-10T09:00:00.000Z");
+    // Weekends only keep quiet hours
+    expect(
+      next(
+        { quietHours, workingHours, weekends: "quiet_hours_only" },
+        "2025-03-07T18:00:00Z"
+      )
+    ).toBe("2025-03-08T07:00:00.000Z");
+  });
+
+  it("holds every message until a snooze ends", () => {
+    expect(
+      next(
+        { snoozedUntil: new Date("2025-03-05T15:20:00Z") },
+        "2025-03-05T12:00:00Z"
+      )
+    ).toBe("2025-03-05T15:20:00.000Z");
+    // A snooze ending in quiet hours runs on until they end
+    expect(
+      next(
+        { quietHours, snoozedUntil: new Date("2025-03-05T23:00:00Z") },
+        "2025-03-05T12:00:00Z"
+      )
+    ).toBe("2025-03-06T07:00:00.000Z");
+    // The search starts at the end of the longest snooze (a week)
+    expect(
+      next(
+        {
+          workingHours: { start: "09:00", end: "17:00" },
+          weekends: "silent",
+          snoozedUntil: new Date("2025-03-07T18:00:00Z"),
+        },
+        "2025-02-28T18:00:00Z"
+      )
+    ).toBe("2025-03-10T09:00:00.000Z");
+  });
+
+  it("keeps a snooze when the other rules allow no time at all", async () => {
+    const snoozedUntil = new Date("2025-03-05T15:00:00Z");
+    (getMongoClient as jest.Mock).mockResolvedValue({
+      db: () => ({
+        collection: () => ({
+          findOne: jest.fn().mockResolvedValue({
+            quietHours: {
+              quietHours: { start: "08:00", end: "11:00" },
+              workingHours: { start: "09:00", end: "10:00" },
+              snoozedUntil,
+            },
+          }),
+        }),
+      }),
+    });
+
+    const deliverAt = await resolveDeliveryTime(
+      new ObjectId().toHexString(),
+      new Date("2025-03-05T12:00:00Z")
+    );
+
+    expect(deliverAt).toEqual(snoozedUntil);
+  });
+});
@@ -0,0 +1,82 @@
+import { ObjectId } from "mongodb";
+
+import { getMongoClient } from "@/lib/db";
+import { consumeRateLimit, RateLimitEvent } from "@/lib/rate-limit";
+import { TIER_RATE_LIMITS } from "@/types/user";
+
+jest.mock("@/lib/db");
+jest.mock("@/lib/user", () => ({ getUserById: jest.fn() }));
+jest.mock("@/lib/usage-tracking", () => ({
+  logUsage: jest.fn().mockResolvedValue(undefined),
+}));
+
+// Every call yields first, so concurrent requests interleave like real round trips
+const tick = () => new Promise((resolve) => setImmediate(resolve));
+
+describe("Rate limiting", () => {
+  const { limit } = TIER_RATE_LIMITS.free.chat;
+  const target = { kind: "route", route: "chat" } as const;
+  let events: RateLimitEvent[];
+
+  beforeEach(() => {
+    events = [];
+    const inWindow = (filter: { key: string; createdAt: { $gt: Date } }) =>
+      events.filter(
+        (event) =>
+          event.key === filter.key && event.createdAt > filter.createdAt.$gt
+      );
+    (getMongoClient as jest.Mock).mockResolvedValue({
+      db: () => ({
+        collection: () => ({
+          createIndex: jest.fn().mockResolvedValue(undefined),
+          insertMany: jest.fn(async (docs: RateLimitEvent[]) => {
+            await tick();
+            const insertedIds = docs.map((doc) => {
+              const _id = new ObjectId();
+              events.push({ ...doc, _id });
+              return _id;
+            });
+            return { insertedIds: { ...insertedIds } };
+          }),
+          countDocuments: jest.fn(async (filter) => {
+            await tick();
+            return inWindow(filter).length;
+          }),
+          findOne: jest.fn(async (filter) => inWindow(filter)[0] ?? null),
+          deleteMany: jest.fn(async ({ _id }: { _id: { $in: ObjectId[] } }) => {
+            events = events.filter(
+              (event) => !_id.$in.some((id) => id.equals(event._id!))
+            );
+          }),
+        }),
+      }),
+    });
+  });
+
+  it("allows requests up to the limit and keeps no slot for a rejection", async () => {
+    for (let i = 0; i < limit; i++) {
+      await expect(consumeRateLimit("user-1", target)).resolves.toEqual({
+        allowed: true,
+      });
+    }
+
+    await expect(consumeRateLimit("user-1", target)).resolves.toMatchObject({
+      allowed: false,
+      key: "user-1:route:chat",
+      limit,
+    });
+    expect(events).toHaveLength(limit);
+  });
+
+  it("never lets concurrent requests past the limit", async () => {
+    const results = await Promise.all(
+      Array.from({ length: limit + 5 }, () =>
+        consumeRateLimit("user-1", target)
+      )
+    );
+
+    const allowed = results.filter((result) => result.allowed).length;
+    expect(allowed).toBeLessThanOrEqual(limit);
+    expect(events.length).toBe(allowed);
+  });
+});
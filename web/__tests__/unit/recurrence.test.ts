@@ -0,0 +1,177 @@
+import {
+  fromZonedDateTime,
+  InvalidScheduleError,
+  nextOccurrence,
+  TaskSchedule,
+  validateSchedule,
+} from "@/lib/recurrence";
+import { nextRunAfter } from "@/lib/scheduled-tasks";
+
+jest.mock("@/lib/db");
+
+const cron = (expression: string, timezone = "UTC"): TaskSchedule => ({
+  kind: "cron",
+  expression,
+  timezone,
+});
+
+const rrule = (
+  rule: string,
+  timezone = "UTC",
+  startAt = new Date("2025-01-01T00:00:00Z")
+): TaskSchedule => ({ kind: "rrule", rule, timezone, startAt });
+
+// Consecutive occurrences after `from`
+const occurrences = (schedule: TaskSchedule, from: string, count: number) => {
+  const result: string[] = [];
+  let after = new Date(from);
+  for (let i = 0; i < count; i++) {
+    const next = nextOccurrence(schedule, after);
+    if (!next) break;
+    result.push(next.toISOString());
+    after = next;
+  }
+  return result;
+};
+
+describe("Recurrence", () => {
+  it("runs a weekday cron at a local wall-clock time", () => {
+    expect(
+      occurrences(
+        cron("30 8 * * MON-FRI", "Europe/Berlin"),
+        "2025-03-07T08:00:00Z", // Friday 09:00 in Berlin
+        3
+      )
+    ).toEqual([
+      "2025-03-10T07:30:00.000Z",
+      "2025-03-11T07:30:00.000Z",
+      "2025-03-12T07:30:00.000Z",
+    ]);
+  });
+
+  it("keeps the local time across a DST change", () => {
+    expect(
+      occurrences(
+        cron("0 9 * * *", "America/New_York"),
+        "2025-03-08T15:00:00Z",
+        2
+      )
+    ).toEqual(["2025-03-09T13:00:00.000Z", "2025-03-10T13:00:00.000Z"]);
+  });
+
+  it("supports steps, lists and the day-of-month or day-of-week rule", () => {
+    expect(
+      occurrences(cron("*/20 10 * * *"), "2025-03-01T10:05:00Z", 3)
+    ).toEqual([
+      "2025-03-01T10:20:00.000Z",
+      "2025-03-01T10:40:00.000Z",
+      "2025-03-02T10:00:00.000Z",
+    ]);
+    // The 15th or any Sunday
+    expect(occurrences(cron("0 12 15 * 0"), "2025-03-10T00:00:00Z", 3)).toEqual(
+      [
+        "2025-03-15T12:00:00.000Z",
+        "2025-03-16T12:00:00.000Z",
+        "2025-03-23T12:00:00.000Z",
+      ]
+    );
+  });
+
+  it("computes the first Monday of each month from an RRULE", () => {
+    expect(
+      occurrences(
+        rrule("FREQ=MONTHLY;BYDAY=1MO;BYHOUR=8;BYMINUTE=30", "Europe/London"),
+        "2025-03-04T00:00:00Z",
+        3
+      )
+    ).toEqual([
+      "2025-04-07T07:30:00.000Z",
+      "2025-05-05T07:30:00.000Z",
+      "2025-06-02T07:30:00.000Z",
+    ]);
+  });
+
+  it("handles the last weekday of the month and negative month days", () => {
+    expect(
+      occurrences(
+        rrule("FREQ=MONTHLY;BYDAY=-1FR;BYHOUR=16;BYMINUTE=0"),
+        "2025-02-01T00:00:00Z",
+        2
+      )
+    ).toEqual(["2025-02-28T16:00:00.000Z", "2025-03-28T16:00:00.000Z"]);
+    expect(
+      occurrences(
+        rrule("FREQ=MONTHLY;BYMONTHDAY=-1;BYHOUR=9;BYMINUTE=0"),
+        "2025-02-01T00:00:00Z",
+        2
+      )
+    ).toEqual(["2025-02-28T09:00:00.000Z", "2025-03-31T09:00:00.000Z"]);
+  });
+
+  it("counts RRULE intervals from the start date and stops at UNTIL", () => {
+    const schedule = rrule(
+      "FREQ=WEEKLY;INTERVAL=2;BYDAY=TU;UNTIL=20250131T235959Z",
+      "UTC",
+      new Date("2025-01-07T09:15:00Z")
+    );
+
+    expect(occurrences(schedule, "2025-01-01T00:00:00Z", 5)).toEqual([
+      "2025-01-07T09:15:00.000Z",
+      "2025-01-21T09:15:00.000Z",
+    ]);
+  });
+
+  it("moves local times skipped by DST past the gap and runs repeated ones once", () => {
+    expect(
+      fromZonedDateTime(
+        { year: 2025, month: 3, day: 9, hour: 2, minute: 30 },
+        "America/New_York"
+      ).toISOString()
+    ).toBe("2025-03-09T07:30:00.000Z");
+    expect(
+      fromZonedDateTime(
+        { year: 2025, month: 10, day: 26, hour: 2, minute: 30 },
+        "Europe/Berlin"
+      ).toISOString()
+    ).toBe("2025-10-26T00:30:00.000Z");
+  });
+
+  it("rejects malformed schedules", () => {
+    expect(() => validateSchedule(cron("61 * * * *"))).toThrow(
+      InvalidScheduleError
+    );
+    expect(() => validateSchedule(cron("0 9 * *"))).toThrow(
+      InvalidScheduleError
+    );
+    expect(() => validateSchedule(rrule("FREQ=YEARLY"))).toThrow(
+      InvalidScheduleError
+    );
+    expect(() => validateSchedule(rrule("FREQ=DAILY;COUNT=3"))).toThrow(
+      InvalidScheduleError
+    );
+    expect(() =>
+      validateSchedule(cron("0 9 * * *", "Mars/Olympus_Mons"))
+    ).toThrow(InvalidScheduleError);
+  });
+
+  it("reschedules from the schedule rather than from completion time", () => {
+    const dueAt = new Date("2025-03-03T09:00:00Z");
+    const finishedAt = new Date("2025-03-03T09:04:00Z");
+
+    expect(
+      nextRunAfter({ intervalMs: 60 * 60 * 1000 }, dueAt, finishedAt)
+    ).toEqual(new Date("2025-03-03T10:00:00Z"));
+    // Runs missed while overdue are skipped, not replayed
+    expect(
+      nextRunAfter(
+        { intervalMs: 60 * 60 * 1000 },
+        dueAt,
+        new Date("2025-03-03T12:30:00Z")
+      )
+    ).toEqual(new Date("2025-03-03T13:00:00Z"));
+    expect(
+      nextRunAfter({ schedule: cron("0 9 * * 1-5") }, dueAt, finishedAt)
+    ).toEqual(new Date("2025-03-04T09:00:00Z"));
+    expect(nextRunAfter({}, dueAt, finishedAt)).toBeNull();
+  });
+});
@@ -0,0 +1,19 @@
+import { getSafeCallbackUrl } from "@/lib/utils";
+
+describe("getSafeCallbackUrl", () => {
+  it("keeps same-origin paths", () => {
+    expect(getSafeCallbackUrl("/oauth/authorize?client_id=abc#consent")).toBe(
+      "/oauth/authorize?client_id=abc#consent"
+    );
+  });
+
+  it.each([
+    null,
+    "https://evil.com",
+    "//evil.com",
+    "/\\evil.com",
+    "/\t/evil.com",
+  ])("falls back to the home page for %j", (callbackUrl) => {
+    expect(getSafeCallbackUrl(callbackUrl)).toBe("/");
+  });
+});
@@ -0,0 +1,171 @@
+import { ObjectId } from "mongodb";
+
+import { getMongoClient } from "@/lib/db";
+import {
+  completeTask,
+  deferTask,
+  failTask,
+  MAX_TASK_ATTEMPTS,
+  requeueDeadTask,
+  retryDelayMs,
+} from "@/lib/scheduled-tasks";
+
+jest.mock("@/lib/db");
+
+const MINUTE_MS = 60 * 1000;
+
+describe("Scheduled task retries", () => {
+  const taskId = new ObjectId();
+  let tasks: Record<string, jest.Mock>;
+  let deadTasks: Record<string, jest.Mock>;
+
+  beforeEach(() => {
+    jest.useFakeTimers().setSystemTime(new Date("2025-03-05T12:00:00Z"));
+    tasks = {
+      createIndex: jest.fn().mockResolvedValue(undefined),
+      findOne: jest.fn(),
+      insertOne: jest.fn().mockResolvedValue({ insertedId: new ObjectId() }),
+      updateOne: jest.fn().mockResolvedValue(undefined),
+      deleteOne: jest.fn().mockResolvedValue(undefined),
+    };
+    deadTasks = {
+      createIndex: jest.fn().mockResolvedValue(undefined),
+      insertOne: jest.fn().mockResolvedValue(undefined),
+      findOneAndDelete: jest.fn(),
+    };
+    (getMongoClient as jest.Mock).mockResolvedValue({
+      db: jest.fn().mockReturnValue({
+        collection: jest.fn((name: string) =>
+          name === "dead_tasks" ? deadTasks : tasks
+        ),
+      }),
+    });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("backs off exponentially with jitter up to a cap", () => {
+    expect(retryDelayMs(1, () => 0)).toBe(2.5 * MINUTE_MS);
+    expect(retryDelayMs(1, () => 1)).toBe(5 * MINUTE_MS);
+    expect(retryDelayMs(3, () => 1)).toBe(20 * MINUTE_MS);
+    expect(retryDelayMs(20, () => 1)).toBe(120 * MINUTE_MS);
+  });
+
+  it("counts the attempt and schedules a retry", async () => {
+    tasks.findOne.mockResolvedValue({
+      _id: taskId,
+      taskType: "reminder",
+      nextRunAt: new Date("2025-03-05T11:45:00Z"),
+      attempts: 1,
+    });
+
+    const outcome = await failTask(taskId, "Telegram is down");
+
+    expect(outcome).toMatchObject({ status: "retry", attempts: 2 });
+    const [, update] = tasks.updateOne.mock.calls[0];
+    expect(update.$set).toMatchObject({
+      attempts: 2,
+      lastError: "Telegram is down",
+    });
+    expect(update.$set.nextRetryAt.getTime()).toBeGreaterThan(Date.now());
+    expect(update.$unset).toEqual({ lockedUntil: "" });
+    expect(deadTasks.insertOne).not.toHaveBeenCalled();
+  });
+
+  it("dead-letters the run and moves a recurring task to its next run", async () => {
+    tasks.findOne.mockResolvedValue({
+      _id: taskId,
+      userId: "user-1",
+      taskType: "daily_check",
+      nextRunAt: new Date("2025-03-05T09:00:00Z"),
+      intervalMs: 24 * 60 * MINUTE_MS,
+      attempts: MAX_TASK_ATTEMPTS - 1,
+      progress: { message: "Good morning" },
+    });
+
+    const outcome = await failTask(taskId, "Workflow timed out");
+
+    expect(outcome).toEqual({ status: "dead", attempts: MAX_TASK_ATTEMPTS });
+    expect(deadTasks.insertOne).toHaveBeenCalledWith(
+      expect.objectContaining({
+        taskId,
+        taskType: "daily_check",
+        dueAt: new Date("2025-03-05T09:00:00Z"),
+        recurring: true,
+        lastError: "Workflow timed out",
+      })
+    );
+    expect(tasks.updateOne).toHaveBeenCalledWith(
+      { _id: taskId },
+      {
+        $set: expect.objectContaining({
+          nextRunAt: new Date("2025-03-06T09:00:00Z"),
+        }),
+        $unset: expect.objectContaining({ attempts: "", progress: "" }),
+      }
+    );
+    expect(tasks.deleteOne).not.toHaveBeenCalled();
+  });
+
+  it("removes an exhausted one-time task and replays it on requeue", async () => {
+    tasks.findOne.mockResolvedValue({
+      _id: taskId,
+      userId: "user-1",
+      taskType: "reminder",
+      nextRunAt: new Date("2025-03-05T11:00:00Z"),
+      payload: { message: "Call the bank" },
+      attempts: MAX_TASK_ATTEMPTS - 1,
+    });
+
+    await failTask(taskId, "Telegram is down");
+
+    expect(tasks.deleteOne).toHaveBeenCalledWith({ _id: taskId });
+
+    deadTasks.findOneAndDelete.mockResolvedValue(
+      deadTasks.insertOne.mock.calls[0][0]
+    );
+    const requeued = await requeueDeadTask(new ObjectId());
+
+    expect(requeued).toMatchObject({
+      userId: "user-1",
+      taskType: "reminder",
+      nextRunAt: new Date("2025-03-05T12:00:00Z"),
+      payload: { message: "Call the bank" },
+    });
+    expect(requeued).not.toHaveProperty("intervalMs");
+  });
+
+  it("holds a deferred run without moving its due time", async () => {
+    const until = new Date("2025-03-05T18:00:00Z");
+
+    await deferTask(taskId, until);
+
+    const [, update] = tasks.updateOne.mock.calls[0];
+    expect(update.$set).toEqual(
+      expect.objectContaining({ deferredUntil: until })
+    );
+    expect(update.$set).not.toHaveProperty("nextRunAt");
+
+    // The next run is counted from the original due time
+    tasks.findOne.mockResolvedValue({
+      _id: taskId,
+      taskType: "daily_check",
+      nextRunAt: new Date("2025-03-05T09:00:00Z"),
+      intervalMs: 24 * 60 * MINUTE_MS,
+      deferredUntil: until,
+    });
+    await completeTask(taskId);
+
+    expect(tasks.updateOne).toHaveBeenLastCalledWith(
+      { _id: taskId },
+      {
+        $set: expect.objectContaining({
+          nextRunAt: new Date("2025-03-06T09:00:00Z"),
+        }),
+        $unset: expect.objectContaining({ deferredUntil: "" }),
+      }
+    );
+  });
+});
@@ -0,0 +1,68 @@
+import { generateMcpToken, verifyMcpToken } from "@/lib/mcp-auth";
+import { signSessionToken, verifySessionToken } from "@/lib/telegram/auth";
+import { getMongoClient } from "@/lib/db";
+
+// jose ships as ESM only: tokens are JSON claims and verification checks aud
+jest.mock("jose", () => ({
+  SignJWT: jest.fn().mockImplementation((claims: Record<string, unknown>) => {
+    const builder = {
+      setProtectedHeader: () => builder,
+      setSubject: (sub: string) => Object.assign(claims, { sub }) && builder,
+      setAudience: (aud: string) => Object.assign(claims, { aud }) && builder,
+      setJti: (jti: string) => Object.assign(claims, { jti }) && builder,
+      setIssuedAt: () => Object.assign(claims, { iat: 1 }) && builder,
+      setExpirationTime: () => builder,
+      sign: async () => JSON.stringify(claims),
+    };
+    return builder;
+  }),
+  jwtVerify: jest.fn(
+    async (
+      token: string,
+      _secret: Uint8Array,
+      options?: { audience?: string }
+    ) => {
+      const payload = JSON.parse(token);
+      if (options?.audience && payload.aud !== options.audience) {
+        throw new Error('unexpected "aud" claim value');
+      }
+      return { payload };
+    }
+  ),
+}));
+
+jest.mock("@/lib/db");
+jest.mock("@/env", () => ({
+  env: { JWT_SECRET: new TextEncoder().encode("test-secret") },
+}));
+
+describe("Token audiences", () => {
+  beforeEach(() => {
+    (getMongoClient as jest.Mock).mockResolvedValue({
+      db: () => ({
+        collection: () => ({
+          createIndex: jest.fn().mockResolvedValue(undefined),
+          findOne: jest.fn().mockResolvedValue(null),
+        }),
+      }),
+    });
+  });
+
+  it("accepts a session token only as a session token", async () => {
+    const token = await signSessionToken({ sub: "user-1", tier: "free" });
+
+    const { payload } = await verifySessionToken(token);
+    expect(payload.sub).toBe("user-1");
+    await expect(verifyMcpToken(token)).resolves.toBeNull();
+  });
+
+  it("keeps MCP and OAuth access tokens out of session routes", async () => {
+    const token = await generateMcpToken("user-1", ["context:read"]);
+
+    await expect(verifyMcpToken(token)).resolves.toMatchObject({
+      userId: "user-1",
+      scopes: ["context:read"],
+    });
+    await expect(verifySessionToken(token)).rejects.toThrow();
+  });
+});
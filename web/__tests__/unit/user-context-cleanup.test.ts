@@ -0,0 +1,95 @@
+import { pruneUserContext } from "@/lib/user-context-cleanup";
+import {
+  getUserContextDocument,
+  updateUserContextDocument,
+} from "@/lib/user-context";
+import { TestFactory } from "@/lib/testing/factories";
+import { google } from "googleapis";
+
+jest.mock("googleapis");
+jest.mock("@/lib/user-context", () => ({
+  getUserContextDocument: jest.fn(),
+  updateUserContextDocument: jest.fn().mockResolvedValue(undefined),
+}));
+
+describe("Context prune", () => {
+  const now = new Date("2025-03-10T12:00:00Z");
+  let events: { get: jest.Mock };
+  let tasks: { get: jest.Mock };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    events = { get: jest.fn() };
+    tasks = { get: jest.fn() };
+    (google.calendar as unknown as jest.Mock).mockReturnValue({ events });
+    (google.tasks as unknown as jest.Mock).mockReturnValue({ tasks });
+
+    const context = TestFactory.createUserContext({
+      upcoming: {
+        dentist: { title: "Dentist", eventId: "evt-past" },
+        launch: { title: "Launch", eventId: "evt-future" },
+        taxes: { title: "File taxes", taskId: "task-done", tasklistId: "list-1" },
+      },
+    });
+    (getUserContextDocument as jest.Mock).mockResolvedValue({
+      ...context,
+      metadata: {
+        preferences: {
+          theme: { expiresAt: new Date("2025-03-01T00:00:00Z") },
+          notifications: { expiresAt: new Date("2025-04-01T00:00:00Z") },
+        },
+      },
+    });
+  });
+
+  it("should remove expired entries, past events and completed tasks", async () => {
+    events.get.mockImplementation(async ({ eventId }: { eventId: string }) => ({
+      data: {
+        status: "confirmed",
+        end: {
+          dateTime:
+            eventId === "evt-past" ? "2025-03-09T10:00:00Z" : "2025-03-20T10:00:00Z",
+        },
+      },
+    }));
+    tasks.get.mockResolvedValue({ data: { status: "completed" } });
+
+    const { removed } = await pruneUserContext("test-user-id", "token", now);
+
+    expect(removed).toEqual([
+      { path: "preferences.theme", reason: "expired" },
+      { path: "upcoming.dentist", reason: "event ended" },
+      { path: "upcoming.taxes", reason: "task completed" },
+    ]);
+    expect(tasks.get).toHaveBeenCalledWith({ tasklist: "list-1", task: "task-done" });
+    expect(updateUserContextDocument).toHaveBeenCalledWith(
+      "test-user-id",
+      [
+        { path: "preferences.theme" },
+        { path: "upcoming.dentist" },
+        { path: "upcoming.taxes" },
+      ],
+      { actor: { type: "system", job: "context_prune" } }
+    );
+  });
+
+  it("should keep linked entries when Google fails for reasons other than not found", async () => {
+    events.get.mockRejectedValue(Object.assign(new Error("Backend Error"), { code: 500 }));
+    tasks.get.mockRejectedValue(Object.assign(new Error("Not Found"), { code: 404 }));
+
+    const { removed } = await pruneUserContext("test-user-id", "token", now);
+
+    expect(removed).toEqual([
+      { path: "preferences.theme", reason: "expired" },
+      { path: "upcoming.taxes", reason: "task deleted" },
+    ]);
+  });
+
+  it("should only check expiry without a Google token", async () => {
+    const { removed } = await pruneUserContext("test-user-id", null, now);
+
+    expect(removed).toEqual([{ path: "preferences.theme", reason: "expired" }]);
+    expect(events.get).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,230 @@
+import { getMongoClient } from "@/lib/db";
+import {
+  getUserContextAtVersion,
+  updateUserContextDocument,
+  UserContextConflictError,
+  UserContextVersionNotFoundError,
+} from "@/lib/user-context";
+import { TestFactory } from "@/lib/testing/factories";
+import { scheduleContextPrune } from "@/lib/scheduled-tasks";
+
+jest.mock("@/lib/db");
+jest.mock("@/lib/scheduled-tasks", () => ({
+  scheduleContextPrune: jest.fn().mockResolvedValue(undefined),
+}));
+jest.mock("@/lib/mcp-resources", () => ({
+  emitResourceUpdated: jest.fn(),
+  MCP_RESOURCE_URIS: { context: "context://user" },
+}));
+
+const cursor = (docs: unknown[]) => ({
+  sort: jest.fn().mockReturnThis(),
+  limit: jest.fn().mockReturnThis(),
+  toArray: jest.fn().mockResolvedValue(docs),
+});
+
+describe("User context history", () => {
+  let contexts: Record<string, jest.Mock>;
+  let history: Record<string, jest.Mock>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    contexts = {
+      createIndex: jest.fn().mockResolvedValue(undefined),
+      findOne: jest.fn(),
+      findOneAndUpdate: jest.fn(),
+    };
+    history = {
+      createIndex: jest.fn().mockResolvedValue(undefined),
+      insertOne: jest.fn().mockResolvedValue(undefined),
+      deleteOne: jest.fn().mockResolvedValue(undefined),
+      find: jest.fn(),
+    };
+    (getMongoClient as jest.Mock).mockResolvedValue({
+      db: jest.fn().mockReturnValue({
+        collection: jest.fn((name: string) =>
+          name === "user_context_history" ? history : contexts
+        ),
+      }),
+    });
+  });
+
+  it("should record old and new values with the actor for each update", async () => {
+    const current = { ...TestFactory.createUserContext(), version: 3 };
+    contexts.findOne.mockResolvedValue(current);
+    contexts.findOneAndUpdate.mockResolvedValue({
+      ...current,
+      version: 4,
+      updatedAt: new Date(),
+    });
+
+    await updateUserContextDocument(
+      current.userId,
+      [
+        { path: "profile.timezone", value: "Europe/Helsinki" },
+        { path: "routines.daily-standup" },
+      ],
+      { actor: { type: "agent", sessionId: "run-1" } }
+    );
+
+    expect(contexts.findOneAndUpdate.mock.calls[0][0]).toEqual({
+      userId: current.userId,
+      version: 3,
+      updatedAt: current.updatedAt,
+    });
+    expect(history.insertOne).toHaveBeenCalledWith(
+      expect.objectContaining({
+        version: 4,
+        actor: { type: "agent", sessionId: "run-1" },
+        changes: [
+          { path: "profile.timezone", newValue: "Europe/Helsinki" },
+          {
+            path: "routines.daily-standup",
+            oldValue: current.data.routines["daily-standup"],
+          },
+        ],
+      })
+    );
+  });
+
+  it("should store entry metadata and schedule the prune", async () => {
+    const current = { ...TestFactory.createUserContext(), version: 1 };
+    contexts.findOne.mockResolvedValue(current);
+    contexts.findOneAndUpdate.mockResolvedValue({ ...current, version: 2 });
+
+    await updateUserContextDocument(
+      current.userId,
+      [
+        {
+          path: "upcoming.dentist",
+          value: { title: "Dentist" },
+          metadata: { expiresAt: "2025-03-04T10:00:00Z", source: "calendar" },
+        },
+      ],
+      { actor: { type: "agent" } }
+    );
+
+    const update = contexts.findOneAndUpdate.mock.calls[0][1];
+    expect(update.$set["metadata.upcoming.dentist"]).toEqual({
+      source: "calendar",
+      expiresAt: new Date("2025-03-04T10:00:00Z"),
+    });
+    expect(scheduleContextPrune).toHaveBeenCalledWith(current.userId);
+  });
+
+  it("should not write anything when an update changes nothing", async () => {
+    const current = { ...TestFactory.createUserContext(), version: 1 };
+    contexts.findOne.mockResolvedValue(current);
+
+    const result = await updateUserContextDocument(
+      current.userId,
+      [{ path: "routines.does-not-exist" }],
+      { actor: { type: "user", userId: current.userId } }
+    );
+
+    expect(result.document).toBe(current);
+    expect(contexts.findOneAndUpdate).not.toHaveBeenCalled();
+    expect(history.insertOne).not.toHaveBeenCalled();
+  });
+
+  it("should re-plan against the latest document when another write wins", async () => {
+    const current = { ...TestFactory.createUserContext(), version: 3 };
+    const newer = { ...current, version: 4, updatedAt: new Date() };
+    contexts.findOne.mockResolvedValueOnce(current).mockResolvedValue(newer);
+    contexts.findOneAndUpdate
+      .mockResolvedValueOnce(null)
+      .mockResolvedValue({ ...newer, version: 5 });
+
+    const result = await updateUserContextDocument(
+      current.userId,
+      [{ path: "profile.timezone", value: "Europe/Helsinki" }],
+      { actor: { type: "agent" } }
+    );
+
+    expect(result.document.version).toBe(5);
+    // The first attempt's history record is taken back
+    expect(history.insertOne.mock.calls.map(([record]) => record.version)).toEqual([4, 5]);
+    expect(history.deleteOne).toHaveBeenCalledTimes(1);
+    expect(history.deleteOne).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: current.userId, version: 4 })
+    );
+    expect(contexts.findOneAndUpdate.mock.calls[1][0]).toMatchObject({ version: 4 });
+  });
+
+  it("should retry when a racing write took the version first", async () => {
+    const current = { ...TestFactory.createUserContext(), version: 3 };
+    contexts.findOne.mockResolvedValue(current);
+    history.insertOne.mockRejectedValueOnce(
+      Object.assign(new Error("E11000 duplicate key error"), { code: 11000 })
+    );
+    contexts.findOneAndUpdate.mockResolvedValue({ ...current, version: 4 });
+
+    await updateUserContextDocument(
+      current.userId,
+      [{ path: "profile.timezone", value: "Europe/Helsinki" }],
+      { actor: { type: "agent" } }
+    );
+
+    expect(history.insertOne).toHaveBeenCalledTimes(2);
+    expect(contexts.findOneAndUpdate).toHaveBeenCalledTimes(1);
+  });
+
+  it("should not retry a write that expected a specific revision", async () => {
+    const current = { ...TestFactory.createUserContext(), version: 3 };
+    contexts.findOne.mockResolvedValue(current);
+    contexts.findOneAndUpdate.mockResolvedValue(null);
+
+    await expect(
+      updateUserContextDocument(
+        current.userId,
+        [{ path: "profile.timezone", value: "Europe/Helsinki" }],
+        {
+          actor: { type: "user", userId: current.userId },
+          expectedUpdatedAt: current.updatedAt,
+        }
+      )
+    ).rejects.toBeInstanceOf(UserContextConflictError);
+    expect(contexts.findOneAndUpdate).toHaveBeenCalledTimes(1);
+    expect(history.deleteOne).toHaveBeenCalledTimes(1);
+  });
+
+  it("should rebuild an earlier version by undoing newer changes", async () => {
+    const current = { ...TestFactory.createUserContext(), version: 2 };
+    contexts.findOne.mockResolvedValue(current);
+    history.find.mockReturnValue(
+      cursor([
+        {
+          version: 2,
+          changes: [{ path: "profile.timezone", oldValue: "UTC", newValue: "Europe/Helsinki" }],
+        },
+        {
+          version: 1,
+          changes: [{ path: "preferences.coffee", newValue: "black" }],
+        },
+      ])
+    );
+
+    const data = await getUserContextAtVersion(current.userId, 0);
+
+    expect(data.profile.timezone).toBe("UTC");
+    expect(data.preferences.coffee).toBeUndefined();
+    expect(history.find).toHaveBeenCalledWith({
+      userId: current.userId,
+      version: { $gt: 0 },
+    });
+  });
+
+  it("should refuse versions that aren't covered by the history", async () => {
+    const current = { ...TestFactory.createUserContext(), version: 2 };
+    contexts.findOne.mockResolvedValue(current);
+    history.find.mockReturnValue(cursor([{ version: 2, changes: [] }]));
+
+    await expect(getUserContextAtVersion(current.userId, 0)).rejects.toBeInstanceOf(
+      UserContextVersionNotFoundError
+    );
+    await expect(getUserContextAtVersion(current.userId, 5)).rejects.toBeInstanceOf(
+      UserContextVersionNotFoundError
+    );
+  });
+});
@@ -0,0 +1,75 @@
+import {
+  diffUserContextData,
+  migrateUserContextData,
+  parseContextPath,
+} from "@/lib/user-context-schema";
+
+describe("User context schema", () => {
+  describe("migrateUserContextData", () => {
+    it("should key legacy arrays by a slug of their label", () => {
+      const data = migrateUserContextData({
+        projects: [{ name: "Website Redesign", status: "active" }, "Tax return"],
+        routines: ["Morning run"],
+      });
+
+      expect(data.projects).toEqual({
+        "website-redesign": { name: "Website Redesign", status: "active" },
+        "tax-return": { name: "Tax return" },
+      });
+      expect(data.routines).toEqual({
+        "morning-run": { description: "Morning run" },
+      });
+    });
+
+    it("should move values that don't validate into unsorted", () => {
+      const data = migrateUserContextData({
+        profile: { name: "Ada", shoeSize: 38 },
+        projects: { launch: { name: "Launch", status: "someday" } },
+        hobbies: ["chess"],
+      });
+
+      expect(data.profile).toEqual({ name: "Ada" });
+      expect(data.projects).toEqual({});
+      expect(data.unsorted).toEqual({
+        profile_shoeSize: 38,
+        projects_launch: { name: "Launch", status: "someday" },
+        hobbies: ["chess"],
+      });
+    });
+  });
+
+  describe("parseContextPath", () => {
+    it("should reject empty and operator segments", () => {
+      expect(parseContextPath("projects.launch.status")).toEqual([
+        "projects",
+        "launch",
+        "status",
+      ]);
+      expect(parseContextPath("projects..status")).toBeNull();
+      expect(parseContextPath("$set.name")).toBeNull();
+    });
+  });
+
+  describe("diffUserContextData", () => {
+    it("should report added, changed and removed leaf paths", () => {
+      const before = {
+        profile: { name: "Ada", timezone: "UTC" },
+        projects: { launch: { name: "Launch", nextSteps: ["a"] } },
+      };
+      const after = {
+        profile: { name: "Ada", location: "London" },
+        projects: { launch: { name: "Launch", nextSteps: ["a", "b"] } },
+      };
+
+      expect(diffUserContextData(before, after)).toEqual([
+        { path: "profile.timezone", before: "UTC", after: undefined },
+        { path: "profile.location", before: undefined, after: "London" },
+        {
+          path: "projects.launch.nextSteps",
+          before: ["a"],
+          after: ["a", "b"],
+        },
+      ]);
+    });
+  });
+});
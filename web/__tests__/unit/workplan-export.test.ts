@@ -0,0 +1,222 @@
+import { google } from "googleapis";
+
+import {
+  exportStepsToTasks,
+  findPrepSlots,
+  stepDeadline,
+  syncStepsFromTasks,
+} from "@/lib/workplan-export";
+import {
+  findWorkplan,
+  linkWorkplanStep,
+  setWorkplanStepDone,
+  StoredWorkplan,
+  WorkplanStep,
+} from "@/lib/workplans";
+
+jest.mock("googleapis");
+jest.mock("@/env", () => ({
+  env: {
+    GOOGLE_CLIENT_ID: "test-client-id",
+    GOOGLE_CLIENT_SECRET: "test-client-secret",
+  },
+}));
+jest.mock(
+  "@cocal/google-calendar-mcp/src/handlers/core/CreateEventHandler",
+  () => ({ CreateEventHandler: jest.fn() }),
+  { virtual: true }
+);
+jest.mock(
+  "@cocal/google-calendar-mcp/node_modules/google-auth-library",
+  () => ({ OAuth2Client: jest.fn() }),
+  { virtual: true }
+);
+jest.mock("@/lib/workplans", () => ({
+  findWorkplan: jest.fn(),
+  linkWorkplanStep: jest.fn(),
+  setWorkplanStepDone: jest.fn(),
+}));
+
+const step = (
+  id: string,
+  fields: Partial<WorkplanStep> = {}
+): WorkplanStep => ({
+  id,
+  text: `Step ${id}`,
+  done: false,
+  doneAt: null,
+  estimatedMinutes: 30,
+  dueOffsetMinutes: null,
+  ...fields,
+});
+
+const plan = (steps: WorkplanStep[]): StoredWorkplan =>
+  ({
+    userId: "user-1",
+    eventId: "evt-1",
+    event: { title: "Board meeting", start: "2025-03-05T15:00:00Z" },
+    steps,
+  }) as StoredWorkplan;
+
+describe("Workplan export", () => {
+  let tasks: Record<string, jest.Mock>;
+  let tasklists: Record<string, jest.Mock>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    tasks = {
+      insert: jest.fn(async ({ requestBody }) => ({
+        data: { id: `task-${requestBody.title}`, ...requestBody },
+      })),
+      patch: jest.fn().mockResolvedValue({ data: {} }),
+      list: jest.fn(),
+    };
+    tasklists = {
+      list: jest.fn().mockResolvedValue({
+        data: { items: [{ id: "list-1", title: "Micromanager workplans" }] },
+      }),
+      insert: jest.fn(),
+    };
+    (google.tasks as unknown as jest.Mock).mockReturnValue({
+      tasks,
+      tasklists,
+    });
+    (linkWorkplanStep as jest.Mock).mockImplementation(
+      async (_userId, _eventId, stepId, link) => plan([step(stepId, link)])
+    );
+  });
+
+  it("dates steps by their offset from the event start", () => {
+    expect(
+      stepDeadline("2025-03-05T15:00:00Z", { dueOffsetMinutes: -1440 })
+    ).toEqual(new Date("2025-03-04T15:00:00Z"));
+    expect(
+      stepDeadline("2025-03-05T15:00:00Z", { dueOffsetMinutes: null })
+    ).toEqual(new Date("2025-03-05T15:00:00Z"));
+    expect(stepDeadline(null, { dueOffsetMinutes: 0 })).toBeNull();
+  });
+
+  it("creates tasks in the workplan list and links only new steps", async () => {
+    (findWorkplan as jest.Mock).mockResolvedValue(
+      plan([
+        step("a", { dueOffsetMinutes: -60 }),
+        step("b", { taskId: "task-old", tasklistId: "list-1" }),
+      ])
+    );
+
+    await exportStepsToTasks("user-1", "evt-1", ["a", "b"], "token");
+
+    expect(tasklists.insert).not.toHaveBeenCalled();
+    expect(tasks.insert).toHaveBeenCalledTimes(1);
+    expect(tasks.insert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        tasklist: "list-1",
+        requestBody: expect.objectContaining({
+          title: "Step a",
+          due: "2025-03-05T14:00:00.000Z",
+        }),
+      })
+    );
+    expect(linkWorkplanStep).toHaveBeenCalledWith("user-1", "evt-1", "a", {
+      taskId: "task-Step a",
+      tasklistId: "list-1",
+    });
+  });
+
+  it("rejects steps that are not in the plan", async () => {
+    (findWorkplan as jest.Mock).mockResolvedValue(plan([step("a")]));
+
+    await expect(
+      exportStepsToTasks("user-1", "evt-1", ["a", "zzz"], "token")
+    ).rejects.toThrow("Some steps are not part of this workplan");
+  });
+
+  it("finds the latest free daytime slot before each deadline", () => {
+    const slots = findPrepSlots(
+      [
+        {
+          stepId: "a",
+          minutes: 60,
+          deadline: new Date("2025-03-05T15:00:00Z"),
+        },
+        {
+          stepId: "b",
+          minutes: 30,
+          deadline: new Date("2025-03-05T15:00:00Z"),
+        },
+      ],
+      [
+        {
+          start: new Date("2025-03-05T13:30:00Z"),
+          end: new Date("2025-03-05T15:00:00Z"),
+        },
+      ],
+      { now: new Date("2025-03-05T06:00:00Z"), timeZone: "UTC" }
+    );
+
+    expect(slots).toEqual([
+      {
+        stepId: "a",
+        start: new Date("2025-03-05T12:30:00Z"),
+        end: new Date("2025-03-05T13:30:00Z"),
+      },
+      {
+        stepId: "b",
+        start: new Date("2025-03-05T12:00:00Z"),
+        end: new Date("2025-03-05T12:30:00Z"),
+      },
+    ]);
+  });
+
+  it("keeps prep blocks inside local daytime hours", () => {
+    const [slot] = findPrepSlots(
+      [
+        {
+          stepId: "a",
+          minutes: 30,
+          // 08:15 in New York
+          deadline: new Date("2025-03-05T13:15:00Z"),
+        },
+      ],
+      [],
+      {
+        now: new Date("2025-03-04T12:00:00Z"),
+        timeZone: "America/New_York",
+      }
+    );
+
+    // 19:30–20:00 the evening before
+    expect(slot.end).toEqual(new Date("2025-03-05T01:00:00Z"));
+  });
+
+  it("checks off steps whose task was completed in Google Tasks", async () => {
+    tasks.list.mockResolvedValue({
+      data: {
+        items: [
+          { id: "task-a", status: "completed" },
+          { id: "task-b", status: "needsAction" },
+        ],
+      },
+    });
+    const plans = [
+      plan([
+        step("a", { taskId: "task-a", tasklistId: "list-1" }),
+        step("b", { taskId: "task-b", tasklistId: "list-1" }),
+        step("c"),
+      ]),
+    ];
+
+    await syncStepsFromTasks("user-1", plans, "token");
+
+    expect(tasks.list).toHaveBeenCalledWith(
+      expect.objectContaining({ tasklist: "list-1", showCompleted: true })
+    );
+    expect(setWorkplanStepDone).toHaveBeenCalledTimes(1);
+    expect(setWorkplanStepDone).toHaveBeenCalledWith(
+      "user-1",
+      "evt-1",
+      "a",
+      true
+    );
+  });
+});
@@ -0,0 +1,168 @@
+import { fetchUpcomingCalendarItems } from "@/lib/calendar";
+import { runOpenAIAgent } from "@/lib/openai";
+import {
+  findWorkplan,
+  markWorkplanStatus,
+  saveWorkplan,
+  StoredWorkplan,
+} from "@/lib/workplans";
+import {
+  createWorkplanGenerationLimiter,
+  refreshUpcomingWorkplans,
+} from "@/lib/workplan-generator";
+
+jest.mock("@/lib/db");
+jest.mock("@/lib/calendar", () => ({
+  fetchUpcomingCalendarItems: jest.fn(),
+}));
+jest.mock("@/lib/openai", () => ({
+  OpenAIAgent: jest.fn(),
+  runOpenAIAgent: jest.fn(),
+}));
+jest.mock("@/lib/workplans", () => ({
+  ...jest.requireActual("@/lib/workplans"),
+  findWorkplan: jest.fn(),
+  saveWorkplan: jest.fn(),
+  markWorkplanStatus: jest.fn(),
+}));
+
+const item = (id: string) => ({
+  id,
+  title: `Event ${id}`,
+  start: "2025-03-05T15:00:00.000Z",
+  end: "2025-03-05T16:00:00.000Z",
+  location: null,
+  description: null,
+});
+
+const storedPlan = (
+  id: string,
+  fields: Partial<StoredWorkplan> = {}
+): StoredWorkplan =>
+  ({
+    userId: "user-1",
+    eventId: id,
+    event: {
+      title: `Event ${id}`,
+      start: "2025-03-05T15:00:00.000Z",
+      end: "2025-03-05T16:00:00.000Z",
+      location: null,
+      description: null,
+    },
+    steps: [{ id: "s1", text: "Prepare", done: false, doneAt: null }],
+    status: "ready",
+    source: "auto",
+    role: null,
+    lastGeneratedAt: new Date(),
+    ...fields,
+  }) as StoredWorkplan;
+
+describe("Workplan pre-generation", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (runOpenAIAgent as jest.Mock).mockResolvedValue({
+      state: { _context: { usage: { inputTokens: 100, outputTokens: 40 } } },
+      finalOutput: {
+        steps: [
+          { text: "Prepare", estimatedMinutes: 20, dueOffsetMinutes: null },
+        ],
+      },
+    });
+    (saveWorkplan as jest.Mock).mockImplementation(
+      async (userId, eventId, event, steps) => ({
+        userId,
+        eventId,
+        event,
+        steps,
+      })
+    );
+  });
+
+  it("generates missing and stale plans and leaves fresh and manual ones", async () => {
+    (fetchUpcomingCalendarItems as jest.Mock).mockResolvedValue([
+      item("new"),
+      item("fresh"),
+      item("stale"),
+      item("manual"),
+    ]);
+    (findWorkplan as jest.Mock).mockImplementation(async (_userId, eventId) => {
+      switch (eventId) {
+        case "fresh":
+          return storedPlan("fresh");
+        case "stale":
+          return storedPlan("stale", {
+            lastGeneratedAt: new Date(Date.now() - 24 * 60 * 60 * 1000),
+          });
+        case "manual":
+          return storedPlan("manual", {
+            source: "manual",
+            lastGeneratedAt: new Date(0),
+          });
+        default:
+          return null;
+      }
+    });
+
+    const result = await refreshUpcomingWorkplans("user-1", "token");
+
+    expect(result).toMatchObject({
+      checked: 4,
+      generated: 2,
+      skipped: 2,
+      failed: 0,
+      usage: { inputTokens: 200, outputTokens: 80 },
+    });
+    expect(
+      (saveWorkplan as jest.Mock).mock.calls.map(([, eventId]) => eventId)
+    ).toEqual(expect.arrayContaining(["new", "stale"]));
+    expect(saveWorkplan).toHaveBeenCalledTimes(2);
+  });
+
+  it("counts events whose first plan could not be generated", async () => {
+    (fetchUpcomingCalendarItems as jest.Mock).mockResolvedValue([item("new")]);
+    (findWorkplan as jest.Mock).mockResolvedValue(null);
+    (runOpenAIAgent as jest.Mock).mockRejectedValue(new Error("timeout"));
+
+    const result = await refreshUpcomingWorkplans("user-1", "token");
+
+    expect(result).toMatchObject({ generated: 0, failed: 1 });
+  });
+
+  it("counts failed regenerations of existing plans", async () => {
+    (fetchUpcomingCalendarItems as jest.Mock).mockResolvedValue([item("stale")]);
+    (findWorkplan as jest.Mock).mockResolvedValue(
+      storedPlan("stale", { lastGeneratedAt: new Date(0) })
+    );
+    (runOpenAIAgent as jest.Mock).mockResolvedValue({
+      state: { _context: { usage: { inputTokens: 100, outputTokens: 40 } } },
+      finalOutput: { steps: [] },
+    });
+
+    const result = await refreshUpcomingWorkplans("user-1", "token");
+
+    expect(result).toMatchObject({
+      generated: 0,
+      failed: 1,
+      usage: { inputTokens: 100, outputTokens: 40 },
+    });
+    expect(markWorkplanStatus).toHaveBeenCalledWith("user-1", "stale", "error");
+    expect(saveWorkplan).not.toHaveBeenCalled();
+  });
+
+  it("never runs more generations at once than the limiter allows", async () => {
+    const limiter = createWorkplanGenerationLimiter(2);
+    let active = 0;
+    let peak = 0;
+    const job = () =>
+      limiter(async () => {
+        active++;
+        peak = Math.max(peak, active);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        active--;
+      });
+
+    await Promise.all(Array.from({ length: 6 }, job));
+
+    expect(peak).toBe(2);
+  });
+});
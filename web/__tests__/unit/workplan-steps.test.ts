@@ -0,0 +1,184 @@
+import { ObjectId } from "mongodb";
+
+import { getMongoClient } from "@/lib/db";
+import { runOpenAIAgent } from "@/lib/openai";
+import {
+  findWorkplan,
+  migrateWorkplanSteps,
+  setWorkplanStepDone,
+  WorkplanStep,
+} from "@/lib/workplans";
+import { regenerateWorkplanForEvent } from "@/lib/workplan-generator";
+
+jest.mock("@/lib/db");
+jest.mock("@/lib/mcp-resources", () => ({
+  emitResourceUpdated: jest.fn(),
+  MCP_RESOURCE_URIS: { workplan: (eventId: string) => `workplan/${eventId}` },
+}));
+jest.mock("@/lib/openai", () => ({
+  OpenAIAgent: jest.fn(),
+  runOpenAIAgent: jest.fn(),
+}));
+
+const event = { title: "Quarterly review", start: "2025-03-01T10:00:00Z" };
+const state = { _context: { usage: { inputTokens: 120, outputTokens: 80 } } };
+
+const step = (
+  text: string,
+  fields: Partial<WorkplanStep> = {}
+): WorkplanStep => ({
+  id: new ObjectId().toHexString(),
+  text,
+  done: false,
+  doneAt: null,
+  estimatedMinutes: 15,
+  dueOffsetMinutes: null,
+  ...fields,
+});
+
+describe("Workplan steps", () => {
+  let collection: Record<string, jest.Mock>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    collection = {
+      createIndex: jest.fn().mockResolvedValue(undefined),
+      findOne: jest.fn().mockResolvedValue(null),
+      updateOne: jest.fn().mockResolvedValue(undefined),
+      findOneAndUpdate: jest.fn(),
+    };
+    (getMongoClient as jest.Mock).mockResolvedValue({
+      db: jest.fn().mockReturnValue({
+        collection: jest.fn().mockReturnValue(collection),
+      }),
+    });
+  });
+
+  it("migrates legacy string steps to unchecked step objects", () => {
+    const existing = step("Already structured", { done: true });
+    const migrated = migrateWorkplanSteps(["Book room", existing]);
+
+    expect(migrated[0]).toEqual({
+      id: expect.any(String),
+      text: "Book room",
+      done: false,
+      doneAt: null,
+      estimatedMinutes: null,
+      dueOffsetMinutes: null,
+    });
+    expect(migrated[1]).toBe(existing);
+  });
+
+  it("persists the migration when a legacy plan is read", async () => {
+    const _id = new ObjectId();
+    collection.findOne.mockResolvedValue({
+      _id,
+      userId: "user-1",
+      eventId: "evt-1",
+      event,
+      steps: ["Book room", "Send agenda"],
+    });
+
+    const plan = await findWorkplan("user-1", "evt-1");
+
+    expect(plan?.steps.map((s) => s.text)).toEqual([
+      "Book room",
+      "Send agenda",
+    ]);
+    expect(collection.updateOne).toHaveBeenCalledWith(
+      { _id, steps: { $type: "string" } },
+      { $set: { steps: plan?.steps } }
+    );
+  });
+
+  it("checks a step off by ID", async () => {
+    const target = step("Send agenda");
+    collection.findOne.mockResolvedValue({ userId: "user-1", steps: [target] });
+    collection.findOneAndUpdate.mockResolvedValue({
+      userId: "user-1",
+      steps: [{ ...target, done: true }],
+    });
+
+    const plan = await setWorkplanStepDone("user-1", "evt-1", target.id, true);
+
+    expect(plan?.steps[0].done).toBe(true);
+    expect(collection.findOneAndUpdate).toHaveBeenCalledWith(
+      { userId: "user-1", eventId: "evt-1", "steps.id": target.id },
+      {
+        $set: {
+          "steps.$.done": true,
+          "steps.$.doneAt": expect.any(Date),
+          updatedAt: expect.any(Date),
+        },
+      },
+      { returnDocument: "after" }
+    );
+  });
+
+  it("returns null for an unknown plan or step", async () => {
+    expect(
+      await setWorkplanStepDone("user-1", "evt-1", "nope", true)
+    ).toBeNull();
+
+    collection.findOne.mockResolvedValue({ userId: "user-1", steps: [] });
+    collection.findOneAndUpdate.mockResolvedValue(null);
+    expect(
+      await setWorkplanStepDone("user-1", "evt-1", "nope", true)
+    ).toBeNull();
+  });
+
+  it("saves structured output and keeps finished steps on regeneration", async () => {
+    const doneAt = new Date("2025-02-28T09:00:00Z");
+    collection.findOne.mockResolvedValue({
+      userId: "user-1",
+      eventId: "evt-1",
+      event,
+      steps: [step("Prepare slides", { done: true, doneAt })],
+      role: null,
+    });
+    collection.findOneAndUpdate.mockImplementation(async (_filter, update) => ({
+      ...update.$set,
+    }));
+    (runOpenAIAgent as jest.Mock).mockResolvedValue({
+      state,
+      finalOutput: {
+        steps: [
+          {
+            text: "Prepare slides",
+            estimatedMinutes: 60,
+            dueOffsetMinutes: -1440,
+          },
+          { text: "Rehearse", estimatedMinutes: 30, dueOffsetMinutes: null },
+        ],
+      },
+    });
+
+    const plan = await regenerateWorkplanForEvent({
+      userId: "user-1",
+      eventId: "evt-1",
+      event,
+    });
+
+    expect(plan.steps).toEqual([
+      expect.objectContaining({
+        text: "Prepare slides",
+        done: true,
+        doneAt,
+        estimatedMinutes: 60,
+        dueOffsetMinutes: -1440,
+      }),
+      expect.objectContaining({ text: "Rehearse", done: false }),
+    ]);
+  });
+
+  it("rejects model output that doesn't match the schema", async () => {
+    (runOpenAIAgent as jest.Mock).mockResolvedValue({
+      state,
+      finalOutput: { steps: [] },
+    });
+
+    await expect(
+      regenerateWorkplanForEvent({ userId: "user-1", eventId: "evt-1", event })
+    ).rejects.toThrow("No valid steps returned from model");
+  });
+});
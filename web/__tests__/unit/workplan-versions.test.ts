@@ -0,0 +1,182 @@
+import { getMongoClient } from "@/lib/db";
+import {
+  diffWorkplanSteps,
+  restoreWorkplanVersion,
+  saveWorkplan,
+  WorkplanStep,
+  WorkplanVersionNotFoundError,
+} from "@/lib/workplans";
+
+jest.mock("@/lib/db");
+jest.mock("@/lib/mcp-resources", () => ({
+  emitResourceUpdated: jest.fn(),
+  MCP_RESOURCE_URIS: { workplan: (eventId: string) => `workplan/${eventId}` },
+}));
+
+const event = { title: "Quarterly review", start: "2025-03-01T10:00:00Z" };
+
+const step = (text: string): WorkplanStep => ({
+  id: text,
+  text,
+  done: false,
+  doneAt: null,
+  estimatedMinutes: null,
+  dueOffsetMinutes: null,
+});
+
+describe("Workplan versions", () => {
+  let plans: Record<string, jest.Mock>;
+  let versions: Record<string, jest.Mock>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    plans = {
+      createIndex: jest.fn().mockResolvedValue(undefined),
+      findOne: jest.fn().mockResolvedValue(null),
+      updateOne: jest.fn().mockResolvedValue(undefined),
+      findOneAndUpdate: jest.fn(async (_filter, update) => ({
+        ...update.$set,
+        version: 3,
+      })),
+    };
+    versions = {
+      createIndex: jest.fn().mockResolvedValue(undefined),
+      findOne: jest.fn().mockResolvedValue(null),
+      insertOne: jest.fn().mockResolvedValue(undefined),
+      updateOne: jest.fn().mockResolvedValue(undefined),
+    };
+    (getMongoClient as jest.Mock).mockResolvedValue({
+      db: jest.fn().mockReturnValue({
+        collection: jest.fn((name: string) =>
+          name === "workplan_versions" ? versions : plans
+        ),
+      }),
+    });
+  });
+
+  it("records every save as a new version with its trigger", async () => {
+    plans.findOne.mockResolvedValue({ version: 2, steps: [] });
+
+    const saved = await saveWorkplan(
+      "user-1",
+      "evt-1",
+      event,
+      [step("Book room")],
+      "ready",
+      "auto",
+      null,
+      { trigger: "event_changed" }
+    );
+
+    expect(saved.version).toBe(3);
+    expect(plans.findOneAndUpdate.mock.calls[0][1].$inc).toEqual({
+      version: 1,
+    });
+    expect(versions.insertOne).toHaveBeenCalledWith(
+      expect.objectContaining({
+        userId: "user-1",
+        eventId: "evt-1",
+        version: 3,
+        trigger: "event_changed",
+        steps: [step("Book room")],
+      })
+    );
+    expect(versions.updateOne).not.toHaveBeenCalled();
+  });
+
+  it("keeps a plan saved before versioning as version 0", async () => {
+    const lastGeneratedAt = new Date("2025-02-01T00:00:00Z");
+    plans.findOne.mockResolvedValue({
+      event,
+      steps: ["Legacy step"],
+      source: "auto",
+      lastGeneratedAt,
+    });
+
+    await saveWorkplan("user-1", "evt-1", event, [step("New step")]);
+
+    const [filter, update, options] = versions.updateOne.mock.calls[0];
+    expect(filter).toEqual({ userId: "user-1", eventId: "evt-1", version: 0 });
+    expect(update.$setOnInsert).toEqual(
+      expect.objectContaining({
+        trigger: "created",
+        createdAt: lastGeneratedAt,
+        steps: [expect.objectContaining({ text: "Legacy step" })],
+      })
+    );
+    expect(options).toEqual({ upsert: true });
+  });
+
+  it("restores an older version as a manual plan", async () => {
+    versions.findOne.mockResolvedValue({
+      version: 1,
+      event: { title: "Old title" },
+      steps: [step("Old step")],
+      role: "host",
+    });
+    plans.findOne.mockResolvedValue({ version: 2, event, steps: [] });
+
+    const restored = await restoreWorkplanVersion("user-1", "evt-1", 1);
+
+    expect(restored.source).toBe("manual");
+    expect(restored.event).toEqual(event);
+    expect(restored.steps).toEqual([step("Old step")]);
+    expect(versions.insertOne).toHaveBeenCalledWith(
+      expect.objectContaining({ trigger: "manual", restoredFrom: 1 })
+    );
+  });
+
+  it("keeps progress and export links of steps the restored plan repeats", async () => {
+    const doneAt = new Date("2025-03-01T10:00:00Z");
+    versions.findOne.mockResolvedValue({
+      version: 1,
+      event,
+      steps: [step("Book room"), step("Send agenda")],
+      role: null,
+    });
+    plans.findOne.mockResolvedValue({
+      version: 2,
+      event,
+      steps: [
+        {
+          ...step("book room"),
+          id: "current",
+          done: true,
+          doneAt,
+          taskId: "task-1",
+          tasklistId: "list-1",
+          calendarEventId: "cal-1",
+        },
+      ],
+    });
+
+    const restored = await restoreWorkplanVersion("user-1", "evt-1", 1);
+
+    expect(restored.steps).toEqual([
+      {
+        ...step("Book room"),
+        done: true,
+        doneAt,
+        taskId: "task-1",
+        tasklistId: "list-1",
+        calendarEventId: "cal-1",
+      },
+      step("Send agenda"),
+    ]);
+  });
+
+  it("rejects unknown versions", async () => {
+    await expect(
+      restoreWorkplanVersion("user-1", "evt-1", 9)
+    ).rejects.toBeInstanceOf(WorkplanVersionNotFoundError);
+  });
+
+  it("diffs steps by their text", () => {
+    expect(
+      diffWorkplanSteps(
+        [step("Book room"), step("Send agenda")],
+        [step("book room "), step("Print handouts")]
+      )
+    ).toEqual({ added: ["Print handouts"], removed: ["Send agenda"] });
+  });
+});
@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server";
+import { metadataCorsOptionsRequestHandler } from "mcp-handler";
+
+import { getAuthorizationServerMetadata } from "@/lib/mcp-oauth";
+
+/**
+ * GET /.well-known/oauth-authorization-server
+ * Authorization server metadata (RFC 8414) for MCP clients
+ */
+export async function GET() {
+  return NextResponse.json(getAuthorizationServerMetadata(), {
+    headers: {
+      "Access-Control-Allow-Origin": "*",
+      "Cache-Control": "max-age=3600",
+    },
+  });
+}
+
+const metadataOptionsHandler = metadataCorsOptionsRequestHandler();
+
+export { metadataOptionsHandler as OPTIONS };
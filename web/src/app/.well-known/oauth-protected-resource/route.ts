@@ -3,14 +3,11 @@ import {
   metadataCorsOptionsRequestHandler,
 } from "mcp-handler";
 
-const authServerUrl = process.env.NEXT_PUBLIC_MICROMANAGER_MCP_SERVER_URL;
-if (!authServerUrl) {
-  throw new Error("NEXT_PUBLIC_MICROMANAGER_MCP_SERVER_URL is not set");
-}
+import { getOAuthIssuer } from "@/lib/mcp-oauth";
 
 const handler = protectedResourceHandler({
-  // Specify the Issuer URL of the associated Authorization Server
-  authServerUrls: [authServerUrl],
+  // Issuer URL of the authorization server served by this app
+  authServerUrls: [getOAuthIssuer()],
 });
 
 const metadataOptionsHandler = metadataCorsOptionsRequestHandler();
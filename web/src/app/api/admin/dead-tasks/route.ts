@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getMongoClient } from "@/lib/db";
+import { auth } from "@/auth";
+import { ObjectId } from "mongodb";
+import { listDeadTasks, requeueDeadTask } from "@/lib/scheduled-tasks";
+import { verifySessionToken } from "@/lib/telegram/auth";
+
+async function checkSystemAdmin(req: NextRequest) {
+  // Check both session auth and JWT token
+  const session = await auth();
+
+  if (session?.user) {
+    const client = await getMongoClient();
+    const user = await client.db().collection("users").findOne({
+      email: session.user.email,
+    });
+    return user?.tier === "admin";
+  }
+
+  // Check JWT token for Telegram users
+  let token = req.cookies.get("telegram-auth-token")?.value;
+  const authHeader = req.headers.get("Authorization");
+  if (authHeader?.startsWith("Bearer ")) {
+    token = authHeader.substring(7);
+  }
+
+  if (token) {
+    try {
+      const { payload } = await verifySessionToken(token);
+      const client = await getMongoClient();
+      const user = await client
+        .db()
+        .collection("users")
+        .findOne({
+          _id: new ObjectId(payload.sub as string),
+        });
+      return user?.tier === "admin";
+    } catch {
+      return false;
+    }
+  }
+
+  return false;
+}
+
+/**
+ * GET /api/admin/dead-tasks
+ *
+ * Scheduled task runs that failed every retry, newest first
+ */
+export async function GET(req: NextRequest) {
+  const isAdmin = await checkSystemAdmin(req);
+  if (!isAdmin) {
+    return NextResponse.json(
+      { error: "System admin access required" },
+      { status: 403 }
+    );
+  }
+
+  try {
+    const deadTasks = await listDeadTasks();
+    return NextResponse.json({
+      deadTasks: deadTasks.map(({ _id, taskId, ...deadTask }) => ({
+        ...deadTask,
+        id: _id!.toString(),
+        taskId: taskId.toString(),
+      })),
+    });
+  } catch (error) {
+    console.error("[Dead Tasks] Failed to list dead tasks:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch dead tasks" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/admin/dead-tasks
+ * Body: { id: string }
+ *
+ * Requeues a dead task: its run is replayed once, right away
+ */
+export async function POST(req: NextRequest) {
+  const isAdmin = await checkSystemAdmin(req);
+  if (!isAdmin) {
+    console.warn("[Dead Tasks] Unauthorized requeue attempt");
+    return NextResponse.json(
+      { error: "System admin access required" },
+      { status: 403 }
+    );
+  }
+
+  const body = await req.json().catch(() => null);
+  const id = body?.id;
+  if (typeof id !== "string" || !ObjectId.isValid(id)) {
+    return NextResponse.json(
+      { error: "Valid id is required" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const task = await requeueDeadTask(new ObjectId(id));
+    if (!task) {
+      return NextResponse.json(
+        { error: "Dead task not found" },
+        { status: 404 }
+      );
+    }
+    console.log(`[Dead Tasks] Requeued dead task ${id} as task ${task._id}`);
+    return NextResponse.json({ success: true, taskId: task._id!.toString() });
+  } catch (error) {
+    console.error("[Dead Tasks] Failed to requeue dead task:", error);
+    return NextResponse.json(
+      { error: "Failed to requeue dead task" },
+      { status: 500 }
+    );
+  }
+}
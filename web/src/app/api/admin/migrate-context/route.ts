@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getMongoClient } from "@/lib/db";
+import { auth } from "@/auth";
+import { ObjectId } from "mongodb";
+import { migrateAllUserContextDocuments } from "@/lib/user-context";
+import { USER_CONTEXT_SCHEMA_VERSION } from "@/lib/user-context-schema";
+import { verifySessionToken } from "@/lib/telegram/auth";
+
+async function checkSystemAdmin(req: NextRequest) {
+  // Check both session auth and JWT token
+  const session = await auth();
+
+  if (session?.user) {
+    const client = await getMongoClient();
+    const user = await client.db().collection("users").findOne({
+      email: session.user.email,
+    });
+    return user?.tier === "admin";
+  }
+
+  // Check JWT token for Telegram users
+  let token = req.cookies.get("telegram-auth-token")?.value;
+  const authHeader = req.headers.get("Authorization");
+  if (authHeader?.startsWith("Bearer ")) {
+    token = authHeader.substring(7);
+  }
+
+  if (token) {
+    try {
+      const { payload } = await verifySessionToken(token);
+      const client = await getMongoClient();
+      const user = await client
+        .db()
+        .collection("users")
+        .findOne({
+          _id: new ObjectId(payload.sub as string),
+        });
+      return user?.tier === "admin";
+    } catch {
+      return false;
+    }
+  }
+
+  return false;
+}
+
+/**
+ * POST /api/admin/migrate-context
+ *
+ * Migrates all user context documents to the current schema version.
+ * Documents are also migrated lazily on first read; this converts the rest in one go.
+ */
+export async function POST(req: NextRequest) {
+  const isAdmin = await checkSystemAdmin(req);
+  if (!isAdmin) {
+    console.warn("[Migrate Context] Unauthorized access attempt");
+    return NextResponse.json(
+      { error: "System admin access required" },
+      { status: 403 }
+    );
+  }
+
+  try {
+    const migrated = await migrateAllUserContextDocuments();
+    console.log(
+      `[Migrate Context] Migrated ${migrated} documents to schema v${USER_CONTEXT_SCHEMA_VERSION}`
+    );
+    return NextResponse.json({
+      success: true,
+      migrated,
+      schemaVersion: USER_CONTEXT_SCHEMA_VERSION,
+    });
+  } catch (error) {
+    console.error("[Migrate Context] Migration failed:", error);
+    return NextResponse.json(
+      { error: "Failed to migrate user contexts" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getMongoClient } from "@/lib/db";
+import { auth } from "@/auth";
+import { ObjectId } from "mongodb";
+import { migrateAllWorkplans } from "@/lib/workplans";
+import { verifySessionToken } from "@/lib/telegram/auth";
+
+async function checkSystemAdmin(req: NextRequest) {
+  // Check both session auth and JWT token
+  const session = await auth();
+
+  if (session?.user) {
+    const client = await getMongoClient();
+    const user = await client.db().collection("users").findOne({
+      email: session.user.email,
+    });
+    return user?.tier === "admin";
+  }
+
+  // Check JWT token for Telegram users
+  let token = req.cookies.get("telegram-auth-token")?.value;
+  const authHeader = req.headers.get("Authorization");
+  if (authHeader?.startsWith("Bearer ")) {
+    token = authHeader.substring(7);
+  }
+
+  if (token) {
+    try {
+      const { payload } = await verifySessionToken(token);
+      const client = await getMongoClient();
+      const user = await client
+        .db()
+        .collection("users")
+        .findOne({
+          _id: new ObjectId(payload.sub as string),
+        });
+      return user?.tier === "admin";
+    } catch {
+      return false;
+    }
+  }
+
+  return false;
+}
+
+/**
+ * POST /api/admin/migrate-workplans
+ *
+ * Converts workplans that still store plain string steps to step objects.
+ * Plans are also migrated lazily on first read; this converts the rest in one go.
+ */
+export async function POST(req: NextRequest) {
+  const isAdmin = await checkSystemAdmin(req);
+  if (!isAdmin) {
+    console.warn("[Migrate Workplans] Unauthorized access attempt");
+    return NextResponse.json(
+      { error: "System admin access required" },
+      { status: 403 }
+    );
+  }
+
+  try {
+    const migrated = await migrateAllWorkplans();
+    console.log(`[Migrate Workplans] Migrated ${migrated} workplans`);
+    return NextResponse.json({ success: true, migrated });
+  } catch (error) {
+    console.error("[Migrate Workplans] Migration failed:", error);
+    return NextResponse.json(
+      { error: "Failed to migrate workplans" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,9 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
-import { jwtVerify } from "jose";
 import { getMongoClient } from "@/lib/db";
 import { auth } from "@/auth";
 import { ObjectId } from "mongodb";
-import { env } from "@/env";
+import { verifySessionToken } from "@/lib/telegram/auth";
 
 async function checkSystemAdmin(req: NextRequest) {
   // Check both session auth and JWT token
@@ -26,7 +25,7 @@ async function checkSystemAdmin(req: NextRequest) {
 
   if (token) {
     try {
-      const { payload } = await jwtVerify(token, env.JWT_SECRET);
+      const { payload } = await verifySessionToken(token);
       const client = await getMongoClient();
       const user = await client
         .db()
@@ -108,6 +107,7 @@ export async function DELETE(req: NextRequest) {
       "toolCalls",
       "firstLoadProgress",
       "scheduledTasks",
+      "dead_tasks",
       "workplans",
     ];
 
@@ -0,0 +1,163 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getMongoClient } from "@/lib/db";
+import { auth } from "@/auth";
+import { ObjectId } from "mongodb";
+import {
+  getUserContextDocument,
+  listUserContextHistory,
+  rollbackUserContext,
+  UserContextValidationError,
+  UserContextVersionNotFoundError,
+} from "@/lib/user-context";
+import { verifySessionToken } from "@/lib/telegram/auth";
+
+const rollbackSchema = z.object({
+  version: z.number().int().min(0),
+  path: z.string().min(1).optional(),
+});
+
+async function getSystemAdminId(req: NextRequest): Promise<string | null> {
+  // Check both session auth and JWT token
+  const session = await auth();
+
+  if (session?.user) {
+    const client = await getMongoClient();
+    const user = await client.db().collection("users").findOne({
+      email: session.user.email,
+    });
+    return user?.tier === "admin" ? user._id.toString() : null;
+  }
+
+  // Check JWT token for Telegram users
+  let token = req.cookies.get("telegram-auth-token")?.value;
+  const authHeader = req.headers.get("Authorization");
+  if (authHeader?.startsWith("Bearer ")) {
+    token = authHeader.substring(7);
+  }
+
+  if (token) {
+    try {
+      const { payload } = await verifySessionToken(token);
+      const client = await getMongoClient();
+      const user = await client
+        .db()
+        .collection("users")
+        .findOne({
+          _id: new ObjectId(payload.sub as string),
+        });
+      return user?.tier === "admin" ? user._id.toString() : null;
+    } catch {
+      return null;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * GET /api/admin/users/[id]/context
+ *
+ * Returns the user's context together with its recent change history.
+ */
+export async function GET(
+  req: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  const adminId = await getSystemAdminId(req);
+  if (!adminId) {
+    return NextResponse.json(
+      { error: "System admin access required" },
+      { status: 403 }
+    );
+  }
+  const { id: userId } = await context.params;
+
+  try {
+    const [doc, history] = await Promise.all([
+      getUserContextDocument(userId),
+      listUserContextHistory(userId, { limit: 50 }),
+    ]);
+    return NextResponse.json({
+      success: true,
+      context: doc.data,
+      version: doc.version,
+      history: history.map((record) => ({
+        version: record.version,
+        changes: record.changes,
+        actor: record.actor,
+        rolledBackTo: record.rolledBackTo,
+        createdAt: record.createdAt.toISOString(),
+      })),
+    });
+  } catch (error) {
+    console.error("[Admin Context API] Failed to fetch user context:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to load user context" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/admin/users/[id]/context
+ *
+ * Rolls the user's context (or one path of it) back to an earlier version.
+ */
+export async function POST(
+  req: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  const adminId = await getSystemAdminId(req);
+  if (!adminId) {
+    return NextResponse.json(
+      { error: "System admin access required" },
+      { status: 403 }
+    );
+  }
+  const { id: userId } = await context.params;
+
+  const parseResult = rollbackSchema.safeParse(
+    await req.json().catch(() => null)
+  );
+  if (!parseResult.success) {
+    return NextResponse.json(
+      {
+        error: "Invalid payload",
+        details: parseResult.error.flatten().fieldErrors,
+      },
+      { status: 422 }
+    );
+  }
+
+  try {
+    const { document } = await rollbackUserContext(
+      userId,
+      parseResult.data.version,
+      {
+        actor: { type: "admin", userId: adminId },
+        path: parseResult.data.path,
+      }
+    );
+    console.log(
+      `[Admin Context API] Admin ${adminId} rolled back context of ${userId} to v${parseResult.data.version}`
+    );
+    return NextResponse.json({
+      success: true,
+      version: document.version,
+      context: document.data,
+    });
+  } catch (error) {
+    if (error instanceof UserContextVersionNotFoundError) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+    if (error instanceof UserContextValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 422 });
+    }
+    console.error("[Admin Context API] Rollback failed:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to roll back user context" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,9 +1,10 @@
 import { NextRequest, NextResponse } from "next/server";
-import { jwtVerify } from "jose";
 import { getMongoClient } from "@/lib/db";
 import { auth } from "@/auth";
 import { ObjectId } from "mongodb";
-import { env } from "@/env";
+import { revokeAllMcpCredentialsForUser } from "@/lib/mcp-auth";
+import type { UserTier } from "@/types/user";
+import { verifySessionToken } from "@/lib/telegram/auth";
 
 export async function checkSystemAdmin(req: NextRequest) {
   // Check both session auth and JWT token
@@ -26,7 +27,7 @@ export async function checkSystemAdmin(req: NextRequest) {
 
   if (token) {
     try {
-      const { payload } = await jwtVerify(token, env.JWT_SECRET);
+      const { payload } = await verifySessionToken(token);
       const client = await getMongoClient();
       const user = await client
         .db()
@@ -116,15 +117,26 @@ export async function PATCH(req: NextRequest) {
 
     if (updates.tier !== undefined) updateData.tier = updates.tier;
 
-    const result = await usersCollection.updateOne(
+    const previous = await usersCollection.findOneAndUpdate(
       { _id: new ObjectId(String(userId)) },
-      { $set: updateData }
+      { $set: updateData },
+      { returnDocument: "before" }
     );
 
-    if (result.matchedCount === 0) {
+    if (!previous) {
       return NextResponse.json({ error: "User not found" }, { status: 404 });
     }
 
+    // Live MCP tokens may carry scopes granted under the old tier
+    const tierRank = { free: 0, paid: 1, admin: 2 } as const;
+    const previousTier = (previous.tier ?? "free") as UserTier;
+    if (
+      updates.tier !== undefined &&
+      tierRank[updates.tier as UserTier] < tierRank[previousTier]
+    ) {
+      await revokeAllMcpCredentialsForUser(String(userId), "tier_downgrade");
+    }
+
     return NextResponse.json({ success: true, updates: updateData });
   } catch (error) {
     console.error("[Admin Users PATCH] Error:", error);
@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+import { auth } from "@/auth";
+import {
+  claimPendingApproval,
+  listPendingApprovals,
+  toPendingApprovalSummary,
+} from "@/lib/approvals";
+import { resumeWorkflowAfterApproval } from "@/lib/agent/workflows/micromanager.workflow";
+import { resolveTelegramApprovalMessage } from "@/lib/telegram/bot";
+import { verifySessionToken } from "@/lib/telegram/auth";
+
+const decisionSchema = z.object({
+  approvalId: z.string().min(1),
+  decision: z.enum(["approve", "reject"]),
+});
+
+async function getUserId(request: NextRequest): Promise<string | undefined> {
+  // Try NextAuth session first
+  const session = await auth();
+  if (session?.user?.id) {
+    return session.user.id;
+  }
+
+  // If no NextAuth session, check for Telegram JWT
+  try {
+    let token = request.cookies.get("telegram-auth-token")?.value;
+    const authHeader = request.headers.get("Authorization");
+    if (authHeader?.startsWith("Bearer ")) {
+      token = authHeader.substring(7);
+    }
+
+    if (token) {
+      const { payload } = await verifySessionToken(token);
+      return typeof payload.sub === "string" ? payload.sub : undefined;
+    }
+  } catch (error) {
+    console.error("[Approvals API] Failed to verify Telegram token", error);
+  }
+  return undefined;
+}
+
+/**
+ * GET /api/approvals
+ * Lists the user's pending agent actions awaiting approval
+ */
+export async function GET(request: NextRequest) {
+  const userId = await getUserId(request);
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const approvals = await listPendingApprovals(userId);
+    return NextResponse.json({
+      approvals: approvals.map(toPendingApprovalSummary),
+    });
+  } catch (error) {
+    console.error("[Approvals API] Failed to list approvals", error);
+    return NextResponse.json(
+      { error: "Failed to fetch approvals" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/approvals
+ * Approves or rejects a pending action and resumes the paused agent run
+ */
+export async function POST(request: NextRequest) {
+  const userId = await getUserId(request);
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const json = await request.json().catch(() => null);
+  const parseResult = decisionSchema.safeParse(json);
+  if (!parseResult.success) {
+    return NextResponse.json(
+      {
+        error: "Invalid payload",
+        details: parseResult.error.flatten().fieldErrors,
+      },
+      { status: 422 }
+    );
+  }
+
+  const { approvalId, decision } = parseResult.data;
+
+  try {
+    const approval = await claimPendingApproval(userId, approvalId, decision);
+    if (!approval) {
+      return NextResponse.json(
+        { error: "Approval not found, already decided or expired" },
+        { status: 404 }
+      );
+    }
+
+    await resolveTelegramApprovalMessage(
+      approval,
+      decision === "approve" ? "✅ Approved" : "❌ Rejected"
+    );
+
+    const result = await resumeWorkflowAfterApproval(approval);
+    return NextResponse.json({
+      success: !result.error,
+      message: result.output_text,
+      approvalId: result.approvalId,
+    });
+  } catch (error) {
+    console.error("[Approvals API] Failed to resolve approval", error);
+    return NextResponse.json(
+      { error: "Failed to resolve approval" },
+      { status: 500 }
+    );
+  }
+}
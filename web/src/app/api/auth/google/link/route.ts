@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { SignJWT, jwtVerify } from "jose";
 import { env } from "@/env";
 import { nanoid } from "nanoid";
+import { verifySessionToken } from "@/lib/telegram/auth";
 
 /**
  * GET /api/auth/google/link?telegramId=123456
@@ -30,7 +31,7 @@ export async function GET(req: NextRequest) {
     // Option 2: Extract from Telegram JWT token
     else if (tokenParam) {
       try {
-        const { payload } = await jwtVerify(tokenParam, env.JWT_SECRET);
+        const { payload } = await verifySessionToken(tokenParam);
 
         if (typeof payload.telegramId !== "number") {
           return NextResponse.json(
@@ -1,12 +1,12 @@
 import { NextRequest, NextResponse } from "next/server";
 import { validate, parse } from "@telegram-apps/init-data-node";
-import { SignJWT, jwtVerify } from "jose";
 import { ObjectId } from "mongodb";
 
-import { env } from "@/env";
 import { getMongoClient } from "@/lib/db";
 import { upsertTelegramUser } from "@/lib/telegram/bot";
-import { getUserByTelegramId } from "@/lib/user";
+import { isValidTimeZone } from "@/lib/recurrence";
+import { getUserByTelegramId, setUserTimezone } from "@/lib/user";
+import { signSessionToken, verifySessionToken } from "@/lib/telegram/auth";
 
 interface TelegramAuthUser {
   id: number;
@@ -87,6 +87,11 @@ export async function POST(req: NextRequest) {
     );
 
     const telegramUser = parsedData.user as TelegramAuthUser | undefined;
+    const timezone =
+      typeof requestMetadata.timezone === "string" &&
+      isValidTimeZone(requestMetadata.timezone)
+        ? requestMetadata.timezone
+        : undefined;
 
     if (!telegramUser) {
       console.error(
@@ -142,6 +147,9 @@ export async function POST(req: NextRequest) {
           },
         }
       );
+      if (timezone) {
+        await setUserTimezone(userId, timezone);
+      }
     } else {
       const newUser = {
         telegramId: telegramUser.id,
@@ -152,6 +160,7 @@ export async function POST(req: NextRequest) {
         email:
           telegramUser.username || `telegram_${telegramUser.id}@telegram.local`,
         tier: "free",
+        ...(timezone && { timezone }),
         createdAt: new Date(),
         lastLogin: new Date(),
       };
@@ -180,16 +189,12 @@ export async function POST(req: NextRequest) {
       lastLogin: new Date(),
     });
 
-    const token = await new SignJWT({
+    const token = await signSessionToken({
       sub: userId,
       telegramId: telegramUser.id,
       name: telegramUser.first_name || telegramUser.username || "User",
       tier: userTier,
-    })
-      .setProtectedHeader({ alg: "HS256" })
-      .setIssuedAt()
-      .setExpirationTime("7d")
-      .sign(env.JWT_SECRET);
+    });
 
     const response = NextResponse.json({
       success: true,
@@ -250,7 +255,7 @@ export async function GET(req: NextRequest) {
   }
 
   try {
-    const { payload } = await jwtVerify(token, env.JWT_SECRET);
+    const { payload } = await verifySessionToken(token);
 
     // Get fresh user data from database
     const client = await getMongoClient();
@@ -9,6 +9,7 @@ import {
 } from "@/lib/conversations";
 import { notifyTelegramUser } from "@/lib/telegram/bot";
 import { runWorkflow } from "@/lib/agent/workflows/micromanager.workflow";
+import { consumeRateLimit, rateLimitResponse } from "@/lib/rate-limit";
 
 const requestSchema = z.object({
   message: z.string().min(1),
@@ -36,6 +37,15 @@ export async function POST(request: Request) {
   const { message: userMessage } = parseResult.data;
   const userId = session.user.id;
 
+  const rateLimit = await consumeRateLimit(userId, {
+    kind: "route",
+    route: "/api/chat",
+    source: "web",
+  });
+  if (!rateLimit.allowed) {
+    return rateLimitResponse(rateLimit);
+  }
+
   let activeAssistantMessageId: string | null = null;
 
   try {
@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+import { auth } from "@/auth";
+import {
+  InvalidMessageCursorError,
+  MESSAGE_ROLES,
+  MESSAGE_SOURCES,
+  searchMessages,
+} from "@/lib/conversations";
+import { verifySessionToken } from "@/lib/telegram/auth";
+
+const querySchema = z.object({
+  q: z.string().optional(),
+  from: z.string().datetime({ offset: true }).optional(),
+  to: z.string().datetime({ offset: true }).optional(),
+  role: z.array(z.enum(MESSAGE_ROLES)).optional(),
+  source: z.array(z.enum(MESSAGE_SOURCES)).optional(),
+  limit: z.coerce.number().int().min(1).max(50).optional(),
+  cursor: z.string().optional(),
+});
+
+async function getUserId(request: NextRequest): Promise<string | undefined> {
+  const session = await auth();
+  if (session?.user?.id) {
+    return session.user.id;
+  }
+
+  try {
+    let token = request.cookies.get("telegram-auth-token")?.value;
+    const authHeader = request.headers.get("Authorization");
+    if (authHeader?.startsWith("Bearer ")) {
+      token = authHeader.substring(7);
+    }
+
+    if (token) {
+      const { payload } = await verifySessionToken(token);
+      return typeof payload.sub === "string" ? payload.sub : undefined;
+    }
+  } catch (error) {
+    console.error("[Chat Search API] Failed to verify Telegram token", error);
+  }
+  return undefined;
+}
+
+/**
+ * GET /api/chat/search?q=dentist&from=...&to=...&role=user&source=web-user&cursor=...
+ *
+ * Searches the user's conversation history, newest first. `role` and `source`
+ * may be repeated.
+ */
+export async function GET(request: NextRequest) {
+  const userId = await getUserId(request);
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const parseResult = querySchema.safeParse({
+    q: searchParams.get("q") ?? undefined,
+    from: searchParams.get("from") ?? undefined,
+    to: searchParams.get("to") ?? undefined,
+    role: searchParams.getAll("role").length
+      ? searchParams.getAll("role")
+      : undefined,
+    source: searchParams.getAll("source").length
+      ? searchParams.getAll("source")
+      : undefined,
+    limit: searchParams.get("limit") ?? undefined,
+    cursor: searchParams.get("cursor") ?? undefined,
+  });
+  if (!parseResult.success) {
+    return NextResponse.json(
+      {
+        error: "Invalid query",
+        details: parseResult.error.flatten().fieldErrors,
+      },
+      { status: 422 }
+    );
+  }
+  const { q, from, to, role, source, limit, cursor } = parseResult.data;
+
+  try {
+    const { messages, nextCursor } = await searchMessages(userId, {
+      query: q,
+      from: from ? new Date(from) : undefined,
+      to: to ? new Date(to) : undefined,
+      roles: role,
+      sources: source,
+      limit,
+      cursor,
+    });
+    return NextResponse.json({
+      messages: messages.map((message) => ({
+        id: message.id || message._id?.toString(),
+        role: message.role,
+        content: message.content,
+        source: message.source,
+        createdAt: message.createdAt.toISOString(),
+      })),
+      nextCursor,
+    });
+  } catch (error) {
+    if (error instanceof InvalidMessageCursorError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error("[Chat Search API] Search failed:", error);
+    return NextResponse.json(
+      { error: "Failed to search messages" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,138 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+import { auth } from "@/auth";
+import {
+  diffUserContextVersions,
+  listUserContextHistory,
+  rollbackUserContext,
+  UserContextChangeRecord,
+  UserContextValidationError,
+  UserContextVersionNotFoundError,
+} from "@/lib/user-context";
+import { verifySessionToken } from "@/lib/telegram/auth";
+
+const diffSchema = z.object({
+  action: z.literal("diff"),
+  from: z.number().int().min(0),
+  to: z.number().int().min(0).optional(),
+});
+
+const rollbackSchema = z.object({
+  action: z.literal("rollback"),
+  version: z.number().int().min(0),
+  path: z.string().min(1).optional(),
+});
+
+const requestSchema = z.discriminatedUnion("action", [
+  diffSchema,
+  rollbackSchema,
+]);
+
+async function getUserId(request: NextRequest): Promise<string | undefined> {
+  const session = await auth();
+  if (session?.user?.id) {
+    return session.user.id;
+  }
+
+  try {
+    let token = request.cookies.get("telegram-auth-token")?.value;
+    const authHeader = request.headers.get("Authorization");
+    if (authHeader?.startsWith("Bearer ")) {
+      token = authHeader.substring(7);
+    }
+
+    if (token) {
+      const { payload } = await verifySessionToken(token);
+      return typeof payload.sub === "string" ? payload.sub : undefined;
+    }
+  } catch (error) {
+    console.error("[Context History API] Failed to verify Telegram token", error);
+  }
+  return undefined;
+}
+
+const serializeRecord = (record: UserContextChangeRecord) => ({
+  version: record.version,
+  changes: record.changes,
+  actor: record.actor,
+  rolledBackTo: record.rolledBackTo,
+  createdAt: record.createdAt.toISOString(),
+});
+
+/**
+ * GET /api/context/history?limit=20&before=<version>
+ *
+ * Lists the user's context changes, newest first.
+ */
+export async function GET(request: NextRequest) {
+  const userId = await getUserId(request);
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const limit = Math.min(Number(searchParams.get("limit")) || 20, 100);
+  const before = searchParams.get("before");
+
+  const records = await listUserContextHistory(userId, {
+    limit,
+    beforeVersion: before ? Number(before) : undefined,
+  });
+  return NextResponse.json({ history: records.map(serializeRecord) });
+}
+
+/**
+ * POST /api/context/history
+ *
+ * { action: "diff", from, to? } compares two versions;
+ * { action: "rollback", version, path? } restores a path or the whole context.
+ */
+export async function POST(request: NextRequest) {
+  const userId = await getUserId(request);
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const json = await request.json().catch(() => null);
+  const parseResult = requestSchema.safeParse(json);
+  if (!parseResult.success) {
+    return NextResponse.json(
+      {
+        error: "Invalid payload",
+        details: parseResult.error.flatten().fieldErrors,
+      },
+      { status: 422 }
+    );
+  }
+  const payload = parseResult.data;
+
+  try {
+    if (payload.action === "diff") {
+      return NextResponse.json(
+        await diffUserContextVersions(userId, payload.from, payload.to)
+      );
+    }
+
+    const { document } = await rollbackUserContext(userId, payload.version, {
+      actor: { type: "user", userId },
+      path: payload.path,
+    });
+    return NextResponse.json({
+      version: document.version,
+      context: document.data,
+    });
+  } catch (error) {
+    if (error instanceof UserContextVersionNotFoundError) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+    if (error instanceof UserContextValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 422 });
+    }
+    console.error("[Context History API] Request failed:", error);
+    return NextResponse.json(
+      { error: "Failed to process context history request" },
+      { status: 500 }
+    );
+  }
+}
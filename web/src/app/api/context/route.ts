@@ -2,24 +2,41 @@ import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
 
 import { auth } from "@/auth";
-import { getUserContextDocument } from "@/lib/user-context";
-import { jwtVerify } from "jose";
-import { env } from "@/env";
+import {
+  getUserContextDocument,
+  updateUserContextDocument,
+  UserContextConflictError,
+  UserContextDocument,
+  UserContextValidationError,
+} from "@/lib/user-context";
+import {
+  formatUserContextAsText,
+  parseContextPath,
+} from "@/lib/user-context-schema";
+import { verifySessionToken } from "@/lib/telegram/auth";
 
 const getSchema = z.object({
   action: z.literal("get"),
   format: z.enum(["json", "text"]).optional(),
 });
 
+// Segments are joined into a dotted path, so they can't contain dots themselves
+const segmentsSchema = z
+  .array(z.string().min(1).regex(/^[^.]*$/))
+  .min(1);
+
 const setSchema = z.object({
   action: z.literal("set"),
-  segments: z.array(z.string().min(1)).min(1),
+  segments: segmentsSchema,
   value: z.unknown(),
+  // updatedAt from the last read; the write fails with 409 if the context changed since
+  expectedUpdatedAt: z.string().datetime().optional(),
 });
 
 const deleteSchema = z.object({
   action: z.literal("delete"),
-  segments: z.array(z.string().min(1)).min(1),
+  segments: segmentsSchema.min(2),
+  expectedUpdatedAt: z.string().datetime().optional(),
 });
 
 const requestSchema = z.discriminatedUnion("action", [
@@ -28,6 +45,16 @@ const requestSchema = z.discriminatedUnion("action", [
   deleteSchema,
 ]);
 
+const serializeContext = (doc: UserContextDocument) => ({
+  output: JSON.stringify(doc.data, null, 2),
+  metadata: {
+    updatedAt: doc.updatedAt.toISOString(),
+    schemaVersion: doc.schemaVersion,
+    version: doc.version,
+    format: "json",
+  },
+});
+
 export async function POST(request: NextRequest) {
   const session = await auth();
   let userId = session?.user?.id;
@@ -41,7 +68,7 @@ export async function POST(request: NextRequest) {
       }
 
       if (token) {
-        const { payload } = await jwtVerify(token, env.JWT_SECRET);
+        const { payload } = await verifySessionToken(token);
         userId = typeof payload.sub === "string" ? payload.sub : undefined;
       }
     } catch (error) {
@@ -71,17 +98,71 @@ export async function POST(request: NextRequest) {
   switch (payload.action) {
     case "get": {
       const doc = await getUserContextDocument(userId);
+      const format = payload.format ?? "json";
       return NextResponse.json({
-        output: JSON.stringify(doc.data, null, 2),
+        output:
+          format === "text"
+            ? formatUserContextAsText(doc.data)
+            : JSON.stringify(doc.data, null, 2),
         metadata: {
           updatedAt: doc.updatedAt.toISOString(),
-          format: payload.format ?? "json",
+          schemaVersion: doc.schemaVersion,
+          version: doc.version,
+          format,
         },
       });
     }
-    case "set": {
-      console.error("Not implemented");
-      return NextResponse.json({ error: "Not implemented" }, { status: 501 });
+    case "set":
+    case "delete": {
+      const path = payload.segments.join(".");
+      if (!parseContextPath(path)) {
+        return NextResponse.json(
+          { error: `Invalid context path "${path}"` },
+          { status: 422 }
+        );
+      }
+      if (payload.action === "set" && payload.value === undefined) {
+        return NextResponse.json(
+          { error: "A value is required; use the delete action to remove a path" },
+          { status: 422 }
+        );
+      }
+
+      try {
+        const { document } = await updateUserContextDocument(
+          userId,
+          [
+            {
+              path,
+              value: payload.action === "set" ? payload.value : undefined,
+            },
+          ],
+          {
+            actor: { type: "user", userId },
+            // Users see validation errors instead of having their edit filed under unsorted
+            onInvalid: "reject",
+            expectedUpdatedAt: payload.expectedUpdatedAt
+              ? new Date(payload.expectedUpdatedAt)
+              : undefined,
+          }
+        );
+        return NextResponse.json(serializeContext(document));
+      } catch (error) {
+        if (error instanceof UserContextConflictError) {
+          return NextResponse.json(
+            { error: error.message, ...serializeContext(error.current) },
+            { status: 409 }
+          );
+        }
+        if (error instanceof UserContextValidationError) {
+          return NextResponse.json({ error: error.message }, { status: 422 });
+        }
+        console.error("[Context API] Failed to update context", error);
+        return NextResponse.json(
+          { error: "Failed to update context" },
+          { status: 500 }
+        );
+      }
     }
     default:
       return NextResponse.json(
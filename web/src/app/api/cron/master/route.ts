@@ -3,18 +3,33 @@ import {
   getReadyTasks,
   lockTask,
   completeTask,
-  unlockTask,
+  deferTask,
+  failTask,
+  recordTaskProgress,
+  ScheduledTask,
 } from "@/lib/scheduled-tasks";
+import { resolveDeliveryTime } from "@/lib/quiet-hours";
 import { runWorkflow } from "@/lib/agent/workflows/micromanager.workflow";
 import {
   sendTelegramMessage,
   getTelegramUserByUserId,
+  resolveTelegramApprovalMessage,
 } from "@/lib/telegram/bot";
-import { insertMessage } from "@/lib/conversations";
+import { expirePendingApprovals } from "@/lib/approvals";
+import { insertMessage, MessageSource } from "@/lib/conversations";
 import { env } from "@/env";
-import { logUsage } from "@/lib/usage-tracking";
+import { calculateCost, logUsage } from "@/lib/usage-tracking";
 import type { UsageLog } from "@/lib/usage-tracking";
 import { MODELS } from "@/lib/utils";
+import { PROMPT_TEMPLATES } from "@/lib/agent/prompts";
+import { getGoogleAccessToken } from "@/lib/google-tokens";
+import { pruneUserContext } from "@/lib/user-context-cleanup";
+import {
+  createWorkplanGenerationLimiter,
+  refreshUpcomingWorkplans,
+  WorkplanGenerationLimiter,
+} from "@/lib/workplan-generator";
+import { WORKPLAN_PREGENERATE_CONCURRENCY } from "@/lib/constants";
 
 const TASK_FAILURE_MODEL = MODELS.text;
 
@@ -62,6 +77,8 @@ export async function GET(req: NextRequest) {
 
     console.log("[Master Cron] Starting scheduled task processing");
 
+    await expireApprovals();
+
     // Get tasks ready to run
     const tasks = await getReadyTasks(50);
     console.log(`[Master Cron] Found ${tasks.length} tasks ready to run`);
@@ -74,6 +91,11 @@ export async function GET(req: NextRequest) {
       });
     }
 
+    // Plan generations across all users share one cap so a run stays within its time limit
+    const workplanLimiter = createWorkplanGenerationLimiter(
+      WORKPLAN_PREGENERATE_CONCURRENCY
+    );
+
     // Process tasks in parallel with error handling
     const results = await Promise.allSettled(
       tasks.map(async (task) => {
@@ -90,11 +112,32 @@ export async function GET(req: NextRequest) {
         }
 
         try {
+          // Check-ins and reminders wait out quiet hours and snoozes unless
+          // the reminder is marked urgent (payload.urgent)
+          if (
+            (task.taskType === "daily_check" || task.taskType === "reminder") &&
+            task.payload?.urgent !== true
+          ) {
+            const now = new Date();
+            const deliverAt = await resolveDeliveryTime(task.userId, now);
+            if (deliverAt > now) {
+              await deferTask(taskId, deliverAt);
+              console.log(
+                `[Master Cron] Task ${taskId} falls in quiet hours, deferred to ${deliverAt.toISOString()}`
+              );
+              return { taskId, status: "deferred" };
+            }
+          }
+
           // Execute based on task type
           if (task.taskType === "daily_check") {
-            await executeDailyCheck(task.userId);
+            await executeDailyCheck(task);
           } else if (task.taskType === "reminder") {
-            await executeReminder(task.userId, task.payload);
+            await executeReminder(task);
+          } else if (task.taskType === "context_prune") {
+            await executeContextPrune(task.userId);
+          } else if (task.taskType === "workplan_refresh") {
+            await executeWorkplanRefresh(task.userId, workplanLimiter);
           } else {
             console.warn(`[Master Cron] Unknown task type: ${task.taskType}`);
           }
@@ -106,26 +149,31 @@ export async function GET(req: NextRequest) {
           return { taskId, status: "success" };
         } catch (error) {
           console.error(`[Master Cron] Task ${taskId} failed:`, error);
+          const errorMessage =
+            error instanceof Error ? error.message : "Unknown error";
 
-          // Unlock for retry
-          await unlockTask(taskId);
+          // Back off for a retry, or dead-letter the run once attempts run out
+          const outcome = await failTask(taskId, errorMessage);
+          if (outcome?.status === "retry") {
+            console.log(
+              `[Master Cron] Task ${taskId} attempt ${outcome.attempts} failed, retrying at ${outcome.nextRetryAt.toISOString()}`
+            );
+          } else if (outcome?.status === "dead") {
+            console.error(
+              `[Master Cron] Task ${taskId} failed ${outcome.attempts} times, moved to dead_tasks`
+            );
+          }
           if (task.userId) {
             const taskType: UsageLog["taskType"] =
-              task.taskType === "daily_check" || task.taskType === "reminder"
+              task.taskType === "daily_check" ||
+              task.taskType === "reminder" ||
+              task.taskType === "workplan_refresh"
                 ? task.taskType
                 : "workflow";
-            await logTaskFailure(
-              task.userId,
-              taskType,
-              error instanceof Error ? error.message : "Unknown error"
-            );
+            await logTaskFailure(task.userId, taskType, errorMessage);
           }
 
-          return {
-            taskId,
-            status: "failed",
-            error: error instanceof Error ? error.message : "Unknown error",
-          };
+          return { taskId, status: "failed", error: errorMessage };
         }
       })
     );
@@ -142,9 +190,12 @@ export async function GET(req: NextRequest) {
     const skipped = results.filter(
       (r) => r.status === "fulfilled" && r.value.status === "skipped"
     ).length;
+    const deferred = results.filter(
+      (r) => r.status === "fulfilled" && r.value.status === "deferred"
+    ).length;
 
     console.log(
-      `[Master Cron] Finished: ${succeeded} success, ${failed} failed, ${skipped} skipped`
+      `[Master Cron] Finished: ${succeeded} success, ${failed} failed, ${skipped} skipped, ${deferred} deferred`
     );
 
     return NextResponse.json({
@@ -153,6 +204,7 @@ export async function GET(req: NextRequest) {
       succeeded,
       failed,
       skipped,
+      deferred,
     });
   } catch (error) {
     console.error("[Master Cron] Fatal error:", error);
@@ -166,10 +218,64 @@ export async function GET(req: NextRequest) {
   }
 }
 
+/**
+ * Finish workflow runs whose approval request timed out and mark their
+ * Telegram prompts expired
+ */
+async function expireApprovals() {
+  try {
+    const expired = await expirePendingApprovals();
+    for (const approval of expired) {
+      await resolveTelegramApprovalMessage(approval, "⌛ Expired");
+    }
+    if (expired.length > 0) {
+      console.log(`[Master Cron] Expired ${expired.length} approval requests`);
+    }
+  } catch (error) {
+    console.error("[Master Cron] Failed to expire approvals:", error);
+  }
+}
+
+/**
+ * Store a task's message and send it via Telegram, skipping whichever of the
+ * two an earlier attempt of the same run already did
+ */
+async function deliverTaskMessage(
+  task: ScheduledTask,
+  telegramChatId: number,
+  message: string,
+  source: MessageSource
+) {
+  const progress = task.progress ?? {};
+
+  if (!progress.storedAt) {
+    await insertMessage({
+      userId: task.userId,
+      role: "assistant",
+      content: message,
+      type: "text",
+      source,
+      telegramChatId,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+    await recordTaskProgress(task._id!, { storedAt: new Date() });
+  }
+
+  if (!progress.sentAt) {
+    const sent = await sendTelegramMessage(telegramChatId, message);
+    if (!sent) {
+      throw new Error("Failed to send Telegram message");
+    }
+    await recordTaskProgress(task._id!, { sentAt: new Date() });
+  }
+}
+
 /**
  * Execute daily check: run workflow and send message via Telegram
  */
-async function executeDailyCheck(userId: string) {
+async function executeDailyCheck(task: ScheduledTask) {
+  const { userId } = task;
   console.log(`[Daily Check] Starting for user ${userId}`);
 
   // Get user's Telegram chat
@@ -184,32 +290,38 @@ async function executeDailyCheck(userId: string) {
     return;
   }
 
-  // Run workflow with daily check prompt
-  const workflowResult = await runWorkflow({
-    input_as_text:
-      "This is your daily check-in. Review and update my context and send me a brief, personalized message. Ask about my plans or offer helpful suggestions.",
-    user_id: userId,
-    source: "api",
-    usageTaskType: "daily_check",
-    model: TASK_FAILURE_MODEL,
-  });
-
-  const message = workflowResult.output_text;
-
-  // Store assistant message
-  await insertMessage({
-    userId,
-    role: "assistant",
-    content: message,
-    type: "text",
-    source: "daily-check",
-    telegramChatId: telegramUser.telegramChatId,
-    createdAt: new Date(),
-    updatedAt: new Date(),
-  });
+  // A retry reuses the message an earlier attempt generated before failing
+  let message = task.progress?.message;
+  if (!message) {
+    // Run workflow with daily check prompt
+    const workflowResult = await runWorkflow({
+      input_as_text: PROMPT_TEMPLATES.daily_check_in.render({}),
+      user_id: userId,
+      source: "api",
+      usageTaskType: "daily_check",
+      model: TASK_FAILURE_MODEL,
+    });
+    // A paused run already sent its approval prompt; the resumed run replies
+    if (workflowResult.approvalId) {
+      console.log(`[Daily Check] Waiting for approval for user ${userId}`);
+      return;
+    }
+    // A failed run only has a placeholder reply; retry instead of sending it
+    if (workflowResult.error) {
+      throw new Error(
+        workflowResult.errorMessage ?? "Daily check workflow failed"
+      );
+    }
+    message = workflowResult.output_text;
+    await recordTaskProgress(task._id!, { message });
+  }
 
-  // Send via Telegram
-  await sendTelegramMessage(telegramUser.telegramChatId, message);
+  await deliverTaskMessage(
+    task,
+    telegramUser.telegramChatId,
+    message,
+    "daily-check"
+  );
 
   console.log(`[Daily Check] Completed for user ${userId}`);
 }
@@ -217,10 +329,8 @@ async function executeDailyCheck(userId: string) {
 /**
  * Execute reminder: send custom reminder message
  */
-async function executeReminder(
-  userId: string,
-  payload?: Record<string, unknown>
-) {
+async function executeReminder(task: ScheduledTask) {
+  const { userId, payload } = task;
   console.log(`[Reminder] Starting for user ${userId}`, payload);
 
   const telegramUser = await getTelegramUserByUserId(userId);
@@ -235,21 +345,67 @@ async function executeReminder(
   }
 
   const message = (payload?.message as string) || "Reminder!";
+  await deliverTaskMessage(task, telegramUser.telegramChatId, message, "reminder");
 
-  // Store reminder message
-  await insertMessage({
-    userId,
-    role: "assistant",
-    content: message,
-    type: "text",
-    source: "reminder",
-    telegramChatId: telegramUser.telegramChatId,
-    createdAt: new Date(),
-    updatedAt: new Date(),
-  });
+  console.log(`[Reminder] Completed for user ${userId}`);
+}
 
-  // Send via Telegram
-  await sendTelegramMessage(telegramUser.telegramChatId, message);
+/**
+ * Execute context prune: drop expired entries and ones pointing at past events or completed tasks
+ */
+async function executeContextPrune(userId: string) {
+  const accessToken = await getGoogleAccessToken(userId);
+  const { removed } = await pruneUserContext(userId, accessToken);
+  console.log(
+    `[Context Prune] Removed ${removed.length} entries for user ${userId}`,
+    removed
+  );
+}
 
-  console.log(`[Reminder] Completed for user ${userId}`);
+/**
+ * Execute workplan refresh: prepare plans for upcoming events before the user opens them
+ */
+async function executeWorkplanRefresh(
+  userId: string,
+  limiter: WorkplanGenerationLimiter
+) {
+  const accessToken = await getGoogleAccessToken(userId);
+  if (!accessToken) {
+    console.log(`[Workplan Refresh] No Google token for user ${userId}, skipping`);
+    return;
+  }
+
+  const startTime = Date.now();
+  const result = await refreshUpcomingWorkplans(userId, accessToken, {
+    limiter,
+  });
+  console.log(
+    `[Workplan Refresh] Generated ${result.generated} of ${result.checked} plans for user ${userId} (${result.skipped} fresh or manual, ${result.failed} failed)`
+  );
+  if (result.generated === 0 && result.failed === 0) {
+    return;
+  }
+
+  const { inputTokens, outputTokens } = result.usage;
+  try {
+    await logUsage({
+      userId,
+      taskType: "workplan_refresh",
+      source: "api",
+      inputTokens,
+      outputTokens,
+      totalTokens: inputTokens + outputTokens,
+      ...calculateCost({ inputTokens, outputTokens, model: result.model }),
+      toolCalls: 0,
+      toolNames: [],
+      model: result.model,
+      duration: Date.now() - startTime,
+      success: result.failed === 0,
+      ...(result.failed > 0 && {
+        error: `${result.failed} workplan generations failed`,
+      }),
+    });
+  } catch (logError) {
+    console.error("[Workplan Refresh] Failed to log usage:", logError);
+  }
 }
@@ -1,8 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
-import { jwtVerify } from "jose";
 import { ObjectId } from "mongodb";
-import { env } from "@/env";
 import { getMongoClient } from "@/lib/db";
+import { verifySessionToken } from "@/lib/telegram/auth";
 
 /**
  * Reset user progress for testing
@@ -19,7 +18,7 @@ export async function POST(req: NextRequest) {
     }
 
     // Verify JWT token
-    const { payload } = await jwtVerify(token, env.JWT_SECRET);
+    const { payload } = await verifySessionToken(token);
     const userId = payload.sub;
     const userTier = payload.tier as string | undefined;
 
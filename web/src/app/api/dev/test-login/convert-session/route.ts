@@ -1,9 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
-import { SignJWT } from "jose";
 import { ObjectId } from "mongodb";
 
-import { env } from "@/env";
 import { getMongoClient } from "@/lib/db";
+import { signSessionToken } from "@/lib/telegram/auth";
 import { auth } from "@/auth";
 
 /**
@@ -92,16 +91,12 @@ export async function POST(_req: NextRequest) {
     }
 
     // Generate JWT token compatible with Telegram mini app
-    const token = await new SignJWT({
+    const token = await signSessionToken({
       sub: userId,
       telegramId,
       name: user.name || session.user.name || "User",
       tier: user.tier || session.user.tier || "free",
-    })
-      .setProtectedHeader({ alg: "HS256" })
-      .setIssuedAt()
-      .setExpirationTime("7d")
-      .sign(env.JWT_SECRET);
+    });
 
     console.log("[Test Login Convert] Token generated successfully:", {
       userId,
@@ -1,7 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
-import { jwtVerify } from "jose";
-import { env } from "@/env";
 import { runFirstLoadTasks } from "@/lib/first-load-progress";
+import { verifySessionToken } from "@/lib/telegram/auth";
 
 /**
  * Initialize first-load experience
@@ -18,7 +17,7 @@ export async function POST(req: NextRequest) {
     }
 
     // Verify JWT token
-    const { payload } = await jwtVerify(token, env.JWT_SECRET);
+    const { payload } = await verifySessionToken(token);
     const userId = payload.sub;
 
     if (!userId) {
@@ -1,7 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
-import { jwtVerify } from "jose";
-import { env } from "@/env";
 import { getProgress } from "@/lib/first-load-progress";
+import { verifySessionToken } from "@/lib/telegram/auth";
 
 /**
  * Get current first-load progress status
@@ -17,7 +16,7 @@ export async function GET(req: NextRequest) {
     }
 
     // Verify JWT token
-    const { payload } = await jwtVerify(token, env.JWT_SECRET);
+    const { payload } = await verifySessionToken(token);
     const userId = payload.sub;
 
     if (!userId) {
@@ -1,19 +1,17 @@
 import { NextRequest, NextResponse } from "next/server";
-import { jwtVerify } from "jose";
 import { auth } from "@/auth";
-import { env } from "@/env";
 import { generateMcpToken } from "@/lib/mcp-auth";
+import { verifySessionToken } from "@/lib/telegram/auth";
 
 /**
  * POST /api/mcp/token
  * Generates a single-use MCP token for authenticated users
- * Token is valid for 1 hour and includes userId and googleAccessToken (if available)
+ * Token is valid for 1 hour; the MCP server resolves the user's Google token itself
  */
 export async function POST(request: NextRequest) {
   // Try NextAuth session first
   const session = await auth();
   let userId = session?.user?.id;
-  const googleAccessToken = session?.googleAccessToken;
 
   // If no NextAuth session, check for Telegram JWT
   if (!userId) {
@@ -25,7 +23,7 @@ export async function POST(request: NextRequest) {
       }
 
       if (token) {
-        const { payload } = await jwtVerify(token, env.JWT_SECRET);
+        const { payload } = await verifySessionToken(token);
         userId = typeof payload.sub === "string" ? payload.sub : undefined;
       }
     } catch (error) {
@@ -41,10 +39,7 @@ export async function POST(request: NextRequest) {
   }
 
   try {
-    const mcpToken = await generateMcpToken(
-      userId,
-      googleAccessToken ?? undefined
-    );
+    const mcpToken = await generateMcpToken(userId);
 
     return NextResponse.json({
       token: mcpToken,
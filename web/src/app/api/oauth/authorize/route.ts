@@ -0,0 +1,94 @@
+import { NextResponse } from "next/server";
+
+import { auth } from "@/auth";
+import { McpScope } from "@/lib/mcp-auth";
+import {
+  buildAuthorizationRedirect,
+  createAuthorizationCode,
+  OAuthError,
+  validateAuthorizationRequest,
+} from "@/lib/mcp-oauth";
+
+const formValue = (form: FormData, key: string) => {
+  const value = form.get(key);
+  return typeof value === "string" ? value : null;
+};
+
+/**
+ * POST /api/oauth/authorize
+ * Receives the consent form and redirects back to the client with a code
+ */
+export async function POST(request: Request) {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return NextResponse.json(
+      { error: "Unauthorized - valid session required" },
+      { status: 401 }
+    );
+  }
+
+  const form = await request.formData();
+
+  let authorization;
+  try {
+    authorization = await validateAuthorizationRequest({
+      client_id: formValue(form, "client_id"),
+      redirect_uri: formValue(form, "redirect_uri"),
+      response_type: formValue(form, "response_type"),
+      code_challenge: formValue(form, "code_challenge"),
+      code_challenge_method: formValue(form, "code_challenge_method"),
+      scope: formValue(form, "scope"),
+      state: formValue(form, "state"),
+    });
+  } catch (error) {
+    if (error instanceof OAuthError && error.redirectTo) {
+      return NextResponse.redirect(error.redirectTo, 303);
+    }
+    if (error instanceof OAuthError) {
+      return NextResponse.json(error.toJSON(), { status: error.status });
+    }
+    throw error;
+  }
+
+  const { client, redirectUri, codeChallenge, scopes, state } = authorization;
+
+  if (formValue(form, "decision") !== "approve") {
+    return NextResponse.redirect(
+      buildAuthorizationRedirect(redirectUri, {
+        error: "access_denied",
+        error_description: "The user denied the request",
+        state,
+      }),
+      303
+    );
+  }
+
+  // The user may untick scopes on the consent screen, but never add new ones
+  const grantedScopes = form
+    .getAll("granted_scope")
+    .filter((value): value is McpScope => scopes.includes(value as McpScope));
+
+  if (grantedScopes.length === 0) {
+    return NextResponse.redirect(
+      buildAuthorizationRedirect(redirectUri, {
+        error: "access_denied",
+        error_description: "No scopes were granted",
+        state,
+      }),
+      303
+    );
+  }
+
+  const code = await createAuthorizationCode({
+    clientId: client.clientId,
+    userId: session.user.id,
+    redirectUri,
+    codeChallenge,
+    scopes: grantedScopes,
+  });
+
+  return NextResponse.redirect(
+    buildAuthorizationRedirect(redirectUri, { code, state }),
+    303
+  );
+}
@@ -0,0 +1,86 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import {
+  OAUTH_CORS_HEADERS,
+  OAuthError,
+  registerOAuthClient,
+} from "@/lib/mcp-oauth";
+
+const bodySchema = z.object({
+  redirect_uris: z.array(z.string()).min(1),
+  client_name: z.string().max(200).optional(),
+  token_endpoint_auth_method: z
+    .enum(["none", "client_secret_post", "client_secret_basic"])
+    .optional(),
+  grant_types: z
+    .array(z.enum(["authorization_code", "refresh_token"]))
+    .optional(),
+  response_types: z.array(z.literal("code")).optional(),
+  scope: z.string().optional(),
+});
+
+/**
+ * POST /api/oauth/register
+ * Dynamic client registration (RFC 7591) for MCP clients
+ */
+export async function POST(request: Request) {
+  const json = await request.json().catch(() => null);
+  const parseResult = bodySchema.safeParse(json);
+
+  if (!parseResult.success) {
+    return NextResponse.json(
+      {
+        error: "invalid_client_metadata",
+        error_description: parseResult.error.issues
+          .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+          .join("; "),
+      },
+      { status: 400, headers: OAUTH_CORS_HEADERS }
+    );
+  }
+
+  const body = parseResult.data;
+
+  try {
+    const { client, clientSecret } = await registerOAuthClient({
+      clientName: body.client_name,
+      redirectUris: body.redirect_uris,
+      tokenEndpointAuthMethod: body.token_endpoint_auth_method,
+      scope: body.scope,
+    });
+
+    return NextResponse.json(
+      {
+        client_id: client.clientId,
+        ...(clientSecret
+          ? { client_secret: clientSecret, client_secret_expires_at: 0 }
+          : {}),
+        client_id_issued_at: Math.floor(client.createdAt.getTime() / 1000),
+        client_name: client.clientName,
+        redirect_uris: client.redirectUris,
+        grant_types: ["authorization_code", "refresh_token"],
+        response_types: ["code"],
+        token_endpoint_auth_method: client.tokenEndpointAuthMethod,
+        ...(client.scope ? { scope: client.scope } : {}),
+      },
+      { status: 201, headers: OAUTH_CORS_HEADERS }
+    );
+  } catch (error) {
+    if (error instanceof OAuthError) {
+      return NextResponse.json(error.toJSON(), {
+        status: error.status,
+        headers: OAUTH_CORS_HEADERS,
+      });
+    }
+    console.error("[OAuth] Client registration failed:", error);
+    return NextResponse.json(
+      { error: "server_error", error_description: "Registration failed" },
+      { status: 500, headers: OAUTH_CORS_HEADERS }
+    );
+  }
+}
+
+export async function OPTIONS() {
+  return new NextResponse(null, { status: 204, headers: OAUTH_CORS_HEADERS });
+}
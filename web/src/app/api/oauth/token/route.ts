@@ -0,0 +1,115 @@
+import { NextResponse } from "next/server";
+
+import {
+  authenticateOAuthClient,
+  consumeAuthorizationCode,
+  issueOAuthTokens,
+  OAUTH_CORS_HEADERS,
+  OAuthError,
+  parseScopes,
+  rotateRefreshToken,
+} from "@/lib/mcp-oauth";
+
+const TOKEN_RESPONSE_HEADERS = {
+  ...OAUTH_CORS_HEADERS,
+  "Cache-Control": "no-store",
+  Pragma: "no-cache",
+};
+
+function readClientCredentials(request: Request, form: URLSearchParams) {
+  const authHeader = request.headers.get("Authorization");
+  if (authHeader?.startsWith("Basic ")) {
+    const decoded = Buffer.from(authHeader.substring(6), "base64").toString();
+    const separator = decoded.indexOf(":");
+    if (separator > 0) {
+      return {
+        clientId: decodeURIComponent(decoded.slice(0, separator)),
+        clientSecret: decodeURIComponent(decoded.slice(separator + 1)),
+      };
+    }
+  }
+  return {
+    clientId: form.get("client_id") ?? undefined,
+    clientSecret: form.get("client_secret") ?? undefined,
+  };
+}
+
+/**
+ * POST /api/oauth/token
+ * Exchanges authorization codes (PKCE) and refresh tokens for MCP access tokens.
+ * Refresh tokens are rotated on every use.
+ */
+export async function POST(request: Request) {
+  try {
+    const form = new URLSearchParams(await request.text());
+    const { clientId, clientSecret } = readClientCredentials(request, form);
+    const client = await authenticateOAuthClient(clientId, clientSecret);
+    const grantType = form.get("grant_type");
+
+    if (grantType === "authorization_code") {
+      const code = form.get("code");
+      if (!code) {
+        throw new OAuthError("invalid_request", "code is required");
+      }
+      const grant = await consumeAuthorizationCode({
+        code,
+        clientId: client.clientId,
+        redirectUri: form.get("redirect_uri") ?? undefined,
+        codeVerifier: form.get("code_verifier") ?? undefined,
+      });
+      const tokens = await issueOAuthTokens(grant);
+      return NextResponse.json(tokens, { headers: TOKEN_RESPONSE_HEADERS });
+    }
+
+    if (grantType === "refresh_token") {
+      const refreshToken = form.get("refresh_token");
+      if (!refreshToken) {
+        throw new OAuthError("invalid_request", "refresh_token is required");
+      }
+      const grant = await rotateRefreshToken({
+        refreshToken,
+        clientId: client.clientId,
+      });
+
+      // A refresh may narrow, but never widen, the originally granted scopes
+      const requestedScope = form.get("scope");
+      const scopes = requestedScope
+        ? parseScopes(requestedScope)
+        : grant.scopes;
+      if (scopes.some((scope) => !grant.scopes.includes(scope))) {
+        throw new OAuthError(
+          "invalid_scope",
+          "Requested scope exceeds the original grant"
+        );
+      }
+
+      const tokens = await issueOAuthTokens({
+        clientId: client.clientId,
+        userId: grant.userId,
+        scopes,
+      });
+      return NextResponse.json(tokens, { headers: TOKEN_RESPONSE_HEADERS });
+    }
+
+    throw new OAuthError(
+      "unsupported_grant_type",
+      `Unsupported grant_type: ${grantType ?? "(missing)"}`
+    );
+  } catch (error) {
+    if (error instanceof OAuthError) {
+      return NextResponse.json(error.toJSON(), {
+        status: error.status,
+        headers: TOKEN_RESPONSE_HEADERS,
+      });
+    }
+    console.error("[OAuth] Token request failed:", error);
+    return NextResponse.json(
+      { error: "server_error", error_description: "Token request failed" },
+      { status: 500, headers: TOKEN_RESPONSE_HEADERS }
+    );
+  }
+}
+
+export async function OPTIONS() {
+  return new NextResponse(null, { status: 204, headers: OAUTH_CORS_HEADERS });
+}
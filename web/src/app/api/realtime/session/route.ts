@@ -3,7 +3,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@/auth";
 import { env } from "@/env";
 import { MODELS } from "@/lib/utils";
-import { jwtVerify } from "jose";
+import { verifySessionToken } from "@/lib/telegram/auth";
 
 export async function POST(request: NextRequest) {
   const session = await auth();
@@ -18,7 +18,7 @@ export async function POST(request: NextRequest) {
       }
 
       if (token) {
-        const { payload } = await jwtVerify(token, env.JWT_SECRET);
+        const { payload } = await verifySessionToken(token);
         userId = typeof payload.sub === "string" ? payload.sub : undefined;
       }
     } catch (error) {
@@ -1,7 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
-import { jwtVerify } from "jose";
 import { getRecentMessages } from "@/lib/conversations";
-import { env } from "@/env";
+import { verifySessionToken } from "@/lib/telegram/auth";
 
 export async function GET(req: NextRequest) {
   try {
@@ -13,7 +12,7 @@ export async function GET(req: NextRequest) {
 
     let payload;
     try {
-      const verified = await jwtVerify(token, env.JWT_SECRET);
+      const verified = await verifySessionToken(token);
       payload = verified.payload;
     } catch {
       return NextResponse.json({ error: "Invalid token" }, { status: 401 });
@@ -1,10 +1,12 @@
 import { NextRequest, NextResponse } from "next/server";
-import { jwtVerify } from "jose";
 import { insertMessage } from "@/lib/conversations";
-import { env } from "@/env";
 import { getUserById } from "@/lib/user";
-import { verifyTelegramServerToken } from "@/lib/telegram/auth";
+import {
+  verifySessionToken,
+  verifyTelegramServerToken,
+} from "@/lib/telegram/auth";
 import { runWorkflow } from "@/lib/agent/workflows/micromanager.workflow";
+import { consumeRateLimit, rateLimitResponse } from "@/lib/rate-limit";
 
 export async function POST(req: NextRequest) {
   try {
@@ -26,7 +28,7 @@ export async function POST(req: NextRequest) {
       // Server token verification failed, try client token
       
       try {
-        await jwtVerify(token, env.JWT_SECRET);
+        await verifySessionToken(token);
         isValid = true;
       } catch {
         console.error(
@@ -49,6 +51,15 @@ export async function POST(req: NextRequest) {
       );
     }
 
+    const rateLimit = await consumeRateLimit(userId, {
+      kind: "route",
+      route: "/api/telegram/chat",
+      source: "telegram",
+    });
+    if (!rateLimit.allowed) {
+      return rateLimitResponse(rateLimit);
+    }
+
     const user = await getUserById(userId);
     const userTier = user?.tier;
 
@@ -104,6 +115,7 @@ export async function POST(req: NextRequest) {
     return NextResponse.json({
       response,
       error: hasError,
+      approvalId: workflowResult.approvalId,
     });
   } catch (error) {
     console.error("Telegram chat error:", error);
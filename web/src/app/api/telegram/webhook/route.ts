@@ -4,8 +4,18 @@ import {
   initBot,
   upsertTelegramUser,
   getTelegramUserByTelegramId,
+  APPROVAL_CALLBACK_PATTERN,
+  resolveTelegramApprovalMessage,
 } from "@/lib/telegram/bot";
 import { insertMessage } from "@/lib/conversations";
+import {
+  claimPendingApproval,
+  expirePendingApprovals,
+  ApprovalDecision,
+} from "@/lib/approvals";
+import { resumeWorkflowAfterApproval } from "@/lib/agent/workflows/micromanager.workflow";
+import { undoAgentAction } from "@/lib/agent-actions";
+import { getGoogleAccessToken } from "@/lib/google-tokens";
 import { generateTelegramServerToken } from "@/lib/telegram/auth";
 
 let bot: Bot | null = null;
@@ -42,6 +52,7 @@ async function setupBot() {
           `I'm your Micromanager Agent assistant. You can:\n` +
           `• Send me messages and I'll help you\n` +
           `• Use /link YOUR_CODE to link your web account\n` +
+          `• Use /undo to reverse my last calendar or task change\n` +
           `• Open the Mini App for a richer experience\n\n` +
           `How can I assist you today?`,
         { parse_mode: "HTML" }
@@ -60,6 +71,68 @@ async function setupBot() {
       );
     });
 
+    bot.command("undo", async (ctx) => {
+      const telegramId = ctx.from?.id;
+      if (!telegramId) {
+        await ctx.reply("Error: Could not identify user");
+        return;
+      }
+
+      const telegramUser = await getTelegramUserByTelegramId(telegramId);
+      const userId = telegramUser?.id ?? `telegram_${telegramId}`;
+      const accessToken = await getGoogleAccessToken(userId);
+      if (!accessToken) {
+        await ctx.reply("Connect your Google account to undo calendar and task changes.");
+        return;
+      }
+
+      try {
+        const action = await undoAgentAction(userId, accessToken);
+        await ctx.reply(
+          action
+            ? `↩️ Undone: ${action.description}`
+            : "There is no change left to undo."
+        );
+      } catch (error) {
+        console.error("Error undoing agent action:", error);
+        await ctx.reply("Sorry, I couldn't undo that change. It may have been edited since.");
+      }
+    });
+
+    bot.callbackQuery(APPROVAL_CALLBACK_PATTERN, async (ctx) => {
+      const telegramId = ctx.from.id;
+      const [, decision, approvalId] = ctx.match;
+
+      const telegramUser = await getTelegramUserByTelegramId(telegramId);
+      const userId = telegramUser?.id ?? `telegram_${telegramId}`;
+
+      const approval = await claimPendingApproval(
+        userId,
+        approvalId,
+        decision as ApprovalDecision
+      );
+      if (!approval) {
+        await expirePendingApprovals(userId);
+        await ctx.answerCallbackQuery({
+          text: "This request was already decided or has expired.",
+        });
+        await ctx.editMessageReplyMarkup().catch(() => undefined);
+        return;
+      }
+
+      await ctx.answerCallbackQuery({
+        text: decision === "approve" ? "Approved" : "Rejected",
+      });
+      await resolveTelegramApprovalMessage(
+        approval,
+        decision === "approve" ? "✅ Approved" : "❌ Rejected"
+      );
+      await ctx.replyWithChatAction("typing");
+
+      // The resumed run stores its reply and sends it to this chat
+      await resumeWorkflowAfterApproval(approval);
+    });
+
     bot.on("message:text", async (ctx) => {
       const telegramId = ctx.from?.id;
       const text = ctx.message?.text;
@@ -111,11 +184,27 @@ async function setupBot() {
           }),
         });
 
+        if (response.status === 429) {
+          const data = await response.json().catch(() => null);
+          await ctx.reply(
+            `You're sending messages too quickly. Try again in ${
+              data?.retryAfterSeconds
+                ? Math.ceil(data.retryAfterSeconds / 60)
+                : "a few"
+            } min.`
+          );
+          return;
+        }
+
         if (!response.ok) {
           throw new Error(`Chat API returned ${response.status}`);
         }
 
         const data = await response.json();
+        // A paused run already sent its approval prompt with the buttons
+        if (data.approvalId) {
+          return;
+        }
         const aiResponse = data.response || "I couldn't generate a response.";
 
         await insertMessage({
@@ -1,6 +1,4 @@
 import { NextRequest, NextResponse } from "next/server";
-import { jwtVerify } from "jose";
-import { env } from "@/env";
 import {
   getTelegramUserByUserId,
   sendTelegramMessage,
@@ -8,6 +6,8 @@ import {
 import { runWorkflow } from "@/lib/agent/workflows/micromanager.workflow";
 import { logUsage } from "@/lib/usage-tracking";
 import { MODELS } from "@/lib/utils";
+import { PROMPT_TEMPLATES } from "@/lib/agent/prompts";
+import { verifySessionToken } from "@/lib/telegram/auth";
 
 const NOTIFICATION_MODEL = MODELS.text;
 
@@ -60,7 +60,7 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
-    const { payload } = await jwtVerify(token, env.JWT_SECRET);
+    const { payload } = await verifySessionToken(token);
     userId = payload.sub ?? null;
 
     if (!userId) {
@@ -84,8 +84,7 @@ export async function POST(req: NextRequest) {
     // Run workflow to generate proactive message
     workflowAttempted = true;
     const workflowResult = await runWorkflow({
-      input_as_text:
-        "Send a notification triggered by the user changing their notification settings. Review my context and send me a brief, personalized message.",
+      input_as_text: PROMPT_TEMPLATES.notification_trigger.render({}),
       user_id: userId,
       source: "web",
       usageTaskType: "notification",
@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+import { auth } from "@/auth";
+import {
+  listAgentActions,
+  toAgentActionSummary,
+  undoAgentAction,
+} from "@/lib/agent-actions";
+import { getGoogleAccessToken } from "@/lib/google-tokens";
+import { verifySessionToken } from "@/lib/telegram/auth";
+
+const undoSchema = z.object({
+  actionId: z.string().min(1).optional(),
+});
+
+async function getUserId(request: NextRequest): Promise<string | undefined> {
+  // Try NextAuth session first
+  const session = await auth();
+  if (session?.user?.id) {
+    return session.user.id;
+  }
+
+  // If no NextAuth session, check for Telegram JWT
+  try {
+    let token = request.cookies.get("telegram-auth-token")?.value;
+    const authHeader = request.headers.get("Authorization");
+    if (authHeader?.startsWith("Bearer ")) {
+      token = authHeader.substring(7);
+    }
+
+    if (token) {
+      const { payload } = await verifySessionToken(token);
+      return typeof payload.sub === "string" ? payload.sub : undefined;
+    }
+  } catch (error) {
+    console.error("[Undo API] Failed to verify Telegram token", error);
+  }
+  return undefined;
+}
+
+/**
+ * GET /api/undo
+ * Lists the user's most recent agent changes and whether they were undone
+ */
+export async function GET(request: NextRequest) {
+  const userId = await getUserId(request);
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const actions = await listAgentActions(userId);
+    return NextResponse.json({ actions: actions.map(toAgentActionSummary) });
+  } catch (error) {
+    console.error("[Undo API] Failed to list actions", error);
+    return NextResponse.json(
+      { error: "Failed to fetch agent actions" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/undo
+ * Body: { actionId?: string } - reverses the given change, or the latest one
+ */
+export async function POST(request: NextRequest) {
+  const userId = await getUserId(request);
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const json = await request.json().catch(() => ({}));
+  const parseResult = undoSchema.safeParse(json);
+  if (!parseResult.success) {
+    return NextResponse.json(
+      {
+        error: "Invalid payload",
+        details: parseResult.error.flatten().fieldErrors,
+      },
+      { status: 422 }
+    );
+  }
+
+  const accessToken = await getGoogleAccessToken(userId);
+  if (!accessToken) {
+    return NextResponse.json(
+      { error: "Google account not connected" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const action = await undoAgentAction(userId, accessToken, {
+      actionId: parseResult.data.actionId,
+    });
+    if (!action) {
+      return NextResponse.json(
+        { error: "Nothing to undo" },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({ action: toAgentActionSummary(action) });
+  } catch (error) {
+    console.error("[Undo API] Failed to undo action", error);
+    return NextResponse.json(
+      { error: "Failed to undo the change" },
+      { status: 500 }
+    );
+  }
+}
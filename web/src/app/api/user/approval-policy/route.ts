@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+import {
+  APPROVAL_POLICIES,
+  ApprovalPolicy,
+  getApprovalPolicy,
+  setApprovalPolicy,
+} from "@/lib/approvals";
+import { verifySessionToken } from "@/lib/telegram/auth";
+
+const updateSchema = z.object({
+  policy: z.enum(APPROVAL_POLICIES as [ApprovalPolicy, ...ApprovalPolicy[]]),
+});
+
+async function getUserId(req: NextRequest): Promise<string | null> {
+  const token = req.headers.get("authorization")?.replace("Bearer ", "");
+  if (!token) return null;
+  try {
+    const { payload } = await verifySessionToken(token);
+    return typeof payload.sub === "string" ? payload.sub : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * GET /api/user/approval-policy
+ * Returns which agent actions require the user's approval
+ */
+export async function GET(req: NextRequest) {
+  const userId = await getUserId(req);
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const policy = await getApprovalPolicy(userId);
+    return NextResponse.json({ policy });
+  } catch (error) {
+    console.error("Error fetching approval policy:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch approval policy" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/user/approval-policy
+ * Body: { policy: "always" | "destructive" | "never" }
+ */
+export async function POST(req: NextRequest) {
+  const userId = await getUserId(req);
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const json = await req.json().catch(() => null);
+  const parseResult = updateSchema.safeParse(json);
+  if (!parseResult.success) {
+    return NextResponse.json(
+      {
+        error: "Invalid payload",
+        details: parseResult.error.flatten().fieldErrors,
+      },
+      { status: 422 }
+    );
+  }
+
+  try {
+    await setApprovalPolicy(userId, parseResult.data.policy);
+    return NextResponse.json({ policy: parseResult.data.policy });
+  } catch (error) {
+    console.error("Error updating approval policy:", error);
+    return NextResponse.json(
+      { error: "Failed to update approval policy" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,8 +1,9 @@
 import { NextRequest, NextResponse } from "next/server";
-import { jwtVerify } from "jose";
-import { env } from "@/env";
 import { getMongoClient } from "@/lib/db";
 import { ObjectId } from "mongodb";
+import { deleteAccountByUserId } from "@/lib/accounts-helpers";
+import { revokeAllMcpCredentialsForUser } from "@/lib/mcp-auth";
+import { verifySessionToken } from "@/lib/telegram/auth";
 
 export async function GET(req: NextRequest) {
   try {
@@ -14,7 +15,7 @@ export async function GET(req: NextRequest) {
     }
 
     // Verify JWT token
-    const { payload } = await jwtVerify(token, env.JWT_SECRET);
+    const { payload } = await verifySessionToken(token);
     const userId = payload.sub;
 
     if (!userId) {
@@ -69,3 +70,50 @@ export async function GET(req: NextRequest) {
     );
   }
 }
+
+/**
+ * DELETE /api/user/linked-accounts?provider=google
+ * Unlinks a provider account and revokes the user's live MCP tokens
+ */
+export async function DELETE(req: NextRequest) {
+  try {
+    const token = req.headers.get("authorization")?.replace("Bearer ", "");
+
+    if (!token) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { payload } = await verifySessionToken(token);
+    const userId = payload.sub;
+
+    if (!userId) {
+      return NextResponse.json({ error: "Invalid token" }, { status: 401 });
+    }
+
+    const provider = req.nextUrl.searchParams.get("provider");
+    if (provider !== "google") {
+      return NextResponse.json(
+        { error: "Unsupported provider" },
+        { status: 400 }
+      );
+    }
+
+    const result = await deleteAccountByUserId(userId, provider);
+    if (result.deletedCount === 0) {
+      return NextResponse.json(
+        { error: "Account not linked" },
+        { status: 404 }
+      );
+    }
+
+    await revokeAllMcpCredentialsForUser(userId, "google_unlinked");
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error unlinking account:", error);
+    return NextResponse.json(
+      { error: "Failed to unlink account" },
+      { status: 500 }
+    );
+  }
+}
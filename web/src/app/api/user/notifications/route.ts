@@ -1,16 +1,44 @@
 import { NextRequest, NextResponse } from "next/server";
-import { jwtVerify } from "jose";
-import { env } from "@/env";
-import { getUserTasks, deleteScheduledTask, createScheduledTask } from "@/lib/scheduled-tasks";
-import { getUserById } from "@/lib/user";
+import {
+  getUserTasks,
+  deleteScheduledTask,
+  createScheduledTask,
+  dailySchedule,
+} from "@/lib/scheduled-tasks";
+import { getUserById, getUserTimezone, setUserTimezone } from "@/lib/user";
+import {
+  InvalidScheduleError,
+  isValidTimeZone,
+  nextOccurrence,
+  TaskSchedule,
+  validateSchedule,
+} from "@/lib/recurrence";
+import { verifySessionToken } from "@/lib/telegram/auth";
+import type { UserTier } from "@/types/user";
 
-export type NotificationInterval = "15min" | "30min" | "1h" | "2h" | "4h" | "daily" | "off";
+export type NotificationInterval =
+  | "15min"
+  | "30min"
+  | "1h"
+  | "2h"
+  | "4h"
+  | "daily"
+  | "weekdays"
+  | "custom"
+  | "off";
+
+// Intervals that run on a calendar schedule in the user's timezone
+type ScheduledInterval = Extract<
+  NotificationInterval,
+  "daily" | "weekdays" | "custom"
+>;
 
 interface NotificationSettings {
   enabled: boolean;
   interval: NotificationInterval;
   timezone?: string;
-  dailyHour?: number; // 0-23 UTC
+  time?: string; // "HH:MM" local time, for daily and weekdays
+  schedule?: { kind: TaskSchedule["kind"]; pattern: string }; // for custom
 }
 
 const INTERVAL_MS: Record<NotificationInterval, number | null> = {
@@ -19,10 +47,89 @@ const INTERVAL_MS: Record<NotificationInterval, number | null> = {
   "1h": 60 * 60 * 1000,
   "2h": 2 * 60 * 60 * 1000,
   "4h": 4 * 60 * 60 * 1000,
-  "daily": 24 * 60 * 60 * 1000,
+  "daily": 24 * 60 * 60 * 1000, // Only daily checks from before per-user timezones
+  "weekdays": null,
+  "custom": null,
   "off": null,
 };
 
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+// Shortest time a custom schedule may leave between messages, matching the
+// fastest fixed interval each tier can pick
+const MIN_CUSTOM_GAP_MS: Record<UserTier, number> = {
+  free: 24 * 60 * 60 * 1000,
+  paid: 15 * 60 * 1000,
+  admin: 15 * 60 * 1000,
+};
+// Upcoming runs of a custom schedule checked against the minimum gap
+const GAP_CHECK_OCCURRENCES = 50;
+
+/**
+ * Throw an InvalidScheduleError when the schedule never runs or its upcoming
+ * runs come closer together than `minGapMs`
+ */
+function assertScheduleSpacing(schedule: TaskSchedule, minGapMs: number) {
+  let previous = nextOccurrence(schedule, new Date());
+  if (!previous) {
+    throw new InvalidScheduleError("This schedule never runs");
+  }
+  for (let i = 1; i < GAP_CHECK_OCCURRENCES; i++) {
+    const next = nextOccurrence(schedule, previous);
+    if (!next) return;
+    if (next.getTime() - previous.getTime() < minGapMs) {
+      throw new InvalidScheduleError(
+        `Custom schedules must leave at least ${Math.round(
+          minGapMs / 60000
+        )} minutes between messages`
+      );
+    }
+    previous = next;
+  }
+}
+
+/**
+ * Build the calendar schedule for a daily, weekdays or custom setting; throws
+ * InvalidScheduleError when the settings don't describe a valid one
+ */
+function buildSchedule(
+  interval: ScheduledInterval,
+  settings: NotificationSettings,
+  timezone: string,
+  tier: UserTier
+): TaskSchedule {
+  if (interval === "daily" || interval === "weekdays") {
+    const match = settings.time?.match(TIME_PATTERN);
+    if (!match) {
+      throw new InvalidScheduleError(
+        `${interval === "daily" ? "Daily" : "Weekday"} messages require a time (HH:MM)`
+      );
+    }
+    const [hour, minute] = [Number(match[1]), Number(match[2])];
+    if (interval === "daily") {
+      return dailySchedule(hour, minute, timezone);
+    }
+    return {
+      kind: "rrule",
+      rule: `FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR;BYHOUR=${hour};BYMINUTE=${minute}`,
+      timezone,
+      startAt: new Date(),
+    };
+  }
+
+  const pattern = settings.schedule?.pattern?.trim();
+  if (!pattern) {
+    throw new InvalidScheduleError("Custom schedules require an RRULE or cron expression");
+  }
+  const schedule: TaskSchedule =
+    settings.schedule?.kind === "cron"
+      ? { kind: "cron", expression: pattern, timezone }
+      : { kind: "rrule", rule: pattern, timezone, startAt: new Date() };
+  validateSchedule(schedule);
+  assertScheduleSpacing(schedule, MIN_CUSTOM_GAP_MS[tier]);
+  return schedule;
+}
+
 /**
  * GET - Get current notification settings
  */
@@ -33,7 +140,7 @@ export async function GET(req: NextRequest) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
-    const { payload } = await jwtVerify(token, env.JWT_SECRET);
+    const { payload } = await verifySessionToken(token);
     const userId = payload.sub;
 
     if (!userId) {
@@ -51,6 +158,22 @@ export async function GET(req: NextRequest) {
       });
     }
 
+    const schedule = dailyCheckTask.schedule;
+    if (schedule) {
+      return NextResponse.json({
+        enabled: true,
+        interval: dailyCheckTask.payload?.interval ?? "custom",
+        timezone: schedule.timezone,
+        time: dailyCheckTask.payload?.time as string | undefined,
+        schedule: {
+          kind: schedule.kind,
+          pattern: schedule.kind === "cron" ? schedule.expression : schedule.rule,
+        },
+        lastRunAt: dailyCheckTask.lastRunAt?.toISOString(),
+        nextRunAt: dailyCheckTask.nextRunAt?.toISOString(),
+      });
+    }
+
     // Determine interval from intervalMs
     let interval: NotificationInterval = "off";
     for (const [key, ms] of Object.entries(INTERVAL_MS)) {
@@ -63,8 +186,7 @@ export async function GET(req: NextRequest) {
     const settings = {
       enabled: true,
       interval,
-      timezone: dailyCheckTask.payload?.timezone as string | undefined,
-      dailyHour: dailyCheckTask.payload?.hour as number | undefined,
+      timezone: (await getUserTimezone(userId)) ?? undefined,
       lastRunAt: dailyCheckTask.lastRunAt?.toISOString(),
       nextRunAt: dailyCheckTask.nextRunAt?.toISOString(),
     };
@@ -89,15 +211,15 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
-    const { payload } = await jwtVerify(token, env.JWT_SECRET);
+    const { payload } = await verifySessionToken(token);
     const userId = payload.sub;
 
     if (!userId) {
       return NextResponse.json({ error: "Invalid token" }, { status: 401 });
     }
 
-    const body = await req.json();
-    const { enabled, interval, timezone, dailyHour }: NotificationSettings = body;
+    const body: NotificationSettings = await req.json();
+    const { enabled, interval } = body;
 
     // Validate interval
     if (!enabled || interval === "off") {
@@ -119,17 +241,17 @@ export async function POST(req: NextRequest) {
     const user = await getUserById(userId);
     const userTier = user?.tier ?? "free";
 
-    // Validate access based on tier
-    if (userTier === "free" && interval !== "daily") {
+    // Validate access based on tier; weekday messages are no more frequent than daily ones
+    if (userTier === "free" && interval !== "daily" && interval !== "weekdays") {
       return NextResponse.json(
-        { error: "Free users can only enable daily notifications" },
+        { error: "Free users can only enable daily or weekday notifications" },
         { status: 403 }
       );
     }
 
     if (
       userTier !== "free" &&
-      !["15min", "30min", "1h", "2h", "4h", "daily"].includes(interval)
+      !["15min", "30min", "1h", "2h", "4h", "daily", "weekdays", "custom"].includes(interval)
     ) {
       return NextResponse.json(
         { error: "Invalid interval" },
@@ -137,20 +259,68 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    // For daily, require timezone and hour
-    if (interval === "daily") {
-      if (typeof dailyHour !== "number" || dailyHour < 0 || dailyHour > 23) {
+    if (body.timezone && !isValidTimeZone(body.timezone)) {
+      return NextResponse.json(
+        { error: `Unknown timezone "${body.timezone}"` },
+        { status: 400 }
+      );
+    }
+    // The browser's timezone becomes the profile timezone
+    if (body.timezone) {
+      await setUserTimezone(userId, body.timezone);
+    }
+    const timezone = body.timezone ?? (await getUserTimezone(userId));
+
+    if (interval === "daily" || interval === "weekdays" || interval === "custom") {
+      if (!timezone) {
         return NextResponse.json(
-          { error: "Daily notifications require valid hour (0-23 UTC)" },
+          { error: "Scheduled notifications require timezone" },
           { status: 400 }
         );
       }
-      if (!timezone) {
+
+      let schedule: TaskSchedule;
+      try {
+        schedule = buildSchedule(interval, body, timezone, userTier);
+      } catch (error) {
+        if (error instanceof InvalidScheduleError) {
+          return NextResponse.json({ error: error.message }, { status: 400 });
+        }
+        throw error;
+      }
+
+      const nextRunAt = nextOccurrence(schedule, new Date());
+      if (!nextRunAt) {
         return NextResponse.json(
-          { error: "Daily notifications require timezone" },
+          { error: "This schedule has no upcoming runs" },
           { status: 400 }
         );
       }
+
+      const existingTasks = await getUserTasks(userId);
+      await Promise.all(
+        existingTasks
+          .filter((t) => t.taskType === "daily_check")
+          .map((t) => deleteScheduledTask(t._id!))
+      );
+
+      await createScheduledTask({
+        userId,
+        taskType: "daily_check",
+        nextRunAt,
+        schedule,
+        payload: {
+          interval,
+          ...(interval !== "custom" && { time: body.time }),
+        },
+      });
+
+      return NextResponse.json({
+        success: true,
+        message: "Notification settings updated",
+        nextRunAt: nextRunAt.toISOString(),
+        timezone,
+      });
     }
 
     // Delete existing daily_check tasks
@@ -170,30 +340,14 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    // Calculate nextRunAt
-    let nextRunAt = new Date();
-
-    if (interval === "daily" && typeof dailyHour === "number") {
-      // Schedule for next occurrence at specified hour UTC
-      nextRunAt.setUTCHours(dailyHour, 0, 0, 0);
-
-      // If today's time has passed, schedule for tomorrow
-      if (nextRunAt <= new Date()) {
-        nextRunAt.setDate(nextRunAt.getDate() + 1);
-      }
-    } else {
-      // For other intervals, start now + interval
-      nextRunAt = new Date(Date.now() + intervalMs);
-    }
+    // Start now + interval
+    const nextRunAt = new Date(Date.now() + intervalMs);
 
     const newTask = await createScheduledTask({
       userId,
       taskType: "daily_check",
       nextRunAt,
       intervalMs,
-      payload: interval === "daily"
-        ? { timezone, hour: dailyHour }
-        : undefined,
     });
 
     return NextResponse.json({
@@ -201,7 +355,7 @@ export async function POST(req: NextRequest) {
       message: "Notification settings updated",
       nextRunAt: nextRunAt.toISOString(),
       lastRunAt: newTask.lastRunAt?.toISOString(),
-      timezone: timezone || Intl.DateTimeFormat().resolvedOptions().timeZone,
+      timezone: timezone ?? undefined,
     });
   } catch (error) {
     console.error("Error updating notification settings:", error);
@@ -1,9 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
-import { jwtVerify } from "jose";
 import { getMongoClient } from "@/lib/db";
 import { type UserProfile, type UserTier } from "@/types/user";
 import { ObjectId } from "mongodb";
-import { env } from "@/env";
+import { verifySessionToken } from "@/lib/telegram/auth";
 
 export async function GET(req: NextRequest) {
   try {
@@ -19,7 +18,7 @@ export async function GET(req: NextRequest) {
     }
 
     // Verify token
-    const { payload } = await jwtVerify(token, env.JWT_SECRET);
+    const { payload } = await verifySessionToken(token);
     const userId = payload.sub as string;
 
     // Get user from database
@@ -45,6 +44,7 @@ export async function GET(req: NextRequest) {
       telegramId: user.telegramId,
       name: user.name,
       tier,
+      timezone: user.timezone,
       createdAt: user.createdAt,
       lastLogin: user.lastLogin,
     };
@@ -73,7 +73,7 @@ export async function PATCH(req: NextRequest) {
     }
 
     // Verify token
-    const { payload } = await jwtVerify(token, env.JWT_SECRET);
+    const { payload } = await verifySessionToken(token);
 
     if (payload.tier !== "admin") {
       return NextResponse.json(
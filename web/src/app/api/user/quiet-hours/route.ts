@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+import {
+  getQuietHoursSettings,
+  setQuietHoursSettings,
+  WEEKEND_RULES,
+  WeekendRule,
+} from "@/lib/quiet-hours";
+import { getUserTimezone } from "@/lib/user";
+import { verifySessionToken } from "@/lib/telegram/auth";
+
+const HOUR_MS = 60 * 60 * 1000;
+const MAX_SNOOZE_HOURS = 7 * 24;
+
+const timeSchema = z
+  .string()
+  .regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Use HH:MM (24-hour)");
+
+const windowSchema = z
+  .object({ start: timeSchema, end: timeSchema })
+  .refine((window) => window.start !== window.end, {
+    message: "Start and end must differ",
+  });
+
+const updateSchema = z.object({
+  quietHours: windowSchema.nullable().optional(),
+  workingHours: windowSchema.nullable().optional(),
+  weekends: z.enum(WEEKEND_RULES as [WeekendRule, ...WeekendRule[]]).optional(),
+  // 0 ends a running snooze
+  snoozeHours: z.number().min(0).max(MAX_SNOOZE_HOURS).optional(),
+});
+
+async function getUserId(req: NextRequest): Promise<string | null> {
+  const token = req.headers.get("authorization")?.replace("Bearer ", "");
+  if (!token) return null;
+  try {
+    const { payload } = await verifySessionToken(token);
+    return typeof payload.sub === "string" ? payload.sub : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * GET /api/user/quiet-hours
+ * Returns when proactive messages (check-ins and reminders) may be sent
+ */
+export async function GET(req: NextRequest) {
+  const userId = await getUserId(req);
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const [settings, timezone] = await Promise.all([
+      getQuietHoursSettings(userId),
+      getUserTimezone(userId),
+    ]);
+    return NextResponse.json({ ...settings, timezone });
+  } catch (error) {
+    console.error("Error fetching quiet hours:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch quiet hours" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/user/quiet-hours
+ * Body: { quietHours?, workingHours?: { start, end } | null,
+ *   weekends?: "as_weekdays" | "quiet_hours_only" | "silent", snoozeHours? }
+ */
+export async function POST(req: NextRequest) {
+  const userId = await getUserId(req);
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const json = await req.json().catch(() => null);
+  const parseResult = updateSchema.safeParse(json);
+  if (!parseResult.success) {
+    return NextResponse.json(
+      {
+        error: "Invalid payload",
+        details: parseResult.error.flatten().fieldErrors,
+      },
+      { status: 422 }
+    );
+  }
+
+  const { snoozeHours, ...rules } = parseResult.data;
+
+  try {
+    const settings = await setQuietHoursSettings(userId, {
+      ...rules,
+      ...(snoozeHours !== undefined && {
+        snoozedUntil:
+          snoozeHours > 0 ? new Date(Date.now() + snoozeHours * HOUR_MS) : null,
+      }),
+    });
+    return NextResponse.json(settings);
+  } catch (error) {
+    console.error("Error updating quiet hours:", error);
+    return NextResponse.json(
+      { error: "Failed to update quiet hours" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,7 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
-import { jwtVerify } from "jose";
-import { env } from "@/env";
 import { getUserUsageStats, getUserRank } from "@/lib/usage-tracking";
+import { verifySessionToken } from "@/lib/telegram/auth";
 
 /**
  * GET - Get current user's usage statistics
@@ -13,7 +12,7 @@ export async function GET(req: NextRequest) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
-    const { payload } = await jwtVerify(token, env.JWT_SECRET);
+    const { payload } = await verifySessionToken(token);
     const userId = payload.sub;
 
     if (!userId) {
@@ -0,0 +1,139 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+import { MCP_SCOPES, McpScope } from "@/lib/mcp-auth";
+import {
+  createPersonalAccessToken,
+  listPersonalAccessTokens,
+  revokePersonalAccessToken,
+  toPersonalAccessTokenSummary,
+} from "@/lib/personal-access-tokens";
+import { verifySessionToken } from "@/lib/telegram/auth";
+
+const MAX_TOKENS_PER_USER = 20;
+
+const scopeValues = Object.values(MCP_SCOPES) as [McpScope, ...McpScope[]];
+
+const createSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  scopes: z.array(z.enum(scopeValues)).min(1),
+  expiresInDays: z.number().int().min(1).max(365).nullable().optional(),
+});
+
+async function getUserId(req: NextRequest): Promise<string | null> {
+  const token = req.headers.get("authorization")?.replace("Bearer ", "");
+  if (!token) return null;
+  try {
+    const { payload } = await verifySessionToken(token);
+    return typeof payload.sub === "string" ? payload.sub : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * GET /api/user/tokens
+ * Lists the user's active personal access tokens
+ */
+export async function GET(req: NextRequest) {
+  const userId = await getUserId(req);
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const tokens = await listPersonalAccessTokens(userId);
+    return NextResponse.json({
+      tokens: tokens.map(toPersonalAccessTokenSummary),
+    });
+  } catch (error) {
+    console.error("Error fetching personal access tokens:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch tokens" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/user/tokens
+ * Creates a personal access token. The plaintext token is only returned once.
+ */
+export async function POST(req: NextRequest) {
+  const userId = await getUserId(req);
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const json = await req.json().catch(() => null);
+  const parseResult = createSchema.safeParse(json);
+  if (!parseResult.success) {
+    return NextResponse.json(
+      {
+        error: "Invalid payload",
+        details: parseResult.error.flatten().fieldErrors,
+      },
+      { status: 422 }
+    );
+  }
+
+  try {
+    const existing = await listPersonalAccessTokens(userId);
+    if (existing.length >= MAX_TOKENS_PER_USER) {
+      return NextResponse.json(
+        { error: `You can have at most ${MAX_TOKENS_PER_USER} active tokens` },
+        { status: 409 }
+      );
+    }
+
+    const { name, scopes, expiresInDays } = parseResult.data;
+    const { token, record } = await createPersonalAccessToken(userId, {
+      name,
+      scopes,
+      expiresAt: expiresInDays
+        ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000)
+        : undefined,
+    });
+
+    return NextResponse.json(
+      { token, ...toPersonalAccessTokenSummary(record) },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Error creating personal access token:", error);
+    return NextResponse.json(
+      { error: "Failed to create token" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/user/tokens?id=<tokenId>
+ * Revokes a personal access token
+ */
+export async function DELETE(req: NextRequest) {
+  const userId = await getUserId(req);
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const tokenId = req.nextUrl.searchParams.get("id");
+  if (!tokenId) {
+    return NextResponse.json({ error: "Token id is required" }, { status: 400 });
+  }
+
+  try {
+    const revoked = await revokePersonalAccessToken(userId, tokenId);
+    if (!revoked) {
+      return NextResponse.json({ error: "Token not found" }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error revoking personal access token:", error);
+    return NextResponse.json(
+      { error: "Failed to revoke token" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,7 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
-import { jwtVerify } from "jose";
 import { getMongoClient } from "@/lib/db";
-import { env } from "@/env";
+import { verifySessionToken } from "@/lib/telegram/auth";
 
 export async function POST(req: NextRequest) {
   try {
@@ -17,7 +16,7 @@ export async function POST(req: NextRequest) {
     }
 
     // Verify token
-    const { payload } = await jwtVerify(token, env.JWT_SECRET);
+    const { payload } = await verifySessionToken(token);
     const userId = payload.sub as string;
 
     const body = await req.json();
@@ -1,8 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
-import { jwtVerify } from "jose";
-import { env } from "@/env";
 import { runWorkflow } from "@/lib/agent/workflows/micromanager.workflow";
 import { insertMessage } from "@/lib/conversations";
+import { PROMPT_TEMPLATES } from "@/lib/agent/prompts";
+import { verifySessionToken } from "@/lib/telegram/auth";
 
 /**
  * Execute first-load greeting workflow
@@ -18,7 +18,7 @@ export async function POST(req: NextRequest) {
     }
 
     // Verify JWT token
-    const { payload } = await jwtVerify(token, env.JWT_SECRET);
+    const { payload } = await verifySessionToken(token);
     const userId = payload.sub;
     const userName = payload.name;
 
@@ -30,7 +30,9 @@ export async function POST(req: NextRequest) {
 
     // Run micromanager workflow with first-load prompt
     const result = await runWorkflow({
-      input_as_text: `User "${userName}" logged in for the first time. Write a personalized introduction message as their micromanager assistant. Be warm, brief, and engaging.`,
+      input_as_text: PROMPT_TEMPLATES.first_load_greeting.render({
+        userName: typeof userName === "string" ? userName : undefined,
+      }),
       user_id: userId as string,
       source: "web",
     });
@@ -0,0 +1,141 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+import { auth } from "@/auth";
+import {
+  bookPrepBlocks,
+  exportStepsToTasks,
+  proposePrepBlocks,
+  WorkplanExportError,
+} from "@/lib/workplan-export";
+import { getGoogleAccessToken } from "@/lib/google-tokens";
+import { verifySessionToken } from "@/lib/telegram/auth";
+
+const bodySchema = z.discriminatedUnion("action", [
+  z.object({
+    action: z.literal("tasks"),
+    eventId: z.string().min(1),
+    stepIds: z.array(z.string().min(1)).min(1),
+  }),
+  z.object({
+    action: z.literal("propose_blocks"),
+    eventId: z.string().min(1),
+    stepIds: z.array(z.string().min(1)).min(1),
+  }),
+  z.object({
+    action: z.literal("book_blocks"),
+    eventId: z.string().min(1),
+    blocks: z
+      .array(
+        z.object({
+          stepId: z.string().min(1),
+          start: z.coerce.date(),
+          end: z.coerce.date(),
+        })
+      )
+      .min(1),
+  }),
+]);
+
+/**
+ * POST /api/workplan/export
+ *
+ * Turn workplan steps into Google Tasks, propose prep blocks before the
+ * event, or book the proposed blocks on the primary calendar.
+ */
+export async function POST(request: NextRequest) {
+  // Try NextAuth session first
+  const session = await auth();
+  let userId = session?.user?.id;
+  let googleAccessToken = session?.googleAccessToken;
+
+  // If no NextAuth session, check for Telegram JWT
+  if (!userId) {
+    try {
+      let token = request.cookies.get("telegram-auth-token")?.value;
+      const authHeader = request.headers.get("Authorization");
+      if (authHeader?.startsWith("Bearer ")) {
+        token = authHeader.substring(7);
+      }
+
+      if (token) {
+        const { payload } = await verifySessionToken(token);
+        if (typeof payload.sub === "string") {
+          userId = payload.sub;
+          googleAccessToken = await getGoogleAccessToken(userId);
+        }
+      }
+    } catch (error) {
+      console.error("[Workplan API] Failed to verify Telegram token", error);
+    }
+  }
+
+  if (!userId) {
+    return NextResponse.json(
+      { error: "Unauthorized - valid session required" },
+      { status: 401 }
+    );
+  }
+
+  if (!googleAccessToken) {
+    return NextResponse.json(
+      { error: "Link your Google account to export workplan steps" },
+      { status: 400 }
+    );
+  }
+
+  const payload = await request.json().catch(() => null);
+  const parsed = bodySchema.safeParse(payload);
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid payload", details: parsed.error.flatten().fieldErrors },
+      { status: 422 }
+    );
+  }
+
+  try {
+    const body = parsed.data;
+    switch (body.action) {
+      case "tasks": {
+        const workplan = await exportStepsToTasks(
+          userId,
+          body.eventId,
+          body.stepIds,
+          googleAccessToken
+        );
+        return NextResponse.json({ steps: workplan.steps });
+      }
+      case "propose_blocks": {
+        const blocks = await proposePrepBlocks(
+          userId,
+          body.eventId,
+          body.stepIds,
+          googleAccessToken
+        );
+        return NextResponse.json({ blocks });
+      }
+      case "book_blocks": {
+        const workplan = await bookPrepBlocks(
+          userId,
+          body.eventId,
+          body.blocks,
+          googleAccessToken
+        );
+        return NextResponse.json({ steps: workplan.steps });
+      }
+    }
+  } catch (error) {
+    if (error instanceof WorkplanExportError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.code === "NOT_FOUND" ? 404 : 422 }
+      );
+    }
+    console.error("[Workplan Export API] Error:", error);
+    return NextResponse.json(
+      { error: "Failed to export workplan steps" },
+      { status: 500 }
+    );
+  }
+}
@@ -10,8 +10,7 @@ import {
   ensureWorkplanForEvent,
   regenerateWorkplanForEvent,
 } from "@/lib/workplan-generator";
-import { jwtVerify } from "jose";
-import { env } from "@/env";
+import { verifySessionToken } from "@/lib/telegram/auth";
 
 const bodySchema = z.object({
   event: z.object({
@@ -40,7 +39,7 @@ export async function POST(request: NextRequest) {
       }
 
       if (token) {
-        const { payload } = await jwtVerify(token, env.JWT_SECRET);
+        const { payload } = await verifySessionToken(token);
         if (typeof payload.sub === "string") {
           userId = payload.sub;
         }
@@ -7,8 +7,7 @@ import {
   WorkplanGenerationInput,
 } from "@/lib/workplan-generator";
 import { normalizeEventSnapshot } from "@/lib/workplans";
-import { jwtVerify } from "jose";
-import { env } from "@/env";
+import { verifySessionToken } from "@/lib/telegram/auth";
 
 const requestSchema = z.object({
   event: z.object({
@@ -37,7 +36,7 @@ export async function POST(request: NextRequest) {
       }
 
       if (token) {
-        const { payload } = await jwtVerify(token, env.JWT_SECRET);
+        const { payload } = await verifySessionToken(token);
         if (typeof payload.sub === "string") {
           userId = payload.sub;
         }
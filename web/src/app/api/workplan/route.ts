@@ -16,9 +16,10 @@ import {
   WORKPLAN_DEFAULT_EVENT_LIMIT,
   WORKPLAN_MAX_EVENT_LIMIT,
 } from "@/lib/constants";
-import { env } from "@/env";
-import { jwtVerify } from "jose";
 import { getGoogleAccessToken } from "@/lib/google-tokens";
+import { syncStepsFromTasks } from "@/lib/workplan-export";
+import { scheduleWorkplanRefresh } from "@/lib/scheduled-tasks";
+import { verifySessionToken } from "@/lib/telegram/auth";
 
 const querySchema = z.object({
   days: z
@@ -49,7 +50,7 @@ export async function GET(request: NextRequest) {
       }
 
       if (token) {
-        const { payload } = await jwtVerify(token, env.JWT_SECRET);
+        const { payload } = await verifySessionToken(token);
         if (typeof payload.sub === "string") {
           userId = payload.sub;
           googleAccessToken = await getGoogleAccessToken(userId);
@@ -99,6 +100,16 @@ export async function GET(request: NextRequest) {
   }
 
   try {
+    // Later opens find their plans already generated by the master cron
+    await scheduleWorkplanRefresh(userId);
+
+    // Pick up steps that were checked off in Google Tasks
+    await syncStepsFromTasks(
+      userId,
+      await listWorkplans(userId, limit),
+      googleAccessToken
+    );
+
     const calendarItems = await fetchUpcomingCalendarItems(
       googleAccessToken,
       days,
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+import { auth } from "@/auth";
+import { setWorkplanStepDone } from "@/lib/workplans";
+import { syncStepToTask } from "@/lib/workplan-export";
+import { getGoogleAccessToken } from "@/lib/google-tokens";
+import { verifySessionToken } from "@/lib/telegram/auth";
+
+const bodySchema = z.object({
+  eventId: z.string().min(1),
+  stepId: z.string().min(1),
+  done: z.boolean(),
+});
+
+/**
+ * POST /api/workplan/steps
+ *
+ * Check a workplan step off or reopen it. A linked Google Task follows along.
+ */
+export async function POST(request: NextRequest) {
+  // Try NextAuth session first
+  const session = await auth();
+  let userId = session?.user?.id;
+  let googleAccessToken = session?.googleAccessToken;
+
+  // If no NextAuth session, check for Telegram JWT
+  if (!userId) {
+    try {
+      let token = request.cookies.get("telegram-auth-token")?.value;
+      const authHeader = request.headers.get("Authorization");
+      if (authHeader?.startsWith("Bearer ")) {
+        token = authHeader.substring(7);
+      }
+
+      if (token) {
+        const { payload } = await verifySessionToken(token);
+        if (typeof payload.sub === "string") {
+          userId = payload.sub;
+          googleAccessToken = await getGoogleAccessToken(userId);
+        }
+      }
+    } catch (error) {
+      console.error("[Workplan API] Failed to verify Telegram token", error);
+    }
+  }
+
+  if (!userId) {
+    return NextResponse.json(
+      { error: "Unauthorized - valid session required" },
+      { status: 401 }
+    );
+  }
+
+  const payload = await request.json().catch(() => null);
+  const parsed = bodySchema.safeParse(payload);
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid payload", details: parsed.error.flatten().fieldErrors },
+      { status: 422 }
+    );
+  }
+
+  try {
+    const { eventId, stepId, done } = parsed.data;
+    const workplan = await setWorkplanStepDone(userId, eventId, stepId, done);
+    if (!workplan) {
+      return NextResponse.json({ error: "Step not found" }, { status: 404 });
+    }
+
+    const step = workplan.steps.find((candidate) => candidate.id === stepId);
+    // Only the user's own session gets here: scoped MCP tokens and personal
+    // access tokens have other audiences, so no tasks scope is left to check
+    if (step && googleAccessToken) {
+      await syncStepToTask(step, googleAccessToken);
+    }
+
+    return NextResponse.json({ steps: workplan.steps });
+  } catch (error) {
+    console.error("[Workplan Steps API] Error:", error);
+    return NextResponse.json(
+      { error: "Failed to update step" },
+      { status: 500 }
+    );
+  }
+}
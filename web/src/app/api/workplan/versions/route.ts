@@ -0,0 +1,150 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+import { auth } from "@/auth";
+import {
+  diffWorkplanSteps,
+  findWorkplan,
+  listWorkplanVersions,
+  restoreWorkplanVersion,
+  WorkplanVersionNotFoundError,
+} from "@/lib/workplans";
+import { verifySessionToken } from "@/lib/telegram/auth";
+
+const VERSION_LIMIT = 20;
+
+const restoreSchema = z.object({
+  eventId: z.string().min(1),
+  version: z.number().int().min(0),
+});
+
+async function getUserId(request: NextRequest) {
+  // Try NextAuth session first
+  const session = await auth();
+  if (session?.user?.id) {
+    return session.user.id;
+  }
+
+  // If no NextAuth session, check for Telegram JWT
+  try {
+    let token = request.cookies.get("telegram-auth-token")?.value;
+    const authHeader = request.headers.get("Authorization");
+    if (authHeader?.startsWith("Bearer ")) {
+      token = authHeader.substring(7);
+    }
+
+    if (token) {
+      const { payload } = await verifySessionToken(token);
+      if (typeof payload.sub === "string") {
+        return payload.sub;
+      }
+    }
+  } catch (error) {
+    console.error("[Workplan API] Failed to verify Telegram token", error);
+  }
+  return null;
+}
+
+/**
+ * GET /api/workplan/versions?eventId=...
+ *
+ * Saved versions of a workplan, newest first, each with the steps it added
+ * and removed compared to the version before it.
+ */
+export async function GET(request: NextRequest) {
+  const userId = await getUserId(request);
+  if (!userId) {
+    return NextResponse.json(
+      { error: "Unauthorized - valid session required" },
+      { status: 401 }
+    );
+  }
+
+  const eventId = new URL(request.url).searchParams.get("eventId");
+  if (!eventId) {
+    return NextResponse.json({ error: "eventId is required" }, { status: 422 });
+  }
+
+  try {
+    const [current, versions] = await Promise.all([
+      findWorkplan(userId, eventId),
+      // One extra version to diff the oldest returned one against
+      listWorkplanVersions(userId, eventId, VERSION_LIMIT + 1),
+    ]);
+
+    return NextResponse.json({
+      current: current?.version ?? null,
+      versions: versions.slice(0, VERSION_LIMIT).map((version, index) => ({
+        version: version.version,
+        trigger: version.trigger,
+        source: version.source,
+        role: version.role,
+        restoredFrom: version.restoredFrom ?? null,
+        createdAt: version.createdAt.toISOString(),
+        steps: version.steps.map(({ id, text }) => ({ id, text })),
+        changes: versions[index + 1]
+          ? diffWorkplanSteps(versions[index + 1].steps, version.steps)
+          : null,
+      })),
+    });
+  } catch (error) {
+    console.error("[Workplan Versions API] Error:", error);
+    return NextResponse.json(
+      { error: "Failed to load workplan versions" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/workplan/versions
+ *
+ * Restore an older version. The restored plan becomes a new manual version.
+ */
+export async function POST(request: NextRequest) {
+  const userId = await getUserId(request);
+  if (!userId) {
+    return NextResponse.json(
+      { error: "Unauthorized - valid session required" },
+      { status: 401 }
+    );
+  }
+
+  const payload = await request.json().catch(() => null);
+  const parsed = restoreSchema.safeParse(payload);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid payload", details: parsed.error.flatten().fieldErrors },
+      { status: 422 }
+    );
+  }
+
+  try {
+    const workplan = await restoreWorkplanVersion(
+      userId,
+      parsed.data.eventId,
+      parsed.data.version
+    );
+
+    return NextResponse.json({
+      steps: workplan.steps,
+      status: workplan.status,
+      lastGeneratedAt:
+        workplan.lastGeneratedAt instanceof Date
+          ? workplan.lastGeneratedAt.toISOString()
+          : workplan.lastGeneratedAt,
+      source: workplan.source,
+      role: workplan.role ?? null,
+      version: workplan.version ?? null,
+    });
+  } catch (error) {
+    if (error instanceof WorkplanVersionNotFoundError) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+    console.error("[Workplan Versions API] Error:", error);
+    return NextResponse.json(
+      { error: "Failed to restore workplan version" },
+      { status: 500 }
+    );
+  }
+}
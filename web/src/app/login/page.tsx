@@ -4,11 +4,17 @@ import { redirect } from "next/navigation";
 import { auth } from "@/auth";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { LoginForm } from "@/features/auth/components/login-form";
+import { getSafeCallbackUrl } from "@/lib/utils";
 
-export default async function LoginPage() {
+interface LoginPageProps {
+  searchParams: Promise<{ callbackUrl?: string }>;
+}
+
+export default async function LoginPage({ searchParams }: LoginPageProps) {
   const session = await auth();
   if (session?.user) {
-    redirect("/");
+    const { callbackUrl } = await searchParams;
+    redirect(getSafeCallbackUrl(callbackUrl));
   }
 
   return (
@@ -1,8 +1,15 @@
 import { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
-import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import {
+  McpServer,
+  ResourceTemplate,
+} from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  ErrorCode,
+  McpError,
+  ReadResourceResult,
+} from "@modelcontextprotocol/sdk/types.js";
 import { createMcpHandler, withMcpAuth } from "mcp-handler";
 import { z } from "zod";
-import { ObjectId } from "mongodb";
 import { google } from "googleapis";
 
 import {
@@ -22,43 +29,85 @@ import { GetCurrentTimeHandler } from "@cocal/google-calendar-mcp/src/handlers/c
 
 import { env } from "@/env";
 import { OAuth2Client } from "@cocal/google-calendar-mcp/node_modules/google-auth-library";
-import { verifyMcpToken } from "@/lib/mcp-auth";
-import { logToolCall, getDefaultToolDisplayInfo } from "@/lib/workflow-runs";
+import { MCP_SCOPES, verifyMcpToken } from "@/lib/mcp-auth";
+import {
+  instrumentTool,
+  McpToolContext,
+  McpToolError,
+  requireGoogleAccessToken,
+  requireScopedUser,
+  userHasScope,
+} from "@/lib/mcp-instrumentation";
+import { MCP_RESOURCE_URIS } from "@/lib/mcp-resources";
 import { getGoogleAccessToken } from "@/lib/google-tokens";
 import {
+  isPersonalAccessToken,
+  verifyPersonalAccessToken,
+} from "@/lib/personal-access-tokens";
+import {
+  diffUserContextVersions,
   getUserContextDocument,
+  listUserContextHistory,
+  rollbackUserContext,
   updateUserContextDocument,
-  UserContextDocument,
+  UserContextValidationError,
+  UserContextVersionNotFoundError,
 } from "@/lib/user-context";
-import { getRecentMessages } from "@/lib/conversations";
+import { userContextEntryMetadataSchema } from "@/lib/user-context-schema";
+import {
+  getRecentMessages,
+  InvalidMessageCursorError,
+  MESSAGE_ROLES,
+  MESSAGE_SOURCES,
+  searchMessages,
+  StoredMessage,
+} from "@/lib/conversations";
 import {
   getTaskLists,
   getTasks,
   insertTaskList,
+  updateTaskList,
+  deleteTaskList,
   insertTask,
   updateTask,
+  completeTask,
+  deleteTask,
+  moveTask,
   TaskItem,
   clearTasks
 } from "@/lib/google-tasks";
 import {
+  extractEventId,
+  recordAgentAction,
+  snapshotEvent,
+  snapshotTask,
+  snapshotTaskList,
+  undoAgentAction,
+} from "@/lib/agent-actions";
+import {
+  findWorkplan,
   listWorkplans,
   normalizeEventSnapshot,
+  setWorkplanStepDone,
+  StoredWorkplan,
 } from "@/lib/workplans";
 import {
   ensureWorkplanForEvent,
   regenerateWorkplanForEvent,
   WorkplanGenerationInput,
 } from "@/lib/workplan-generator";
+import { syncStepToTask } from "@/lib/workplan-export";
 import { fetchUpcomingCalendarItems } from "@/lib/calendar";
+import {
+  PROMPT_TEMPLATES,
+  PromptArgsShape,
+  PromptTemplate,
+} from "@/lib/agent/prompts";
 import {
   WORKPLAN_DEFAULT_EVENT_LIMIT,
   WORKPLAN_MAX_EVENT_LIMIT,
 } from "@/lib/constants";
 
-const formatMcpResponse = (response: string): CallToolResult => ({
-  content: [{ type: "text", text: response }],
-});
-
 const calendarToolHandlers = {
   "list-calendars": ListCalendarsHandler,
   "list-events": ListEventsHandler,
@@ -75,21 +124,36 @@ const calendarToolHandlers = {
 export type McpToolName =
   | "get_user_context"
   | "update_user_context"
+  | "get_user_context_history"
+  | "diff_user_context"
+  | "rollback_user_context"
   | "get_conversation_messages"
+  | "search_conversation"
   | "get_google_tasks"
   | "get_google_task_lists"
   | "create_google_task_list"
   | "insert_google_task"
   | "update_google_task"
+  | "complete_google_task"
+  | "delete_google_task"
+  | "move_google_task"
+  | "rename_google_task_list"
+  | "delete_google_task_list"
+  | "undo_last_action"
   | "get_workplans"
   | "update_workplan"
+  | "complete_workplan_step"
   | keyof typeof calendarToolHandlers;
 
 // Scope map for tool authorization
 const TOOL_SCOPE_MAP: Record<McpToolName, string[]> = {
   get_user_context: ["read:user-context"],
   update_user_context: ["write:user-context"],
+  get_user_context_history: ["read:user-context"],
+  diff_user_context: ["read:user-context"],
+  rollback_user_context: ["write:user-context"],
   get_conversation_messages: ["read:user-context"],
+  search_conversation: ["read:user-context"],
   "list-calendars": ["calendar:read"],
   "list-events": ["calendar:read"],
   "search-events": ["calendar:read"],
@@ -105,313 +169,361 @@ const TOOL_SCOPE_MAP: Record<McpToolName, string[]> = {
   create_google_task_list: ["tasks:write"],
   insert_google_task: ["tasks:write"],
   update_google_task: ["tasks:write"],
+  complete_google_task: ["tasks:write"],
+  delete_google_task: ["tasks:write"],
+  move_google_task: ["tasks:write"],
+  rename_google_task_list: ["tasks:write"],
+  delete_google_task_list: ["tasks:write"],
+  undo_last_action: ["calendar:write", "tasks:write"],
   get_workplans: ["read:user-context"],
-  update_workplan: ["write:user-context"]
+  update_workplan: ["write:user-context"],
+  complete_workplan_step: ["write:user-context"],
 };
 
-const scopesFromAuth = (auth?: AuthInfo): Set<string> =>
-  new Set(auth?.scopes ?? []);
+const logMessageParam = z
+  .string()
+  .optional()
+  .describe(
+    "Human-readable description of what you're doing with this tool (e.g., 'Check user preferences', 'Save new task')"
+  );
+
+const tasksClientFor = (context: McpToolContext) => {
+  const oAuth2Client = new google.auth.OAuth2();
+  oAuth2Client.setCredentials({
+    access_token: requireGoogleAccessToken(context),
+  });
+  return google.tasks({ version: "v1", auth: oAuth2Client });
+};
+
+const calendarClientFor = (context: McpToolContext) => {
+  const oAuth2Client = new google.auth.OAuth2();
+  oAuth2Client.setCredentials({
+    access_token: requireGoogleAccessToken(context),
+  });
+  return google.calendar({ version: "v3", auth: oAuth2Client });
+};
+
+const serializeGeneratedAt = (value: Date | string) =>
+  value instanceof Date ? value.toISOString() : value;
+
+const serializeWorkplan = (plan: StoredWorkplan) => ({
+  event: {
+    id: plan.eventId,
+    ...plan.event,
+  },
+  steps: plan.steps,
+  status: plan.status,
+  lastGeneratedAt: serializeGeneratedAt(plan.lastGeneratedAt),
+  source: plan.source,
+  role: plan.role ?? null,
+});
+
+// Format for agent consumption
+const formatConversationMessage = (msg: StoredMessage) => ({
+  id: msg.id || msg._id?.toString(),
+  role: msg.role,
+  content: msg.content,
+  source: msg.source,
+  createdAt: msg.createdAt?.toISOString(),
+});
 
-const userHasScope = (required: string[], auth?: AuthInfo): boolean =>
-  required.length === 0 ||
-  required.some((scope) => scopesFromAuth(auth).has(scope));
+const RECENT_CONVERSATION_RESOURCE_LIMIT = 20;
+
+const jsonResourceContents = (uri: URL, data: unknown): ReadResourceResult => ({
+  contents: [
+    {
+      uri: uri.href,
+      mimeType: "application/json",
+      text: JSON.stringify(data, null, 2),
+    },
+  ],
+});
+
+const registerPromptTemplate = (
+  server: McpServer,
+  name: string,
+  template: PromptTemplate<PromptArgsShape>
+) =>
+  server.registerPrompt(
+    name,
+    {
+      title: template.title,
+      description: template.description,
+      argsSchema: template.argsSchema,
+    },
+    (args) => ({
+      description: template.description,
+      messages: [
+        {
+          role: "user",
+          content: { type: "text", text: template.render(args) },
+        },
+      ],
+    })
+  );
 
 // StreamableHttp server
 const handler = createMcpHandler(
   async (server) => {
+    server.registerResource(
+      "user_context",
+      MCP_RESOURCE_URIS.context,
+      {
+        title: "User context",
+        description: "Everything Micromanager remembers about the user (requires: read:user-context)",
+        mimeType: "application/json",
+      },
+      async (uri, extra) => {
+        const userId = requireScopedUser(
+          uri.href,
+          TOOL_SCOPE_MAP.get_user_context,
+          extra?.authInfo
+        );
+        const userContextDoc = await getUserContextDocument(userId);
+        return jsonResourceContents(uri, userContextDoc.data);
+      }
+    );
+    server.registerResource(
+      "recent_conversation",
+      MCP_RESOURCE_URIS.recentConversation,
+      {
+        title: "Recent conversation",
+        description: `The ${RECENT_CONVERSATION_RESOURCE_LIMIT} most recent conversation messages, oldest first (requires: read:user-context)`,
+        mimeType: "application/json",
+      },
+      async (uri, extra) => {
+        const userId = requireScopedUser(
+          uri.href,
+          TOOL_SCOPE_MAP.get_conversation_messages,
+          extra?.authInfo
+        );
+        const messages = await getRecentMessages(
+          userId,
+          RECENT_CONVERSATION_RESOURCE_LIMIT
+        );
+        return jsonResourceContents(uri, messages.map(formatConversationMessage));
+      }
+    );
+    server.registerResource(
+      "workplan",
+      new ResourceTemplate(MCP_RESOURCE_URIS.workplanTemplate, {
+        list: async (extra) => {
+          const userId = requireScopedUser(
+            "workplans",
+            TOOL_SCOPE_MAP.get_workplans,
+            extra?.authInfo
+          );
+          const workplans = await listWorkplans(userId, WORKPLAN_MAX_EVENT_LIMIT);
+          return {
+            resources: workplans.map((plan) => ({
+              uri: MCP_RESOURCE_URIS.workplan(plan.eventId),
+              name: plan.event.title,
+              mimeType: "application/json",
+            })),
+          };
+        },
+      }),
+      {
+        title: "Workplan",
+        description: "Cached workplan for a calendar event (requires: read:user-context)",
+        mimeType: "application/json",
+      },
+      async (uri, { eventId }, extra) => {
+        const userId = requireScopedUser(
+          uri.href,
+          TOOL_SCOPE_MAP.get_workplans,
+          extra?.authInfo
+        );
+        const workplan = await findWorkplan(
+          userId,
+          decodeURIComponent(String(eventId))
+        );
+        if (!workplan) {
+          throw new McpError(ErrorCode.InvalidParams, "Workplan not found", {
+            code: "NOT_FOUND",
+          });
+        }
+        return jsonResourceContents(uri, serializeWorkplan(workplan));
+      }
+    );
+    Object.entries(PROMPT_TEMPLATES).forEach(([name, template]) =>
+      registerPromptTemplate(server, name, template)
+    );
     server.tool(
       "get_user_context",
       "Get the user context",
       {
         getAllData: z.boolean().optional(),
-        log_message: z
-          .string()
-          .optional()
-          .describe(
-            "Human-readable description of what you're doing with this tool (e.g., 'Check user preferences', 'Save new task')"
-          ),
+        log_message: logMessageParam,
       },
-      async ({ getAllData, log_message }, extra) => {
-        const toolCallId = new ObjectId().toString();
-        const workflowRunId = extra?.authInfo?.extra?.workflowRunId as
-          | string
-          | undefined;
-        const toolName = "get_user_context";
-
-        // Get display info from agent's log_message or fallback
-        const displayInfo = log_message
-          ? { displayTitle: log_message, displayDescription: "" }
-          : getDefaultToolDisplayInfo(toolName);
-
-        // Log tool start (only if workflowRunId exists)
-        if (workflowRunId) {
-          await logToolCall(workflowRunId, toolCallId, {
-            toolName,
-            displayTitle: displayInfo.displayTitle,
-            displayDescription: displayInfo.displayDescription,
-            arguments: { getAllData },
-            status: "pending",
-            createdAt: new Date(),
-            updatedAt: new Date(),
-          }).catch((err) =>
-            console.error("Failed to log tool call start:", err)
-          );
-        }
-
-        // Check scope authorization
-        const requiredScopes = TOOL_SCOPE_MAP["get_user_context"];
-        if (!userHasScope(requiredScopes, extra?.authInfo)) {
-          console.error(
-            "[MCP Auth] Missing required scope for get_user_context"
-          );
-          const errorMsg =
-            "Access denied: Missing required scope 'read:user-context'";
-
-          // Log error
-          if (workflowRunId) {
-            await logToolCall(workflowRunId, toolCallId, {
-              status: "error",
-              error: errorMsg,
-              updatedAt: new Date(),
-            }).catch((err) =>
-              console.error("Failed to log tool call error:", err)
-            );
-          }
-
-          return formatMcpResponse(errorMsg);
-        }
-
-        try {
-          const userId = extra?.authInfo?.clientId;
+      instrumentTool(
+        "get_user_context",
+        TOOL_SCOPE_MAP.get_user_context,
+        async ({ getAllData }, { userId }) => {
           console.log("get_user_context", { getAllData, userId });
-          if (!userId) {
-            console.error("User ID is required", { authInfo: extra?.authInfo });
-            const errorMsg = "User ID is required";
-
-            // Log error
-            if (workflowRunId) {
-              await logToolCall(workflowRunId, toolCallId, {
-                status: "error",
-                error: errorMsg,
-                updatedAt: new Date(),
-              }).catch((err) =>
-                console.error("Failed to log tool call error:", err)
-              );
-            }
-
-            return formatMcpResponse(errorMsg);
-          }
           const userContextDoc = await getUserContextDocument(userId);
-          console.log("User context fetched", {
-            userId,
-            userContextDoc,
-            getAllData,
-          });
-
-          // Log success
-          if (workflowRunId) {
-            await logToolCall(workflowRunId, toolCallId, {
-              status: "success",
-              updatedAt: new Date(),
-            }).catch((err) =>
-              console.error("Failed to log tool call success:", err)
-            );
-          }
-
-          return formatMcpResponse(
-            JSON.stringify(userContextDoc.data, null, 2)
-          );
-        } catch (error) {
-          console.error("Failed to get user context", error);
-          const errorMsg = `Failed to get user context: ${
-            error instanceof Error ? error.message : "Unknown error"
-          }`;
-
-          // Log error
-          if (workflowRunId) {
-            await logToolCall(workflowRunId, toolCallId, {
-              status: "error",
-              error: errorMsg,
-              updatedAt: new Date(),
-            }).catch((err) =>
-              console.error("Failed to log tool call error:", err)
-            );
-          }
-
-          return formatMcpResponse(errorMsg);
+          return userContextDoc.data;
         }
-      }
+      )
     );
     server.tool(
       "update_user_context",
-      "Update user context with nested data. Use dot notation for paths (e.g., 'tasks.0.title'). Value can be any type including objects and arrays. Use contextDeletes to remove fields.",
+      "Update user context with nested data. Use dot notation for paths starting with a section: profile (name, preferredName, role, organization, location, timezone, language, notes), preferences.<key>, projects.<key> ({name, status, description, deadline, nextSteps, notes}), people.<key> ({name, relation, contact, birthday, notes}), routines.<key> ({description, schedule, notes}), upcoming.<key> ({title, date, eventId, taskId, notes}). Keys use letters, digits, '-' or '_'. Values that don't fit their section are stored under unsorted. Use contextDeletes to remove fields. Give time-bound entries metadata (expiresAt, or the eventId/taskId they describe) so they are removed automatically once they are past or done.",
       {
         contextUpdates: z
-          .array(z.object({ path: z.string(), value: z.any() }))
+          .array(
+            z.object({
+              path: z.string(),
+              value: z.any(),
+              metadata: userContextEntryMetadataSchema
+                .optional()
+                .describe(
+                  "Optional entry metadata: expiresAt (ISO date-time), source (user, conversation, calendar, tasks, inferred), confidence (0-1), and calendarId/eventId or tasklistId/taskId of the item the entry describes"
+                ),
+            })
+          )
           .optional()
           .describe(
-            "Array of updates. Path uses dot notation. Value accepts any type (string, number, object, array, etc.)"
+            "Array of updates, e.g. { path: 'projects.website-redesign', value: { name: 'Website redesign', status: 'active' } } or { path: 'upcoming.dentist', value: { title: 'Dentist', date: '2025-03-04' }, metadata: { eventId: 'abc123', source: 'calendar' } }"
           ),
         contextDeletes: z
           .array(z.string())
           .optional()
           .describe("Array of paths to delete (dot notation)"),
-        log_message: z
-          .string()
-          .optional()
-          .describe(
-            "Human-readable description of what you're doing with this tool (e.g., 'Check user preferences', 'Save new task')"
-          ),
+        log_message: logMessageParam,
       },
-      async ({ contextUpdates, contextDeletes, log_message }, extra) => {
-        const toolCallId = new ObjectId().toString();
-        const workflowRunId = extra?.authInfo?.extra?.workflowRunId as
-          | string
-          | undefined;
-        const toolName = "update_user_context";
-
-        // Get display info from agent's log_message or fallback
-        const displayInfo = log_message
-          ? { displayTitle: log_message, displayDescription: "" }
-          : getDefaultToolDisplayInfo(toolName);
-
-        // Log tool start (only if workflowRunId exists)
-        if (workflowRunId) {
-          await logToolCall(workflowRunId, toolCallId, {
-            toolName,
-            displayTitle: displayInfo.displayTitle,
-            displayDescription: displayInfo.displayDescription,
-            arguments: { contextUpdates, contextDeletes },
-            status: "pending",
-            createdAt: new Date(),
-            updatedAt: new Date(),
-          }).catch((err) =>
-            console.error("Failed to log tool call start:", err)
-          );
-        }
-
-        // Check scope authorization
-        const requiredScopes = TOOL_SCOPE_MAP["update_user_context"];
-        if (!userHasScope(requiredScopes, extra?.authInfo)) {
-          console.error(
-            "[MCP Auth] Missing required scope for update_user_context"
-          );
-          const errorMsg =
-            "Access denied: Missing required scope 'write:user-context'";
-
-          // Log error
-          if (workflowRunId) {
-            await logToolCall(workflowRunId, toolCallId, {
-              status: "error",
-              error: errorMsg,
-              updatedAt: new Date(),
-            }).catch((err) =>
-              console.error("Failed to log tool call error:", err)
-            );
-          }
-
-          return formatMcpResponse(errorMsg);
-        }
-
-        try {
+      instrumentTool(
+        "update_user_context",
+        TOOL_SCOPE_MAP.update_user_context,
+        async ({ contextUpdates, contextDeletes }, { userId, workflowRunId }) => {
           if (!contextUpdates && !contextDeletes) {
-            const errorMsg = "No updates or deletes provided";
-
-            // Log error
-            if (workflowRunId) {
-              await logToolCall(workflowRunId, toolCallId, {
-                status: "error",
-                error: errorMsg,
-                updatedAt: new Date(),
-              }).catch((err) =>
-                console.error("Failed to log tool call error:", err)
-              );
-            }
-
-            return formatMcpResponse(errorMsg);
+            throw new McpToolError(
+              "INVALID_INPUT",
+              "No updates or deletes provided"
+            );
           }
-          const userId = extra?.authInfo?.clientId;
           console.log("update_user_context", {
             contextUpdates,
             contextDeletes,
             userId,
           });
-          if (!userId) {
-            console.error("User ID is required", { authInfo: extra?.authInfo });
-            const errorMsg = "User ID is required";
-
-            // Log error
-            if (workflowRunId) {
-              await logToolCall(workflowRunId, toolCallId, {
-                status: "error",
-                error: errorMsg,
-                updatedAt: new Date(),
-              }).catch((err) =>
-                console.error("Failed to log tool call error:", err)
-              );
+          try {
+            const { document, movedToUnsorted } =
+              await updateUserContextDocument(userId, [
+                ...(contextUpdates ?? []),
+                ...(contextDeletes ?? []).map((path) => ({
+                  path,
+                  value: undefined,
+                })),
+              ], { actor: { type: "agent", sessionId: workflowRunId } });
+            return movedToUnsorted.length > 0
+              ? { context: document.data, movedToUnsorted }
+              : document.data;
+          } catch (error) {
+            if (error instanceof UserContextValidationError) {
+              throw new McpToolError("INVALID_INPUT", error.message);
             }
-
-            return formatMcpResponse(errorMsg);
-          }
-          let userContextDoc: UserContextDocument | null = null;
-          if (contextUpdates && contextUpdates.length > 0) {
-            userContextDoc = await updateUserContextDocument(
-              userId,
-              contextUpdates
-            );
-            console.log("User context updated", {
-              userId,
-              contextUpdates,
-            });
+            throw error;
           }
-          if (contextDeletes && contextDeletes.length > 0) {
-            userContextDoc = await updateUserContextDocument(
-              userId,
-              contextDeletes.map((path) => ({ path, value: undefined }))
-            );
-            console.log("Context deleted", {
-              userId,
-              contextDeletes,
-            });
-          }
-          console.log("User context after updates", {
-            userId,
-            userContext: JSON.stringify(userContextDoc!.data),
+        }
+      )
+    );
+    server.tool(
+      "get_user_context_history",
+      "List recent changes to the user context, newest first. Each entry is a version with the paths it changed, their old and new values, and who made the change.",
+      {
+        limit: z
+          .number()
+          .int()
+          .min(1)
+          .max(100)
+          .optional()
+          .describe("Maximum number of versions to return (default: 20)"),
+        before_version: z
+          .number()
+          .int()
+          .optional()
+          .describe("Optional: only return versions older than this one"),
+        log_message: logMessageParam,
+      },
+      instrumentTool(
+        "get_user_context_history",
+        TOOL_SCOPE_MAP.get_user_context_history,
+        async ({ limit, before_version }, { userId }) => {
+          const records = await listUserContextHistory(userId, {
+            limit: limit ?? 20,
+            beforeVersion: before_version,
           });
-
-          // Log success
-          if (workflowRunId) {
-            await logToolCall(workflowRunId, toolCallId, {
-              status: "success",
-              updatedAt: new Date(),
-            }).catch((err) =>
-              console.error("Failed to log tool call success:", err)
-            );
+          return records.map(({ version, changes, actor, rolledBackTo, createdAt }) => ({
+            version,
+            changes,
+            actor,
+            rolledBackTo,
+            createdAt: createdAt.toISOString(),
+          }));
+        }
+      )
+    );
+    server.tool(
+      "diff_user_context",
+      "Show which context paths differ between two versions",
+      {
+        from_version: z.number().int().min(0).describe("Older version to compare"),
+        to_version: z
+          .number()
+          .int()
+          .min(0)
+          .optional()
+          .describe("Newer version to compare (default: current version)"),
+        log_message: logMessageParam,
+      },
+      instrumentTool(
+        "diff_user_context",
+        TOOL_SCOPE_MAP.diff_user_context,
+        async ({ from_version, to_version }, { userId }) => {
+          try {
+            return await diffUserContextVersions(userId, from_version, to_version);
+          } catch (error) {
+            if (error instanceof UserContextVersionNotFoundError) {
+              throw new McpToolError("NOT_FOUND", error.message);
+            }
+            throw error;
           }
-
-          return formatMcpResponse(
-            JSON.stringify(userContextDoc!.data, null, 2)
-          );
-        } catch (error) {
-          console.error("Failed to update user context", error);
-          const errorMsg = `Failed to update user context: ${
-            error instanceof Error ? error.message : "Unknown error"
-          }`;
-
-          // Log error
-          if (workflowRunId) {
-            await logToolCall(workflowRunId, toolCallId, {
-              status: "error",
-              error: errorMsg,
-              updatedAt: new Date(),
-            }).catch((err) =>
-              console.error("Failed to log tool call error:", err)
-            );
+        }
+      )
+    );
+    server.tool(
+      "rollback_user_context",
+      "Restore the user context, or a single path in it, to how it was at an earlier version. Use get_user_context_history to find the version.",
+      {
+        version: z.number().int().min(0).describe("Version to restore"),
+        path: z
+          .string()
+          .optional()
+          .describe("Optional: only restore this path (dot notation), e.g. 'projects.website-redesign'"),
+        log_message: logMessageParam,
+      },
+      instrumentTool(
+        "rollback_user_context",
+        TOOL_SCOPE_MAP.rollback_user_context,
+        async ({ version, path }, { userId, workflowRunId }) => {
+          try {
+            const { document } = await rollbackUserContext(userId, version, {
+              actor: { type: "agent", sessionId: workflowRunId },
+              path,
+            });
+            return { version: document.version, context: document.data };
+          } catch (error) {
+            if (error instanceof UserContextVersionNotFoundError) {
+              throw new McpToolError("NOT_FOUND", error.message);
+            }
+            if (error instanceof UserContextValidationError) {
+              throw new McpToolError("INVALID_INPUT", error.message);
+            }
+            throw error;
           }
-
-          return formatMcpResponse(errorMsg);
         }
-      }
+      )
     );
     server.tool(
       "get_conversation_messages",
@@ -431,89 +543,12 @@ const handler = createMcpHandler(
           .string()
           .optional()
           .describe("Optional: Only get messages before this message ID"),
-        log_message: z
-          .string()
-          .optional()
-          .describe(
-            "Human-readable description of what you're doing with this tool (e.g., 'Check user preferences', 'Save new task')"
-          ),
+        log_message: logMessageParam,
       },
-      async ({ limit, before_message_id, log_message }, extra) => {
-        const toolCallId = new ObjectId().toString();
-        const workflowRunId = extra?.authInfo?.extra?.workflowRunId as
-          | string
-          | undefined;
-        const toolName = "get_conversation_messages";
-
-        // Get display info from agent's log_message or fallback
-        const displayInfo = log_message
-          ? { displayTitle: log_message, displayDescription: "" }
-          : getDefaultToolDisplayInfo(toolName);
-
-        // Log tool start (only if workflowRunId exists)
-        if (workflowRunId) {
-          await logToolCall(workflowRunId, toolCallId, {
-            toolName,
-            displayTitle: displayInfo.displayTitle,
-            displayDescription: displayInfo.displayDescription,
-            arguments: { limit, before_message_id },
-            status: "pending",
-            createdAt: new Date(),
-            updatedAt: new Date(),
-          }).catch((err) =>
-            console.error("Failed to log tool call start:", err)
-          );
-        }
-
-        // Check scope authorization
-        const requiredScopes = TOOL_SCOPE_MAP["get_conversation_messages"];
-        if (!userHasScope(requiredScopes, extra?.authInfo)) {
-          console.error(
-            "[MCP Auth] Missing required scope for get_conversation_messages"
-          );
-          const errorMsg =
-            "Access denied: Missing required scope 'read:user-context'";
-
-          // Log error
-          if (workflowRunId) {
-            await logToolCall(workflowRunId, toolCallId, {
-              status: "error",
-              error: errorMsg,
-              updatedAt: new Date(),
-            }).catch((err) =>
-              console.error("Failed to log tool call error:", err)
-            );
-          }
-
-          return formatMcpResponse(errorMsg);
-        }
-
-        try {
-          const userId = extra?.authInfo?.clientId;
-          console.log("get_conversation_messages", {
-            limit,
-            before_message_id,
-            userId,
-          });
-
-          if (!userId) {
-            console.error("User ID is required", { authInfo: extra?.authInfo });
-            const errorMsg = "User ID is required";
-
-            // Log error
-            if (workflowRunId) {
-              await logToolCall(workflowRunId, toolCallId, {
-                status: "error",
-                error: errorMsg,
-                updatedAt: new Date(),
-              }).catch((err) =>
-                console.error("Failed to log tool call error:", err)
-              );
-            }
-
-            return formatMcpResponse(errorMsg);
-          }
-
+      instrumentTool(
+        "get_conversation_messages",
+        TOOL_SCOPE_MAP.get_conversation_messages,
+        async ({ limit, before_message_id }, { userId }) => {
           // Get messages from MongoDB
           const messages = await getRecentMessages(userId, limit ?? 20);
 
@@ -530,176 +565,87 @@ const handler = createMcpHandler(
             }
           }
 
-          // Format for agent consumption
-          const formattedMessages = filteredMessages.map((msg) => ({
-            id: msg.id || msg._id?.toString(),
-            role: msg.role,
-            content: msg.content,
-            source: msg.source,
-            createdAt: msg.createdAt?.toISOString(),
-          }));
-
-          console.log("Conversation messages fetched", {
-            userId,
-            count: formattedMessages.length,
-            limit,
-          });
-
-          // Log success
-          if (workflowRunId) {
-            await logToolCall(workflowRunId, toolCallId, {
-              status: "success",
-              updatedAt: new Date(),
-            }).catch((err) =>
-              console.error("Failed to log tool call success:", err)
-            );
-          }
-
-          return formatMcpResponse(JSON.stringify(formattedMessages, null, 2));
-        } catch (error) {
-          console.error("Failed to get conversation messages", error);
-          const errorMsg = `Failed to get conversation messages: ${
-            error instanceof Error ? error.message : "Unknown error"
-          }`;
-
-          // Log error
-          if (workflowRunId) {
-            await logToolCall(workflowRunId, toolCallId, {
-              status: "error",
-              error: errorMsg,
-              updatedAt: new Date(),
-            }).catch((err) =>
-              console.error("Failed to log tool call error:", err)
-            );
-          }
-
-          return formatMcpResponse(errorMsg);
+          return filteredMessages.map(formatConversationMessage);
         }
-      }
+      )
     );
     server.tool(
-      "get_google_task_lists",
-      "Fetches all task_lists",
+      "search_conversation",
+      "Search the whole conversation history by words, date range, role and source. Returns matches newest first; pass nextCursor back as cursor for older matches.",
       {
-        log_message: z
+        query: z
           .string()
           .optional()
-          .describe(
-            "Human-readable description of what you're doing with this tool (e.g., 'Check user preferences', 'Save new task')"
-          )
+          .describe("Words to look for, e.g. 'dentist'. Use quotes for an exact phrase"),
+        from: z
+          .string()
+          .datetime({ offset: true })
+          .optional()
+          .describe("Only messages sent at or after this time (ISO 8601)"),
+        to: z
+          .string()
+          .datetime({ offset: true })
+          .optional()
+          .describe("Only messages sent at or before this time (ISO 8601)"),
+        roles: z.array(z.enum(MESSAGE_ROLES)).optional(),
+        sources: z.array(z.enum(MESSAGE_SOURCES)).optional(),
+        limit: z
+          .number()
+          .int()
+          .min(1)
+          .max(50)
+          .optional()
+          .describe("Maximum number of messages to return (default: 20)"),
+        cursor: z
+          .string()
+          .optional()
+          .describe("nextCursor from a previous search, to get the next page"),
+        log_message: logMessageParam,
       },
-      async ({ log_message }, extra) => {
-        const toolCallId = new ObjectId().toString();
-        const workflowRunId = extra?.authInfo?.extra?.workflowRunId as
-          | string
-          | undefined;
-        const toolName = "get_google_task_lists";
-
-        // Get display info from agent's log_message or fallback
-        const displayInfo = log_message
-          ? { displayTitle: log_message, displayDescription: "" }
-          : getDefaultToolDisplayInfo(toolName);
-
-        // Log tool start (only if workflowRunId exists)
-        if (workflowRunId) {
-          await logToolCall(workflowRunId, toolCallId, {
-            toolName,
-            displayTitle: displayInfo.displayTitle,
-            displayDescription: displayInfo.displayDescription,
-            arguments: {},
-            status: "pending",
-            createdAt: new Date(),
-            updatedAt: new Date(),
-          }).catch((err) =>
-            console.error("Failed to log tool call start:", err)
-          );
-        }
-
-        // Check scope authorization
-        const requiredScopes = TOOL_SCOPE_MAP[toolName];
-        if (!userHasScope(requiredScopes, extra?.authInfo)) {
-          console.error(
-            `[MCP Auth] Missing required scope for ${toolName}`
-          );
-          const errorMsg =
-            `Access denied: Missing required scope ${TOOL_SCOPE_MAP[toolName]}`;
-          // Log error
-          if (workflowRunId) {
-            await logToolCall(workflowRunId, toolCallId, {
-              status: "error",
-              error: errorMsg,
-              updatedAt: new Date(),
-            }).catch((err) =>
-              console.error("Failed to log tool call error:", err)
-            );
-          }
-          return formatMcpResponse(errorMsg);
-        }
-
-        try {
-          const oAuth2Client = new google.auth.OAuth2();
-          const googleAccessToken = extra?.authInfo?.extra?.googleAccessToken;
-          if (!googleAccessToken || typeof googleAccessToken !== "string") {
-            console.log("[MCP] Missing google access token");
-            const errorMsg = "Missing Google access token";
-            // Log error
-            if (workflowRunId) {
-              await logToolCall(workflowRunId, toolCallId, {
-                status: "error",
-                error: errorMsg,
-                updatedAt: new Date(),
-              }).catch((err) =>
-                console.error("Failed to log tool call error:", err)
-              );
+      instrumentTool(
+        "search_conversation",
+        TOOL_SCOPE_MAP.search_conversation,
+        async ({ query, from, to, roles, sources, limit, cursor }, { userId }) => {
+          try {
+            const { messages, nextCursor } = await searchMessages(userId, {
+              query,
+              from: from ? new Date(from) : undefined,
+              to: to ? new Date(to) : undefined,
+              roles,
+              sources,
+              limit,
+              cursor,
+            });
+            return {
+              messages: messages.map(formatConversationMessage),
+              nextCursor,
+            };
+          } catch (error) {
+            if (error instanceof InvalidMessageCursorError) {
+              throw new McpToolError("INVALID_INPUT", error.message);
             }
-            return formatMcpResponse(errorMsg);
-          }
-          oAuth2Client.setCredentials({ access_token: googleAccessToken });
-
-          const tasksClient = google.tasks({ version: "v1", auth: oAuth2Client });
-          const taskLists = await getTaskLists(tasksClient)
-
-          // Log success
-          if (workflowRunId) {
-            await logToolCall(workflowRunId, toolCallId, {
-              status: "success",
-              updatedAt: new Date(),
-            }).catch((err) =>
-              console.error("Failed to log tool call success:", err)
-            );
-          }
-
-          return formatMcpResponse(JSON.stringify(taskLists, null, 2));
-        } catch (error) {
-          console.warn("[Calendar Tasks API] Failed to get task lists:", error);
-          const errorMsg = `[Calendar Tasks API] Failed to get task lists: ${
-            error instanceof Error ? error.message : "Unknown error"
-          }`;
-
-          // Log error
-          if (workflowRunId) {
-            await logToolCall(workflowRunId, toolCallId, {
-              status: "error",
-              error: errorMsg,
-              updatedAt: new Date(),
-            }).catch((err) =>
-              console.error("Failed to log tool call error:", err)
-            );
+            throw error;
           }
-          return formatMcpResponse("Failed to get task lists")
         }
-      }
+      )
+    );
+    server.tool(
+      "get_google_task_lists",
+      "Fetches all task_lists",
+      {
+        log_message: logMessageParam,
+      },
+      instrumentTool(
+        "get_google_task_lists",
+        TOOL_SCOPE_MAP.get_google_task_lists,
+        async (_args, context) => getTaskLists(tasksClientFor(context))
+      )
     );
     server.tool(
       "get_google_tasks",
       "Fetches all tasks in given timeframe",
       {
-        log_message: z
-          .string()
-          .optional()
-          .describe(
-            "Human-readable description of what you're doing with this tool (e.g., 'Check user preferences', 'Save new task')"
-          ),
+        log_message: logMessageParam,
         dueMin: z
           .string()
           .datetime(),
@@ -709,238 +655,53 @@ const handler = createMcpHandler(
         showCompleted: z
           .boolean()
       },
-      async ({ log_message, dueMin, dueMax, showCompleted }, extra) => {
-        const toolCallId = new ObjectId().toString();
-        const workflowRunId = extra?.authInfo?.extra?.workflowRunId as
-          | string
-          | undefined;
-        const toolName = "get_google_tasks";
-
-        // Get display info from agent's log_message or fallback
-        const displayInfo = log_message
-          ? { displayTitle: log_message, displayDescription: "" }
-          : getDefaultToolDisplayInfo(toolName);
-
-        // Log tool start (only if workflowRunId exists)
-        if (workflowRunId) {
-          await logToolCall(workflowRunId, toolCallId, {
-            toolName,
-            displayTitle: displayInfo.displayTitle,
-            displayDescription: displayInfo.displayDescription,
-            arguments: { dueMin, dueMax, showCompleted },
-            status: "pending",
-            createdAt: new Date(),
-            updatedAt: new Date(),
-          }).catch((err) =>
-            console.error("Failed to log tool call start:", err)
-          );
-        }
-
-        // Check scope authorization
-        const requiredScopes = TOOL_SCOPE_MAP[toolName];
-        if (!userHasScope(requiredScopes, extra?.authInfo)) {
-          console.error(
-            `[MCP Auth] Missing required scope for ${toolName}`
-          );
-          const errorMsg =
-            `Access denied: Missing required scope ${TOOL_SCOPE_MAP[toolName]}`;
-          // Log error
-          if (workflowRunId) {
-            await logToolCall(workflowRunId, toolCallId, {
-              status: "error",
-              error: errorMsg,
-              updatedAt: new Date(),
-            }).catch((err) =>
-              console.error("Failed to log tool call error:", err)
-            );
-          }
-          return formatMcpResponse(errorMsg);
-        }
-
-        try {
-          const oAuth2Client = new google.auth.OAuth2();
-          const googleAccessToken = extra?.authInfo?.extra?.googleAccessToken;
-          if (!googleAccessToken || typeof googleAccessToken !== "string") {
-            console.log("[MCP] Missing google access token");
-            const errorMsg = "Missing Google access token";
-            // Log error
-            if (workflowRunId) {
-              await logToolCall(workflowRunId, toolCallId, {
-                status: "error",
-                error: errorMsg,
-                updatedAt: new Date(),
-              }).catch((err) =>
-                console.error("Failed to log tool call error:", err)
-              );
-            }
-            return formatMcpResponse(errorMsg);
-          }
-          oAuth2Client.setCredentials({ access_token: googleAccessToken });
-
-          const tasksClient = google.tasks({ version: "v1", auth: oAuth2Client });
-          const tasksLists = await getTaskLists(tasksClient)
+      instrumentTool(
+        "get_google_tasks",
+        TOOL_SCOPE_MAP.get_google_tasks,
+        async ({ dueMin, dueMax, showCompleted }, context) => {
+          const tasksClient = tasksClientFor(context);
+          const tasksLists = await getTaskLists(tasksClient);
           const tasks: TaskItem[] = await getTasks(
             tasksClient,
             tasksLists,
             showCompleted,
             dueMin,
             dueMax,
-          )
-
-          // Log success
-          if (workflowRunId) {
-            await logToolCall(workflowRunId, toolCallId, {
-              status: "success",
-              updatedAt: new Date(),
-            }).catch((err) =>
-              console.error("Failed to log tool call success:", err)
-            );
-          }
-
-          return formatMcpResponse(JSON.stringify(tasks, null, 2));
-        } catch (error) {
-          console.warn("[Calendar Tasks API] Failed to get tasks:", error);
-          const errorMsg = `[Calendar Tasks API] Failed to get tasks: ${
-            error instanceof Error ? error.message : "Unknown error"
-          }`;
-
-          // Log error
-          if (workflowRunId) {
-            await logToolCall(workflowRunId, toolCallId, {
-              status: "error",
-              error: errorMsg,
-              updatedAt: new Date(),
-            }).catch((err) =>
-              console.error("Failed to log tool call error:", err)
-            );
-          }
-          return formatMcpResponse("Failed to get tasks")
+          );
+          return tasks;
         }
-      }
+      )
     );
     server.tool(
       "create_google_task_list",
       "Create a new task list",
       {
-        log_message: z
-          .string()
-          .optional()
-          .describe(
-            "Human-readable description of what you're doing with this tool (e.g., 'Check user preferences', 'Save new task')"
-          ),
+        log_message: logMessageParam,
         title: z
           .string()
       },
-      async ({ log_message, title }, extra) => {
-        const toolCallId = new ObjectId().toString();
-        const workflowRunId = extra?.authInfo?.extra?.workflowRunId as
-          | string
-          | undefined;
-        const toolName = "create_google_task_list";
-
-        // Get display info from agent's log_message or fallback
-        const displayInfo = log_message
-          ? { displayTitle: log_message, displayDescription: "" }
-          : getDefaultToolDisplayInfo(toolName);
-
-        // Log tool start (only if workflowRunId exists)
-        if (workflowRunId) {
-          await logToolCall(workflowRunId, toolCallId, {
-            toolName,
-            displayTitle: displayInfo.displayTitle,
-            displayDescription: displayInfo.displayDescription,
-            arguments: { title },
-            status: "pending",
-            createdAt: new Date(),
-            updatedAt: new Date(),
-          }).catch((err) =>
-            console.error("Failed to log tool call start:", err)
-          );
-        }
-
-        // Check scope authorization
-        const requiredScopes = TOOL_SCOPE_MAP[toolName];
-        if (!userHasScope(requiredScopes, extra?.authInfo)) {
-          console.error(
-            `[MCP Auth] Missing required scope for ${toolName}`
-          );
-          const errorMsg =
-            `Access denied: Missing required scopes ${TOOL_SCOPE_MAP[toolName]}`;
-          // Log error
-          if (workflowRunId) {
-            await logToolCall(workflowRunId, toolCallId, {
-              status: "error",
-              error: errorMsg,
-              updatedAt: new Date(),
-            }).catch((err) =>
-              console.error("Failed to log tool call error:", err)
-            );
-          }
-          return formatMcpResponse(errorMsg);
-        }
-
-        try {
-          const oAuth2Client = new google.auth.OAuth2();
-          const googleAccessToken = extra?.authInfo?.extra?.googleAccessToken;
-          if (!googleAccessToken || typeof googleAccessToken !== "string") {
-            console.log("[MCP] Missing google access token");
-            const errorMsg = "Missing Google access token";
-            // Log error
-            if (workflowRunId) {
-              await logToolCall(workflowRunId, toolCallId, {
-                status: "error",
-                error: errorMsg,
-                updatedAt: new Date(),
-              }).catch((err) =>
-                console.error("Failed to log tool call error:", err)
-              );
-            }
-            return formatMcpResponse(errorMsg);
-          }
-          oAuth2Client.setCredentials({ access_token: googleAccessToken });
-          const tasksClient = google.tasks({ version: "v1", auth: oAuth2Client });
-          const newTaskList = await insertTaskList(tasksClient, title)
-
-          // Log success
-          if (workflowRunId) {
-            await logToolCall(workflowRunId, toolCallId, {
-              status: "success",
-              updatedAt: new Date(),
-            }).catch((err) =>
-              console.error("Failed to log tool call success:", err)
+      instrumentTool(
+        "create_google_task_list",
+        TOOL_SCOPE_MAP.create_google_task_list,
+        async ({ title }, context) => {
+          const taskList = await insertTaskList(tasksClientFor(context), title);
+          if (taskList.id) {
+            await recordAgentAction(
+              context,
+              "create_google_task_list",
+              `Create task list "${taskList.title}"`,
+              { type: "delete_task_list", tasklistId: taskList.id }
             );
           }
-          return formatMcpResponse(JSON.stringify(newTaskList, null, 2));
-        } catch (error) {
-          console.warn("[Calendar Tasks API] Failed to create task list:", error);
-          const errorMsg = `Failed to create task list: ${
-            error instanceof Error ? error.message : String(error)
-          }`;
-
-          // Log error
-          if (workflowRunId) {
-            await logToolCall(workflowRunId, toolCallId, {
-              status: "error",
-              error: errorMsg,
-              updatedAt: new Date(),
-            }).catch((err) =>
-              console.error("Failed to log tool call error:", err)
-            );
-          }
-          return formatMcpResponse(errorMsg);
+          return taskList;
         }
-      }
+      )
     );
     server.tool(
       "insert_google_task",
       "Insert a new google task into a task list",
       {
-        log_message: z
-          .string()
-          .optional()
-          .describe(
-            "Human-readable description of what you're doing with this tool (e.g., 'Check user preferences', 'Save new task')"
-          ),
+        log_message: logMessageParam,
         tasklistId: z
           .string(),
         title: z
@@ -949,119 +710,46 @@ const handler = createMcpHandler(
           .string(),
         due: z
           .string()
-          .datetime()
+          .datetime(),
+        parent: z
+          .string()
+          .optional()
+          .describe("Parent task ID to create this as a subtask"),
+        previous: z
+          .string()
+          .optional()
+          .describe("Sibling task ID to insert after; omit to insert first"),
       },
-      async ({ log_message, tasklistId, title, description, due }, extra) => {
-        const toolCallId = new ObjectId().toString();
-        const workflowRunId = extra?.authInfo?.extra?.workflowRunId as
-          | string
-          | undefined;
-        const toolName = "insert_google_task";
-
-        // Get display info from agent's log_message or fallback
-        const displayInfo = log_message
-          ? { displayTitle: log_message, displayDescription: "" }
-          : getDefaultToolDisplayInfo(toolName);
-
-        // Log tool start (only if workflowRunId exists)
-        if (workflowRunId) {
-          await logToolCall(workflowRunId, toolCallId, {
-            toolName,
-            displayTitle: displayInfo.displayTitle,
-            displayDescription: displayInfo.displayDescription,
-            arguments: { tasklistId, title, description, due },
-            status: "pending",
-            createdAt: new Date(),
-            updatedAt: new Date(),
-          }).catch((err) =>
-            console.error("Failed to log tool call start:", err)
+      instrumentTool(
+        "insert_google_task",
+        TOOL_SCOPE_MAP.insert_google_task,
+        async ({ tasklistId, title, description, due, parent, previous }, context) => {
+          const task = await insertTask(
+            tasksClientFor(context),
+            tasklistId,
+            title,
+            description,
+            due,
+            parent,
+            previous
           );
-        }
-
-        // Check scope authorization
-        const requiredScopes = TOOL_SCOPE_MAP[toolName];
-        if (!userHasScope(requiredScopes, extra?.authInfo)) {
-          console.error(
-            `[MCP Auth] Missing required scope for ${toolName}`
-          );
-          const errorMsg =
-            `Access denied: Missing required scopes ${TOOL_SCOPE_MAP[toolName]}`;
-          // Log error
-          if (workflowRunId) {
-            await logToolCall(workflowRunId, toolCallId, {
-              status: "error",
-              error: errorMsg,
-              updatedAt: new Date(),
-            }).catch((err) =>
-              console.error("Failed to log tool call error:", err)
-            );
-          }
-          return formatMcpResponse(errorMsg);
-        }
-
-        try {
-          const oAuth2Client = new google.auth.OAuth2();
-          const googleAccessToken = extra?.authInfo?.extra?.googleAccessToken;
-          if (!googleAccessToken || typeof googleAccessToken !== "string") {
-            console.log("[MCP] Missing google access token");
-            const errorMsg = "Missing Google access token";
-            // Log error
-            if (workflowRunId) {
-              await logToolCall(workflowRunId, toolCallId, {
-                status: "error",
-                error: errorMsg,
-                updatedAt: new Date(),
-              }).catch((err) =>
-                console.error("Failed to log tool call error:", err)
-              );
-            }
-            return formatMcpResponse(errorMsg);
-          }
-          oAuth2Client.setCredentials({ access_token: googleAccessToken });
-          const tasksClient = google.tasks({ version: "v1", auth: oAuth2Client });
-          const newTask = await insertTask(tasksClient, tasklistId, title, description, due)
-
-          // Log success
-          if (workflowRunId) {
-            await logToolCall(workflowRunId, toolCallId, {
-              status: "success",
-              updatedAt: new Date(),
-            }).catch((err) =>
-              console.error("Failed to log tool call success:", err)
-            );
-          }
-          console.log(newTask)
-          return formatMcpResponse(JSON.stringify(newTask, null, 2));
-        } catch (error) {
-          console.warn("[Calendar Tasks API] Failed to insert task:", error);
-          const errorMsg = `Failed to insert task: ${
-            error instanceof Error ? error.message : String(error)
-          }`;
-
-          // Log error
-          if (workflowRunId) {
-            await logToolCall(workflowRunId, toolCallId, {
-              status: "error",
-              error: errorMsg,
-              updatedAt: new Date(),
-            }).catch((err) =>
-              console.error("Failed to log tool call error:", err)
+          if (task.id) {
+            await recordAgentAction(
+              context,
+              "insert_google_task",
+              `Create task "${task.title}"`,
+              { type: "delete_task", tasklistId, taskId: task.id }
             );
           }
-          return formatMcpResponse(errorMsg);
+          return task;
         }
-      }
+      )
     );
     server.tool(
       "update_google_task",
       "Update an existing google task",
       {
-        log_message: z
-          .string()
-          .optional()
-          .describe(
-            "Human-readable description of what you're doing with this tool (e.g., 'Check user preferences', 'Save new task')"
-          ),
+        log_message: logMessageParam,
         tasklistId: z
           .string(),
         taskId: z
@@ -1080,130 +768,215 @@ const handler = createMcpHandler(
           .datetime()
           .optional(),
       },
-      async (
-        {
-          log_message,
-          tasklistId,
-          taskId,
-          title,
-          description,
-          status,
-          due
-        },
-        extra
-      ) => {
-        const toolCallId = new ObjectId().toString();
-        const workflowRunId = extra?.authInfo?.extra?.workflowRunId as
-          | string
-          | undefined;
-        const toolName = "update_google_task";
-
-        // Get display info from agent's log_message or fallback
-        const displayInfo = log_message
-          ? { displayTitle: log_message, displayDescription: "" }
-          : getDefaultToolDisplayInfo(toolName);
-
-        // Log tool start (only if workflowRunId exists)
-        if (workflowRunId) {
-          await logToolCall(workflowRunId, toolCallId, {
-            toolName,
-            displayTitle: displayInfo.displayTitle,
-            displayDescription: displayInfo.displayDescription,
-            arguments: { tasklistId, taskId, title, description, status, due },
-            status: "pending",
-            createdAt: new Date(),
-            updatedAt: new Date(),
-          }).catch((err) =>
-            console.error("Failed to log tool call start:", err)
+      instrumentTool(
+        "update_google_task",
+        TOOL_SCOPE_MAP.update_google_task,
+        async (
+          { tasklistId, taskId, title, description, status, due },
+          context
+        ) => {
+          const tasksClient = tasksClientFor(context);
+          const before = await snapshotTask(tasksClient, tasklistId, taskId);
+          const newTask = await updateTask(tasksClient, taskId, tasklistId, title, description, status, due);
+          await recordAgentAction(
+            context,
+            "update_google_task",
+            `Update task "${before.title}"`,
+            { type: "patch_task", tasklistId, taskId, task: before }
           );
+          if (newTask.status === "completed") {
+            clearTasks(tasksClient, tasklistId);
+          }
+          return newTask;
         }
-
-        // Check scope authorization
-        const requiredScopes = TOOL_SCOPE_MAP[toolName];
-        if (!userHasScope(requiredScopes, extra?.authInfo)) {
-          console.error(
-            `[MCP Auth] Missing required scope for ${toolName}`
+      )
+    );
+    server.tool(
+      "complete_google_task",
+      "Mark a google task as completed",
+      {
+        log_message: logMessageParam,
+        tasklistId: z
+          .string(),
+        taskId: z
+          .string(),
+      },
+      instrumentTool(
+        "complete_google_task",
+        TOOL_SCOPE_MAP.complete_google_task,
+        async ({ tasklistId, taskId }, context) => {
+          const tasksClient = tasksClientFor(context);
+          const before = await snapshotTask(tasksClient, tasklistId, taskId);
+          const task = await completeTask(tasksClient, tasklistId, taskId);
+          await recordAgentAction(
+            context,
+            "complete_google_task",
+            `Complete task "${before.title}"`,
+            { type: "patch_task", tasklistId, taskId, task: before }
           );
-          const errorMsg =
-            `Access denied: Missing required scopes ${TOOL_SCOPE_MAP[toolName]}`;
-          // Log error
-          if (workflowRunId) {
-            await logToolCall(workflowRunId, toolCallId, {
-              status: "error",
-              error: errorMsg,
-              updatedAt: new Date(),
-            }).catch((err) =>
-              console.error("Failed to log tool call error:", err)
-            );
-          }
-          return formatMcpResponse(errorMsg);
+          return task;
         }
-
-        try {
-          const oAuth2Client = new google.auth.OAuth2();
-          const googleAccessToken = extra?.authInfo?.extra?.googleAccessToken;
-          if (!googleAccessToken || typeof googleAccessToken !== "string") {
-            console.log("[MCP] Missing google access token");
-            const errorMsg = "Missing Google access token";
-            // Log error
-            if (workflowRunId) {
-              await logToolCall(workflowRunId, toolCallId, {
-                status: "error",
-                error: errorMsg,
-                updatedAt: new Date(),
-              }).catch((err) =>
-                console.error("Failed to log tool call error:", err)
-              );
+      )
+    );
+    server.tool(
+      "delete_google_task",
+      "Permanently delete a google task (its subtasks are deleted too)",
+      {
+        log_message: logMessageParam,
+        tasklistId: z
+          .string(),
+        taskId: z
+          .string(),
+      },
+      instrumentTool(
+        "delete_google_task",
+        TOOL_SCOPE_MAP.delete_google_task,
+        async ({ tasklistId, taskId }, context) => {
+          const tasksClient = tasksClientFor(context);
+          const before = await snapshotTask(tasksClient, tasklistId, taskId);
+          const result = await deleteTask(tasksClient, tasklistId, taskId);
+          await recordAgentAction(
+            context,
+            "delete_google_task",
+            `Delete task "${before.title}"`,
+            { type: "restore_task", tasklistId, task: before }
+          );
+          return result;
+        }
+      )
+    );
+    server.tool(
+      "move_google_task",
+      "Reorder a google task, nest it under a parent task, or move it to another task list",
+      {
+        log_message: logMessageParam,
+        tasklistId: z
+          .string(),
+        taskId: z
+          .string(),
+        parent: z
+          .string()
+          .optional()
+          .describe("New parent task ID; omit to move the task to the top level"),
+        previous: z
+          .string()
+          .optional()
+          .describe("Sibling task ID to place the task after; omit to make it first"),
+        destinationTasklistId: z
+          .string()
+          .optional()
+          .describe("Task list to move the task to; omit to stay in the current list"),
+      },
+      instrumentTool(
+        "move_google_task",
+        TOOL_SCOPE_MAP.move_google_task,
+        async ({ tasklistId, taskId, parent, previous, destinationTasklistId }, context) => {
+          const tasksClient = tasksClientFor(context);
+          const before = await snapshotTask(tasksClient, tasklistId, taskId);
+          const task = await moveTask(tasksClient, tasklistId, taskId, {
+            parent,
+            previous,
+            destinationTasklistId,
+          });
+          const movedToOtherList =
+            destinationTasklistId && destinationTasklistId !== tasklistId;
+          await recordAgentAction(
+            context,
+            "move_google_task",
+            `Move task "${before.title}"`,
+            {
+              type: "move_task",
+              tasklistId: task.tasklistId ?? tasklistId,
+              taskId: task.id ?? taskId,
+              parent: before.parent,
+              previous: before.previous,
+              destinationTasklistId: movedToOtherList ? tasklistId : undefined,
             }
-            return formatMcpResponse(errorMsg);
-          }
-          oAuth2Client.setCredentials({ access_token: googleAccessToken });
-          const tasksClient = google.tasks({ version: "v1", auth: oAuth2Client });
-          const newTask = await updateTask(tasksClient, taskId, tasklistId, title, description, status, due)
-          if (newTask.status === "completed") {
-            clearTasks(tasksClient, tasklistId)
-          }
-          // Log success
-          if (workflowRunId) {
-            await logToolCall(workflowRunId, toolCallId, {
-              status: "success",
-              updatedAt: new Date(),
-            }).catch((err) =>
-              console.error("Failed to log tool call success:", err)
-            );
-          }
-          
-          return formatMcpResponse(JSON.stringify(newTask, null, 2));
-        } catch (error) {
-          console.warn("[Calendar Tasks API] Failed to update task:", error);
-          const errorMsg = `Failed to update task: ${
-            error instanceof Error ? error.message : String(error)
-          }`;
-
-          // Log error
-          if (workflowRunId) {
-            await logToolCall(workflowRunId, toolCallId, {
-              status: "error",
-              error: errorMsg,
-              updatedAt: new Date(),
-            }).catch((err) =>
-              console.error("Failed to log tool call error:", err)
-            );
+          );
+          return task;
+        }
+      )
+    );
+    server.tool(
+      "rename_google_task_list",
+      "Rename a task list",
+      {
+        log_message: logMessageParam,
+        tasklistId: z
+          .string(),
+        title: z
+          .string()
+          .min(1),
+      },
+      instrumentTool(
+        "rename_google_task_list",
+        TOOL_SCOPE_MAP.rename_google_task_list,
+        async ({ tasklistId, title }, context) => {
+          const tasksClient = tasksClientFor(context);
+          const before = await snapshotTaskList(tasksClient, tasklistId);
+          const taskList = await updateTaskList(tasksClient, tasklistId, title);
+          await recordAgentAction(
+            context,
+            "rename_google_task_list",
+            `Rename task list "${before.title}" to "${taskList.title}"`,
+            { type: "rename_task_list", tasklistId, title: before.title }
+          );
+          return taskList;
+        }
+      )
+    );
+    server.tool(
+      "delete_google_task_list",
+      "Permanently delete a task list and all of its tasks",
+      {
+        log_message: logMessageParam,
+        tasklistId: z
+          .string(),
+      },
+      instrumentTool(
+        "delete_google_task_list",
+        TOOL_SCOPE_MAP.delete_google_task_list,
+        async ({ tasklistId }, context) => {
+          const tasksClient = tasksClientFor(context);
+          const before = await snapshotTaskList(tasksClient, tasklistId);
+          const result = await deleteTaskList(tasksClient, tasklistId);
+          await recordAgentAction(
+            context,
+            "delete_google_task_list",
+            `Delete task list "${before.title}"`,
+            { type: "restore_task_list", ...before }
+          );
+          return result;
+        }
+      )
+    );
+    server.tool(
+      "undo_last_action",
+      "Undo the most recent calendar or task change made by the agent",
+      {
+        log_message: logMessageParam,
+      },
+      instrumentTool(
+        "undo_last_action",
+        TOOL_SCOPE_MAP.undo_last_action,
+        async (_args, context) => {
+          const action = await undoAgentAction(
+            context.userId,
+            requireGoogleAccessToken(context),
+            { scopes: context.authInfo.scopes }
+          );
+          if (!action) {
+            throw new McpToolError("NOT_FOUND", "There is no change left to undo");
           }
-          return formatMcpResponse(errorMsg);
+          return { undone: action.description, toolName: action.toolName };
         }
-      }
+      )
     );
     server.tool(
       "get_workplans",
       "Retrieve cached workplans for the user's upcoming calendar events",
       {
-        log_message: z
-          .string()
-          .optional()
-          .describe(
-            "Human-readable description of what you're doing with this tool"
-          ),
+        log_message: logMessageParam,
         limit: z
           .number()
           .int()
@@ -1229,63 +1002,10 @@ const handler = createMcpHandler(
           .optional()
           .describe("Filter by event title (case-insensitive substring match)"),
       },
-      async ({ log_message, limit, days, eventId, eventTitle }, extra) => {
-        const toolCallId = new ObjectId().toString();
-        const workflowRunId = extra?.authInfo?.extra?.workflowRunId as
-          | string
-          | undefined;
-        const toolName = "get_workplans";
-
-        const displayInfo = log_message
-          ? { displayTitle: log_message, displayDescription: "" }
-          : getDefaultToolDisplayInfo(toolName);
-
-        if (workflowRunId) {
-          await logToolCall(workflowRunId, toolCallId, {
-            toolName,
-            displayTitle: displayInfo.displayTitle,
-            displayDescription: displayInfo.displayDescription,
-            arguments: { limit, days, eventId, eventTitle },
-            status: "pending",
-            createdAt: new Date(),
-            updatedAt: new Date(),
-          }).catch((err) =>
-            console.error("Failed to log tool call start:", err)
-          );
-        }
-
-        const requiredScopes = TOOL_SCOPE_MAP[toolName];
-        if (!userHasScope(requiredScopes, extra?.authInfo)) {
-          console.error(`[MCP Auth] Missing required scope for ${toolName}`);
-          const errorMsg = `Access denied: Missing required scope ${requiredScopes.join(", ")}`;
-          if (workflowRunId) {
-            await logToolCall(workflowRunId, toolCallId, {
-              status: "error",
-              error: errorMsg,
-              updatedAt: new Date(),
-            }).catch((err) =>
-              console.error("Failed to log tool call error:", err)
-            );
-          }
-          return formatMcpResponse(errorMsg);
-        }
-
-        try {
-          const userId = extra?.authInfo?.clientId;
-          if (!userId) {
-            const errorMsg = "User ID is required";
-            if (workflowRunId) {
-              await logToolCall(workflowRunId, toolCallId, {
-                status: "error",
-                error: errorMsg,
-                updatedAt: new Date(),
-              }).catch((err) =>
-                console.error("Failed to log tool call error:", err)
-              );
-            }
-            return formatMcpResponse(errorMsg);
-          }
-
+      instrumentTool(
+        "get_workplans",
+        TOOL_SCOPE_MAP.get_workplans,
+        async ({ limit, days, eventId, eventTitle }, { userId, googleAccessToken }) => {
           const cappedLimit = limit ?? WORKPLAN_DEFAULT_EVENT_LIMIT;
           const normalizedEventId = eventId?.trim();
           const normalizedEventTitle = eventTitle?.trim().toLowerCase();
@@ -1312,33 +1032,14 @@ const handler = createMcpHandler(
             .slice(0, cappedLimit);
 
           const result = {
-            workplans: cachedMatches.map((plan) => ({
-              event: {
-                id: plan.eventId,
-                ...plan.event,
-              },
-              steps: plan.steps,
-              status: plan.status,
-              lastGeneratedAt:
-                plan.lastGeneratedAt instanceof Date
-                  ? plan.lastGeneratedAt.toISOString()
-                  : plan.lastGeneratedAt,
-              source: plan.source,
-              role: plan.role ?? null,
-            })),
+            workplans: cachedMatches.map(serializeWorkplan),
           };
 
           const usedEventIds = new Set<string>(
             cachedMatches.map((p) => p.eventId)
           );
 
-          const googleAccessToken = extra?.authInfo?.extra?.googleAccessToken;
-
-          if (
-            googleAccessToken &&
-            typeof googleAccessToken === "string" &&
-            result.workplans.length < cappedLimit
-          ) {
+          if (googleAccessToken && result.workplans.length < cappedLimit) {
             const windowDays = days ?? 7;
             const fetchLimit =
               normalizedEventId || normalizedEventTitle
@@ -1381,10 +1082,7 @@ const handler = createMcpHandler(
                   },
                   steps: workplan.steps,
                   status: workplan.status,
-                  lastGeneratedAt:
-                    workplan.lastGeneratedAt instanceof Date
-                      ? workplan.lastGeneratedAt.toISOString()
-                      : workplan.lastGeneratedAt,
+                  lastGeneratedAt: serializeGeneratedAt(workplan.lastGeneratedAt),
                   source: workplan.source,
                   role: workplan.role ?? null,
                 });
@@ -1395,44 +1093,15 @@ const handler = createMcpHandler(
             }
           }
 
-          if (workflowRunId) {
-            await logToolCall(workflowRunId, toolCallId, {
-              status: "success",
-              updatedAt: new Date(),
-            }).catch((err) =>
-              console.error("Failed to log tool call success:", err)
-            );
-          }
-
-          return formatMcpResponse(JSON.stringify(result, null, 2));
-        } catch (error) {
-          console.error("[MCP get_workplans] Error:", error);
-          const errorMsg = `Failed to get workplans: ${
-            error instanceof Error ? error.message : "Unknown error"
-          }`;
-          if (workflowRunId) {
-            await logToolCall(workflowRunId, toolCallId, {
-              status: "error",
-              error: errorMsg,
-              updatedAt: new Date(),
-            }).catch((err) =>
-              console.error("Failed to log tool call error:", err)
-            );
-          }
-          return formatMcpResponse(errorMsg);
+          return result;
         }
-      }
+      )
     );
     server.tool(
       "update_workplan",
       "Update or regenerate a workplan for a specific event",
       {
-        log_message: z
-          .string()
-          .optional()
-          .describe(
-            "Human-readable description of what you're doing with this tool"
-          ),
+        log_message: logMessageParam,
         eventId: z.string().min(1).describe("Calendar event ID"),
         event: z
           .object({
@@ -1448,63 +1117,10 @@ const handler = createMcpHandler(
           .optional()
           .describe("User's role for this event (e.g., 'organizer', 'attendee')"),
       },
-      async ({ log_message, eventId, event, userRole }, extra) => {
-        const toolCallId = new ObjectId().toString();
-        const workflowRunId = extra?.authInfo?.extra?.workflowRunId as
-          | string
-          | undefined;
-        const toolName = "update_workplan";
-
-        const displayInfo = log_message
-          ? { displayTitle: log_message, displayDescription: "" }
-          : getDefaultToolDisplayInfo(toolName);
-
-        if (workflowRunId) {
-          await logToolCall(workflowRunId, toolCallId, {
-            toolName,
-            displayTitle: displayInfo.displayTitle,
-            displayDescription: displayInfo.displayDescription,
-            arguments: { eventId, event, userRole },
-            status: "pending",
-            createdAt: new Date(),
-            updatedAt: new Date(),
-          }).catch((err) =>
-            console.error("Failed to log tool call start:", err)
-          );
-        }
-
-        const requiredScopes = TOOL_SCOPE_MAP[toolName];
-        if (!userHasScope(requiredScopes, extra?.authInfo)) {
-          console.error(`[MCP Auth] Missing required scope for ${toolName}`);
-          const errorMsg = `Access denied: Missing required scope ${requiredScopes.join(", ")}`;
-          if (workflowRunId) {
-            await logToolCall(workflowRunId, toolCallId, {
-              status: "error",
-              error: errorMsg,
-              updatedAt: new Date(),
-            }).catch((err) =>
-              console.error("Failed to log tool call error:", err)
-            );
-          }
-          return formatMcpResponse(errorMsg);
-        }
-
-        try {
-          const userId = extra?.authInfo?.clientId;
-          if (!userId) {
-            const errorMsg = "User ID is required";
-            if (workflowRunId) {
-              await logToolCall(workflowRunId, toolCallId, {
-                status: "error",
-                error: errorMsg,
-                updatedAt: new Date(),
-              }).catch((err) =>
-                console.error("Failed to log tool call error:", err)
-              );
-            }
-            return formatMcpResponse(errorMsg);
-          }
-
+      instrumentTool(
+        "update_workplan",
+        TOOL_SCOPE_MAP.update_workplan,
+        async ({ eventId, event, userRole }, { userId }) => {
           const snapshot = normalizeEventSnapshot(event);
           const roleHint = userRole?.trim();
 
@@ -1515,51 +1131,68 @@ const handler = createMcpHandler(
             roleHint,
           } satisfies WorkplanGenerationInput);
 
-          const result = {
+          return {
             event: {
               id: eventId,
               ...snapshot,
             },
             steps: workplan.steps,
             status: workplan.status,
-            lastGeneratedAt:
-              workplan.lastGeneratedAt instanceof Date
-                ? workplan.lastGeneratedAt.toISOString()
-                : workplan.lastGeneratedAt,
+            lastGeneratedAt: serializeGeneratedAt(workplan.lastGeneratedAt),
             role: workplan.role ?? null,
           };
-
-          if (workflowRunId) {
-            await logToolCall(workflowRunId, toolCallId, {
-              status: "success",
-              updatedAt: new Date(),
-            }).catch((err) =>
-              console.error("Failed to log tool call success:", err)
+        }
+      )
+    );
+    server.tool(
+      "complete_workplan_step",
+      "Mark a workplan step as done (or not done). Step IDs are returned by get_workplans. With tasks:write, a linked Google Task is completed or reopened too.",
+      {
+        log_message: logMessageParam,
+        eventId: z.string().min(1).describe("Calendar event ID of the workplan"),
+        stepId: z.string().min(1).describe("ID of the step to update"),
+        done: z
+          .boolean()
+          .optional()
+          .default(true)
+          .describe("false reopens a step that was checked off"),
+      },
+      instrumentTool(
+        "complete_workplan_step",
+        TOOL_SCOPE_MAP.complete_workplan_step,
+        async (
+          { eventId, stepId, done },
+          { userId, authInfo, googleAccessToken }
+        ) => {
+          const workplan = await setWorkplanStepDone(
+            userId,
+            eventId,
+            stepId,
+            done
+          );
+          if (!workplan) {
+            throw new McpToolError(
+              "NOT_FOUND",
+              `No step ${stepId} in the workplan for event ${eventId}`
             );
           }
-
-          return formatMcpResponse(JSON.stringify(result, null, 2));
-        } catch (error) {
-          console.error("[MCP update_workplan] Error:", error);
-          const errorMsg = `Failed to update workplan: ${
-            error instanceof Error ? error.message : "Unknown error"
-          }`;
-          if (workflowRunId) {
-            await logToolCall(workflowRunId, toolCallId, {
-              status: "error",
-              error: errorMsg,
-              updatedAt: new Date(),
-            }).catch((err) =>
-              console.error("Failed to log tool call error:", err)
-            );
+          const step = workplan.steps.find((candidate) => candidate.id === stepId);
+          // Changing the linked Google Task needs the tasks scope on its own
+          if (
+            step &&
+            googleAccessToken &&
+            userHasScope([MCP_SCOPES.TASKS_WRITE], authInfo)
+          ) {
+            await syncStepToTask(step, googleAccessToken);
           }
-          return formatMcpResponse(errorMsg);
+          return serializeWorkplan(workplan);
         }
-      }
+      )
     );
     ToolRegistry.getToolsWithSchemas().forEach((tool) => {
+      const toolName = tool.name as keyof typeof calendarToolHandlers;
       server.tool(
-        tool.name,
+        toolName,
         tool.description,
         {
           log_message: z
@@ -1568,144 +1201,74 @@ const handler = createMcpHandler(
             .describe(
               "Short human-readable description of what you're doing with this tool."
             ),
-          tool_args: ToolSchemas[tool.name],
+          tool_args: ToolSchemas[toolName],
         },
-        async (args, extra) => {
-          const toolCallId = new ObjectId().toString();
-          const authInfo = extra?.authInfo as AuthInfo | undefined;
-          if (!authInfo) {
-            console.error("[MCP] Auth info is required", { args, extra });
-            return formatMcpResponse("Auth info is required");
-          }
-          const workflowRunId = authInfo?.extra?.workflowRunId as
-            | string
-            | undefined;
-          const toolName = tool.name;
-
-          console.log("[MCP] Tool called", {
-            toolName,
-            args,
-            extra,
-            workflowRunId,
-          });
-
-          const { log_message, tool_args } = args;
-
-          const displayInfo = log_message
-            ? { displayTitle: log_message, displayDescription: "" }
-            : getDefaultToolDisplayInfo(toolName);
-
-          if (workflowRunId) {
-            await logToolCall(workflowRunId, toolCallId, {
-              toolName,
-              displayTitle: displayInfo.displayTitle,
-              displayDescription: displayInfo.displayDescription,
-              arguments: tool_args,
-              status: "pending",
-              createdAt: new Date(),
-              updatedAt: new Date(),
-            }).catch((err) =>
-              console.error("Failed to log tool call start:", err)
-            );
-          }
-
-          const requiredScopes = TOOL_SCOPE_MAP[tool.name] ?? [];
-          if (!userHasScope(requiredScopes, authInfo)) {
-            console.error(
-              `[MCP Auth] Missing required scope for ${tool.name}`,
-              {
-                required: requiredScopes,
-                userScopes: authInfo?.scopes,
-              }
-            );
-            const errorMsg = `Access denied: Missing required scope for ${
-              tool.name
-            }. Required: ${requiredScopes.join(", ")}`;
-
-            // Log error
-            if (workflowRunId) {
-              await logToolCall(workflowRunId, toolCallId, {
-                status: "error",
-                error: errorMsg,
-                updatedAt: new Date(),
-              }).catch((err) =>
-                console.error("Failed to log tool call error:", err)
-              );
-            }
-
-            return formatMcpResponse(errorMsg);
-          }
-
-          try {
+        instrumentTool(
+          toolName,
+          TOOL_SCOPE_MAP[toolName] ?? [],
+          async ({ tool_args }, context) => {
             const oAuth2Client = new OAuth2Client({
               clientId: env.GOOGLE_CLIENT_ID,
               clientSecret: env.GOOGLE_CLIENT_SECRET,
             });
+            oAuth2Client.setCredentials({
+              access_token: requireGoogleAccessToken(context),
+            });
 
-            const googleAccessToken = authInfo?.extra?.googleAccessToken;
-
-            if (!googleAccessToken || typeof googleAccessToken !== "string") {
-              console.log("[MCP] Missing google access token");
-              const errorMsg = "Missing Google access token";
-
-              if (workflowRunId) {
-                await logToolCall(workflowRunId, toolCallId, {
-                  status: "error",
-                  error: errorMsg,
-                  updatedAt: new Date(),
-                }).catch((err) =>
-                  console.error("Failed to log tool call error:", err)
-                );
-              }
-
-              return formatMcpResponse(errorMsg);
-            }
-
-            oAuth2Client.setCredentials({ access_token: googleAccessToken });
-            const result = await new calendarToolHandlers[tool.name]().runTool(
+            // Snapshot events before they change so the agent's edit can be undone
+            const { calendarId = "primary", eventId } = tool_args as {
+              calendarId?: string;
+              eventId?: string;
+            };
+            const before =
+              eventId && (toolName === "update-event" || toolName === "delete-event")
+                ? await snapshotEvent(calendarClientFor(context), calendarId, eventId)
+                : undefined;
+
+            const result = await new calendarToolHandlers[toolName]().runTool(
               tool_args,
               oAuth2Client
             );
 
-            if (workflowRunId) {
-              await logToolCall(workflowRunId, toolCallId, {
-                status: "success",
-                updatedAt: new Date(),
-              }).catch((err) =>
-                console.error("Failed to log tool call success:", err)
-              );
-            }
-
-            return formatMcpResponse(JSON.stringify(result, null, 2));
-          } catch (error) {
-            console.error("Failed ", error);
-            const errorMsg = `Failed to invoke ${tool.name}: ${
-              error instanceof Error ? error.message : "Unknown error"
-            }`;
-
-            // Log error
-            if (workflowRunId) {
-              await logToolCall(workflowRunId, toolCallId, {
-                status: "error",
-                error: errorMsg,
-                updatedAt: new Date(),
-              }).catch((err) =>
-                console.error("Failed to log tool call error:", err)
+            if (toolName === "create-event") {
+              const createdId = extractEventId(result);
+              if (createdId) {
+                await recordAgentAction(context, toolName, "Create calendar event", {
+                  type: "delete_event",
+                  calendarId,
+                  eventId: createdId,
+                });
+              }
+            } else if (before && eventId) {
+              const title = before.summary ?? "calendar event";
+              await recordAgentAction(
+                context,
+                toolName,
+                toolName === "delete-event"
+                  ? `Delete "${title}"`
+                  : `Update "${title}"`,
+                toolName === "delete-event"
+                  ? { type: "restore_event", calendarId, eventId, event: before }
+                  : { type: "patch_event", calendarId, eventId, event: before }
               );
             }
-
-            return formatMcpResponse(errorMsg);
+            return result;
           }
-        }
+        )
       );
     });
   },
   {
     capabilities: {
+      // No resources/subscribe: requests are stateless, so a change is only
+      // announced (notifications/resources/updated) on the tool call that made it
+      resources: {
+        subscribe: false,
+      },
       // NOTE: Tool capabilities are listed here for discovery purposes.
       // Access control is enforced at runtime via scope checks in each tool handler.
       // Users will only be able to execute tools they have scopes for.
-      // To generate scoped tokens, use generateMcpToken(userId, googleToken, scopes).
+      // To generate scoped tokens, use generateMcpToken(userId, scopes).
       // Available scopes: read:user-context, write:user-context, calendar:read, calendar:write, tasks:read, tasks:write
       tools: {
         get_user_context: {
@@ -1714,10 +1277,23 @@ const handler = createMcpHandler(
         update_user_context: {
           description: "Update the user context (requires: write:user-context)",
         },
+        get_user_context_history: {
+          description: "List recent user context changes (requires: read:user-context)",
+        },
+        diff_user_context: {
+          description: "Diff two user context versions (requires: read:user-context)",
+        },
+        rollback_user_context: {
+          description: "Roll the user context or one path back to an earlier version (requires: write:user-context)",
+        },
         get_conversation_messages: {
           description:
             "Get recent conversation messages (requires: read:user-context)",
         },
+        search_conversation: {
+          description:
+            "Search conversation history by text, date, role and source (requires: read:user-context)",
+        },
         get_google_task_lists: {
           description: "Get all google task lists (requires: tasks:read)"
         },
@@ -1733,12 +1309,33 @@ const handler = createMcpHandler(
         update_google_task: {
           description: "Update an existing google task: (requires: task:write)"
         },
+        complete_google_task: {
+          description: "Mark a google task as completed (requires: tasks:write)"
+        },
+        delete_google_task: {
+          description: "Delete a google task (requires: tasks:write)"
+        },
+        move_google_task: {
+          description: "Reorder, nest or move a google task between lists (requires: tasks:write)"
+        },
+        rename_google_task_list: {
+          description: "Rename a google task list (requires: tasks:write)"
+        },
+        delete_google_task_list: {
+          description: "Delete a google task list (requires: tasks:write)"
+        },
+        undo_last_action: {
+          description: "Undo the agent's most recent calendar or task change (requires: calendar:write or tasks:write)"
+        },
         get_workplans: {
           description: "Retrieve cached workplans for upcoming calendar events (requires: read:user-context)"
         },
         update_workplan: {
           description: "Update or regenerate a workplan for a specific event (requires: write:user-context)"
         },
+        complete_workplan_step: {
+          description: "Check off or reopen a step of a workplan (requires: write:user-context; tasks:write also updates its linked Google Task)"
+        },
         ...ToolRegistry.getToolsWithSchemas().reduce((rest, tool) => {
           const scopes = TOOL_SCOPE_MAP[tool.name] || [];
           const scopeStr =
@@ -1816,6 +1413,36 @@ const verifyToken = async (
     };
   }
 
+  // Personal access tokens carry their own scopes; Google token is looked up per request
+  if (isPersonalAccessToken(bearerToken)) {
+    const personalToken = await verifyPersonalAccessToken(bearerToken);
+    if (!personalToken) {
+      console.error("[MCP Auth] Invalid, expired or revoked personal access token");
+      return undefined;
+    }
+
+    const googleAccessToken = await getGoogleAccessToken(personalToken.userId);
+
+    console.log("[MCP Auth] Verified personal access token", {
+      userId: personalToken.userId,
+      tokenName: personalToken.name,
+      hasGoogleAccessToken: !!googleAccessToken,
+      assignedScopes: JSON.stringify(personalToken.scopes),
+    });
+
+    return {
+      token: bearerToken,
+      scopes: personalToken.scopes,
+      clientId: personalToken.userId,
+      expiresAt: personalToken.expiresAt
+        ? Math.floor(personalToken.expiresAt.getTime() / 1000)
+        : undefined,
+      extra: {
+        googleAccessToken: googleAccessToken ?? undefined,
+      },
+    };
+  }
+
   // Verify the MCP token and extract user info
   const payload = await verifyMcpToken(bearerToken);
 
@@ -1824,6 +1451,9 @@ const verifyToken = async (
     return undefined;
   }
 
+  // Google token is resolved server-side (auto-refreshed) instead of travelling in the JWT
+  const googleAccessToken = await getGoogleAccessToken(payload.userId);
+
   // Determine user scopes based on token payload and capabilities
   const userScopes: string[] = [];
 
@@ -1836,14 +1466,15 @@ const verifyToken = async (
     userScopes.push("read:user-context", "write:user-context");
 
     // If user has Google token, they get calendar access
-    if (payload.googleAccessToken) {
+    if (googleAccessToken) {
       userScopes.push("calendar:read", "calendar:write", "tasks:read", "tasks:write");
     }
   }
 
   console.log("[MCP Auth] Verified token", {
     userId: payload.userId,
-    hasGoogleAccessToken: !!payload.googleAccessToken,
+    hasGoogleAccessToken: !!googleAccessToken,
+    jti: payload.jti,
     workflowRunId: payload.workflowRunId,
     tokenScopes: payload.scopes,
     assignedScopes: JSON.stringify(userScopes),
@@ -1853,8 +1484,9 @@ const verifyToken = async (
     token: bearerToken,
     scopes: userScopes,
     clientId: payload.userId,
+    expiresAt: payload.expiresAt,
     extra: {
-      googleAccessToken: payload.googleAccessToken,
+      googleAccessToken: googleAccessToken ?? undefined,
       workflowRunId: payload.workflowRunId,
     },
   };
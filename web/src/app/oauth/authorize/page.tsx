@@ -0,0 +1,79 @@
+import { redirect } from "next/navigation";
+
+import { auth } from "@/auth";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { OAuthConsentForm } from "@/features/auth/components/oauth-consent-form";
+import { OAuthError, validateAuthorizationRequest } from "@/lib/mcp-oauth";
+
+const AUTHORIZATION_PARAMS = [
+  "client_id",
+  "redirect_uri",
+  "response_type",
+  "code_challenge",
+  "code_challenge_method",
+  "scope",
+  "state",
+] as const;
+
+interface AuthorizePageProps {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
+
+export default async function AuthorizePage({ searchParams }: AuthorizePageProps) {
+  const rawParams = await searchParams;
+  const requestParams: Record<string, string> = {};
+  for (const key of AUTHORIZATION_PARAMS) {
+    const value = rawParams[key];
+    if (typeof value === "string") {
+      requestParams[key] = value;
+    }
+  }
+
+  let authorization;
+  let errorMessage: string | null = null;
+  try {
+    authorization = await validateAuthorizationRequest(requestParams);
+  } catch (error) {
+    if (!(error instanceof OAuthError)) throw error;
+    if (error.redirectTo) {
+      redirect(error.redirectTo);
+    }
+    errorMessage = error.message;
+  }
+
+  if (!authorization) {
+    return (
+      <main className="mx-auto flex min-h-screen w-full max-w-md flex-col items-center justify-center px-6 py-12">
+        <Card className="w-full">
+          <CardHeader>
+            <CardTitle>Authorization failed</CardTitle>
+            <CardDescription>{errorMessage}</CardDescription>
+          </CardHeader>
+        </Card>
+      </main>
+    );
+  }
+
+  const session = await auth();
+  if (!session?.user) {
+    const callbackUrl = `/oauth/authorize?${new URLSearchParams(requestParams).toString()}`;
+    redirect(`/login?callbackUrl=${encodeURIComponent(callbackUrl)}`);
+  }
+
+  return (
+    <main className="mx-auto flex min-h-screen w-full max-w-md flex-col items-center justify-center px-6 py-12">
+      <Card className="w-full border border-border/70 bg-card/80 shadow-xl">
+        <CardHeader>
+          <CardTitle className="text-xl">Connect {authorization.client.clientName}</CardTitle>
+          <CardDescription>
+            {authorization.client.clientName} wants to access your Micromanager account as{" "}
+            {session.user.email ?? session.user.name}. Untick anything you don&apos;t want to share.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <OAuthConsentForm requestParams={requestParams} scopes={authorization.scopes} />
+        </CardContent>
+      </Card>
+    </main>
+  );
+}
@@ -51,6 +51,7 @@ interface TelegramMetadata {
   bottomBarColor?: string;
   isClosingConfirmationEnabled?: boolean;
   isVerticalSwipesEnabled?: boolean;
+  timezone?: string;
   mock?: boolean;
 }
 
@@ -136,6 +137,10 @@ export default function TelegramLoginPage() {
             });
           }
 
+          // Telegram doesn't share the user's timezone; the device's is used for notifications
+          collectedMetadata.timezone =
+            Intl.DateTimeFormat().resolvedOptions().timeZone;
+
           // Get theme params
           const theme = themeParams.state();
           if (theme) {
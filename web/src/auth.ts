@@ -11,6 +11,7 @@ import { google } from "googleapis";
 import { env } from "@/env";
 import clientPromise from "@/lib/db";
 import { verifyPassword } from "@/lib/password";
+import { revokeAllMcpTokensForUser } from "@/lib/mcp-auth";
 
 const credentialsSchema = z.object({
   email: z.string().email().trim(),
@@ -200,4 +201,14 @@ export const { handlers, auth, signIn, signOut, unstable_update } = NextAuth({
       return session;
     },
   },
+  events: {
+    async signOut(message) {
+      const userId = "token" in message ? message.token?.sub : undefined;
+      if (userId) {
+        await revokeAllMcpTokensForUser(userId, "logout").catch((error) =>
+          console.error("[NextAuth signOut] Failed to revoke MCP tokens:", error)
+        );
+      }
+    },
+  },
 });
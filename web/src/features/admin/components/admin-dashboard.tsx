@@ -48,7 +48,13 @@ import { UserProfile as User, UserTier } from "@/types/user";
 import UserProfileCard from "./user-profile-card";
 import UserContextViewer from "./user-context-viewer";
 import UserAuditLogList from "./user-log-list";
-import { AuditLogEntry, UserContext } from "./utils";
+import DeadTaskList from "./dead-task-list";
+import {
+  AuditLogEntry,
+  DeadTaskEntry,
+  UserContext,
+  UserContextHistoryEntry,
+} from "./utils";
 
 export function AdminDashboard() {
   const [users, setUsers] = useState<User[]>([]);
@@ -56,10 +62,19 @@ export function AdminDashboard() {
   const [updating, setUpdating] = useState<string | null>(null);
   const [showResetDialog, setShowResetDialog] = useState(false);
   const [resetting, setResetting] = useState(false);
+  const [deadTasks, setDeadTasks] = useState<DeadTaskEntry[]>([]);
+  const [requeueingId, setRequeueingId] = useState<string | null>(null);
 
   const [expandedUserId, setExpandedUserId] = useState<string | null>(null);
   const [userData, setUserData] = useState<
-    Record<string, { context: UserContext | null; logs: AuditLogEntry[] }>
+    Record<
+      string,
+      {
+        context: UserContext | null;
+        history: UserContextHistoryEntry[];
+        logs: AuditLogEntry[];
+      }
+    >
   >({});
 
   const fetchUsers = async () => {
@@ -76,10 +91,49 @@ export function AdminDashboard() {
     }
   };
 
+  const fetchDeadTasks = async () => {
+    try {
+      const response = await fetch("/api/admin/dead-tasks");
+      if (!response.ok) throw new Error("Failed to fetch dead tasks");
+      const data = await response.json();
+      setDeadTasks(data.deadTasks);
+    } catch (error) {
+      console.error("Error fetching dead tasks:", error);
+      toast.error("Failed to load failed tasks");
+    }
+  };
+
+  const refreshData = () => {
+    fetchUsers();
+    fetchDeadTasks();
+  };
+
   useEffect(() => {
     fetchUsers();
+    fetchDeadTasks();
   }, []);
 
+  const requeueDeadTask = async (id: string) => {
+    setRequeueingId(id);
+    try {
+      const response = await fetch("/api/admin/dead-tasks", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ id }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || "Failed to requeue task");
+
+      toast.success("Task requeued");
+      setDeadTasks((prev) => prev.filter((task) => task.id !== id));
+    } catch (error) {
+      console.error("Error requeueing task:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to requeue task");
+    } finally {
+      setRequeueingId(null);
+    }
+  };
+
   const updateUser = async (userId: string, updates: Partial<User>) => {
     setUpdating(userId);
     try {
@@ -128,12 +182,7 @@ export function AdminDashboard() {
   const fetchUserDetails = async (userId: string) => {
     try {
       const [contextRes, logsRes] = await Promise.all([
-        fetch(`/api/context`, {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          credentials: "include",
-          body: JSON.stringify({ action: "get", format: "json" }),
-        }),
+        fetch(`/api/admin/users/${userId}/context`, { credentials: "include" }),
         fetch(`/api/admin/users/${userId}/logs`, { credentials: "include" }),
       ]);
 
@@ -143,7 +192,8 @@ export function AdminDashboard() {
       setUserData((prev) => ({
         ...prev,
         [userId]: {
-          context: contextData ? JSON.parse(contextData.output || "{}") : null,
+          context: contextData?.context ?? null,
+          history: contextData?.history ?? [],
           logs: logsData.logs ?? [],
         },
       }));
@@ -153,6 +203,31 @@ export function AdminDashboard() {
     }
   };
 
+  const rollbackContext = async (
+    userId: string,
+    version: number,
+    path?: string
+  ) => {
+    try {
+      const response = await fetch(`/api/admin/users/${userId}/context`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ version, path }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || "Failed to roll back context");
+
+      toast.success(
+        path ? `Restored ${path} from v${version}` : `Restored context to v${version}`
+      );
+      await fetchUserDetails(userId);
+    } catch (error) {
+      console.error("Error rolling back context:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to roll back context");
+    }
+  };
+
   const toggleExpand = async (userId: string) => {
     if (expandedUserId === userId) {
       setExpandedUserId(null);
@@ -224,7 +299,7 @@ export function AdminDashboard() {
             <RefreshCw className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent className="space-y-2">
-            <Button size="sm" onClick={fetchUsers} className="w-full">
+            <Button size="sm" onClick={refreshData} className="w-full">
               <RefreshCw className="mr-2 h-3 w-3" />
               Refresh Data
             </Button>
@@ -320,7 +395,11 @@ export function AdminDashboard() {
                             <UserProfileCard user={user} />
                             <UserContextViewer
                               context={details?.context ?? null}
+                              history={details?.history ?? []}
                               loading={!details}
+                              onRollback={(version, path) =>
+                                rollbackContext(user.id, version, path)
+                              }
                             />
                             <UserAuditLogList
                               logs={details?.logs ?? []}
@@ -338,6 +417,24 @@ export function AdminDashboard() {
         </CardContent>
       </Card>
 
+      {/* Dead-lettered scheduled task runs */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Failed Tasks</CardTitle>
+          <CardDescription>
+            Scheduled task runs that failed every retry. Requeueing runs them
+            once more right away.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <DeadTaskList
+            tasks={deadTasks}
+            requeueingId={requeueingId}
+            onRequeue={requeueDeadTask}
+          />
+        </CardContent>
+      </Card>
+
       {/* Reset Database Confirmation Dialog */}
       <Dialog open={showResetDialog} onOpenChange={setShowResetDialog}>
         <DialogContent>
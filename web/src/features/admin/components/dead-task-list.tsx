@@ -0,0 +1,71 @@
+import { Loader2, RotateCcw } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { DeadTaskEntry } from "./utils";
+
+export default function DeadTaskList({
+  tasks,
+  requeueingId,
+  onRequeue,
+}: {
+  tasks: DeadTaskEntry[];
+  requeueingId: string | null;
+  onRequeue: (id: string) => void;
+}) {
+  if (tasks.length === 0) {
+    return (
+      <div className="text-muted-foreground text-sm">No failed task runs</div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {tasks.map((task) => (
+        <div
+          key={task.id}
+          className="p-3 border rounded-md hover:bg-muted/50 transition"
+        >
+          <div className="flex justify-between items-center gap-2">
+            <div className="text-sm font-medium">
+              {task.taskType}
+              {task.recurring && (
+                <span className="ml-2 text-xs text-muted-foreground">
+                  (recurring, next run still scheduled)
+                </span>
+              )}
+            </div>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => onRequeue(task.id)}
+              disabled={requeueingId !== null}
+            >
+              {requeueingId === task.id ? (
+                <Loader2 className="mr-2 h-3 w-3 animate-spin" />
+              ) : (
+                <RotateCcw className="mr-2 h-3 w-3" />
+              )}
+              Requeue
+            </Button>
+          </div>
+
+          <div className="text-xs text-muted-foreground mt-1">
+            User: <span className="text-foreground">{task.userId}</span> · Due:{" "}
+            <span className="text-foreground">
+              {new Date(task.dueAt).toLocaleString()}
+            </span>{" "}
+            · Failed:{" "}
+            <span className="text-foreground">
+              {new Date(task.failedAt).toLocaleString()}
+            </span>
+          </div>
+
+          <div className="text-xs text-muted-foreground mt-1">
+            After {task.attempts} attempts:{" "}
+            <span className="text-red-400">{task.lastError}</span>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
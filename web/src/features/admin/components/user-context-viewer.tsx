@@ -1,24 +1,103 @@
-import { UserContext } from "./utils";
-
-export default function UserContextViewer({
-  context,
-  loading,
-}: {
-  context: UserContext | null;
-  loading: boolean;
-}) {
-  return (
-    <div className="rounded-lg border p-4 bg-card shadow-sm">
-      <h2 className="text-lg font-semibold mb-2">User Context</h2>
-      {loading ? (
-        <div className="text-muted-foreground text-sm">Loading...</div>
-      ) : context ? (
-        <pre className="bg-muted p-2 rounded text-xs overflow-x-auto">
-          {JSON.stringify(context, null, 2)}
-        </pre>
-      ) : (
-        <div className="text-muted-foreground text-sm">No context found</div>
-      )}
-    </div>
-  );
-}
\ No newline at end of file
+import { Button } from "@/components/ui/button";
+import { UserContextSections } from "@/features/chat/components/user-context-sections";
+import { UserContext, UserContextHistoryEntry } from "./utils";
+
+const formatValue = (value: unknown) =>
+  value === undefined ? "∅" : JSON.stringify(value);
+
+const describeActor = (actor: UserContextHistoryEntry["actor"]) => {
+  switch (actor.type) {
+    case "agent":
+      return actor.sessionId ? `agent (run ${actor.sessionId})` : "agent";
+    case "user":
+      return "user";
+    case "admin":
+      return `admin ${actor.userId}`;
+    case "system":
+      return `system (${actor.job})`;
+  }
+};
+
+export default function UserContextViewer({
+  context,
+  history,
+  loading,
+  onRollback,
+}: {
+  context: UserContext | null;
+  history: UserContextHistoryEntry[];
+  loading: boolean;
+  onRollback: (version: number, path?: string) => void;
+}) {
+  return (
+    <div className="rounded-lg border p-4 bg-card shadow-sm">
+      <h2 className="text-lg font-semibold mb-2">User Context</h2>
+      {loading ? (
+        <div className="text-muted-foreground text-sm">Loading...</div>
+      ) : context ? (
+        <UserContextSections data={context} />
+      ) : (
+        <div className="text-muted-foreground text-sm">No context found</div>
+      )}
+
+      <h3 className="text-sm font-semibold mt-6 mb-2">History</h3>
+      {!loading && history.length === 0 && (
+        <div className="text-muted-foreground text-sm">No changes recorded</div>
+      )}
+      <div className="space-y-3">
+        {history.map((entry) => (
+          <div key={entry.version} className="p-3 border rounded-md">
+            <div className="flex justify-between items-center gap-2">
+              <div className="text-sm font-medium">
+                v{entry.version} · {describeActor(entry.actor)}
+                {entry.rolledBackTo !== undefined && (
+                  <span className="text-muted-foreground">
+                    {" "}
+                    (rollback to v{entry.rolledBackTo})
+                  </span>
+                )}
+              </div>
+              <div className="flex items-center gap-2">
+                <span className="text-xs text-muted-foreground">
+                  {new Date(entry.createdAt).toLocaleString()}
+                </span>
+                {entry.version > 0 && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => onRollback(entry.version - 1)}
+                  >
+                    Revert to v{entry.version - 1}
+                  </Button>
+                )}
+              </div>
+            </div>
+            <ul className="mt-2 space-y-1">
+              {entry.changes.map((change) => (
+                <li
+                  key={change.path}
+                  className="flex justify-between items-start gap-2 text-xs"
+                >
+                  <span className="break-all">
+                    <span className="font-mono">{change.path}</span>:{" "}
+                    <span className="text-red-400">{formatValue(change.oldValue)}</span>
+                    {" → "}
+                    <span className="text-green-400">{formatValue(change.newValue)}</span>
+                  </span>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="h-6 px-2 text-xs"
+                    onClick={() => onRollback(entry.version - 1, change.path)}
+                  >
+                    Undo
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
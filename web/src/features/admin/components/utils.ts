@@ -1,42 +1,62 @@
-export interface UserProfile {
-  id: string;
-  email?: string;
-  name?: string;
-  telegramId?: string;
-  tier?: string;
-  createdAt: string;
-  lastLogin: string;
-}
-
-export interface UserContext {
-  [key: string]: unknown;
-}
-
-export interface AuditLogEntry {
-  id: string;
-  timestamp: string;
-  taskType?: string;
-  model?: string;
-  source?: string;
-  durationMs?: number;
-  success?: boolean;
-  toolCalls?: number;
-  toolNames?: string[];
-  totalTokens?: number;
-  totalCost?: number;
-}
-
-export interface UsageLog {
-  _id: string;
-  userId: string;
-  taskType: string;
-  model: string;
-  source: string;
-  success: boolean;
-  toolCalls: number;
-  toolNames: string[];
-  totalTokens: number;
-  totalCost: number;
-  duration: number;
-  createdAt: string;
-}
\ No newline at end of file
+import type { UserContextActor, UserContextChange } from "@/lib/user-context";
+
+export interface UserProfile {
+  id: string;
+  email?: string;
+  name?: string;
+  telegramId?: string;
+  tier?: string;
+  createdAt: string;
+  lastLogin: string;
+}
+
+export type { UserContextData as UserContext } from "@/lib/user-context-schema";
+
+export interface UserContextHistoryEntry {
+  version: number;
+  changes: UserContextChange[];
+  actor: UserContextActor;
+  rolledBackTo?: number;
+  createdAt: string;
+}
+
+export interface AuditLogEntry {
+  id: string;
+  timestamp: string;
+  taskType?: string;
+  model?: string;
+  source?: string;
+  durationMs?: number;
+  success?: boolean;
+  toolCalls?: number;
+  toolNames?: string[];
+  totalTokens?: number;
+  totalCost?: number;
+}
+
+export interface UsageLog {
+  _id: string;
+  userId: string;
+  taskType: string;
+  model: string;
+  source: string;
+  success: boolean;
+  toolCalls: number;
+  toolNames: string[];
+  totalTokens: number;
+  totalCost: number;
+  duration: number;
+  createdAt: string;
+}
+export interface DeadTaskEntry {
+  id: string;
+  taskId: string;
+  userId: string;
+  taskType: string;
+  payload?: Record<string, unknown>;
+  dueAt: string;
+  recurring: boolean;
+  attempts: number;
+  lastError: string;
+  failedAt: string;
+}
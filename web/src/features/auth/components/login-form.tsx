@@ -9,11 +9,13 @@ import { toast } from "sonner";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { getSafeCallbackUrl } from "@/lib/utils";
 
 export function LoginForm() {
   const router = useRouter();
   const searchParams = useSearchParams();
   const defaultEmail = searchParams?.get("email") ?? "";
+  const callbackUrl = getSafeCallbackUrl(searchParams?.get("callbackUrl"));
   const [email, setEmail] = useState(defaultEmail);
   const [password, setPassword] = useState("");
   const [isPending, startTransition] = useTransition();
@@ -40,7 +42,7 @@ export function LoginForm() {
               toast.error("Invalid email or password");
               return;
             }
-            router.push("/");
+            router.push(callbackUrl);
             router.refresh();
           });
         }}
@@ -76,7 +78,7 @@ export function LoginForm() {
             {isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Lock className="h-4 w-4" />}
             Sign in
           </Button>
-          <Button type="button" onClick={() => signIn("google")}>Sign in with Google</Button>
+          <Button type="button" onClick={() => signIn("google", { redirectTo: callbackUrl })}>Sign in with Google</Button>
         </div>
       </form>
       
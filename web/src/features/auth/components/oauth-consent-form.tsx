@@ -0,0 +1,47 @@
+import { Button } from "@/components/ui/button";
+import { McpScope } from "@/lib/mcp-auth";
+import { MCP_SCOPE_DESCRIPTIONS } from "@/lib/mcp-oauth";
+
+interface OAuthConsentFormProps {
+  requestParams: Record<string, string>;
+  scopes: McpScope[];
+}
+
+export function OAuthConsentForm({ requestParams, scopes }: OAuthConsentFormProps) {
+  return (
+    <form method="post" action="/api/oauth/authorize" className="space-y-6">
+      {Object.entries(requestParams).map(([key, value]) => (
+        <input key={key} type="hidden" name={key} value={value} />
+      ))}
+      <fieldset className="space-y-3">
+        <legend className="mb-2 text-sm font-medium">Requested access</legend>
+        {scopes.map((scope) => (
+          <label
+            key={scope}
+            className="flex items-start gap-3 rounded-md border border-border/70 p-3 text-sm"
+          >
+            <input
+              type="checkbox"
+              name="granted_scope"
+              value={scope}
+              defaultChecked
+              className="mt-0.5 h-4 w-4 accent-primary"
+            />
+            <span>
+              <span className="block font-mono text-xs text-muted-foreground">{scope}</span>
+              {MCP_SCOPE_DESCRIPTIONS[scope]}
+            </span>
+          </label>
+        ))}
+      </fieldset>
+      <div className="flex gap-2">
+        <Button type="submit" name="decision" value="deny" variant="outline" className="w-full">
+          Deny
+        </Button>
+        <Button type="submit" name="decision" value="approve" className="w-full">
+          Allow
+        </Button>
+      </div>
+    </form>
+  );
+}
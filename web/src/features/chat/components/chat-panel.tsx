@@ -12,6 +12,10 @@ import { cn } from "@/lib/utils";
 import { useChat } from "@/features/chat/hooks/use-chat";
 import { useRealtimeAgent } from "@/features/chat/hooks/use-realtime-agent";
 import { MessageBubble } from "@/features/chat/components/message-bubble";
+import { PendingApprovals } from "@/features/chat/components/pending-approvals";
+import { RecentAgentActions } from "@/features/chat/components/recent-agent-actions";
+import { UserContextPanel } from "@/features/chat/components/user-context-panel";
+import { ConversationSearch } from "@/features/chat/components/conversation-search";
 import { SessionControls } from "@/features/chat/components/session-controls";
 import { VoiceVisualizer } from "@/features/chat/components/voice-visualizer";
 import type { ChatMessage } from "@/features/chat/types";
@@ -87,6 +91,7 @@ export function ChatPanel() {
               )}
             </div>
           </ScrollArea>
+          <PendingApprovals refreshKey={messages.length} />
           <form onSubmit={handleSubmit} className="mt-4 grid gap-3">
             <Textarea
               placeholder="Ask the agent to coordinate something…"
@@ -125,6 +130,16 @@ export function ChatPanel() {
           }}
         />
         <VoiceVisualizer signals={realtime.voiceSignals} />
+        <RecentAgentActions refreshKey={messages.length} />
+        <UserContextPanel refreshKey={messages.length} />
+        <Card className="border border-border/60 bg-card/90 shadow-inner">
+          <CardHeader>
+            <CardTitle className="text-base">Search Conversation</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ConversationSearch />
+          </CardContent>
+        </Card>
         <Card className="border border-border/60 bg-card/90 shadow-inner">
           <CardHeader>
             <CardTitle className="text-base">Realtime Highlights</CardTitle>
@@ -0,0 +1,149 @@
+"use client";
+
+import { FormEvent, useState } from "react";
+import { Loader2, Search } from "lucide-react";
+import { toast } from "sonner";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import type { ChatMessageRole } from "@/features/chat/types";
+
+interface SearchResult {
+  id: string;
+  role: ChatMessageRole;
+  content: string;
+  source?: string;
+  createdAt: string;
+}
+
+interface ConversationSearchProps {
+  // Bearer token for the Telegram mini app; the web app uses its session
+  getAuthToken?: () => string | null;
+}
+
+// Date inputs give local calendar days; widen them to cover the whole day
+const startOfDay = (date: string) => new Date(`${date}T00:00:00`).toISOString();
+const endOfDay = (date: string) => new Date(`${date}T23:59:59.999`).toISOString();
+
+export function ConversationSearch({ getAuthToken }: ConversationSearchProps) {
+  const [query, setQuery] = useState("");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [results, setResults] = useState<SearchResult[] | null>(null);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+
+  const search = async (cursor?: string) => {
+    const params = new URLSearchParams();
+    if (query.trim()) params.set("q", query.trim());
+    if (from) params.set("from", startOfDay(from));
+    if (to) params.set("to", endOfDay(to));
+    if (cursor) params.set("cursor", cursor);
+
+    setIsSearching(true);
+    try {
+      const token = getAuthToken?.();
+      const response = await fetch(`/api/chat/search?${params}`, {
+        headers: token ? { Authorization: `Bearer ${token}` } : {},
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        toast.error(data.error || "Search failed");
+        return;
+      }
+      setResults((prev) =>
+        cursor && prev ? [...prev, ...data.messages] : data.messages
+      );
+      setNextCursor(data.nextCursor);
+    } catch (error) {
+      console.error("Failed to search conversation:", error);
+      toast.error("Search failed");
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!query.trim() && !from && !to) return;
+    void search();
+  };
+
+  return (
+    <div className="space-y-3">
+      <form onSubmit={handleSubmit} className="space-y-2">
+        <div className="flex gap-2">
+          <Input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search messages, e.g. dentist"
+            className="h-9"
+          />
+          <Button type="submit" size="icon" disabled={isSearching}>
+            {isSearching ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              <Search className="h-4 w-4" />
+            )}
+          </Button>
+        </div>
+        <div className="flex gap-2 text-xs text-muted-foreground">
+          <label className="flex flex-1 items-center gap-1">
+            From
+            <Input
+              type="date"
+              value={from}
+              onChange={(e) => setFrom(e.target.value)}
+              className="h-8 text-xs"
+            />
+          </label>
+          <label className="flex flex-1 items-center gap-1">
+            To
+            <Input
+              type="date"
+              value={to}
+              onChange={(e) => setTo(e.target.value)}
+              className="h-8 text-xs"
+            />
+          </label>
+        </div>
+      </form>
+
+      {results && results.length === 0 && (
+        <p className="text-sm text-muted-foreground">No matching messages.</p>
+      )}
+      {results && results.length > 0 && (
+        <div className="space-y-2">
+          {results.map((message) => (
+            <div
+              key={message.id}
+              className="space-y-1 rounded-xl border border-border/50 bg-muted/20 px-3 py-2"
+            >
+              <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+                <Badge variant="secondary" className="text-[10px]">
+                  {message.role === "user" ? "You" : "Assistant"}
+                </Badge>
+                {new Date(message.createdAt).toLocaleString()}
+              </div>
+              <p className="whitespace-pre-wrap break-words text-sm">
+                {message.content}
+              </p>
+            </div>
+          ))}
+          {nextCursor && (
+            <Button
+              variant="outline"
+              size="sm"
+              className="w-full"
+              disabled={isSearching}
+              onClick={() => void search(nextCursor)}
+            >
+              Load older matches
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
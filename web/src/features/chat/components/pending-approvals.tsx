@@ -0,0 +1,163 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Check, Loader2, ShieldAlert, X } from "lucide-react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import type {
+  ApprovalDecision,
+  PendingApprovalAction,
+  PendingApprovalSummary,
+} from "@/lib/approvals";
+
+const POLL_INTERVAL_MS = 15_000;
+
+interface PendingApprovalsProps {
+  // Bearer token for the Telegram mini app; the web app uses its session
+  getAuthToken?: () => string | null;
+  // Changes whenever the conversation changes, to pick up new requests quickly
+  refreshKey?: unknown;
+  onResolved?: (message: string) => void;
+}
+
+const describeAction = (action: PendingApprovalAction) => {
+  try {
+    const args = action.arguments ? JSON.parse(action.arguments) : {};
+    const label = args.summary ?? args.title;
+    return typeof label === "string" && label
+      ? `${action.toolName}: ${label}`
+      : action.toolName;
+  } catch {
+    return action.toolName;
+  }
+};
+
+const formatRemaining = (expiresAt: string, now: number) => {
+  const remainingMs = new Date(expiresAt).getTime() - now;
+  if (remainingMs <= 0) return "expired";
+  const minutes = Math.floor(remainingMs / 60_000);
+  const seconds = Math.floor((remainingMs % 60_000) / 1000);
+  return `${minutes}:${seconds.toString().padStart(2, "0")} left`;
+};
+
+export function PendingApprovals({
+  getAuthToken,
+  refreshKey,
+  onResolved,
+}: PendingApprovalsProps) {
+  const [approvals, setApprovals] = useState<PendingApprovalSummary[]>([]);
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+
+  const headers = useCallback((): Record<string, string> => {
+    const token = getAuthToken?.();
+    return token ? { Authorization: `Bearer ${token}` } : {};
+  }, [getAuthToken]);
+
+  const loadApprovals = useCallback(async () => {
+    try {
+      const response = await fetch("/api/approvals", { headers: headers() });
+      if (response.ok) {
+        const data = await response.json();
+        setApprovals(data.approvals || []);
+      }
+    } catch (error) {
+      console.error("Failed to load pending approvals:", error);
+    }
+  }, [headers]);
+
+  useEffect(() => {
+    void loadApprovals();
+    const interval = setInterval(() => {
+      void loadApprovals();
+    }, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [loadApprovals, refreshKey]);
+
+  // Tick the countdown only while something is waiting
+  useEffect(() => {
+    if (approvals.length === 0) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [approvals.length]);
+
+  const resolve = async (approvalId: string, decision: ApprovalDecision) => {
+    setResolvingId(approvalId);
+    try {
+      const response = await fetch("/api/approvals", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...headers() },
+        body: JSON.stringify({ approvalId, decision }),
+      });
+      const data = await response.json().catch(() => null);
+      if (!response.ok) {
+        toast.error(data?.error || "Failed to resolve approval");
+      } else if (data?.message) {
+        onResolved?.(data.message);
+      }
+    } catch (error) {
+      console.error("Failed to resolve approval:", error);
+      toast.error("Failed to resolve approval");
+    } finally {
+      setResolvingId(null);
+      await loadApprovals();
+    }
+  };
+
+  const visible = approvals.filter(
+    (approval) => new Date(approval.expiresAt).getTime() > now
+  );
+  if (visible.length === 0) return null;
+
+  return (
+    <div className="space-y-2 rounded-2xl border border-amber-500/40 bg-amber-500/10 p-3">
+      <div className="flex items-center gap-2 text-sm font-medium">
+        <ShieldAlert className="h-4 w-4 text-amber-600" />
+        Waiting for your approval
+      </div>
+      {visible.map((approval) => (
+        <div
+          key={approval.id}
+          className="space-y-2 rounded-xl bg-background/80 p-2 text-xs"
+        >
+          <ul className="space-y-0.5">
+            {approval.actions.map((action, index) => (
+              <li key={index} className="break-words">
+                • {describeAction(action)}
+              </li>
+            ))}
+          </ul>
+          <div className="flex items-center justify-between gap-2">
+            <span className="text-muted-foreground">
+              {formatRemaining(approval.expiresAt, now)}
+            </span>
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={resolvingId !== null}
+                onClick={() => resolve(approval.id, "reject")}
+              >
+                <X className="mr-1 h-3 w-3" />
+                Reject
+              </Button>
+              <Button
+                size="sm"
+                disabled={resolvingId !== null}
+                onClick={() => resolve(approval.id, "approve")}
+              >
+                {resolvingId === approval.id ? (
+                  <Loader2 className="mr-1 h-3 w-3 animate-spin" />
+                ) : (
+                  <Check className="mr-1 h-3 w-3" />
+                )}
+                Approve
+              </Button>
+            </div>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Loader2, Undo2 } from "lucide-react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import type { AgentActionSummary } from "@/lib/agent-actions";
+
+interface RecentAgentActionsProps {
+  // Changes whenever the conversation changes, to pick up new actions
+  refreshKey?: unknown;
+}
+
+export function RecentAgentActions({ refreshKey }: RecentAgentActionsProps) {
+  const [actions, setActions] = useState<AgentActionSummary[]>([]);
+  const [undoingId, setUndoingId] = useState<string | null>(null);
+
+  const loadActions = useCallback(async () => {
+    try {
+      const response = await fetch("/api/undo");
+      if (response.ok) {
+        const data = await response.json();
+        setActions(data.actions || []);
+      }
+    } catch (error) {
+      console.error("Failed to load agent actions:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadActions();
+  }, [loadActions, refreshKey]);
+
+  const handleUndo = async (actionId: string) => {
+    setUndoingId(actionId);
+    try {
+      const response = await fetch("/api/undo", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ actionId }),
+      });
+      const data = await response.json().catch(() => null);
+      if (!response.ok) {
+        toast.error(data?.error || "Failed to undo the change");
+      } else {
+        toast.success(`Undone: ${data.action.description}`);
+      }
+    } catch (error) {
+      console.error("Failed to undo agent action:", error);
+      toast.error("Failed to undo the change");
+    } finally {
+      setUndoingId(null);
+      await loadActions();
+    }
+  };
+
+  if (actions.length === 0) return null;
+
+  return (
+    <Card className="border border-border/60 bg-card/90 shadow-inner">
+      <CardHeader>
+        <CardTitle className="text-base">Recent Agent Changes</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {actions.map((action) => (
+          <div
+            key={action.id}
+            className="flex items-center justify-between gap-2 rounded-xl border border-border/50 bg-muted/20 px-3 py-2 text-sm"
+          >
+            <div className="min-w-0">
+              <p className="truncate">{action.description}</p>
+              <p className="text-xs text-muted-foreground">
+                {new Date(action.createdAt).toLocaleString()}
+                {action.status === "undone" && " · undone"}
+                {action.status === "undo_failed" && " · undo failed"}
+              </p>
+            </div>
+            {action.status === "applied" && (
+              <Button
+                size="sm"
+                variant="ghost"
+                className="shrink-0 gap-1.5"
+                disabled={undoingId !== null}
+                onClick={() => handleUndo(action.id)}
+              >
+                {undoingId === action.id ? (
+                  <Loader2 className="h-3 w-3 animate-spin" />
+                ) : (
+                  <Undo2 className="h-3 w-3" />
+                )}
+                Undo
+              </Button>
+            )}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,340 @@
+"use client";
+
+import { useState } from "react";
+import {
+  Check,
+  ChevronDown,
+  ChevronRight,
+  Pencil,
+  Plus,
+  Trash2,
+  X,
+} from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  USER_CONTEXT_SECTION_LABELS,
+  USER_CONTEXT_SECTIONS,
+  type UserContextData,
+} from "@/lib/user-context-schema";
+
+type SaveHandler = (segments: string[], value: unknown) => Promise<boolean>;
+type DeleteHandler = (segments: string[]) => Promise<boolean>;
+
+interface UserContextEditorProps {
+  data: UserContextData;
+  disabled?: boolean;
+  onSet: SaveHandler;
+  onDelete: DeleteHandler;
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const toEditableText = (value: unknown) =>
+  Array.isArray(value) ? value.join(", ") : String(value ?? "");
+
+/**
+ * Turn edited text back into a value of the same type as the one it replaces.
+ * New values are read as JSON when they look like it, otherwise as text.
+ */
+const fromEditableText = (text: string, previous?: unknown): unknown => {
+  const trimmed = text.trim();
+  if (typeof previous === "number") {
+    const parsed = Number(trimmed);
+    return Number.isFinite(parsed) ? parsed : trimmed;
+  }
+  if (typeof previous === "boolean") {
+    return trimmed.toLowerCase() === "true";
+  }
+  if (Array.isArray(previous)) {
+    return trimmed
+      .split(",")
+      .map((item) => item.trim())
+      .filter(Boolean);
+  }
+  if (previous === undefined && /^[[{]/.test(trimmed)) {
+    try {
+      return JSON.parse(trimmed);
+    } catch {
+      return trimmed;
+    }
+  }
+  return trimmed;
+};
+
+function LeafEditor({
+  initial,
+  multiline,
+  disabled,
+  onSave,
+  onCancel,
+}: {
+  initial: string;
+  multiline?: boolean;
+  disabled?: boolean;
+  onSave: (text: string) => void;
+  onCancel: () => void;
+}) {
+  const [text, setText] = useState(initial);
+  const Field = multiline ? Textarea : Input;
+
+  return (
+    <div className="flex items-start gap-1">
+      <Field
+        autoFocus
+        value={text}
+        disabled={disabled}
+        className="h-8 text-xs"
+        onChange={(e) => setText(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === "Escape") onCancel();
+          if (e.key === "Enter" && !multiline) onSave(text);
+        }}
+      />
+      <Button
+        size="icon"
+        variant="ghost"
+        className="h-8 w-8 shrink-0"
+        disabled={disabled}
+        onClick={() => onSave(text)}
+      >
+        <Check className="h-3 w-3" />
+      </Button>
+      <Button
+        size="icon"
+        variant="ghost"
+        className="h-8 w-8 shrink-0"
+        disabled={disabled}
+        onClick={onCancel}
+      >
+        <X className="h-3 w-3" />
+      </Button>
+    </div>
+  );
+}
+
+function ContextNode({
+  name,
+  segments,
+  value,
+  disabled,
+  onSet,
+  onDelete,
+}: {
+  name: string;
+  segments: string[];
+  value: unknown;
+  disabled?: boolean;
+  onSet: SaveHandler;
+  onDelete: DeleteHandler;
+}) {
+  const [expanded, setExpanded] = useState(false);
+  const [editing, setEditing] = useState(false);
+
+  const deleteButton = (
+    <Button
+      size="icon"
+      variant="ghost"
+      className="h-6 w-6 shrink-0 text-muted-foreground hover:text-destructive"
+      disabled={disabled}
+      onClick={() => void onDelete(segments)}
+      aria-label={`Delete ${segments.join(".")}`}
+    >
+      <Trash2 className="h-3 w-3" />
+    </Button>
+  );
+
+  if (isPlainObject(value)) {
+    return (
+      <div>
+        <div className="flex items-center gap-1">
+          <button
+            type="button"
+            className="flex flex-1 items-center gap-1 text-left text-sm font-medium"
+            onClick={() => setExpanded((prev) => !prev)}
+          >
+            {expanded ? (
+              <ChevronDown className="h-3 w-3" />
+            ) : (
+              <ChevronRight className="h-3 w-3" />
+            )}
+            {name}
+          </button>
+          {deleteButton}
+        </div>
+        {expanded && (
+          <div className="ml-4 space-y-1 border-l border-border/50 pl-2">
+            {Object.entries(value).map(([key, child]) => (
+              <ContextNode
+                key={key}
+                name={key}
+                segments={[...segments, key]}
+                value={child}
+                disabled={disabled}
+                onSet={onSet}
+                onDelete={onDelete}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  if (editing) {
+    return (
+      <div className="space-y-1">
+        <span className="text-xs text-muted-foreground">{name}</span>
+        <LeafEditor
+          initial={toEditableText(value)}
+          multiline={typeof value === "string" && value.length > 60}
+          disabled={disabled}
+          onCancel={() => setEditing(false)}
+          onSave={async (text) => {
+            if (await onSet(segments, fromEditableText(text, value))) {
+              setEditing(false);
+            }
+          }}
+        />
+      </div>
+    );
+  }
+
+  return (
+    <div className="group flex items-start gap-1 text-sm">
+      <span className="shrink-0 text-muted-foreground">{name}:</span>
+      <span className="flex-1 break-words">{toEditableText(value)}</span>
+      <Button
+        size="icon"
+        variant="ghost"
+        className="h-6 w-6 shrink-0 text-muted-foreground"
+        disabled={disabled}
+        onClick={() => setEditing(true)}
+        aria-label={`Edit ${segments.join(".")}`}
+      >
+        <Pencil className="h-3 w-3" />
+      </Button>
+      {deleteButton}
+    </div>
+  );
+}
+
+function AddEntryForm({
+  section,
+  disabled,
+  onSet,
+  onDone,
+}: {
+  section: string;
+  disabled?: boolean;
+  onSet: SaveHandler;
+  onDone: () => void;
+}) {
+  const [key, setKey] = useState("");
+  const [value, setValue] = useState("");
+
+  return (
+    <form
+      className="space-y-1 rounded-xl border border-dashed border-border/60 p-2"
+      onSubmit={async (e) => {
+        e.preventDefault();
+        if (!key.trim() || !value.trim()) return;
+        if (await onSet([section, key.trim()], fromEditableText(value))) {
+          onDone();
+        }
+      }}
+    >
+      <Input
+        autoFocus
+        placeholder="Name, e.g. website-redesign"
+        value={key}
+        disabled={disabled}
+        className="h-8 text-xs"
+        onChange={(e) => setKey(e.target.value)}
+      />
+      <Textarea
+        placeholder='Value, e.g. dark or {"name": "Website redesign"}'
+        value={value}
+        disabled={disabled}
+        className="min-h-[60px] text-xs"
+        onChange={(e) => setValue(e.target.value)}
+      />
+      <div className="flex justify-end gap-1">
+        <Button type="button" size="sm" variant="ghost" onClick={onDone}>
+          Cancel
+        </Button>
+        <Button type="submit" size="sm" disabled={disabled}>
+          Add
+        </Button>
+      </div>
+    </form>
+  );
+}
+
+/**
+ * Editable tree of the user context: every leaf can be changed or removed
+ * and each section can get new entries
+ */
+export function UserContextEditor({
+  data,
+  disabled,
+  onSet,
+  onDelete,
+}: UserContextEditorProps) {
+  const [addingTo, setAddingTo] = useState<string | null>(null);
+
+  return (
+    <div className="space-y-4">
+      {USER_CONTEXT_SECTIONS.map((section) => {
+        const entries = Object.entries(data[section] ?? {});
+        return (
+          <div key={section} className="space-y-2">
+            <div className="flex items-center justify-between">
+              <h4 className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">
+                {USER_CONTEXT_SECTION_LABELS[section]}
+              </h4>
+              <Button
+                size="icon"
+                variant="ghost"
+                className="h-6 w-6"
+                disabled={disabled}
+                onClick={() => setAddingTo(section)}
+                aria-label={`Add to ${USER_CONTEXT_SECTION_LABELS[section]}`}
+              >
+                <Plus className="h-3 w-3" />
+              </Button>
+            </div>
+            {addingTo === section && (
+              <AddEntryForm
+                section={section}
+                disabled={disabled}
+                onSet={onSet}
+                onDone={() => setAddingTo(null)}
+              />
+            )}
+            {entries.length === 0 && addingTo !== section ? (
+              <p className="text-xs text-muted-foreground">Nothing here yet.</p>
+            ) : (
+              <div className="space-y-1">
+                {entries.map(([key, value]) => (
+                  <ContextNode
+                    key={key}
+                    name={key}
+                    segments={[section, key]}
+                    value={value}
+                    disabled={disabled}
+                    onSet={onSet}
+                    onDelete={onDelete}
+                  />
+                ))}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { UserContextEditor } from "@/features/chat/components/user-context-editor";
+import type { UserContextData } from "@/lib/user-context-schema";
+
+interface UserContextPanelProps {
+  // Bearer token for the Telegram mini app; the web app uses its session
+  getAuthToken?: () => string | null;
+  // Changes whenever the conversation changes, to pick up new memories
+  refreshKey?: unknown;
+}
+
+interface ContextResponse {
+  output?: string;
+  metadata?: { updatedAt: string };
+  error?: string;
+}
+
+export function UserContextPanel({
+  getAuthToken,
+  refreshKey,
+}: UserContextPanelProps) {
+  const [context, setContext] = useState<UserContextData | null>(null);
+  // Sent back with every edit so a stale view can't overwrite newer memories
+  const [updatedAt, setUpdatedAt] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const request = useCallback(
+    async (body: Record<string, unknown>) => {
+      const token = getAuthToken?.();
+      const response = await fetch("/api/context", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        },
+        body: JSON.stringify(body),
+      });
+      const data: ContextResponse = await response.json().catch(() => ({}));
+      if (data.output && data.metadata) {
+        setContext(JSON.parse(data.output));
+        setUpdatedAt(data.metadata.updatedAt);
+      }
+      return { response, data };
+    },
+    [getAuthToken]
+  );
+
+  const loadContext = useCallback(async () => {
+    try {
+      await request({ action: "get", format: "json" });
+    } catch (error) {
+      console.error("Failed to load user context:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [request]);
+
+  useEffect(() => {
+    void loadContext();
+  }, [loadContext, refreshKey]);
+
+  const save = async (body: Record<string, unknown>) => {
+    setIsSaving(true);
+    try {
+      const { response, data } = await request({
+        ...body,
+        expectedUpdatedAt: updatedAt ?? undefined,
+      });
+      if (response.status === 409) {
+        toast.error("Your memories changed in the meantime. Showing the latest version.");
+        return false;
+      }
+      if (!response.ok) {
+        toast.error(data.error || "Failed to save");
+        return false;
+      }
+      return true;
+    } catch (error) {
+      console.error("Failed to update user context:", error);
+      toast.error("Failed to save");
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card className="border border-border/60 bg-card/90 shadow-inner">
+      <CardHeader>
+        <CardTitle className="text-base">What I Remember</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center text-sm text-muted-foreground">
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" /> Loading…
+          </div>
+        ) : context ? (
+          <UserContextEditor
+            data={context}
+            disabled={isSaving}
+            onSet={(segments, value) => save({ action: "set", segments, value })}
+            onDelete={(segments) => save({ action: "delete", segments })}
+          />
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            Context could not be loaded.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
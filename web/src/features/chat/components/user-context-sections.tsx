@@ -0,0 +1,83 @@
+import { Badge } from "@/components/ui/badge";
+import {
+  USER_CONTEXT_SECTION_LABELS,
+  USER_CONTEXT_SECTIONS,
+  type UserContextData,
+} from "@/lib/user-context-schema";
+
+const formatValue = (value: unknown): string => {
+  if (value === null || value === undefined) return "";
+  if (Array.isArray(value)) return value.map(formatValue).join(", ");
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+};
+
+function ContextEntry({ name, value }: { name: string; value: unknown }) {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return (
+      <div className="flex justify-between gap-3 text-sm">
+        <span className="text-muted-foreground">{name}</span>
+        <span className="text-right break-words">{formatValue(value)}</span>
+      </div>
+    );
+  }
+
+  const { name: title, title: altTitle, description, status, ...rest } =
+    value as Record<string, unknown>;
+  return (
+    <div className="space-y-1 rounded-xl border border-border/50 bg-muted/20 px-3 py-2">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-sm font-medium">
+          {formatValue(title ?? altTitle ?? description ?? name)}
+        </span>
+        {typeof status === "string" && (
+          <Badge variant="secondary" className="text-[10px]">
+            {status}
+          </Badge>
+        )}
+      </div>
+      {(title ?? altTitle) !== undefined && description !== undefined && (
+        <p className="text-xs text-muted-foreground">{formatValue(description)}</p>
+      )}
+      {Object.entries(rest).map(([field, fieldValue]) => (
+        <p key={field} className="text-xs text-muted-foreground">
+          <span className="font-medium">{field}:</span> {formatValue(fieldValue)}
+        </p>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Read-only rendering of a user context, one block per declared section
+ */
+export function UserContextSections({ data }: { data: UserContextData }) {
+  const sections = USER_CONTEXT_SECTIONS.filter(
+    (section) => Object.keys(data[section] ?? {}).length > 0
+  );
+
+  if (sections.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        Nothing remembered yet.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {sections.map((section) => (
+        <div key={section} className="space-y-2">
+          <h4 className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">
+            {USER_CONTEXT_SECTION_LABELS[section]}
+          </h4>
+          <div className="space-y-2">
+            {Object.entries(data[section]).map(([name, value]) => (
+              <ContextEntry key={name} name={name} value={value} />
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
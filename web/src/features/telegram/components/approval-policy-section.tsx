@@ -0,0 +1,96 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { ShieldCheck } from "lucide-react";
+
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import type { ApprovalPolicy } from "@/lib/approvals";
+
+const POLICY_OPTIONS: Array<{ value: ApprovalPolicy; label: string }> = [
+  { value: "always", label: "Every calendar and task change" },
+  { value: "destructive", label: "Only edits and deletions" },
+  { value: "never", label: "Never ask" },
+];
+
+const authHeaders = () => ({
+  Authorization: `Bearer ${localStorage.getItem("telegram-token")}`,
+});
+
+export function ApprovalPolicySection() {
+  const [policy, setPolicy] = useState<ApprovalPolicy>();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    const loadPolicy = async () => {
+      try {
+        const response = await fetch("/api/user/approval-policy", {
+          headers: authHeaders(),
+        });
+        if (response.ok) {
+          const data = await response.json();
+          setPolicy(data.policy);
+        }
+      } catch (error) {
+        console.error("Failed to fetch approval policy:", error);
+      }
+    };
+    loadPolicy();
+  }, []);
+
+  const handleChange = async (value: string) => {
+    const previous = policy;
+    setPolicy(value as ApprovalPolicy);
+    try {
+      const response = await fetch("/api/user/approval-policy", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...authHeaders() },
+        body: JSON.stringify({ policy: value }),
+      });
+      if (!response.ok) throw new Error(`Status ${response.status}`);
+      toast({ title: "Success", description: "Approval settings saved" });
+    } catch (error) {
+      console.error("Failed to update approval policy:", error);
+      setPolicy(previous);
+      toast({
+        title: "Error",
+        description: "Failed to save approval settings",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-3 rounded-lg border p-4">
+      <div className="flex items-center gap-3">
+        <div className="flex h-10 w-10 items-center justify-center rounded-full bg-slate-100 dark:bg-slate-800">
+          <ShieldCheck className="h-5 w-5 text-slate-600 dark:text-slate-300" />
+        </div>
+        <div>
+          <p className="font-medium">Action Approvals</p>
+          <p className="text-sm text-muted-foreground">
+            Choose when the agent asks before changing your data
+          </p>
+        </div>
+      </div>
+      <Select value={policy} onValueChange={handleChange} disabled={!policy}>
+        <SelectTrigger>
+          <SelectValue placeholder="Loading…" />
+        </SelectTrigger>
+        <SelectContent>
+          {POLICY_OPTIONS.map((option) => (
+            <SelectItem key={option.value} value={option.value}>
+              {option.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
@@ -38,6 +38,9 @@ import {
 import { Label } from "@/components/ui/label";
 import { useToast } from "@/hooks/use-toast";
 import { useTheme } from "@/components/theme-provider";
+import { PersonalAccessTokensSection } from "@/features/telegram/components/personal-access-tokens-section";
+import { ApprovalPolicySection } from "@/features/telegram/components/approval-policy-section";
+import { QuietHoursSection } from "@/features/telegram/components/quiet-hours-section";
 
 interface LinkedAccount {
   provider: string;
@@ -65,15 +68,33 @@ type NotificationInterval =
   | "2h"
   | "4h"
   | "daily"
+  | "weekdays"
+  | "custom"
   | "off";
 
+interface NotificationSchedule {
+  kind: "rrule" | "cron";
+  pattern: string;
+}
+
 interface NotificationSettings {
   enabled: boolean;
   interval: NotificationInterval;
   timezone?: string;
-  dailyHour?: number;
+  time?: string;
+  schedule?: NotificationSchedule;
 }
 
+const DEFAULT_NOTIFICATION_TIME = "08:30";
+
+// Show a run time on the clock the schedule runs on
+const formatRunTime = (timestamp: string, timeZone?: string) =>
+  new Date(timestamp).toLocaleString(undefined, {
+    timeZone,
+    dateStyle: "medium",
+    timeStyle: "short",
+  });
+
 interface UsageErrorEntry {
   taskType: string;
   error?: string;
@@ -137,6 +158,12 @@ function formatTaskTypeLabel(taskType: string): string {
       return "Notification";
     case "chat":
       return "Chat";
+    case "workplan_refresh":
+      return "Workplan Refresh";
+    case "conversation_summary":
+      return "Conversation Summary";
+    case "rate_limit":
+      return "Rate Limited";
     default:
       return "Workflow";
   }
@@ -271,26 +298,67 @@ export function LinkedAccountsDialog({
     window.open(linkingUrl, "_blank");
   };
 
-  const handleSaveNotifications = async (newInterval: NotificationInterval) => {
+  const handleDisconnectGoogle = async () => {
+    setLoading(true);
+    try {
+      const token = localStorage.getItem("telegram-token");
+      const response = await fetch(`/api/user/linked-accounts?provider=google`, {
+        method: "DELETE",
+        headers: { Authorization: `Bearer ${token}` },
+      });
+
+      if (response.ok) {
+        setAccounts((prev) =>
+          prev.map((account) =>
+            account.provider === "google"
+              ? { ...account, connected: false, email: undefined }
+              : account
+          )
+        );
+        toast({
+          title: "Success",
+          description: "Google account disconnected",
+        });
+      } else {
+        toast({
+          title: "Error",
+          description: "Failed to disconnect Google",
+          variant: "destructive",
+        });
+      }
+    } catch (error) {
+      console.error("Failed to disconnect Google:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSaveNotifications = async (
+    newInterval: NotificationInterval,
+    details: Pick<NotificationSettings, "time" | "schedule"> = {}
+  ) => {
     setSavingNotif(true);
     setShowSaveSuccess(false);
 
     try {
       const token = localStorage.getItem("telegram-token");
 
-      // For daily, add timezone and hour
+      // Every setting sends the browser's timezone, which becomes the profile
+      // timezone; daily, weekday and custom schedules run on that local clock
       let payload = {
         enabled: newInterval !== "off",
         interval: newInterval,
-        timezone: undefined as string | undefined,
-        dailyHour: undefined as number | undefined,
+        timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+        time: undefined as string | undefined,
+        schedule: undefined as NotificationSchedule | undefined,
       };
 
-      if (newInterval === "daily") {
-        const timezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
-        const now = new Date();
-        const dailyHour = now.getUTCHours();
-        payload = { ...payload, timezone, dailyHour };
+      if (
+        newInterval === "daily" ||
+        newInterval === "weekdays" ||
+        newInterval === "custom"
+      ) {
+        payload = { ...payload, ...details };
       }
 
       const response = await fetch("/api/user/notifications", {
@@ -317,9 +385,7 @@ export function LinkedAccountsDialog({
           setTaskInfo({
             lastRunAt: data.lastRunAt,
             nextRunAt: data.nextRunAt,
-            timezone:
-              payload.timezone ||
-              Intl.DateTimeFormat().resolvedOptions().timeZone,
+            timezone: data.timezone || payload.timezone,
           });
         } else {
           setTaskInfo(null);
@@ -365,6 +431,7 @@ export function LinkedAccountsDialog({
       ? [
           { value: "off", label: "Off" },
           { value: "daily", label: "Daily" },
+          { value: "weekdays", label: "Weekdays" },
         ]
       : [
           { value: "off", label: "Off" },
@@ -374,6 +441,8 @@ export function LinkedAccountsDialog({
           { value: "2h", label: "Every 2 hours" },
           { value: "4h", label: "Every 4 hours" },
           { value: "daily", label: "Daily" },
+          { value: "weekdays", label: "Weekdays" },
+          { value: "custom", label: "Custom schedule" },
         ];
 
   const googleAccount = accounts.find((a) => a.provider === "google");
@@ -532,7 +601,17 @@ export function LinkedAccountsDialog({
             </div>
 
             {isGoogleConnected ? (
-              <Badge variant="secondary">Connected</Badge>
+              <div className="flex items-center gap-2">
+                <Badge variant="secondary">Connected</Badge>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={handleDisconnectGoogle}
+                  disabled={loading}
+                >
+                  Disconnect
+                </Button>
+              </div>
             ) : (
               <Button
                 size="sm"
@@ -545,6 +624,12 @@ export function LinkedAccountsDialog({
             )}
           </div>
 
+          {/* Personal Access Tokens */}
+          <PersonalAccessTokensSection />
+
+          {/* Agent action approvals */}
+          <ApprovalPolicySection />
+
           {/* Notification Settings */}
           {notifSettings && (
             <div className="space-y-3 rounded-lg border p-4">
@@ -585,12 +670,18 @@ export function LinkedAccountsDialog({
                   value={notifSettings.interval}
                   onValueChange={(value) => {
                     const newInterval = value as NotificationInterval;
+                    const time =
+                      notifSettings.time ?? DEFAULT_NOTIFICATION_TIME;
                     setNotifSettings({
                       ...notifSettings,
                       interval: newInterval,
                       enabled: newInterval !== "off",
+                      time,
                     });
-                    handleSaveNotifications(newInterval);
+                    // Custom schedules are saved once a pattern is entered
+                    if (newInterval !== "custom") {
+                      handleSaveNotifications(newInterval, { time });
+                    }
                   }}
                   disabled={savingNotif}
                 >
@@ -612,6 +703,99 @@ export function LinkedAccountsDialog({
                 )}
               </div>
 
+              {(notifSettings.interval === "daily" ||
+                notifSettings.interval === "weekdays") && (
+                <div className="space-y-2">
+                  <Label htmlFor="notification-time">
+                    {notifSettings.interval === "daily"
+                      ? "Time (every day)"
+                      : "Time (Mon–Fri)"}
+                  </Label>
+                  <Input
+                    id="notification-time"
+                    type="time"
+                    value={notifSettings.time ?? DEFAULT_NOTIFICATION_TIME}
+                    disabled={savingNotif}
+                    onChange={(event) =>
+                      setNotifSettings({
+                        ...notifSettings,
+                        time: event.target.value,
+                      })
+                    }
+                    onBlur={() =>
+                      handleSaveNotifications(notifSettings.interval, {
+                        time: notifSettings.time ?? DEFAULT_NOTIFICATION_TIME,
+                      })
+                    }
+                  />
+                </div>
+              )}
+
+              {notifSettings.interval === "custom" && (
+                <div className="space-y-2">
+                  <Label htmlFor="notification-pattern">Schedule</Label>
+                  <div className="flex gap-2">
+                    <Select
+                      value={notifSettings.schedule?.kind ?? "rrule"}
+                      onValueChange={(kind) =>
+                        setNotifSettings({
+                          ...notifSettings,
+                          schedule: {
+                            kind: kind as NotificationSchedule["kind"],
+                            pattern: notifSettings.schedule?.pattern ?? "",
+                          },
+                        })
+                      }
+                      disabled={savingNotif}
+                    >
+                      <SelectTrigger className="w-28">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="rrule">RRULE</SelectItem>
+                        <SelectItem value="cron">Cron</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      id="notification-pattern"
+                      value={notifSettings.schedule?.pattern ?? ""}
+                      placeholder={
+                        notifSettings.schedule?.kind === "cron"
+                          ? "30 8 * * 1-5"
+                          : "FREQ=MONTHLY;BYDAY=1MO;BYHOUR=9;BYMINUTE=0"
+                      }
+                      onChange={(event) =>
+                        setNotifSettings({
+                          ...notifSettings,
+                          schedule: {
+                            kind: notifSettings.schedule?.kind ?? "rrule",
+                            pattern: event.target.value,
+                          },
+                        })
+                      }
+                      disabled={savingNotif}
+                    />
+                    <Button
+                      size="sm"
+                      disabled={
+                        savingNotif || !notifSettings.schedule?.pattern?.trim()
+                      }
+                      onClick={() =>
+                        handleSaveNotifications("custom", {
+                          schedule: notifSettings.schedule,
+                        })
+                      }
+                    >
+                      Save
+                    </Button>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    An iCalendar RRULE (daily, weekly or monthly) or a
+                    five-field cron expression, in your local time.
+                  </p>
+                </div>
+              )}
+
               {/* Timestamp Information - only show after user has changed settings */}
               {hasChangedNotif && taskInfo && (
                 <div className="space-y-2 rounded-md bg-muted p-3 text-xs">
@@ -623,7 +807,7 @@ export function LinkedAccountsDialog({
                     <div className="flex items-center justify-between">
                       <span className="text-muted-foreground">Last Run:</span>
                       <span className="font-medium">
-                        {new Date(taskInfo.lastRunAt).toLocaleString()}
+                        {formatRunTime(taskInfo.lastRunAt, taskInfo.timezone)}
                       </span>
                     </div>
                   )}
@@ -632,7 +816,7 @@ export function LinkedAccountsDialog({
                       <div className="flex items-center justify-between">
                         <span className="text-muted-foreground">Next Run:</span>
                         <span className="font-medium">
-                          {new Date(taskInfo.nextRunAt).toLocaleString()}
+                          {formatRunTime(taskInfo.nextRunAt, taskInfo.timezone)}
                         </span>
                       </div>
                       <div className="flex items-center justify-between">
@@ -648,15 +832,21 @@ export function LinkedAccountsDialog({
                 </div>
               )}
 
-              {notifSettings.interval === "daily" && notifSettings.enabled && (
-                <div className="rounded-md bg-blue-50 dark:bg-blue-950 p-3 text-xs text-blue-900 dark:text-blue-100">
-                  Daily messages will be sent at approximately the same time
-                  each day
-                </div>
-              )}
+              {(notifSettings.interval === "daily" ||
+                notifSettings.interval === "weekdays" ||
+                notifSettings.interval === "custom") &&
+                notifSettings.enabled && (
+                  <div className="rounded-md bg-blue-50 dark:bg-blue-950 p-3 text-xs text-blue-900 dark:text-blue-100">
+                    Messages follow your local clock, including daylight saving
+                    changes
+                  </div>
+                )}
             </div>
           )}
 
+          {/* Quiet hours and snooze for proactive messages */}
+          <QuietHoursSection />
+
           {/* Stats Section */}
           {stats && (
             <div className="space-y-3 rounded-lg border p-4">
@@ -0,0 +1,265 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Check, Copy, KeyRound, Loader2, Trash2 } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import type { McpScope } from "@/lib/mcp-auth";
+import type { PersonalAccessTokenSummary } from "@/lib/personal-access-tokens";
+
+const SCOPE_OPTIONS: Array<{ value: McpScope; label: string }> = [
+  { value: "read:user-context", label: "Read context" },
+  { value: "write:user-context", label: "Write context" },
+  { value: "calendar:read", label: "Read calendar" },
+  { value: "calendar:write", label: "Write calendar" },
+  { value: "tasks:read", label: "Read tasks" },
+  { value: "tasks:write", label: "Write tasks" },
+];
+
+const EXPIRY_OPTIONS = [
+  { value: "30", label: "30 days" },
+  { value: "90", label: "90 days" },
+  { value: "365", label: "1 year" },
+  { value: "never", label: "No expiry" },
+];
+
+const authHeaders = () => ({
+  Authorization: `Bearer ${localStorage.getItem("telegram-token")}`,
+});
+
+export function PersonalAccessTokensSection() {
+  const [tokens, setTokens] = useState<PersonalAccessTokenSummary[]>([]);
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<McpScope[]>(["read:user-context"]);
+  const [expiry, setExpiry] = useState("90");
+  const [creating, setCreating] = useState(false);
+  const [newToken, setNewToken] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const { toast } = useToast();
+
+  const fetchTokens = useCallback(async () => {
+    try {
+      const response = await fetch("/api/user/tokens", {
+        headers: authHeaders(),
+      });
+      if (response.ok) {
+        const data = await response.json();
+        setTokens(data.tokens || []);
+      }
+    } catch (error) {
+      console.error("Failed to fetch tokens:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchTokens();
+  }, [fetchTokens]);
+
+  const toggleScope = (scope: McpScope, enabled: boolean) => {
+    setScopes((prev) =>
+      enabled ? [...prev, scope] : prev.filter((value) => value !== scope)
+    );
+  };
+
+  const handleCreate = async () => {
+    setCreating(true);
+    try {
+      const response = await fetch("/api/user/tokens", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...authHeaders() },
+        body: JSON.stringify({
+          name: name.trim(),
+          scopes,
+          expiresInDays: expiry === "never" ? null : Number(expiry),
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        toast({
+          title: "Error",
+          description: data.error || "Failed to create token",
+          variant: "destructive",
+        });
+        return;
+      }
+      setNewToken(data.token);
+      setName("");
+      await fetchTokens();
+    } catch (error) {
+      console.error("Failed to create token:", error);
+      toast({
+        title: "Error",
+        description: "Failed to create token",
+        variant: "destructive",
+      });
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleRevoke = async (tokenId: string) => {
+    try {
+      const response = await fetch(
+        `/api/user/tokens?id=${encodeURIComponent(tokenId)}`,
+        { method: "DELETE", headers: authHeaders() }
+      );
+      if (response.ok) {
+        setTokens((prev) => prev.filter((token) => token.id !== tokenId));
+        toast({ title: "Success", description: "Token revoked" });
+      } else {
+        toast({
+          title: "Error",
+          description: "Failed to revoke token",
+          variant: "destructive",
+        });
+      }
+    } catch (error) {
+      console.error("Failed to revoke token:", error);
+    }
+  };
+
+  const handleCopyToken = async () => {
+    if (!newToken) return;
+    await navigator.clipboard.writeText(newToken);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className="space-y-3 rounded-lg border p-4">
+      <div className="flex items-center gap-3">
+        <div className="flex h-10 w-10 items-center justify-center rounded-full bg-slate-100 dark:bg-slate-800">
+          <KeyRound className="h-5 w-5 text-slate-600 dark:text-slate-300" />
+        </div>
+        <div>
+          <p className="font-medium">Access Tokens</p>
+          <p className="text-sm text-muted-foreground">
+            Connect scripts and other agents to your data via MCP
+          </p>
+        </div>
+      </div>
+
+      {newToken && (
+        <div className="space-y-2 rounded-md bg-green-50 p-3 text-xs dark:bg-green-950">
+          <p className="text-green-900 dark:text-green-100">
+            Copy your new token now. It won&apos;t be shown again.
+          </p>
+          <div className="flex gap-2">
+            <Input value={newToken} readOnly className="font-mono text-xs" />
+            <Button
+              size="icon"
+              variant="outline"
+              onClick={handleCopyToken}
+              className="shrink-0"
+            >
+              {copied ? (
+                <Check className="h-4 w-4 text-green-600" />
+              ) : (
+                <Copy className="h-4 w-4" />
+              )}
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {tokens.length > 0 && (
+        <div className="space-y-2">
+          {tokens.map((token) => (
+            <div
+              key={token.id}
+              className="flex items-start justify-between gap-2 rounded-md bg-muted p-2 text-xs"
+            >
+              <div className="min-w-0 space-y-0.5">
+                <p className="truncate text-sm font-medium">
+                  {token.name}{" "}
+                  <span className="font-mono text-muted-foreground">
+                    …{token.tokenHint}
+                  </span>
+                </p>
+                <p className="text-muted-foreground">{token.scopes.join(", ")}</p>
+                <p className="text-muted-foreground">
+                  {token.lastUsedAt
+                    ? `Last used ${new Date(token.lastUsedAt).toLocaleString()}`
+                    : "Never used"}
+                  {" · "}
+                  {token.expiresAt
+                    ? `Expires ${new Date(token.expiresAt).toLocaleDateString()}`
+                    : "No expiry"}
+                </p>
+              </div>
+              <Button
+                size="icon"
+                variant="ghost"
+                className="h-7 w-7 shrink-0"
+                onClick={() => handleRevoke(token.id)}
+              >
+                <Trash2 className="h-4 w-4 text-destructive" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-3 border-t pt-3">
+        <div className="space-y-2">
+          <Label htmlFor="token-name">New token name</Label>
+          <Input
+            id="token-name"
+            placeholder="e.g. Home automation script"
+            value={name}
+            onChange={(event) => setName(event.target.value)}
+          />
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+          {SCOPE_OPTIONS.map((option) => (
+            <label
+              key={option.value}
+              className="flex items-center justify-between gap-2 text-xs"
+            >
+              {option.label}
+              <Switch
+                checked={scopes.includes(option.value)}
+                onCheckedChange={(checked) => toggleScope(option.value, checked)}
+              />
+            </label>
+          ))}
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="token-expiry">Expiration</Label>
+          <Select value={expiry} onValueChange={setExpiry}>
+            <SelectTrigger id="token-expiry">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {EXPIRY_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <Button
+          size="sm"
+          className="w-full"
+          onClick={handleCreate}
+          disabled={creating || !name.trim() || scopes.length === 0}
+        >
+          {creating && <Loader2 className="mr-1 h-3 w-3 animate-spin" />}
+          Create token
+        </Button>
+      </div>
+    </div>
+  );
+}
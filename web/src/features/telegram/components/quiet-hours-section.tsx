@@ -0,0 +1,268 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { BellOff } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import type { TimeWindow, WeekendRule } from "@/lib/quiet-hours";
+
+interface QuietHoursState {
+  quietHours: TimeWindow | null;
+  workingHours: TimeWindow | null;
+  weekends: WeekendRule;
+  snoozedUntil: string | null;
+  timezone: string | null;
+}
+
+type QuietHoursUpdate = Partial<
+  Pick<QuietHoursState, "quietHours" | "workingHours" | "weekends">
+> & { snoozeHours?: number };
+
+const DEFAULT_QUIET_HOURS: TimeWindow = { start: "22:00", end: "07:00" };
+const DEFAULT_WORKING_HOURS: TimeWindow = { start: "09:00", end: "18:00" };
+
+const WEEKEND_OPTIONS: Array<{ value: WeekendRule; label: string }> = [
+  { value: "as_weekdays", label: "Same as weekdays" },
+  { value: "quiet_hours_only", label: "Ignore working hours" },
+  { value: "silent", label: "No messages" },
+];
+
+const SNOOZE_OPTIONS = [1, 2, 4, 8, 24];
+
+const authHeaders = () => ({
+  Authorization: `Bearer ${localStorage.getItem("telegram-token")}`,
+});
+
+interface WindowFieldProps {
+  id: string;
+  label: string;
+  window: TimeWindow | null;
+  fallback: TimeWindow;
+  onToggle: (window: TimeWindow | null) => void;
+  onChange: (window: TimeWindow) => void;
+  onCommit: () => void;
+}
+
+function WindowField({
+  id,
+  label,
+  window,
+  fallback,
+  onToggle,
+  onChange,
+  onCommit,
+}: WindowFieldProps) {
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label htmlFor={id}>{label}</Label>
+        <Switch
+          id={id}
+          checked={window !== null}
+          onCheckedChange={(checked) => onToggle(checked ? fallback : null)}
+        />
+      </div>
+      {window && (
+        <div className="flex items-center gap-2">
+          <Input
+            type="time"
+            value={window.start}
+            onChange={(event) =>
+              onChange({ ...window, start: event.target.value })
+            }
+            onBlur={onCommit}
+          />
+          <span className="text-sm text-muted-foreground">to</span>
+          <Input
+            type="time"
+            value={window.end}
+            onChange={(event) =>
+              onChange({ ...window, end: event.target.value })
+            }
+            onBlur={onCommit}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Quiet hours, working hours, weekend rules and snooze for proactive
+ * check-ins and reminders
+ */
+export function QuietHoursSection() {
+  const [settings, setSettings] = useState<QuietHoursState>();
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    const loadSettings = async () => {
+      try {
+        const response = await fetch("/api/user/quiet-hours", {
+          headers: authHeaders(),
+        });
+        if (response.ok) {
+          setSettings(await response.json());
+        }
+      } catch (error) {
+        console.error("Failed to fetch quiet hours:", error);
+      }
+    };
+    loadSettings();
+  }, []);
+
+  const save = async (update: QuietHoursUpdate) => {
+    setSaving(true);
+    try {
+      const response = await fetch("/api/user/quiet-hours", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...authHeaders() },
+        body: JSON.stringify(update),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || `Status ${response.status}`);
+      }
+      setSettings((prev) => prev && { ...prev, ...data });
+      toast({ title: "Success", description: "Quiet hours saved" });
+    } catch (error) {
+      console.error("Failed to update quiet hours:", error);
+      toast({
+        title: "Error",
+        description: "Failed to save quiet hours",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!settings) {
+    return null;
+  }
+
+  const snoozedUntil =
+    settings.snoozedUntil && new Date(settings.snoozedUntil) > new Date()
+      ? new Date(settings.snoozedUntil)
+      : null;
+
+  return (
+    <div className="space-y-4 rounded-lg border p-4">
+      <div className="flex items-center gap-3">
+        <div className="flex h-10 w-10 items-center justify-center rounded-full bg-indigo-100 dark:bg-indigo-900">
+          <BellOff className="h-5 w-5 text-indigo-600 dark:text-indigo-400" />
+        </div>
+        <div>
+          <p className="font-medium">Quiet Hours</p>
+          <p className="text-sm text-muted-foreground">
+            Check-ins and reminders that fall outside these times wait until the
+            next allowed time
+            {settings.timezone ? ` (${settings.timezone})` : ""}
+          </p>
+        </div>
+      </div>
+
+      <WindowField
+        id="quiet-hours"
+        label="Quiet hours"
+        window={settings.quietHours}
+        fallback={DEFAULT_QUIET_HOURS}
+        onToggle={(quietHours) => {
+          setSettings({ ...settings, quietHours });
+          save({ quietHours });
+        }}
+        onChange={(quietHours) => setSettings({ ...settings, quietHours })}
+        onCommit={() => save({ quietHours: settings.quietHours })}
+      />
+
+      <WindowField
+        id="working-hours"
+        label="Only during working hours"
+        window={settings.workingHours}
+        fallback={DEFAULT_WORKING_HOURS}
+        onToggle={(workingHours) => {
+          setSettings({ ...settings, workingHours });
+          save({ workingHours });
+        }}
+        onChange={(workingHours) => setSettings({ ...settings, workingHours })}
+        onCommit={() => save({ workingHours: settings.workingHours })}
+      />
+
+      <div className="space-y-2">
+        <Label htmlFor="weekend-rule">Weekends</Label>
+        <Select
+          value={settings.weekends}
+          onValueChange={(value) => {
+            const weekends = value as WeekendRule;
+            setSettings({ ...settings, weekends });
+            save({ weekends });
+          }}
+          disabled={saving}
+        >
+          <SelectTrigger id="weekend-rule">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {WEEKEND_OPTIONS.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="snooze">Snooze all messages</Label>
+        {snoozedUntil ? (
+          <div className="flex items-center justify-between gap-2 text-sm">
+            <span className="text-muted-foreground">
+              Snoozed until{" "}
+              {snoozedUntil.toLocaleString(undefined, {
+                timeZone: settings.timezone ?? undefined,
+                dateStyle: "medium",
+                timeStyle: "short",
+              })}
+            </span>
+            <Button
+              size="sm"
+              variant="outline"
+              disabled={saving}
+              onClick={() => save({ snoozeHours: 0 })}
+            >
+              Resume
+            </Button>
+          </div>
+        ) : (
+          <Select
+            onValueChange={(value) => save({ snoozeHours: Number(value) })}
+            disabled={saving}
+          >
+            <SelectTrigger id="snooze">
+              <SelectValue placeholder="Not snoozed" />
+            </SelectTrigger>
+            <SelectContent>
+              {SNOOZE_OPTIONS.map((hours) => (
+                <SelectItem key={hours} value={String(hours)}>
+                  For {hours} hour{hours === 1 ? "" : "s"}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+    </div>
+  );
+}
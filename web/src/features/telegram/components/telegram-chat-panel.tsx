@@ -8,7 +8,14 @@ import {
   useRef,
   useState,
 } from "react";
-import { Send, Loader2, Phone, PhoneOff, RefreshCw } from "lucide-react";
+import {
+  Send,
+  Loader2,
+  Phone,
+  PhoneOff,
+  RefreshCw,
+  Undo2,
+} from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import {
@@ -22,8 +29,13 @@ import type { StoredMessage } from "@/lib/conversations";
 import { TIER_PERMISSIONS, type UserProfile } from "@/types/user";
 import { useRealtimeAgent } from "@/features/chat/hooks/use-realtime-agent";
 import type { ChatMessage } from "@/features/chat/types";
+import { PendingApprovals } from "@/features/chat/components/pending-approvals";
+import { UserContextPanel } from "@/features/chat/components/user-context-panel";
+import { ConversationSearch } from "@/features/chat/components/conversation-search";
 import { TelegramWorkPlanPanel } from "./telegram-workplan";
 
+const getTelegramToken = () => localStorage.getItem("telegram-token");
+
 const DEFAULT_TICKER_CONTENT = {
   user: "",
   assistant: "",
@@ -35,7 +47,11 @@ const getToolShortName = (toolName: string): string => {
   const toolNameMap: Record<string, string> = {
     get_user_context: "📖 Read Context",
     update_user_context: "✏️ Update Context",
+    get_user_context_history: "🕘 Context History",
+    diff_user_context: "🔍 Compare Context",
+    rollback_user_context: "⏪ Roll Back Context",
     get_conversation_messages: "💬 Messages",
+    search_conversation: "🔎 Search Messages",
     "list-calendars": "📅 List Calendars",
     "list-events": "📅 List Events",
     "search-events": "🔍 Search Events",
@@ -50,6 +66,13 @@ const getToolShortName = (toolName: string): string => {
     "create_google_task_list": "⚒️ Create Task list",
     "insert_google_task": "✅ Insert Task",
     "update_google_task": "💾 Update a Task",
+    "complete_google_task": "☑️ Complete Task",
+    "delete_google_task": "🗑️ Delete Task",
+    "move_google_task": "↕️ Move Task",
+    "rename_google_task_list": "✏️ Rename Task list",
+    "delete_google_task_list": "🗑️ Delete Task list",
+    "undo_last_action": "↩️ Undo",
+    complete_workplan_step: "☑️ Plan Step",
   };
   return toolNameMap[toolName] || `🔧 ${toolName}`;
 };
@@ -78,6 +101,8 @@ export function TelegramChatPanel({
       status: "pending" | "success" | "error";
       error?: string;
       duration?: number;
+      undoActionId?: string;
+      undoneAt?: string;
       createdAt: string;
       updatedAt: string;
     }>
@@ -86,7 +111,11 @@ export function TelegramChatPanel({
     (typeof toolCallHistory)[0] | null
   >(null);
   const [isToolModalOpen, setIsToolModalOpen] = useState(false);
-  const [showWorkPlan, setShowWorkPlan] = useState(false);
+  const [isUndoing, setIsUndoing] = useState(false);
+  const [undoError, setUndoError] = useState<string | null>(null);
+  const [activeTab, setActiveTab] = useState<
+    "log" | "workplan" | "memory" | "search"
+  >("log");
   const scrollRef = useRef<HTMLDivElement>(null);
   const formRef = useRef<HTMLFormElement>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
@@ -274,6 +303,8 @@ export function TelegramChatPanel({
               status: "pending" | "success" | "error";
               error?: string;
               duration?: number;
+              undoActionId?: string;
+              undoneAt?: string;
               createdAt: string;
               updatedAt: string;
             };
@@ -288,6 +319,8 @@ export function TelegramChatPanel({
               status: call.status,
               error: call.error,
               duration: call.duration,
+              undoActionId: call.undoActionId,
+              undoneAt: call.undoneAt,
               createdAt: call.createdAt,
               updatedAt: call.updatedAt,
             }));
@@ -319,6 +352,42 @@ export function TelegramChatPanel({
     return () => {};
   }, [isLoading]);
 
+  const undoToolCall = useCallback(async (undoActionId: string) => {
+    setIsUndoing(true);
+    setUndoError(null);
+    try {
+      const token = localStorage.getItem("telegram-token");
+      const response = await fetch("/api/undo", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ actionId: undoActionId }),
+      });
+      const data = await response.json().catch(() => null);
+      if (!response.ok) {
+        setUndoError(data?.error || "Failed to undo the change");
+        return;
+      }
+
+      const undoneAt = data.action?.undoneAt ?? new Date().toISOString();
+      setToolCallHistory((prev) =>
+        prev.map((call) =>
+          call.undoActionId === undoActionId ? { ...call, undoneAt } : call
+        )
+      );
+      setSelectedTool((prev) =>
+        prev?.undoActionId === undoActionId ? { ...prev, undoneAt } : prev
+      );
+    } catch (err) {
+      console.error("Failed to undo tool call:", err);
+      setUndoError("Failed to undo the change");
+    } finally {
+      setIsUndoing(false);
+    }
+  }, []);
+
   const retryLastMessage = useCallback(() => {
     // Find last user message and resubmit it
     for (let index = messages.length - 1; index >= 0; index -= 1) {
@@ -348,7 +417,7 @@ export function TelegramChatPanel({
       userId: userId,
       source: "telegram-user",
     };
-    setShowWorkPlan(false)
+    setActiveTab("log")
     setMessages((prev) => [...prev, userMessage]);
     setInput("");
     setIsLoading(true);
@@ -369,6 +438,16 @@ export function TelegramChatPanel({
         }),
       });
 
+      if (response.status === 429) {
+        const data = await response.json().catch(() => null);
+        setError(
+          `You're sending messages too quickly. Try again in ${
+            data?.retryAfterSeconds ? Math.ceil(data.retryAfterSeconds / 60) : "a few"
+          } min.`
+        );
+        return;
+      }
+
       if (!response.ok) {
         console.log(response)
         throw new Error("Failed to send message");
@@ -530,6 +609,25 @@ export function TelegramChatPanel({
               </div>
             </div>
           )}
+          <PendingApprovals
+            getAuthToken={getTelegramToken}
+            refreshKey={messages.length}
+            onResolved={(content) =>
+              setMessages((prev) => [
+                ...prev,
+                {
+                  id: Date.now().toString() + "-assistant",
+                  content,
+                  role: "assistant",
+                  createdAt: new Date(),
+                  updatedAt: new Date(),
+                  type: "text",
+                  userId,
+                  source: "micromanager",
+                },
+              ])
+            }
+          />
           <form
             ref={formRef}
             onSubmit={handleSubmit}
@@ -572,19 +670,36 @@ export function TelegramChatPanel({
         <div className="pb-8">
           <div className='flex border rounded-lg overflow-hidden'>
             <Button
-              onClick={(e) => setShowWorkPlan(false)}
-              variant={!showWorkPlan ? "soft" : "ghost"}
+              onClick={() => setActiveTab("log")}
+              variant={activeTab === "log" ? "soft" : "ghost"}
               className="w-full rounded-none"
             >Chat log</Button>
             <Button
-              onClick={(e) => setShowWorkPlan(true)}
-              variant={showWorkPlan ? "soft" : "ghost"}
+              onClick={() => setActiveTab("workplan")}
+              variant={activeTab === "workplan" ? "soft" : "ghost"}
               className="w-full rounded-none"
             >Workplan</Button>
+            <Button
+              onClick={() => setActiveTab("memory")}
+              variant={activeTab === "memory" ? "soft" : "ghost"}
+              className="w-full rounded-none"
+            >Memory</Button>
+            <Button
+              onClick={() => setActiveTab("search")}
+              variant={activeTab === "search" ? "soft" : "ghost"}
+              className="w-full rounded-none"
+            >Search</Button>
           </div>
         </div>
-        {showWorkPlan 
+        {activeTab === "workplan"
           ? <TelegramWorkPlanPanel />
+          : activeTab === "memory"
+          ? <UserContextPanel
+              getAuthToken={getTelegramToken}
+              refreshKey={messages.length}
+            />
+          : activeTab === "search"
+          ? <ConversationSearch getAuthToken={getTelegramToken} />
           : <StatusTickerSection
               userText={lastUserMessage ?? DEFAULT_TICKER_CONTENT.user}
               assistantText={
@@ -606,7 +721,13 @@ export function TelegramChatPanel({
       
 
       {/* Tool Call Details Modal */}
-      <Dialog open={isToolModalOpen} onOpenChange={setIsToolModalOpen}>
+      <Dialog
+        open={isToolModalOpen}
+        onOpenChange={(open) => {
+          setIsToolModalOpen(open);
+          setUndoError(null);
+        }}
+      >
         <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle className="flex items-center gap-2">
@@ -673,6 +794,33 @@ export function TelegramChatPanel({
                 </div>
               )}
 
+              {/* Undo */}
+              {selectedTool.undoActionId && (
+                <div className="flex items-center justify-between gap-3 rounded border border-border/60 p-3">
+                  <p className="text-sm text-muted-foreground">
+                    {selectedTool.undoneAt
+                      ? `Undone ${new Date(selectedTool.undoneAt).toLocaleString()}`
+                      : undoError ?? "This change can be reverted."}
+                  </p>
+                  {!selectedTool.undoneAt && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={isUndoing}
+                      onClick={() => undoToolCall(selectedTool.undoActionId!)}
+                      className="gap-1.5"
+                    >
+                      {isUndoing ? (
+                        <Loader2 className="h-3 w-3 animate-spin" />
+                      ) : (
+                        <Undo2 className="h-3 w-3" />
+                      )}
+                      Undo
+                    </Button>
+                  )}
+                </div>
+              )}
+
               {/* Error */}
               {selectedTool.error && (
                 <div>
@@ -20,6 +20,10 @@ import { Input } from "@/components/ui/input";
 import {
     WorkplanStatus,
     WorkplanEntry,
+    WorkplanStepEntry,
+    WorkplanStepList,
+    saveWorkplanStep,
+    withStepDone,
     StatusBadge,
     formatEventDateRange,
     timeAgo,
@@ -27,6 +31,8 @@ import {
     normaliseRole,
     inferRoleFromEvent
 } from "@/features/workplan/components/workplan-panel"
+import { WorkplanVersionHistory } from "@/features/workplan/components/workplan-version-history";
+import { WorkplanExport } from "@/features/workplan/components/workplan-export";
 
 const UPCOMING_DAYS = 7;
 
@@ -180,6 +186,7 @@ export function TelegramWorkPlanPanel() {
   const [selectedId, setSelectedId] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [roleDrafts, setRoleDrafts] = useState<Record<string, string>>({});
+  const [togglingStepId, setTogglingStepId] = useState<string | null>(null);
 
   useEffect(() => {
     let cancelled = false;
@@ -305,7 +312,7 @@ export function TelegramWorkPlanPanel() {
       }
       const data = (await res.json()) as {
         event: WorkplanEntry["event"];
-        steps: string[];
+        steps: WorkplanStepEntry[];
         status: WorkplanStatus;
         lastGeneratedAt?: string;
         role?: string | null;
@@ -342,6 +349,26 @@ export function TelegramWorkPlanPanel() {
     }
   }
 
+  async function handleToggleStep(step: WorkplanStepEntry) {
+    if (!selected) return;
+    const eventId = selected.event.id;
+    const setDone = (done: boolean) =>
+      setWorkplans((prev) => withStepDone(prev, eventId, step.id, done));
+
+    setDone(!step.done);
+    if (selected.example) return;
+    setTogglingStepId(step.id);
+    try {
+      await saveWorkplanStep(eventId, step.id, !step.done);
+    } catch (err) {
+      console.error("[WorkplanPanel] Step update error:", err);
+      setDone(step.done);
+      setError("Unable to update that step right now. Try again later.");
+    } finally {
+      setTogglingStepId(null);
+    }
+  }
+
   const selectedContent = selected ? (
     <>
       <div className="flex flex-wrap items-start justify-between gap-4">
@@ -390,24 +417,57 @@ export function TelegramWorkPlanPanel() {
       </div>
 
       <div className="space-y-3">
-        <h4 className="text-sm font-semibold uppercase tracking-wide text-muted-foreground/80">
-          Planned Steps
-        </h4>
+        <div className="flex items-center justify-between gap-2">
+          <h4 className="text-sm font-semibold uppercase tracking-wide text-muted-foreground/80">
+            Planned Steps
+          </h4>
+          {!selected.example && selected.steps.length > 0 && (
+            <WorkplanExport
+              key={selected.event.id}
+              eventId={selected.event.id}
+              steps={selected.steps}
+              onStepsChange={(steps) =>
+                setWorkplans((prev) =>
+                  prev.map((item) =>
+                    item.event.id === selected.event.id
+                      ? { ...item, steps }
+                      : item
+                  )
+                )
+              }
+            />
+          )}
+        </div>
         {selected.steps.length === 0 ? (
           <div className="rounded-md border border-border/60 bg-muted/40 px-4 py-6 text-sm text-muted-foreground">
             No plan available yet. Try regenerating once the agent can reach your
             calendar.
           </div>
         ) : (
-          <ol className="list-decimal space-y-2 pl-5 text-sm text-foreground">
-            {selected.steps.map((step, index) => (
-              <li key={index} className="leading-relaxed">
-                {step}
-              </li>
-            ))}
-          </ol>
+          <WorkplanStepList
+            steps={selected.steps}
+            pendingStepId={togglingStepId}
+            onToggle={handleToggleStep}
+          />
         )}
       </div>
+
+      {!selected.example && (
+        <WorkplanVersionHistory
+          key={selected.event.id}
+          eventId={selected.event.id}
+          refreshKey={selected.lastGeneratedAt}
+          onRestored={(plan) =>
+            setWorkplans((prev) =>
+              prev.map((item) =>
+                item.event.id === selected.event.id
+                  ? { ...item, ...plan, error: undefined }
+                  : item
+              )
+            )
+          }
+        />
+      )}
     </>
   ) : (
     <div className="flex h-full flex-col items-center justify-center gap-3 text-sm text-muted-foreground">
@@ -0,0 +1,276 @@
+"use client";
+
+import { useState } from "react";
+import { CalendarClock, ListTodo, Loader2, Share } from "lucide-react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import type { WorkplanStepEntry } from "@/features/workplan/components/workplan-panel";
+
+interface ProposedBlock {
+  stepId: string;
+  start: string;
+  end: string;
+}
+
+interface WorkplanExportProps {
+  eventId: string;
+  steps: WorkplanStepEntry[];
+  onStepsChange: (steps: WorkplanStepEntry[]) => void;
+}
+
+async function postExport(body: Record<string, unknown>) {
+  const res = await fetch("/api/workplan/export", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  const data = await res.json();
+  if (!res.ok) {
+    throw new Error(data.error || `Export failed with status ${res.status}`);
+  }
+  return data;
+}
+
+const formatBlock = (block: ProposedBlock) => {
+  const start = new Date(block.start);
+  const end = new Date(block.end);
+  return `${start.toLocaleString(undefined, {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  })} – ${end.toLocaleTimeString(undefined, {
+    hour: "numeric",
+    minute: "2-digit",
+  })}`;
+};
+
+/**
+ * Button and dialog that send selected workplan steps to Google Tasks or
+ * book prep blocks for them before the event
+ */
+export function WorkplanExport({
+  eventId,
+  steps,
+  onStepsChange,
+}: WorkplanExportProps) {
+  const [open, setOpen] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [blocks, setBlocks] = useState<ProposedBlock[] | null>(null);
+  const [pending, setPending] = useState<"tasks" | "propose" | "book" | null>(
+    null
+  );
+
+  const openSteps = steps.filter((step) => !step.done);
+
+  function handleOpenChange(next: boolean) {
+    setOpen(next);
+    if (next) {
+      setSelectedIds(openSteps.map((step) => step.id));
+      setBlocks(null);
+    }
+  }
+
+  function toggleSelected(stepId: string) {
+    setBlocks(null);
+    setSelectedIds((prev) =>
+      prev.includes(stepId)
+        ? prev.filter((id) => id !== stepId)
+        : [...prev, stepId]
+    );
+  }
+
+  async function handleAddTasks() {
+    setPending("tasks");
+    try {
+      const data = await postExport({
+        action: "tasks",
+        eventId,
+        stepIds: selectedIds,
+      });
+      onStepsChange(data.steps);
+      toast.success("Steps added to Google Tasks");
+    } catch (error) {
+      console.error("[WorkplanExport] Tasks error:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Could not create tasks"
+      );
+    } finally {
+      setPending(null);
+    }
+  }
+
+  async function handleProposeBlocks() {
+    setPending("propose");
+    try {
+      const data = await postExport({
+        action: "propose_blocks",
+        eventId,
+        stepIds: selectedIds,
+      });
+      setBlocks(data.blocks);
+      if (data.blocks.length === 0) {
+        toast.info("No free time found before the event");
+      }
+    } catch (error) {
+      console.error("[WorkplanExport] Propose error:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Could not find prep time"
+      );
+    } finally {
+      setPending(null);
+    }
+  }
+
+  async function handleBookBlocks() {
+    if (!blocks) return;
+    setPending("book");
+    try {
+      const data = await postExport({
+        action: "book_blocks",
+        eventId,
+        blocks,
+      });
+      onStepsChange(data.steps);
+      setBlocks(null);
+      toast.success("Prep blocks added to your calendar");
+    } catch (error) {
+      console.error("[WorkplanExport] Book error:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Could not book prep blocks"
+      );
+    } finally {
+      setPending(null);
+    }
+  }
+
+  const stepText = (stepId: string) =>
+    steps.find((step) => step.id === stepId)?.text ?? "";
+
+  return (
+    <>
+      <Button
+        size="sm"
+        variant="outline"
+        className="gap-2"
+        disabled={openSteps.length === 0}
+        onClick={() => handleOpenChange(true)}
+      >
+        <Share className="h-4 w-4" />
+        Export steps
+      </Button>
+
+      <Dialog open={open} onOpenChange={handleOpenChange}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Export steps</DialogTitle>
+            <DialogDescription>
+              Add steps to Google Tasks, due by the event, or block time in your
+              calendar to work on them. Checking a step off here or in Google
+              Tasks updates the other.
+            </DialogDescription>
+          </DialogHeader>
+
+          <ul className="max-h-64 space-y-2 overflow-y-auto text-sm">
+            {openSteps.map((step) => (
+              <li key={step.id}>
+                <label className="flex cursor-pointer items-start gap-3">
+                  <input
+                    type="checkbox"
+                    checked={selectedIds.includes(step.id)}
+                    onChange={() => toggleSelected(step.id)}
+                    className="mt-1 h-4 w-4 shrink-0 accent-primary"
+                  />
+                  <span className="flex flex-1 items-center gap-2">
+                    {step.text}
+                    {step.taskId && (
+                      <ListTodo
+                        className="h-3 w-3 text-muted-foreground"
+                        aria-label="In Google Tasks"
+                      />
+                    )}
+                    {step.calendarEventId && (
+                      <CalendarClock
+                        className="h-3 w-3 text-muted-foreground"
+                        aria-label="Prep block booked"
+                      />
+                    )}
+                  </span>
+                </label>
+              </li>
+            ))}
+          </ul>
+
+          {blocks && blocks.length > 0 && (
+            <div className="space-y-2 rounded-xl border border-border/50 bg-muted/20 px-3 py-2 text-sm">
+              <p className="font-medium">Proposed prep blocks</p>
+              <ul className="space-y-1 text-xs">
+                {blocks.map((block) => (
+                  <li key={block.stepId}>
+                    <span className="text-muted-foreground">
+                      {formatBlock(block)}
+                    </span>{" "}
+                    {stepText(block.stepId)}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <DialogFooter className="gap-2 sm:gap-0">
+            <Button
+              variant="outline"
+              className="gap-2"
+              disabled={selectedIds.length === 0 || pending !== null}
+              onClick={() => void handleAddTasks()}
+            >
+              {pending === "tasks" ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : (
+                <ListTodo className="h-4 w-4" />
+              )}
+              Add as tasks
+            </Button>
+            {blocks && blocks.length > 0 ? (
+              <Button
+                className="gap-2"
+                disabled={pending !== null}
+                onClick={() => void handleBookBlocks()}
+              >
+                {pending === "book" ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                  <CalendarClock className="h-4 w-4" />
+                )}
+                Book {blocks.length} block{blocks.length === 1 ? "" : "s"}
+              </Button>
+            ) : (
+              <Button
+                className="gap-2"
+                disabled={selectedIds.length === 0 || pending !== null}
+                onClick={() => void handleProposeBlocks()}
+              >
+                {pending === "propose" ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                  <CalendarClock className="h-4 w-4" />
+                )}
+                Find prep time
+              </Button>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -9,6 +9,8 @@ import {
   RefreshCw,
   AlertCircle,
   CheckCircle2,
+  ListTodo,
+  CalendarClock,
 } from "lucide-react";
 
 import { Button } from "@/components/ui/button";
@@ -18,9 +20,24 @@ import { Badge } from "@/components/ui/badge";
 import { cn } from "@/lib/utils";
 import { WORKPLAN_DEFAULT_EVENT_LIMIT } from "@/lib/constants";
 import { Input } from "@/components/ui/input";
+import { WorkplanVersionHistory } from "@/features/workplan/components/workplan-version-history";
+import { WorkplanExport } from "@/features/workplan/components/workplan-export";
 
 export type WorkplanStatus = "ready" | "stale" | "error";
 
+export type WorkplanStepEntry = {
+  id: string;
+  text: string;
+  done: boolean;
+  doneAt?: string | null;
+  estimatedMinutes?: number | null;
+  dueOffsetMinutes?: number | null;
+  // Set once the step was exported to Google Tasks or booked as a prep block
+  taskId?: string;
+  tasklistId?: string;
+  calendarEventId?: string;
+};
+
 export type WorkplanEntry = {
   event: {
     id: string;
@@ -30,12 +47,14 @@ export type WorkplanEntry = {
     location?: string | null;
     description?: string | null;
   };
-  steps: string[];
+  steps: WorkplanStepEntry[];
   status: WorkplanStatus;
   lastGeneratedAt?: string;
   error?: string;
   source?: string | null;
   role?: string | null;
+  // Example plans shown when no real ones load; they are never saved
+  example?: boolean;
 };
 
 const UPCOMING_DAYS = 7;
@@ -47,6 +66,7 @@ export function WorkPlanPanel() {
   const [selectedId, setSelectedId] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [roleDrafts, setRoleDrafts] = useState<Record<string, string>>({});
+  const [togglingStepId, setTogglingStepId] = useState<string | null>(null);
 
   useEffect(() => {
     let cancelled = false;
@@ -172,7 +192,7 @@ export function WorkPlanPanel() {
       }
       const data = (await res.json()) as {
         event: WorkplanEntry["event"];
-        steps: string[];
+        steps: WorkplanStepEntry[];
         status: WorkplanStatus;
         lastGeneratedAt?: string;
         role?: string | null;
@@ -209,6 +229,26 @@ export function WorkPlanPanel() {
     }
   }
 
+  async function handleToggleStep(step: WorkplanStepEntry) {
+    if (!selected) return;
+    const eventId = selected.event.id;
+    const setDone = (done: boolean) =>
+      setWorkplans((prev) => withStepDone(prev, eventId, step.id, done));
+
+    setDone(!step.done);
+    if (selected.example) return;
+    setTogglingStepId(step.id);
+    try {
+      await saveWorkplanStep(eventId, step.id, !step.done);
+    } catch (err) {
+      console.error("[WorkplanPanel] Step update error:", err);
+      setDone(step.done);
+      setError("Unable to update that step right now. Try again later.");
+    } finally {
+      setTogglingStepId(null);
+    }
+  }
+
   const selectedContent = selected ? (
     <>
       <div className="flex flex-wrap items-start justify-between gap-4">
@@ -285,24 +325,57 @@ export function WorkPlanPanel() {
       </div>
 
       <div className="space-y-3">
-        <h4 className="text-sm font-semibold uppercase tracking-wide text-muted-foreground/80">
-          Planned Steps
-        </h4>
+        <div className="flex items-center justify-between gap-2">
+          <h4 className="text-sm font-semibold uppercase tracking-wide text-muted-foreground/80">
+            Planned Steps
+          </h4>
+          {!selected.example && selected.steps.length > 0 && (
+            <WorkplanExport
+              key={selected.event.id}
+              eventId={selected.event.id}
+              steps={selected.steps}
+              onStepsChange={(steps) =>
+                setWorkplans((prev) =>
+                  prev.map((item) =>
+                    item.event.id === selected.event.id
+                      ? { ...item, steps }
+                      : item
+                  )
+                )
+              }
+            />
+          )}
+        </div>
         {selected.steps.length === 0 ? (
           <div className="rounded-md border border-border/60 bg-muted/40 px-4 py-6 text-sm text-muted-foreground">
             No plan available yet. Try regenerating once the agent can reach your
             calendar.
           </div>
         ) : (
-          <ol className="list-decimal space-y-2 pl-5 text-sm text-foreground">
-            {selected.steps.map((step, index) => (
-              <li key={index} className="leading-relaxed">
-                {step}
-              </li>
-            ))}
-          </ol>
+          <WorkplanStepList
+            steps={selected.steps}
+            pendingStepId={togglingStepId}
+            onToggle={handleToggleStep}
+          />
         )}
       </div>
+
+      {!selected.example && (
+        <WorkplanVersionHistory
+          key={selected.event.id}
+          eventId={selected.event.id}
+          refreshKey={selected.lastGeneratedAt}
+          onRestored={(plan) =>
+            setWorkplans((prev) =>
+              prev.map((item) =>
+                item.event.id === selected.event.id
+                  ? { ...item, ...plan, error: undefined }
+                  : item
+              )
+            )
+          }
+        />
+      )}
     </>
   ) : (
     <div className="flex h-full flex-col items-center justify-center gap-3 text-sm text-muted-foreground">
@@ -427,6 +500,125 @@ export function StatusBadge({ status }: { status: WorkplanStatus }) {
   );
 }
 
+export function WorkplanStepList({
+  steps,
+  pendingStepId,
+  onToggle,
+}: {
+  steps: WorkplanStepEntry[];
+  pendingStepId?: string | null;
+  onToggle: (step: WorkplanStepEntry) => void;
+}) {
+  return (
+    <ol className="space-y-2 text-sm text-foreground">
+      {steps.map((step) => {
+        const timing = [
+          step.estimatedMinutes ? `~${formatMinutes(step.estimatedMinutes)}` : null,
+          typeof step.dueOffsetMinutes === "number"
+            ? formatDueOffset(step.dueOffsetMinutes)
+            : null,
+        ].filter(Boolean);
+        return (
+          <li key={step.id}>
+            <label className="flex cursor-pointer items-start gap-3">
+              <input
+                type="checkbox"
+                checked={step.done}
+                disabled={pendingStepId === step.id}
+                onChange={() => onToggle(step)}
+                className="mt-1 h-4 w-4 shrink-0 accent-primary"
+              />
+              <span className="flex flex-col">
+                <span
+                  className={cn(
+                    "leading-relaxed",
+                    step.done && "text-muted-foreground line-through"
+                  )}
+                >
+                  {step.text}
+                </span>
+                {(timing.length > 0 || step.taskId || step.calendarEventId) && (
+                  <span className="flex items-center gap-2 text-xs text-muted-foreground">
+                    {timing.join(" · ")}
+                    {step.taskId && (
+                      <ListTodo className="h-3 w-3" aria-label="In Google Tasks" />
+                    )}
+                    {step.calendarEventId && (
+                      <CalendarClock
+                        className="h-3 w-3"
+                        aria-label="Prep block booked"
+                      />
+                    )}
+                  </span>
+                )}
+              </span>
+            </label>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
+
+/**
+ * Persist a step's checkbox; throws when the server rejects the change
+ */
+export async function saveWorkplanStep(
+  eventId: string,
+  stepId: string,
+  done: boolean
+) {
+  const res = await fetch("/api/workplan/steps", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ eventId, stepId, done }),
+  });
+  if (!res.ok) {
+    throw new Error(`Step update failed with status ${res.status}`);
+  }
+}
+
+export function withStepDone(
+  workplans: WorkplanEntry[],
+  eventId: string,
+  stepId: string,
+  done: boolean
+): WorkplanEntry[] {
+  return workplans.map((item) =>
+    item.event.id === eventId
+      ? {
+          ...item,
+          steps: item.steps.map((step) =>
+            step.id === stepId
+              ? {
+                  ...step,
+                  done,
+                  doneAt: done ? new Date().toISOString() : null,
+                }
+              : step
+          ),
+        }
+      : item
+  );
+}
+
+function formatMinutes(minutes: number) {
+  const abs = Math.abs(minutes);
+  if (abs < 60) return `${abs} min`;
+  if (abs < 48 * 60) {
+    const hours = Math.round(abs / 6) / 10;
+    return `${hours} h`;
+  }
+  return `${Math.round(abs / (24 * 60))} days`;
+}
+
+function formatDueOffset(minutes: number) {
+  if (minutes === 0) return "at the start";
+  return minutes < 0
+    ? `${formatMinutes(minutes)} before`
+    : `${formatMinutes(minutes)} after start`;
+}
+
 export function formatEventDateRange(start: Date | null, end: Date | null) {
   if (!start && !end) {
     return "No time specified";
@@ -484,10 +676,15 @@ export function getMockWorkplans(): WorkplanEntry[] {
   const mocks = getMockEvents();
   return mocks.map((event) => ({
     event,
-    steps: generateMockPlan(event),
+    steps: generateMockPlan(event).map((text, index) => ({
+      id: `${event.id}-step-${index + 1}`,
+      text,
+      done: false,
+    })),
     status: "ready",
     lastGeneratedAt: new Date().toISOString(),
     role: "attendee",
+    example: true,
   }));
 }
 
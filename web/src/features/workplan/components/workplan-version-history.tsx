@@ -0,0 +1,208 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { ChevronDown, ChevronRight, History, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import type { WorkplanVersionTrigger } from "@/lib/workplans";
+import type { WorkplanEntry } from "@/features/workplan/components/workplan-panel";
+
+interface VersionEntry {
+  version: number;
+  trigger: WorkplanVersionTrigger;
+  source: "auto" | "manual";
+  restoredFrom: number | null;
+  createdAt: string;
+  steps: { id: string; text: string }[];
+  changes: { added: string[]; removed: string[] } | null;
+}
+
+type RestoredPlan = Pick<
+  WorkplanEntry,
+  "steps" | "status" | "lastGeneratedAt" | "source" | "role"
+>;
+
+const TRIGGER_LABELS: Record<WorkplanVersionTrigger, string> = {
+  created: "First plan",
+  event_changed: "Event changed",
+  stale: "Refreshed",
+  role_changed: "Role changed",
+  manual: "Manual",
+};
+
+interface WorkplanVersionHistoryProps {
+  eventId: string;
+  // Changes whenever the plan is regenerated, to pick up the new version
+  refreshKey?: unknown;
+  onRestored: (plan: RestoredPlan) => void;
+}
+
+/**
+ * Collapsible list of a workplan's earlier versions with what each one
+ * changed and a button to restore it
+ */
+export function WorkplanVersionHistory({
+  eventId,
+  refreshKey,
+  onRestored,
+}: WorkplanVersionHistoryProps) {
+  const [open, setOpen] = useState(false);
+  const [versions, setVersions] = useState<VersionEntry[] | null>(null);
+  const [current, setCurrent] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [restoring, setRestoring] = useState<number | null>(null);
+
+  const load = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const res = await fetch(
+        `/api/workplan/versions?eventId=${encodeURIComponent(eventId)}`,
+        { cache: "no-store" }
+      );
+      if (!res.ok) {
+        throw new Error(`Failed to load versions (status ${res.status})`);
+      }
+      const data = (await res.json()) as {
+        current: number | null;
+        versions: VersionEntry[];
+      };
+      setVersions(data.versions);
+      setCurrent(data.current);
+    } catch (error) {
+      console.error("[WorkplanVersionHistory] Load error:", error);
+      toast.error("Could not load plan history");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [eventId]);
+
+  useEffect(() => {
+    if (open) void load();
+  }, [open, load, refreshKey]);
+
+  async function handleRestore(version: number) {
+    setRestoring(version);
+    try {
+      const res = await fetch("/api/workplan/versions", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ eventId, version }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        toast.error(data.error || "Could not restore this version");
+        return;
+      }
+      onRestored(data);
+      toast.success(`Restored version ${version}`);
+      await load();
+    } catch (error) {
+      console.error("[WorkplanVersionHistory] Restore error:", error);
+      toast.error("Could not restore this version");
+    } finally {
+      setRestoring(null);
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <button
+        type="button"
+        className="flex items-center gap-1 text-sm font-semibold uppercase tracking-wide text-muted-foreground/80"
+        onClick={() => setOpen((prev) => !prev)}
+      >
+        {open ? (
+          <ChevronDown className="h-4 w-4" />
+        ) : (
+          <ChevronRight className="h-4 w-4" />
+        )}
+        <History className="h-4 w-4" />
+        Plan history
+      </button>
+
+      {open &&
+        (isLoading && !versions ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" /> Loading…
+          </div>
+        ) : !versions || versions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No earlier versions yet.
+          </p>
+        ) : (
+          <ol className="space-y-2">
+            {versions.map((entry) => (
+              <li
+                key={entry.version}
+                className="space-y-1 rounded-xl border border-border/50 bg-muted/20 px-3 py-2 text-sm"
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                    <span className="font-medium text-foreground">
+                      v{entry.version}
+                    </span>
+                    <Badge variant="secondary" className="text-[10px]">
+                      {TRIGGER_LABELS[entry.trigger] ?? entry.trigger}
+                    </Badge>
+                    {entry.restoredFrom !== null && (
+                      <span>restored from v{entry.restoredFrom}</span>
+                    )}
+                    <span>{new Date(entry.createdAt).toLocaleString()}</span>
+                  </div>
+                  {entry.version === current ? (
+                    <span className="text-xs text-muted-foreground">
+                      Current
+                    </span>
+                  ) : (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="h-7"
+                      disabled={restoring !== null}
+                      onClick={() => void handleRestore(entry.version)}
+                    >
+                      {restoring === entry.version ? (
+                        <Loader2 className="h-3 w-3 animate-spin" />
+                      ) : (
+                        "Restore"
+                      )}
+                    </Button>
+                  )}
+                </div>
+                {entry.changes ? (
+                  entry.changes.added.length + entry.changes.removed.length ===
+                  0 ? (
+                    <p className="text-xs text-muted-foreground">
+                      Same steps as the version before.
+                    </p>
+                  ) : (
+                    <ul className="space-y-0.5 text-xs">
+                      {entry.changes.added.map((text) => (
+                        <li key={`+${text}`} className="text-emerald-600">
+                          + {text}
+                        </li>
+                      ))}
+                      {entry.changes.removed.map((text) => (
+                        <li
+                          key={`-${text}`}
+                          className="text-destructive line-through"
+                        >
+                          − {text}
+                        </li>
+                      ))}
+                    </ul>
+                  )
+                ) : (
+                  <p className="text-xs text-muted-foreground">
+                    {entry.steps.length} steps
+                  </p>
+                )}
+              </li>
+            ))}
+          </ol>
+        ))}
+    </div>
+  );
+}
@@ -0,0 +1,476 @@
+import { Filter, ObjectId } from "mongodb";
+import { calendar_v3, google, tasks_v1 } from "googleapis";
+
+import { getMongoClient } from "@/lib/db";
+import type { McpToolContext } from "@/lib/mcp-instrumentation";
+import { logToolCall } from "@/lib/workflow-runs";
+
+const COLLECTION = "agent_actions";
+
+export interface TaskSnapshot {
+  id?: string;
+  title: string;
+  notes?: string;
+  due?: string;
+  status?: string;
+  parent?: string;
+  previous?: string; // sibling the task was placed after
+  subtasks?: TaskSnapshot[]; // deleted along with the task, in position order
+}
+
+/**
+ * Operation that reverses a write performed by an agent tool call
+ */
+export type InverseOperation =
+  | { type: "delete_task"; tasklistId: string; taskId: string }
+  | { type: "restore_task"; tasklistId: string; task: TaskSnapshot }
+  | { type: "patch_task"; tasklistId: string; taskId: string; task: TaskSnapshot }
+  | {
+      type: "move_task";
+      tasklistId: string; // list the task is in now
+      taskId: string;
+      parent?: string;
+      previous?: string;
+      destinationTasklistId?: string;
+    }
+  | { type: "delete_task_list"; tasklistId: string }
+  | { type: "rename_task_list"; tasklistId: string; title: string }
+  | { type: "restore_task_list"; title: string; tasks: TaskSnapshot[] }
+  | { type: "delete_event"; calendarId: string; eventId: string }
+  | {
+      type: "restore_event";
+      calendarId: string;
+      eventId: string;
+      event: calendar_v3.Schema$Event;
+    }
+  | {
+      type: "patch_event";
+      calendarId: string;
+      eventId: string;
+      event: calendar_v3.Schema$Event;
+    };
+
+export interface AgentAction {
+  _id?: ObjectId;
+  userId: string;
+  sessionId?: string; // WorkflowRun the tool call belongs to
+  toolCallId: string;
+  toolName: string;
+  description: string;
+  inverse: InverseOperation;
+  status: "applied" | "undone" | "undo_failed";
+  error?: string;
+  createdAt: Date;
+  undoneAt?: Date;
+}
+
+export interface AgentActionSummary {
+  id: string;
+  sessionId?: string;
+  toolCallId: string;
+  toolName: string;
+  description: string;
+  status: AgentAction["status"];
+  createdAt: string;
+  undoneAt?: string;
+}
+
+// Event fields restored by an undo; server-managed fields are left alone
+const RESTORABLE_EVENT_FIELDS = [
+  "summary",
+  "description",
+  "location",
+  "start",
+  "end",
+  "attendees",
+  "recurrence",
+  "reminders",
+  "colorId",
+  "transparency",
+  "visibility",
+] as const;
+
+async function getAgentActionsCollection() {
+  const client = await getMongoClient();
+  const col = client.db().collection<AgentAction>(COLLECTION);
+  await col.createIndex({ userId: 1, status: 1, createdAt: -1 });
+  await col.createIndex({ sessionId: 1 });
+  await col.createIndex({ toolCallId: 1 });
+  return col;
+}
+
+export function toAgentActionSummary(action: AgentAction): AgentActionSummary {
+  return {
+    id: action._id!.toString(),
+    sessionId: action.sessionId,
+    toolCallId: action.toolCallId,
+    toolName: action.toolName,
+    description: action.description,
+    status: action.status,
+    createdAt: action.createdAt.toISOString(),
+    undoneAt: action.undoneAt?.toISOString(),
+  };
+}
+
+const googleClientsFor = (accessToken: string) => {
+  const oAuth2Client = new google.auth.OAuth2();
+  oAuth2Client.setCredentials({ access_token: accessToken });
+  return {
+    tasks: google.tasks({ version: "v1", auth: oAuth2Client }),
+    calendar: google.calendar({ version: "v3", auth: oAuth2Client }),
+  };
+};
+
+const toTaskSnapshot = (task: tasks_v1.Schema$Task): TaskSnapshot => ({
+  id: task.id ?? undefined,
+  title: task.title ?? "",
+  notes: task.notes ?? undefined,
+  due: task.due ?? undefined,
+  status: task.status ?? undefined,
+  parent: task.parent ?? undefined,
+});
+
+const listAllTasks = async (
+  tasksClient: tasks_v1.Tasks,
+  tasklistId: string
+): Promise<tasks_v1.Schema$Task[]> => {
+  const tasks: tasks_v1.Schema$Task[] = [];
+  let pageToken: string | undefined = undefined;
+  do {
+    const page: { data: tasks_v1.Schema$Tasks } = await tasksClient.tasks.list({
+      tasklist: tasklistId,
+      showCompleted: true,
+      showHidden: true,
+      maxResults: 100,
+      pageToken,
+    });
+    tasks.push(...(page.data.items ?? []));
+    pageToken = page.data.nextPageToken ?? undefined;
+  } while (pageToken);
+  return tasks;
+};
+
+/**
+ * Current state of a task, including the sibling it sits after so moves can be
+ * reversed and its subtasks so a deletion can be
+ */
+export async function snapshotTask(
+  tasksClient: tasks_v1.Tasks,
+  tasklistId: string,
+  taskId: string
+): Promise<TaskSnapshot> {
+  const [task, allTasks] = await Promise.all([
+    tasksClient.tasks.get({ tasklist: tasklistId, task: taskId }),
+    listAllTasks(tasksClient, tasklistId),
+  ]);
+  const byPosition = (a: tasks_v1.Schema$Task, b: tasks_v1.Schema$Task) =>
+    (a.position ?? "").localeCompare(b.position ?? "");
+  const siblings = allTasks
+    .filter((item) => (item.parent ?? undefined) === (task.data.parent ?? undefined))
+    .sort(byPosition);
+  const index = siblings.findIndex((item) => item.id === taskId);
+  const subtasks = allTasks
+    .filter((item) => item.parent === taskId)
+    .sort(byPosition)
+    .map(toTaskSnapshot);
+  return {
+    ...toTaskSnapshot(task.data),
+    previous: index > 0 ? siblings[index - 1].id ?? undefined : undefined,
+    ...(subtasks.length > 0 && { subtasks }),
+  };
+}
+
+/**
+ * Title and tasks of a list, ordered by position, so a deleted list can be recreated
+ */
+export async function snapshotTaskList(
+  tasksClient: tasks_v1.Tasks,
+  tasklistId: string
+): Promise<{ title: string; tasks: TaskSnapshot[] }> {
+  const [taskList, allTasks] = await Promise.all([
+    tasksClient.tasklists.get({ tasklist: tasklistId }),
+    listAllTasks(tasksClient, tasklistId),
+  ]);
+  return {
+    title: taskList.data.title ?? "Untitled task list",
+    tasks: allTasks
+      .sort((a, b) => (a.position ?? "").localeCompare(b.position ?? ""))
+      .map(toTaskSnapshot),
+  };
+}
+
+/**
+ * Restorable fields of an event. Unset fields are kept as null, so patching the
+ * snapshot back also clears anything an update added.
+ */
+export async function snapshotEvent(
+  calendarClient: calendar_v3.Calendar,
+  calendarId: string,
+  eventId: string
+): Promise<calendar_v3.Schema$Event> {
+  const response = await calendarClient.events.get({ calendarId, eventId });
+  return Object.fromEntries(
+    RESTORABLE_EVENT_FIELDS.map((field) => [field, response.data[field] ?? null])
+  );
+}
+
+/**
+ * Find the ID of an event created by the calendar MCP handler in its tool result
+ */
+export function extractEventId(result: unknown): string | undefined {
+  const content = (result as { content?: Array<{ type: string; text?: string }> })
+    ?.content;
+  for (const item of content ?? []) {
+    if (item.type !== "text" || !item.text) continue;
+    try {
+      const parsed = JSON.parse(item.text);
+      const id = parsed?.event?.id ?? parsed?.id;
+      if (typeof id === "string" && id) return id;
+    } catch {
+      // plain-text handler output
+    }
+    const match = item.text.match(/\bEvent ID:\s*([A-Za-z0-9_]+)/i);
+    if (match) return match[1];
+  }
+  return undefined;
+}
+
+/**
+ * Store how to reverse a tool call and flag the tool call as undoable.
+ * Failures are logged only; they never fail the tool call itself.
+ */
+export async function recordAgentAction(
+  context: Pick<McpToolContext, "userId" | "toolCallId" | "workflowRunId">,
+  toolName: string,
+  description: string,
+  inverse: InverseOperation
+): Promise<void> {
+  try {
+    const collection = await getAgentActionsCollection();
+    const result = await collection.insertOne({
+      userId: context.userId,
+      sessionId: context.workflowRunId,
+      toolCallId: context.toolCallId,
+      toolName,
+      description,
+      inverse,
+      status: "applied",
+      createdAt: new Date(),
+    });
+    if (context.workflowRunId) {
+      await logToolCall(context.workflowRunId, context.toolCallId, {
+        undoActionId: result.insertedId.toString(),
+      });
+    }
+  } catch (error) {
+    console.error(`[Agent Actions] Failed to record undo for ${toolName}:`, error);
+  }
+}
+
+export async function listAgentActions(
+  userId: string,
+  limit = 10
+): Promise<AgentAction[]> {
+  const collection = await getAgentActionsCollection();
+  return collection
+    .find({ userId })
+    .sort({ createdAt: -1 })
+    .limit(limit)
+    .toArray();
+}
+
+async function applyInverseOperation(
+  inverse: InverseOperation,
+  accessToken: string
+): Promise<void> {
+  const { tasks, calendar } = googleClientsFor(accessToken);
+
+  switch (inverse.type) {
+    case "delete_task":
+      await tasks.tasks.delete({
+        tasklist: inverse.tasklistId,
+        task: inverse.taskId,
+      });
+      return;
+    case "restore_task": {
+      const restored = await tasks.tasks.insert({
+        tasklist: inverse.tasklistId,
+        parent: inverse.task.parent,
+        previous: inverse.task.previous,
+        requestBody: {
+          title: inverse.task.title,
+          notes: inverse.task.notes,
+          due: inverse.task.due,
+          status: inverse.task.status,
+        },
+      });
+      // Inserting in reverse order without "previous" keeps the original order
+      for (const subtask of [...(inverse.task.subtasks ?? [])].reverse()) {
+        await tasks.tasks.insert({
+          tasklist: inverse.tasklistId,
+          parent: restored.data.id!,
+          requestBody: {
+            title: subtask.title,
+            notes: subtask.notes,
+            due: subtask.due,
+            status: subtask.status,
+          },
+        });
+      }
+      return;
+    }
+    case "patch_task":
+      await tasks.tasks.patch({
+        tasklist: inverse.tasklistId,
+        task: inverse.taskId,
+        requestBody: {
+          title: inverse.task.title,
+          notes: inverse.task.notes ?? null,
+          due: inverse.task.due ?? null,
+          status: inverse.task.status,
+          // Reopened tasks must not stay hidden by an earlier clear
+          ...(inverse.task.status === "needsAction" ? { hidden: false } : {}),
+        },
+      });
+      return;
+    case "move_task":
+      await tasks.tasks.move({
+        tasklist: inverse.tasklistId,
+        task: inverse.taskId,
+        parent: inverse.parent,
+        previous: inverse.previous,
+        destinationTasklist: inverse.destinationTasklistId,
+      });
+      return;
+    case "delete_task_list":
+      await tasks.tasklists.delete({ tasklist: inverse.tasklistId });
+      return;
+    case "rename_task_list":
+      await tasks.tasklists.patch({
+        tasklist: inverse.tasklistId,
+        requestBody: { title: inverse.title },
+      });
+      return;
+    case "restore_task_list": {
+      const created = await tasks.tasklists.insert({
+        requestBody: { title: inverse.title },
+      });
+      const tasklistId = created.data.id!;
+      // Parents first; inserting in reverse order without "previous" keeps the original order
+      const newIds = new Map<string, string>();
+      const topLevel = inverse.tasks.filter((task) => !task.parent);
+      const subtasks = inverse.tasks.filter((task) => task.parent);
+      for (const task of [...topLevel.reverse(), ...subtasks.reverse()]) {
+        const parent = task.parent ? newIds.get(task.parent) : undefined;
+        if (task.parent && !parent) continue;
+        const inserted = await tasks.tasks.insert({
+          tasklist: tasklistId,
+          parent,
+          requestBody: {
+            title: task.title,
+            notes: task.notes,
+            due: task.due,
+            status: task.status,
+          },
+        });
+        if (task.id && inserted.data.id) newIds.set(task.id, inserted.data.id);
+      }
+      return;
+    }
+    case "delete_event":
+      await calendar.events.delete({
+        calendarId: inverse.calendarId,
+        eventId: inverse.eventId,
+      });
+      return;
+    case "restore_event":
+      // Deleted events stay cancelled for a while and can be revived under the same ID
+      try {
+        await calendar.events.patch({
+          calendarId: inverse.calendarId,
+          eventId: inverse.eventId,
+          requestBody: { ...inverse.event, status: "confirmed" },
+        });
+      } catch {
+        await calendar.events.insert({
+          calendarId: inverse.calendarId,
+          requestBody: Object.fromEntries(
+            Object.entries(inverse.event).filter(([, value]) => value != null)
+          ),
+        });
+      }
+      return;
+    case "patch_event":
+      await calendar.events.patch({
+        calendarId: inverse.calendarId,
+        eventId: inverse.eventId,
+        requestBody: inverse.event,
+      });
+      return;
+  }
+}
+
+const INVERSE_TYPES_BY_SCOPE: Record<string, InverseOperation["type"][]> = {
+  "tasks:write": [
+    "delete_task",
+    "restore_task",
+    "patch_task",
+    "move_task",
+    "delete_task_list",
+    "rename_task_list",
+    "restore_task_list",
+  ],
+  "calendar:write": ["delete_event", "restore_event", "patch_event"],
+};
+
+/**
+ * Replay the inverse of an agent action: the given one, or the user's latest
+ * not yet undone. With scopes, only actions those scopes may reverse are considered.
+ * Returns null when there is nothing to undo.
+ */
+export async function undoAgentAction(
+  userId: string,
+  accessToken: string,
+  options: { actionId?: string; scopes?: string[] } = {}
+): Promise<AgentAction | null> {
+  const { actionId, scopes } = options;
+  if (actionId && !ObjectId.isValid(actionId)) return null;
+  const collection = await getAgentActionsCollection();
+  const now = new Date();
+
+  const filter: Filter<AgentAction> = { userId, status: "applied" };
+  if (actionId) {
+    filter._id = new ObjectId(actionId);
+  }
+  if (scopes) {
+    filter["inverse.type"] = {
+      $in: scopes.flatMap((scope) => INVERSE_TYPES_BY_SCOPE[scope] ?? []),
+    };
+  }
+
+  // Claim first so concurrent undo requests can't replay the same action twice
+  const action = await collection.findOneAndUpdate(
+    filter,
+    { $set: { status: "undone", undoneAt: now } },
+    { sort: { createdAt: -1 }, returnDocument: "after" }
+  );
+  if (!action) return null;
+
+  try {
+    await applyInverseOperation(action.inverse, accessToken);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    await collection.updateOne(
+      { _id: action._id },
+      { $set: { status: "undo_failed", error: message }, $unset: { undoneAt: "" } }
+    );
+    throw error;
+  }
+
+  if (action.sessionId) {
+    await logToolCall(action.sessionId, action.toolCallId, {
+      undoneAt: now,
+    }).catch((err) => console.error("Failed to log undo on tool call:", err));
+  }
+  return action;
+}
@@ -1,3 +1,5 @@
+import { z } from "zod";
+
 import { getRecentMessages } from "../conversations";
 import { UserContextDocument } from "../user-context";
 
@@ -21,3 +23,92 @@ export function formatMicromanagerChatPrompt({
   ${userMessage}
   `;
 }
+
+export type PromptArgsShape = Record<string, z.ZodString | z.ZodOptional<z.ZodString>>;
+
+export interface PromptTemplate<Shape extends PromptArgsShape> {
+  title: string;
+  description: string;
+  argsSchema: Shape;
+  render(args: z.objectOutputType<Shape, z.ZodTypeAny>): string;
+}
+
+const definePromptTemplate = <Shape extends PromptArgsShape>(
+  template: PromptTemplate<Shape>
+) => template;
+
+const toDateOnly = (date: Date) => date.toISOString().slice(0, 10);
+
+/**
+ * Canonical workflow prompts, shared by the cron/notification routes and
+ * exposed to external clients through MCP prompts/list and prompts/get
+ */
+export const PROMPT_TEMPLATES = {
+  daily_check_in: definePromptTemplate({
+    title: "Daily check-in",
+    description: "Proactive daily check-in that reviews the user's context",
+    argsSchema: {
+      userName: z.string().optional().describe("Name to address the user by"),
+    },
+    render: ({ userName }) =>
+      [
+        "This is your daily check-in. Review and update my context and send me a brief, personalized message. Ask about my plans or offer helpful suggestions.",
+        userName ? `Address me as ${userName}.` : null,
+      ]
+        .filter(Boolean)
+        .join(" "),
+  }),
+  weekly_review: definePromptTemplate({
+    title: "Weekly review",
+    description: "Review of calendar events, tasks and context over a date range",
+    argsSchema: {
+      startDate: z
+        .string()
+        .optional()
+        .describe("First day of the review (YYYY-MM-DD, default: 7 days ago)"),
+      endDate: z
+        .string()
+        .optional()
+        .describe("Last day of the review (YYYY-MM-DD, default: today)"),
+    },
+    render: ({ startDate, endDate }) => {
+      const end = endDate ?? toDateOnly(new Date());
+      const start =
+        startDate ??
+        toDateOnly(new Date(Date.now() - 6 * 24 * 60 * 60 * 1000));
+      return `This is my weekly review for ${start} to ${end}. Review my calendar events, Google Tasks and context for that period. Summarize what got done, flag anything that slipped or is overdue, and suggest priorities for the coming week. Keep it brief.`;
+    },
+  }),
+  event_prep: definePromptTemplate({
+    title: "Event preparation",
+    description: "Preparation checklist for a specific calendar event",
+    argsSchema: {
+      eventId: z.string().describe("Calendar event ID"),
+      eventTitle: z.string().optional().describe("Event title, if known"),
+    },
+    render: ({ eventId, eventTitle }) =>
+      `Help me prepare for the calendar event ${
+        eventTitle ? `"${eventTitle}" ` : ""
+      }(event ID: ${eventId}). Load its workplan with get_workplans using this eventId, regenerate it with update_workplan if it is missing or outdated, and send me a short checklist of what to do before the event starts.`,
+  }),
+  notification_trigger: definePromptTemplate({
+    title: "Notification settings changed",
+    description: "Confirmation message after the user changes notification settings",
+    argsSchema: {},
+    render: () =>
+      "Send a notification triggered by the user changing their notification settings. Review my context and send me a brief, personalized message.",
+  }),
+  first_load_greeting: definePromptTemplate({
+    title: "First-load greeting",
+    description: "Personalized introduction for a user's first login",
+    argsSchema: {
+      userName: z.string().optional().describe("Name of the new user"),
+    },
+    render: ({ userName }) =>
+      `${
+        userName ? `User "${userName}"` : "The user"
+      } logged in for the first time. Write a personalized introduction message as their micromanager assistant. Be warm, brief, and engaging.`,
+  }),
+};
+
+export type PromptTemplateName = keyof typeof PROMPT_TEMPLATES;
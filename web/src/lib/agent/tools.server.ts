@@ -1,13 +1,11 @@
 import { Tool } from "@openai/agents";
 import { micromanagerMCP } from "./tools";
 import { generateMcpToken } from "../mcp-auth";
-import { getGoogleAccessToken } from "../google-tokens";
 
 export const getBackendTools = async (userId: string) => {
   console.log("Registering backend tools for", userId);
 
-  const googleAccessToken = (await getGoogleAccessToken(userId)) ?? undefined;
-  const mcpAuthToken = await generateMcpToken(userId, googleAccessToken);
+  const mcpAuthToken = await generateMcpToken(userId);
 
   const tools: Tool[] = [
     micromanagerMCP(mcpAuthToken),
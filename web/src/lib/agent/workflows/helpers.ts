@@ -1,11 +1,8 @@
-import { getGoogleAccessToken } from "@/lib/google-tokens";
 import { generateMcpToken } from "@/lib/mcp-auth";
 
 export const getHostedMcpParams = async (userId: string, workflowRunId?: string) => {
-  const googleAccessToken = await getGoogleAccessToken(userId);
   const mcpToken = await generateMcpToken(
     userId,
-    googleAccessToken ?? undefined,
     undefined, // scopes
     workflowRunId
   );
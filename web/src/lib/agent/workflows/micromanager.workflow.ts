@@ -3,17 +3,40 @@ import {
   Agent,
   AgentInputItem,
   Runner,
+  RunResult,
+  RunState,
   user,
-  assistant,
+  system,
 } from "@openai/agents";
 import { getHostedMcpParams } from "./helpers";
 import { logUsage, calculateCost } from "@/lib/usage-tracking";
 import type { UsageLog } from "@/lib/usage-tracking";
 import { createWorkflowRun, updateWorkflowRun } from "@/lib/workflow-runs";
 import { ObjectId } from "mongodb";
+import { after } from "next/server";
 import { MODELS } from "@/lib/utils";
-import { getRecentMessages } from "@/lib/conversations";
+import { insertMessage } from "@/lib/conversations";
+import {
+  formatSummariesForPrompt,
+  getRelevantSummaries,
+  summarizeOlderMessages,
+} from "@/lib/conversation-summaries";
+import { buildConversationHistory } from "@/lib/conversation-history";
+import { CONVERSATION_SUMMARY_TOKEN_BUDGET } from "@/lib/constants";
 import { McpToolName } from "@/app/mcp/route";
+import {
+  ApprovalPolicy,
+  createPendingApproval,
+  describeApprovalAction,
+  DESTRUCTIVE_TOOLS,
+  getApprovalPolicy,
+  PendingApproval,
+  PendingApprovalAction,
+} from "@/lib/approvals";
+import {
+  notifyTelegramUser,
+  sendTelegramApprovalRequest,
+} from "@/lib/telegram/bot";
 
 type WorkflowInput = {
   input_as_text: string;
@@ -23,55 +46,114 @@ type WorkflowInput = {
   model?: string;
 };
 
-// Main code entrypoint
-export const runWorkflow = async (workflow: WorkflowInput) => {
-  const usageTaskType = workflow.usageTaskType ?? "workflow";
-  const source = workflow.source ?? "api";
-  const modelName = workflow.model ?? MODELS.text;
-  const startTime = Date.now();
-  const estimatedInputTokens = Math.ceil(workflow.input_as_text.length / 4);
-  const sessionId = new ObjectId().toString(); // Unique session for this workflow run
-
-  const safeLogUsage = async (
-    log: Omit<UsageLog, "_id" | "createdAt">
-  ): Promise<void> => {
-    try {
-      await logUsage(log);
-    } catch (error) {
-      console.error("Failed to log usage:", error);
-    }
-  };
+export type WorkflowResult = {
+  output_text: string;
+  error?: boolean;
+  errorMessage?: string;
+  approvalId?: string; // set when the run paused for user approval
+};
+
+type WorkflowRunContext = {
+  userId: string;
+  sessionId: string;
+  source: NonNullable<UsageLog["source"]>;
+  usageTaskType: UsageLog["taskType"];
+  modelName: string;
+  startTime: number;
+  estimatedInputTokens: number;
+};
+
+const MICROMANAGER_TOOLS: McpToolName[] = [
+  "get_user_context",
+  "update_user_context",
+  "get_user_context_history",
+  "diff_user_context",
+  "rollback_user_context",
+  "get_conversation_messages",
+  "search_conversation",
+  "list-calendars",
+  "list-events",
+  "search-events",
+  "get-event",
+  "list-colors",
+  "create-event",
+  "update-event",
+  "delete-event",
+  "get-freebusy",
+  "get-current-time",
+  "get_google_task_lists",
+  "get_google_tasks",
+  "create_google_task_list",
+  "insert_google_task",
+  "update_google_task",
+  "complete_google_task",
+  "delete_google_task",
+  "move_google_task",
+  "rename_google_task_list",
+  "delete_google_task_list",
+  "undo_last_action",
+  "get_workplans",
+  "update_workplan",
+  "complete_workplan_step",
+];
+
+const approvalSettings = (policy: ApprovalPolicy) => {
+  if (policy === "always") {
+    return { requireApproval: "always" as const };
+  }
+  if (policy === "destructive") {
+    return {
+      requireApproval: {
+        always: { toolNames: DESTRUCTIVE_TOOLS },
+        never: {
+          toolNames: MICROMANAGER_TOOLS.filter(
+            (name) => !DESTRUCTIVE_TOOLS.includes(name)
+          ),
+        },
+      },
+    };
+  }
+  return { requireApproval: "never" as const };
+};
+
+const safeLogUsage = async (
+  log: Omit<UsageLog, "_id" | "createdAt">
+): Promise<void> => {
+  try {
+    await logUsage(log);
+  } catch (error) {
+    console.error("Failed to log usage:", error);
+  }
+};
+
+const createRunner = () =>
+  new Runner({
+    traceMetadata: {
+      __trace_source__: "agent-builder",
+      workflow_id: "wf_68e8187e5a54819088e2c66b9759dfad05894cb3d3f82dfb",
+    },
+  });
+
+/**
+ * Build the Micromanager agent. The MCP token is bound to the workflow run so
+ * tool calls are logged there, and tool approval follows the user's policy.
+ */
+const buildMicromanagerAgent = async (
+  userId: string,
+  sessionId: string,
+  modelName: string
+) => {
+  const policy = await getApprovalPolicy(userId);
 
   // Tool definitions
   const mcp = hostedMcpTool({
     serverLabel: "micromanager_mcp",
-    allowedTools: [
-      "get_user_context",
-      "update_user_context",
-      "get_conversation_messages",
-      "list-calendars",
-      "list-events",
-      "search-events",
-      "get-event",
-      "list-colors",
-      "create-event",
-      "update-event",
-      "delete-event",
-      "get-freebusy",
-      "get-current-time",
-      "get_google_task_lists",
-      "get_google_tasks",
-      "create_google_task_list",
-      "insert_google_task",
-      "update_google_task",
-      "get_workplans",
-      "update_workplan",
-    ] as McpToolName[],
-    requireApproval: "never",
-    ...(await getHostedMcpParams(workflow.user_id, sessionId)),
+    allowedTools: MICROMANAGER_TOOLS,
+    ...approvalSettings(policy),
+    ...(await getHostedMcpParams(userId, sessionId)),
   });
 
-  const micromanager = new Agent({
+  return new Agent({
     name: "Micromanager",
     instructions:
       `
@@ -79,16 +161,18 @@ System Role:
 You are Micromanager, an AI agent that keeps the user's schedule, workplan and tasks organized.
 Use the available tools to understand the user context before sending them a short, personalised message. 
 Keep the writable user context concise and add details there when you learn something from tool usage or from the user messages.
-Remove old events and completed tasks from the context.
+When you store an event, task or anything time-bound in the context, set its metadata (eventId/taskId or expiresAt) so it is cleaned up automatically.
+If the user says something was forgotten or changed by mistake, use get_user_context_history to find it and rollback_user_context to restore it.
 Alert the user of conflicting or overlapping events and tasks and present solutions if neccessary.
 You have access to recent conversation history through the conversation messages array. 
+Messages starting with "[Sent proactively by you ...]" are check-ins and reminders you started, not replies to the user.
 If you need more context from earlier in the conversation, you can use the get_conversation_messages tool to fetch additional messages.
+To find something the user said earlier (e.g. "what did I say about the dentist last month"), use search_conversation with words and a date range.
 
 Behavioral Principles:
 - Keep responses concise, actionable, and step-oriented.
 - Reference the user’s context before answering.
 - Keep the context current with the user’s Google Calendar and Google Tasks.
-- Automatically remove outdated or completed items from the context.
   
 Google API Tool Usage Rules:
 - You have access to two Google api toolsets:
@@ -102,6 +186,7 @@ Workplan Tool Usage Rules:
     - It returns cached workplans generated for the user's upcoming events (already stored in the database).
 - To update or regenerate a workplan, use the \`update_workplan\` MCP tool.
 - The get_workplans tool accepts \`eventTitle\` and \`eventId\` filters to target specific events.
+- When the user says they finished part of a plan, check the step off with \`complete_workplan_step\`.
 
 Proactive Creation Logic:
 When the user mentions an undocumented future action, decide as follows:
@@ -122,96 +207,103 @@ When the user mentions an undocumented future action, decide as follows:
       store: true,
     },
   });
-  // Fetch recent messages from MongoDB (excluding the current message which will be added below)
-  // Get 10 messages, but don't include the very latest user message that just came in
-  const recentMessages = await getRecentMessages(workflow.user_id, 10);
-
-  // Build conversation history from MongoDB messages
-  const conversationHistory: AgentInputItem[] = recentMessages
-    .filter((msg) => msg.role === "user" || msg.role === "assistant")
-    .map((msg) => {
-      if (msg.role === "user") {
-        return user(msg.content);
-      } else {
-        return assistant(msg.content);
-      }
-    });
+};
 
-  // Add the current user message at the end
-  conversationHistory.push(user(workflow.input_as_text));
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type MicromanagerRunResult = RunResult<any, Agent<any, any>>;
 
-  // Create workflow run document
-  await createWorkflowRun({
-    userId: workflow.user_id,
-    sessionId,
-    userMessage: workflow.input_as_text,
-    status: "running",
-    toolCalls: {},
+const approvalActionsFrom = (
+  result: MicromanagerRunResult
+): PendingApprovalAction[] =>
+  result.interruptions.map((item) => {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const rawItem = item.rawItem as any;
+    // Hosted MCP approval requests carry the MCP tool name in providerData
+    return {
+      toolName: rawItem.providerData?.name ?? rawItem.name ?? "unknown",
+      arguments: rawItem.providerData?.arguments ?? rawItem.arguments,
+    };
   });
 
-  const runner = new Runner({
-    traceMetadata: {
-      __trace_source__: "agent-builder",
-      workflow_id: "wf_68e8187e5a54819088e2c66b9759dfad05894cb3d3f82dfb",
-    },
+const logRunFailure = async (context: WorkflowRunContext, error: unknown) => {
+  const duration = Date.now() - context.startTime;
+  const inputTokens = context.estimatedInputTokens;
+  const outputTokens = 0;
+  const totalTokens = inputTokens + outputTokens;
+  const cost = calculateCost({
+    inputTokens,
+    outputTokens,
+    model: context.modelName,
   });
-  let micromanagerResultTemp;
 
-  try {
-    micromanagerResultTemp = await runner.run(micromanager, [
-      ...conversationHistory,
-    ]);
-  } catch (error) {
-    const duration = Date.now() - startTime;
-    const inputTokens = estimatedInputTokens;
-    const outputTokens = 0;
-    const totalTokens = inputTokens + outputTokens;
-    const cost = calculateCost({
-      inputTokens,
-      outputTokens,
-      model: modelName,
-    });
+  const errorMessage =
+    error instanceof Error ? error.message : "Unknown error";
+  await safeLogUsage({
+    userId: context.userId,
+    taskType: context.usageTaskType,
+    source: context.source,
+    inputTokens,
+    outputTokens,
+    totalTokens,
+    ...cost,
+    toolCalls: 0,
+    toolNames: [],
+    model: context.modelName,
+    duration,
+    success: false,
+    error: errorMessage,
+  });
 
-    const errorMessage =
-      error instanceof Error ? error.message : "Unknown error";
-    await safeLogUsage({
-      userId: workflow.user_id,
-      taskType: usageTaskType,
-      source,
-      inputTokens,
-      outputTokens,
-      totalTokens,
-      ...cost,
-      toolCalls: 0,
-      toolNames: [],
-      model: modelName,
-      duration,
-      success: false,
-      error: errorMessage,
+  // Update workflow run status
+  await updateWorkflowRun(context.sessionId, {
+    status: "error",
+    assistantMessage: "Connection lost. Try again later.",
+    completedAt: new Date(),
+  });
+
+  // Return user-friendly error instead of throwing
+  return {
+    output_text: "Connection lost. Try again later.",
+    error: true,
+    errorMessage,
+  };
+};
+
+/**
+ * Turn a finished (or paused) run into a workflow result: pauses for approval
+ * are persisted and sent to Telegram, completed runs are logged for usage.
+ */
+const finalizeRun = async (
+  context: WorkflowRunContext,
+  result: MicromanagerRunResult
+): Promise<WorkflowResult> => {
+  if (result.interruptions.length > 0) {
+    const approval = await createPendingApproval({
+      userId: context.userId,
+      sessionId: context.sessionId,
+      actions: approvalActionsFrom(result),
+      runState: result.state.toString(),
+      source: context.source,
+      usageTaskType: context.usageTaskType,
+      model: context.modelName,
     });
+    await sendTelegramApprovalRequest(approval);
 
-    // Update workflow run status
-    await updateWorkflowRun(sessionId, {
-      status: "error",
-      assistantMessage: "Connection lost. Try again later.",
-      completedAt: new Date(),
+    const outputText = `⏸️ I need your approval before I continue:\n${approval.actions
+      .map((action) => `• ${describeApprovalAction(action)}`)
+      .join("\n")}`;
+
+    await updateWorkflowRun(context.sessionId, {
+      status: "awaiting_approval",
+      assistantMessage: outputText,
     });
 
-    // Return user-friendly error instead of throwing
-    return {
-      output_text: "Connection lost. Try again later.",
-      error: true,
-      errorMessage,
-    };
+    return { output_text: outputText, approvalId: approval._id!.toString() };
   }
 
-  conversationHistory.push(
-    ...micromanagerResultTemp.newItems.map((item) => item.rawItem)
-  );
-
-  if (!micromanagerResultTemp.finalOutput) {
+  if (!result.finalOutput) {
     // Update workflow run status
-    await updateWorkflowRun(sessionId, {
+    await updateWorkflowRun(context.sessionId, {
       status: "error",
       assistantMessage: "Error processing response. Try again.",
       completedAt: new Date(),
@@ -226,61 +318,61 @@ When the user mentions an undocumented future action, decide as follows:
   }
 
   const micromanagerResult = {
-    output_text: micromanagerResultTemp.finalOutput ?? "",
+    output_text: result.finalOutput ?? "",
   };
 
   // Log usage for tracking
   // Extract usage from result - try to get from providerData or estimate
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const resultAny = micromanagerResultTemp as any;
+  const resultAny = result as any;
   const usage = resultAny.usage || {};
 
   // Estimate tokens if not available
-  const inputTokens = usage.input_tokens || estimatedInputTokens;
+  const inputTokens = usage.input_tokens || context.estimatedInputTokens;
   const outputTokens =
     usage.output_tokens ||
-    Math.ceil((micromanagerResultTemp.finalOutput?.length || 0) / 4);
+    Math.ceil((result.finalOutput?.length || 0) / 4);
   const totalTokens = inputTokens + outputTokens;
 
   const cost = calculateCost({
     inputTokens,
     outputTokens,
-    model: modelName,
+    model: context.modelName,
   });
 
   // Count tool calls from newItems
-  const toolCalls = micromanagerResultTemp.newItems.filter(
+  const toolCalls = result.newItems.filter(
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     (item) => (item.rawItem as any).type === "hosted_tool_call"
   ).length;
 
   // Extract tool names from hosted_tool_call items
-  const toolNames = micromanagerResultTemp.newItems
+  const toolNames = result.newItems
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     .filter((item) => (item.rawItem as any).type === "hosted_tool_call")
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     .map((item) => (item.rawItem as any).name || "unknown")
     .filter((name, index, arr) => arr.indexOf(name) === index); // unique
 
-  const duration = Date.now() - startTime;
+  const duration = Date.now() - context.startTime;
 
   await safeLogUsage({
-    userId: workflow.user_id,
-    taskType: usageTaskType,
-    source,
+    userId: context.userId,
+    taskType: context.usageTaskType,
+    source: context.source,
     inputTokens,
     outputTokens,
     totalTokens,
     ...cost,
     toolCalls,
     toolNames,
-    model: modelName,
+    model: context.modelName,
     duration,
     success: true,
   });
 
   // Update workflow run status
-  await updateWorkflowRun(sessionId, {
+  await updateWorkflowRun(context.sessionId, {
     status: "completed",
     assistantMessage: micromanagerResult.output_text,
     completedAt: new Date(),
@@ -288,3 +380,129 @@ When the user mentions an undocumented future action, decide as follows:
 
   return micromanagerResult;
 };
+
+// Main code entrypoint
+export const runWorkflow = async (
+  workflow: WorkflowInput
+): Promise<WorkflowResult> => {
+  const context: WorkflowRunContext = {
+    userId: workflow.user_id,
+    sessionId: new ObjectId().toString(), // Unique session for this workflow run
+    source: workflow.source ?? "api",
+    usageTaskType: workflow.usageTaskType ?? "workflow",
+    modelName: workflow.model ?? MODELS.text,
+    startTime: Date.now(),
+    estimatedInputTokens: Math.ceil(workflow.input_as_text.length / 4),
+  };
+
+  const micromanager = await buildMicromanagerAgent(
+    context.userId,
+    context.sessionId,
+    context.modelName
+  );
+  // Recent messages sized to the model's budget; the current message is added below
+  const history = await buildConversationHistory(workflow.user_id, {
+    model: context.modelName,
+    currentInput: workflow.input_as_text,
+  });
+  const conversationHistory: AgentInputItem[] = [...history.items];
+  context.estimatedInputTokens += history.tokens;
+
+  // Older conversation only reaches the agent through its summaries
+  const summaries = await getRelevantSummaries(workflow.user_id, {
+    before: history.messages[0]?.createdAt ?? new Date(),
+    query: workflow.input_as_text,
+    tokenBudget: CONVERSATION_SUMMARY_TOKEN_BUDGET,
+  });
+  if (summaries.length > 0) {
+    conversationHistory.unshift(system(formatSummariesForPrompt(summaries)));
+  }
+
+  // Add the current user message at the end
+  conversationHistory.push(user(workflow.input_as_text));
+
+  // Create workflow run document
+  await createWorkflowRun({
+    userId: workflow.user_id,
+    sessionId: context.sessionId,
+    userMessage: workflow.input_as_text,
+    status: "running",
+    toolCalls: {},
+  });
+
+  try {
+    const result = await createRunner().run(micromanager, [
+      ...conversationHistory,
+    ]);
+    const workflowResult = await finalizeRun(context, result);
+    // Compact messages that fell out of the window once the response is sent
+    after(() =>
+      summarizeOlderMessages(context.userId).catch((error) => {
+        console.error("[Workflow] Conversation summary failed:", error);
+      })
+    );
+    return workflowResult;
+  } catch (error) {
+    return logRunFailure(context, error);
+  }
+};
+
+/**
+ * Resume a run that paused for approval once the user decided.
+ * The assistant reply is stored in the conversation and sent to Telegram.
+ */
+export const resumeWorkflowAfterApproval = async (
+  approval: PendingApproval
+): Promise<WorkflowResult> => {
+  const approved = approval.status === "approved";
+  const context: WorkflowRunContext = {
+    userId: approval.userId,
+    sessionId: approval.sessionId,
+    source: approval.source ?? "api",
+    usageTaskType: approval.usageTaskType,
+    modelName: approval.model,
+    startTime: Date.now(),
+    estimatedInputTokens: 0,
+  };
+
+  await updateWorkflowRun(context.sessionId, { status: "running" });
+
+  const micromanager = await buildMicromanagerAgent(
+    context.userId,
+    context.sessionId,
+    context.modelName
+  );
+
+  let workflowResult: WorkflowResult;
+  try {
+    const state = await RunState.fromString(micromanager, approval.runState);
+    for (const item of state.getInterruptions()) {
+      if (approved) {
+        state.approve(item);
+      } else {
+        state.reject(item);
+      }
+    }
+    const result = await createRunner().run(micromanager, state);
+    workflowResult = await finalizeRun(context, result);
+  } catch (error) {
+    workflowResult = await logRunFailure(context, error);
+  }
+
+  const now = new Date();
+  await insertMessage({
+    userId: context.userId,
+    role: "assistant",
+    content: workflowResult.output_text,
+    type: "text",
+    source: "micromanager",
+    createdAt: now,
+    updatedAt: now,
+  });
+  // A further approval request was already sent to Telegram by finalizeRun
+  if (!workflowResult.approvalId) {
+    await notifyTelegramUser(context.userId, workflowResult.output_text);
+  }
+
+  return workflowResult;
+};
@@ -0,0 +1,246 @@
+import { ObjectId } from "mongodb";
+
+import { getMongoClient } from "@/lib/db";
+import type { UsageLog } from "@/lib/usage-tracking";
+import { updateWorkflowRun } from "@/lib/workflow-runs";
+
+const COLLECTION = "pending_approvals";
+const USERS_COLLECTION = "users";
+
+export type ApprovalPolicy = "always" | "destructive" | "never";
+
+export const APPROVAL_POLICIES: ApprovalPolicy[] = [
+  "always",
+  "destructive",
+  "never",
+];
+
+export const DEFAULT_APPROVAL_POLICY: ApprovalPolicy = "destructive";
+
+// Tools that modify or remove existing data; gated by the "destructive" policy
+export const DESTRUCTIVE_TOOLS = [
+  "rollback_user_context",
+  "update-event",
+  "delete-event",
+  "update_google_task",
+  "complete_google_task",
+  "delete_google_task",
+  "move_google_task",
+  "rename_google_task_list",
+  "delete_google_task_list",
+  "undo_last_action",
+];
+
+export const APPROVAL_TIMEOUT_MS = 30 * 60 * 1000;
+
+export const APPROVAL_EXPIRED_MESSAGE =
+  "⌛ The approval request expired, so nothing was changed.";
+
+export type ApprovalDecision = "approve" | "reject";
+
+export interface PendingApprovalAction {
+  toolName: string;
+  arguments?: string; // JSON-encoded tool arguments
+}
+
+export interface PendingApproval {
+  _id?: ObjectId;
+  userId: string;
+  sessionId: string; // workflow run the approval belongs to
+  status: "pending" | "approved" | "rejected" | "expired";
+  actions: PendingApprovalAction[];
+  runState: string; // serialized Agents SDK RunState
+  source: UsageLog["source"];
+  usageTaskType: UsageLog["taskType"];
+  model: string;
+  telegramChatId?: number;
+  telegramMessageId?: number;
+  createdAt: Date;
+  expiresAt: Date;
+  resolvedAt?: Date;
+}
+
+export interface PendingApprovalSummary {
+  id: string;
+  sessionId: string;
+  actions: PendingApprovalAction[];
+  createdAt: string;
+  expiresAt: string;
+}
+
+async function getApprovalsCollection() {
+  const client = await getMongoClient();
+  const col = client.db().collection<PendingApproval>(COLLECTION);
+  await col.createIndex({ userId: 1, status: 1, createdAt: -1 });
+  await col.createIndex({ sessionId: 1 });
+  return col;
+}
+
+export function toPendingApprovalSummary(
+  approval: PendingApproval
+): PendingApprovalSummary {
+  return {
+    id: approval._id!.toString(),
+    sessionId: approval.sessionId,
+    actions: approval.actions,
+    createdAt: approval.createdAt.toISOString(),
+    expiresAt: approval.expiresAt.toISOString(),
+  };
+}
+
+/**
+ * Short human-readable description of an action, e.g. for Telegram messages
+ */
+export function describeApprovalAction(action: PendingApprovalAction): string {
+  let args: Record<string, unknown> = {};
+  try {
+    args = action.arguments ? JSON.parse(action.arguments) : {};
+  } catch {
+    // keep empty args
+  }
+  const details = ["summary", "title", "eventId", "taskId", "tasklistId"]
+    .filter((key) => typeof args[key] === "string" && args[key])
+    .map((key) => `${key}: ${args[key]}`);
+  return details.length > 0
+    ? `${action.toolName} (${details.join(", ")})`
+    : action.toolName;
+}
+
+export async function getApprovalPolicy(
+  userId: string
+): Promise<ApprovalPolicy> {
+  if (!ObjectId.isValid(userId)) return DEFAULT_APPROVAL_POLICY;
+  const client = await getMongoClient();
+  const user = await client
+    .db()
+    .collection(USERS_COLLECTION)
+    .findOne(
+      { _id: new ObjectId(userId) },
+      { projection: { approvalPolicy: 1 } }
+    );
+  const policy = user?.approvalPolicy as ApprovalPolicy | undefined;
+  return policy && APPROVAL_POLICIES.includes(policy)
+    ? policy
+    : DEFAULT_APPROVAL_POLICY;
+}
+
+export async function setApprovalPolicy(
+  userId: string,
+  policy: ApprovalPolicy
+): Promise<void> {
+  const client = await getMongoClient();
+  await client
+    .db()
+    .collection(USERS_COLLECTION)
+    .updateOne(
+      { _id: new ObjectId(userId) },
+      { $set: { approvalPolicy: policy, updatedAt: new Date() } }
+    );
+}
+
+export async function createPendingApproval(
+  approval: Omit<PendingApproval, "_id" | "status" | "createdAt" | "expiresAt">
+): Promise<PendingApproval> {
+  const collection = await getApprovalsCollection();
+  const now = new Date();
+  const doc: PendingApproval = {
+    ...approval,
+    status: "pending",
+    createdAt: now,
+    expiresAt: new Date(now.getTime() + APPROVAL_TIMEOUT_MS),
+  };
+  const result = await collection.insertOne(doc);
+  return { ...doc, _id: result.insertedId };
+}
+
+/**
+ * Mark timed-out approvals (of one user, or everyone's) expired and finish the
+ * workflow runs that were waiting on them. Returns the approvals it expired.
+ */
+export async function expirePendingApprovals(
+  userId?: string
+): Promise<PendingApproval[]> {
+  const collection = await getApprovalsCollection();
+  const now = new Date();
+  const timedOut = await collection
+    .find({
+      ...(userId && { userId }),
+      status: "pending",
+      expiresAt: { $lte: now },
+    })
+    .toArray();
+
+  const expired: PendingApproval[] = [];
+  for (const approval of timedOut) {
+    // Claimed one at a time, so a decision racing the expiry wins cleanly
+    const claimed = await collection.findOneAndUpdate(
+      { _id: approval._id, status: "pending" },
+      { $set: { status: "expired", resolvedAt: now } },
+      { returnDocument: "after" }
+    );
+    if (!claimed) continue;
+
+    await updateWorkflowRun(claimed.sessionId, {
+      status: "completed",
+      assistantMessage: APPROVAL_EXPIRED_MESSAGE,
+      completedAt: now,
+    });
+    expired.push(claimed);
+  }
+  return expired;
+}
+
+/**
+ * Pending, unexpired approvals of a user. Timed-out approvals are marked expired.
+ */
+export async function listPendingApprovals(
+  userId: string
+): Promise<PendingApproval[]> {
+  const collection = await getApprovalsCollection();
+  await expirePendingApprovals(userId);
+  return collection
+    .find({ userId, status: "pending" })
+    .sort({ createdAt: -1 })
+    .toArray();
+}
+
+/**
+ * Atomically record a decision. Returns null when the approval is unknown,
+ * belongs to another user, was already decided or has timed out.
+ */
+export async function claimPendingApproval(
+  userId: string,
+  approvalId: string,
+  decision: ApprovalDecision
+): Promise<PendingApproval | null> {
+  if (!ObjectId.isValid(approvalId)) return null;
+  const collection = await getApprovalsCollection();
+  const now = new Date();
+  return collection.findOneAndUpdate(
+    {
+      _id: new ObjectId(approvalId),
+      userId,
+      status: "pending",
+      expiresAt: { $gt: now },
+    },
+    {
+      $set: {
+        status: decision === "approve" ? "approved" : "rejected",
+        resolvedAt: now,
+      },
+    },
+    { returnDocument: "after" }
+  );
+}
+
+export async function setApprovalTelegramMessage(
+  approvalId: ObjectId,
+  telegramChatId: number,
+  telegramMessageId: number
+): Promise<void> {
+  const collection = await getApprovalsCollection();
+  await collection.updateOne(
+    { _id: approvalId },
+    { $set: { telegramChatId, telegramMessageId } }
+  );
+}
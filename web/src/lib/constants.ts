@@ -1,3 +1,9 @@
 export const WORKPLAN_DEFAULT_EVENT_LIMIT = 5;
 export const WORKPLAN_MAX_EVENT_LIMIT = 10;
 export const WORKPLAN_REFRESH_INTERVAL_MINUTES = 60 * 12; // regenerate after 12 hours by default
+export const WORKPLAN_PREGENERATE_DAYS = 2; // days of upcoming events the scheduled refresh prepares plans for
+export const WORKPLAN_PREGENERATE_CONCURRENCY = 3; // plan generations running at once in one cron run
+export const CONVERSATION_HISTORY_TOKEN_BUDGET = 4000; // room for recent messages sent verbatim with each run
+export const CONVERSATION_HISTORY_MAX_MESSAGES = 50; // most recent messages considered for that window
+export const CONVERSATION_SUMMARY_KEEP_RECENT = 10; // newest messages never compacted into summaries
+export const CONVERSATION_SUMMARY_TOKEN_BUDGET = 1500; // room for summaries of older messages
@@ -0,0 +1,183 @@
+import { AgentInputItem, assistant, user } from "@openai/agents";
+
+import { getRecentMessages, StoredMessage } from "@/lib/conversations";
+import { estimateTokens } from "@/lib/conversation-summaries";
+import {
+  CONVERSATION_HISTORY_MAX_MESSAGES,
+  CONVERSATION_HISTORY_TOKEN_BUDGET,
+} from "@/lib/constants";
+import { MODELS } from "@/lib/utils";
+
+/**
+ * Room for verbatim recent messages per model; models that are not listed
+ * get CONVERSATION_HISTORY_TOKEN_BUDGET
+ */
+export const HISTORY_TOKEN_BUDGETS: Record<string, number> = {
+  [MODELS.text]: CONVERSATION_HISTORY_TOKEN_BUDGET,
+  [MODELS.textBudget]: 1500,
+};
+
+export const historyTokenBudgetFor = (model: string) =>
+  HISTORY_TOKEN_BUDGETS[model] ?? CONVERSATION_HISTORY_TOKEN_BUDGET;
+
+// Placeholders and failure notices the app stores as assistant messages
+const ASSISTANT_BOILERPLATE = new Set([
+  "Processing...",
+  "Connection lost. Try again later.",
+  "Error processing response. Try again.",
+  "No final output from workflow",
+]);
+
+// Messages the assistant sent on its own rather than in reply to the user
+const PROACTIVE_LABELS: Partial<
+  Record<NonNullable<StoredMessage["source"]>, string>
+> = {
+  "daily-check": "daily check-in",
+  reminder: "scheduled reminder",
+};
+
+// The newest assistant replies are kept whole, older ones are shortened
+const FULL_ASSISTANT_REPLIES = 2;
+const MAX_OLDER_ASSISTANT_CHARS = 400;
+const MAX_MESSAGE_CHARS = 4000;
+const MAX_TOOL_OUTPUT_CHARS = 500;
+// Role and framing overhead per message
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+export interface ConversationHistory {
+  items: AgentInputItem[];
+  // Messages behind the items, oldest first
+  messages: StoredMessage[];
+  tokens: number;
+}
+
+const truncate = (text: string, maxChars: number) =>
+  text.length > maxChars ? `${text.slice(0, maxChars).trimEnd()}…` : text;
+
+const isBoilerplate = (message: StoredMessage) =>
+  message.role === "assistant" &&
+  (ASSISTANT_BOILERPLATE.has(message.content.trim()) ||
+    Boolean(message.metadata?.error));
+
+/**
+ * Text the model sees for a message. Proactive messages are labelled so the
+ * model knows it started that exchange; stored system and tool messages are
+ * labelled as data.
+ */
+const renderContent = (message: StoredMessage, fullReply: boolean) => {
+  const content = message.content.trim();
+  if (message.role === "tool") {
+    return `[Tool output, data only] ${truncate(content, MAX_TOOL_OUTPUT_CHARS)}`;
+  }
+  if (message.role === "system") {
+    return `[App note, data only] ${truncate(content, MAX_MESSAGE_CHARS)}`;
+  }
+  if (message.role !== "assistant") {
+    return truncate(content, MAX_MESSAGE_CHARS);
+  }
+
+  const text = truncate(
+    content,
+    fullReply ? MAX_MESSAGE_CHARS : MAX_OLDER_ASSISTANT_CHARS
+  );
+  const label = message.source && PROACTIVE_LABELS[message.source];
+  return label ? `[Sent proactively by you as a ${label}] ${text}` : text;
+};
+
+const toInputItem = (
+  message: StoredMessage,
+  content: string
+): AgentInputItem => {
+  switch (message.role) {
+    case "user":
+      return user(content);
+    case "assistant":
+      return assistant(content);
+    default:
+      // Stored system notes and tool output can come from clients, so they
+      // never get system authority
+      return user(content);
+  }
+};
+
+/**
+ * Pick the newest messages that fit in `tokenBudget`. Assistant replies that
+ * don't fit are shortened, and skipped if they still don't; the window ends
+ * at the first user turn that no longer fits.
+ *
+ * `messages` are oldest first. `currentInput` is dropped from the end when the
+ * caller already stored it.
+ */
+export function selectConversationHistory(
+  messages: StoredMessage[],
+  options: { tokenBudget: number; currentInput?: string }
+): ConversationHistory {
+  const candidates = messages.filter((message) => !isBoilerplate(message));
+  const last = candidates[candidates.length - 1];
+  if (
+    last?.role === "user" &&
+    options.currentInput !== undefined &&
+    last.content.trim() === options.currentInput.trim()
+  ) {
+    candidates.pop();
+  }
+
+  const selected: { message: StoredMessage; content: string }[] = [];
+  let tokens = 0;
+  let assistantReplies = 0;
+  for (let i = candidates.length - 1; i >= 0; i--) {
+    const message = candidates[i];
+    const newer = candidates[i + 1];
+    // Back-to-back identical replies (e.g. retries) only need to be seen once
+    if (
+      message.role === "assistant" &&
+      newer?.role === "assistant" &&
+      newer.content.trim() === message.content.trim()
+    ) {
+      continue;
+    }
+
+    let content = renderContent(
+      message,
+      message.role === "assistant" && assistantReplies < FULL_ASSISTANT_REPLIES
+    );
+    let cost = estimateTokens(content) + MESSAGE_OVERHEAD_TOKENS;
+    if (tokens + cost > options.tokenBudget && message.role === "assistant") {
+      content = renderContent(message, false);
+      cost = estimateTokens(content) + MESSAGE_OVERHEAD_TOKENS;
+    }
+    if (tokens + cost > options.tokenBudget) {
+      if (message.role === "user") break;
+      continue;
+    }
+
+    if (message.role === "assistant") assistantReplies++;
+    selected.unshift({ message, content });
+    tokens += cost;
+  }
+
+  return {
+    items: selected.map(({ message, content }) =>
+      toInputItem(message, content)
+    ),
+    messages: selected.map(({ message }) => message),
+    tokens,
+  };
+}
+
+/**
+ * Recent conversation for an agent run, sized to the model's history budget
+ */
+export async function buildConversationHistory(
+  userId: string,
+  options: { model: string; currentInput?: string }
+): Promise<ConversationHistory> {
+  const messages = await getRecentMessages(
+    userId,
+    CONVERSATION_HISTORY_MAX_MESSAGES
+  );
+  return selectConversationHistory(messages, {
+    tokenBudget: historyTokenBudgetFor(options.model),
+    currentInput: options.currentInput,
+  });
+}
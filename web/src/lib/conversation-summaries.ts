@@ -0,0 +1,273 @@
+import { ObjectId } from "mongodb";
+
+import { getMongoClient } from "@/lib/db";
+import { getMessagesOutsideWindow, StoredMessage } from "@/lib/conversations";
+import { OpenAIAgent, runOpenAIAgent } from "@/lib/openai";
+import { calculateCost, logUsage } from "@/lib/usage-tracking";
+import { MODELS } from "@/lib/utils";
+import { CONVERSATION_SUMMARY_KEEP_RECENT } from "@/lib/constants";
+
+const COLLECTION = "conversation_summaries";
+const STATE_COLLECTION = "conversation_summary_state";
+
+// Messages summarized per pass; anything beyond is picked up by the next run
+const MAX_MESSAGES_PER_PASS = 200;
+const LOCK_DURATION_MS = 5 * 60 * 1000;
+
+/**
+ * Summary of one UTC day of conversation, extended as older messages are compacted
+ */
+export interface ConversationSummary {
+  _id?: ObjectId;
+  userId: string;
+  day: string; // YYYY-MM-DD (UTC)
+  summary: string;
+  messageCount: number;
+  firstMessageAt: Date;
+  lastMessageAt: Date;
+  model: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+interface SummaryState {
+  _id?: ObjectId;
+  userId: string;
+  summarizedUntil?: Date; // createdAt of the newest summarized message
+  lockedUntil?: Date;
+}
+
+async function getSummariesCollection() {
+  const client = await getMongoClient();
+  const col = client.db().collection<ConversationSummary>(COLLECTION);
+  await col.createIndex({ userId: 1, day: -1 }, { unique: true });
+  await col.createIndex(
+    { userId: 1, summary: "text" },
+    { name: "conversation_summary_text" }
+  );
+  return col;
+}
+
+async function getSummaryStateCollection() {
+  const client = await getMongoClient();
+  const col = client.db().collection<SummaryState>(STATE_COLLECTION);
+  await col.createIndex({ userId: 1 }, { unique: true });
+  return col;
+}
+
+export const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+const dayOf = (date: Date) => date.toISOString().slice(0, 10);
+
+const formatTranscript = (messages: StoredMessage[]) =>
+  messages
+    .map(
+      (message) =>
+        `[${message.createdAt.toISOString().slice(11, 16)}] ${
+          message.role === "user" ? "User" : "Assistant"
+        }: ${message.content}`
+    )
+    .join("\n");
+
+async function summarizeDay(
+  day: string,
+  previous: string | undefined,
+  messages: StoredMessage[],
+  onUsage: (usage: { inputTokens: number; outputTokens: number }) => void
+): Promise<string> {
+  const agent = new OpenAIAgent({
+    name: "conversation-summarizer",
+    instructions: `
+You compress chat transcripts between a user and their scheduling assistant into long-term memory.
+Keep facts about the user, decisions, commitments, dates and open questions. Drop greetings and filler.
+Write plain sentences, at most 120 words. Output only the summary.`,
+    model: MODELS.textBudget,
+    tools: [],
+  });
+
+  const prompt = [
+    `Day: ${day}`,
+    previous ? `Summary so far:\n${previous}` : null,
+    `New messages:\n${formatTranscript(messages)}`,
+    previous ? "Return the updated summary for the whole day." : null,
+  ]
+    .filter(Boolean)
+    .join("\n\n");
+
+  const result = await runOpenAIAgent(agent, prompt);
+  const { inputTokens, outputTokens } = result.state._context.usage;
+  onUsage({ inputTokens, outputTokens });
+  const summary = result.finalOutput?.trim();
+  if (!summary) {
+    throw new Error("No summary returned from model");
+  }
+  return summary;
+}
+
+async function logSummaryUsage(
+  userId: string,
+  { inputTokens, outputTokens }: { inputTokens: number; outputTokens: number },
+  duration: number,
+  failure: unknown
+) {
+  try {
+    await logUsage({
+      userId,
+      taskType: "conversation_summary",
+      source: "api",
+      inputTokens,
+      outputTokens,
+      totalTokens: inputTokens + outputTokens,
+      ...calculateCost({ inputTokens, outputTokens, model: MODELS.textBudget }),
+      toolCalls: 0,
+      toolNames: [],
+      model: MODELS.textBudget,
+      duration,
+      success: failure === undefined,
+      ...(failure !== undefined && {
+        error: failure instanceof Error ? failure.message : String(failure),
+      }),
+    });
+  } catch (logError) {
+    console.error("[Conversation Summary] Failed to log usage:", logError);
+  }
+}
+
+/**
+ * Compact messages that have dropped out of the recent history window into
+ * per-day summaries. Runs incrementally from where the previous pass stopped;
+ * concurrent passes for the same user are skipped.
+ */
+export async function summarizeOlderMessages(userId: string): Promise<number> {
+  const state = await getSummaryStateCollection();
+  const now = new Date();
+  await state.updateOne({ userId }, { $setOnInsert: { userId } }, { upsert: true });
+  const locked = await state.findOneAndUpdate(
+    {
+      userId,
+      $or: [
+        { lockedUntil: { $exists: false } },
+        { lockedUntil: { $lte: now } },
+      ],
+    },
+    { $set: { lockedUntil: new Date(now.getTime() + LOCK_DURATION_MS) } },
+    { returnDocument: "after" }
+  );
+  if (!locked) {
+    return 0;
+  }
+
+  let summarizedUntil = locked.summarizedUntil;
+  let summarizedCount = 0;
+  const startTime = Date.now();
+  const usage = { calls: 0, inputTokens: 0, outputTokens: 0 };
+  let failure: unknown;
+  try {
+    // The newest messages are sent verbatim, so only older ones are compacted
+    const pending = await getMessagesOutsideWindow(userId, {
+      keepRecent: CONVERSATION_SUMMARY_KEEP_RECENT,
+      after: summarizedUntil,
+      limit: MAX_MESSAGES_PER_PASS,
+    });
+
+    const byDay = new Map<string, StoredMessage[]>();
+    for (const message of pending) {
+      const day = dayOf(message.createdAt);
+      byDay.set(day, [...(byDay.get(day) ?? []), message]);
+    }
+
+    const summaries = await getSummariesCollection();
+    for (const [day, messages] of byDay) {
+      const existing = await summaries.findOne({ userId, day });
+      usage.calls++;
+      const summary = await summarizeDay(
+        day,
+        existing?.summary,
+        messages,
+        ({ inputTokens, outputTokens }) => {
+          usage.inputTokens += inputTokens;
+          usage.outputTokens += outputTokens;
+        }
+      );
+      const lastMessageAt = messages[messages.length - 1].createdAt;
+      const updatedAt = new Date();
+      await summaries.updateOne(
+        { userId, day },
+        {
+          $set: {
+            summary,
+            lastMessageAt,
+            model: MODELS.textBudget,
+            updatedAt,
+          },
+          $inc: { messageCount: messages.length },
+          $setOnInsert: {
+            firstMessageAt: messages[0].createdAt,
+            createdAt: updatedAt,
+          },
+        },
+        { upsert: true }
+      );
+      // Advance after every day so a failure doesn't redo finished days
+      summarizedUntil = lastMessageAt;
+      summarizedCount += messages.length;
+    }
+    return summarizedCount;
+  } catch (error) {
+    failure = error;
+    throw error;
+  } finally {
+    if (usage.calls > 0) {
+      await logSummaryUsage(userId, usage, Date.now() - startTime, failure);
+    }
+    await state.updateOne(
+      { userId },
+      {
+        $set: { ...(summarizedUntil && { summarizedUntil }) },
+        $unset: { lockedUntil: "" },
+      }
+    );
+  }
+}
+
+/**
+ * Pick summaries of conversation older than `before` within a token budget.
+ * Summaries that match the current message come first, then the most recent
+ * days; the result is in chronological order.
+ */
+export async function getRelevantSummaries(
+  userId: string,
+  options: { before: Date; query?: string; tokenBudget: number }
+): Promise<ConversationSummary[]> {
+  const summaries = await getSummariesCollection();
+  const filter = { userId, lastMessageAt: { $lt: options.before } };
+
+  const matching = options.query?.trim()
+    ? await summaries
+        .find(
+          { ...filter, $text: { $search: options.query } },
+          { projection: { score: { $meta: "textScore" } } }
+        )
+        .sort({ score: { $meta: "textScore" } })
+        .limit(3)
+        .toArray()
+    : [];
+  const recent = await summaries.find(filter).sort({ day: -1 }).limit(30).toArray();
+
+  const selected = new Map<string, ConversationSummary>();
+  let tokens = 0;
+  for (const summary of [...matching, ...recent]) {
+    if (selected.has(summary.day)) continue;
+    const cost = estimateTokens(summary.summary) + 8;
+    if (tokens + cost > options.tokenBudget) continue;
+    selected.set(summary.day, summary);
+    tokens += cost;
+  }
+  return [...selected.values()].sort((a, b) => a.day.localeCompare(b.day));
+}
+
+export const formatSummariesForPrompt = (summaries: ConversationSummary[]) =>
+  [
+    "Summaries of earlier conversations with the user (oldest first):",
+    ...summaries.map((summary) => `[${summary.day}] ${summary.summary}`),
+  ].join("\n");
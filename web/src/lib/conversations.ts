@@ -1,16 +1,21 @@
-import { ObjectId } from "mongodb";
+import { Filter, ObjectId } from "mongodb";
 
 import { getMongoClient } from "@/lib/db";
 
-export type MessageRole = "user" | "assistant" | "system" | "tool";
+export const MESSAGE_ROLES = ["user", "assistant", "system", "tool"] as const;
 
-export type MessageSource =
-  | "telegram-user"
-  | "web-user"
-  | "micromanager"
-  | "realtime-agent"
-  | "daily-check"
-  | "reminder";
+export type MessageRole = (typeof MESSAGE_ROLES)[number];
+
+export const MESSAGE_SOURCES = [
+  "telegram-user",
+  "web-user",
+  "micromanager",
+  "realtime-agent",
+  "daily-check",
+  "reminder",
+] as const;
+
+export type MessageSource = (typeof MESSAGE_SOURCES)[number];
 
 export interface StoredMessage {
   _id?: ObjectId;
@@ -32,9 +37,106 @@ async function collection() {
   const client = await getMongoClient();
   const col = client.db().collection<StoredMessage>(COLLECTION);
   await col.createIndex({ userId: 1, createdAt: -1 });
+  // Equality prefix keeps text searches scoped to one user's messages
+  await col.createIndex(
+    { userId: 1, content: "text" },
+    { name: "conversation_text" }
+  );
   return col;
 }
 
+export interface MessageSearchOptions {
+  query?: string;
+  from?: Date;
+  to?: Date;
+  roles?: MessageRole[];
+  sources?: MessageSource[];
+  limit?: number;
+  cursor?: string;
+}
+
+export interface MessageSearchResult {
+  messages: StoredMessage[];
+  nextCursor: string | null;
+}
+
+/**
+ * Thrown when a search cursor can't be decoded
+ */
+export class InvalidMessageCursorError extends Error {
+  constructor() {
+    super("Invalid search cursor");
+    this.name = "InvalidMessageCursorError";
+  }
+}
+
+// Cursors point at the last returned message; results are ordered newest first
+const encodeCursor = (message: StoredMessage) =>
+  Buffer.from(
+    `${message.createdAt.getTime()}:${message._id!.toString()}`
+  ).toString("base64url");
+
+const decodeCursor = (cursor: string) => {
+  const [time, id] = Buffer.from(cursor, "base64url").toString().split(":");
+  const createdAt = new Date(Number(time));
+  if (Number.isNaN(createdAt.getTime()) || !id || !ObjectId.isValid(id)) {
+    throw new InvalidMessageCursorError();
+  }
+  return { createdAt, _id: new ObjectId(id) };
+};
+
+/**
+ * Find messages by text, date range, role and source, newest first
+ */
+export async function searchMessages(
+  userId: string,
+  options: MessageSearchOptions = {}
+): Promise<MessageSearchResult> {
+  const col = await collection();
+  const limit = options.limit ?? 20;
+  const filter: Filter<StoredMessage> = { userId };
+
+  if (options.query?.trim()) {
+    filter.$text = { $search: options.query.trim() };
+  }
+  if (options.from || options.to) {
+    filter.createdAt = {
+      ...(options.from && { $gte: options.from }),
+      ...(options.to && { $lte: options.to }),
+    };
+  }
+  if (options.roles?.length) {
+    filter.role = { $in: options.roles };
+  }
+  if (options.sources?.length) {
+    filter.source = { $in: options.sources };
+  }
+  if (options.cursor) {
+    const { createdAt, _id } = decodeCursor(options.cursor);
+    filter.$and = [
+      {
+        $or: [
+          { createdAt: { $lt: createdAt } },
+          { createdAt, _id: { $lt: _id } },
+        ],
+      },
+    ];
+  }
+
+  // One extra document tells whether there is another page
+  const docs = await col
+    .find(filter)
+    .sort({ createdAt: -1, _id: -1 })
+    .limit(limit + 1)
+    .toArray();
+  const messages = docs.slice(0, limit);
+  return {
+    messages,
+    nextCursor:
+      docs.length > limit ? encodeCursor(messages[messages.length - 1]) : null,
+  };
+}
+
 export async function getRecentMessages(userId: string, limit = 50) {
   const col = await collection();
   const docs = await col
@@ -45,6 +147,39 @@ export async function getRecentMessages(userId: string, limit = 50) {
   return docs.reverse();
 }
 
+/**
+ * Oldest-first user and assistant messages that are older than the newest
+ * `keepRecent` messages and newer than `after`
+ */
+export async function getMessagesOutsideWindow(
+  userId: string,
+  options: { keepRecent: number; after?: Date; limit: number }
+): Promise<StoredMessage[]> {
+  const col = await collection();
+  const [oldestRecent] = await col
+    .find({ userId })
+    .sort({ createdAt: -1, _id: -1 })
+    .skip(options.keepRecent - 1)
+    .limit(1)
+    .toArray();
+  if (!oldestRecent) {
+    return [];
+  }
+
+  return col
+    .find({
+      userId,
+      role: { $in: ["user", "assistant"] },
+      createdAt: {
+        $lt: oldestRecent.createdAt,
+        ...(options.after && { $gt: options.after }),
+      },
+    })
+    .sort({ createdAt: 1, _id: 1 })
+    .limit(options.limit)
+    .toArray();
+}
+
 export async function insertMessage(message: StoredMessage) {
   const col = await collection();
   const doc = {
@@ -5,15 +5,44 @@ export type TaskList = {
     title: string;
 };
 
+export type TaskLink = {
+    type?: string;
+    description?: string;
+    link?: string;
+};
+
 export type TaskItem = {
     id?: string;
+    tasklistId?: string;
     title: string;
     due?: string;
     description?: string;
     status: string;
     completed?: string;
+    parent?: string;
+    position?: string;
+    links?: TaskLink[];
 };
 
+const toTaskItem = (task: tasks_v1.Schema$Task, tasklistId?: string): TaskItem => ({
+    id: task.id ?? undefined,
+    tasklistId,
+    title: task.title ?? "Untitled event",
+    due: task.due ?? undefined,
+    description: task.notes ?? undefined,
+    status: task.status ?? "Missing status",
+    completed: task.completed ?? undefined,
+    parent: task.parent ?? undefined,
+    position: task.position ?? undefined,
+    links: task.links?.length
+        ? task.links.map(link => ({
+            type: link.type ?? undefined,
+            description: link.description ?? undefined,
+            link: link.link ?? undefined,
+        }))
+        : undefined,
+});
+
 export const getTaskLists = async (tasksClient: tasks_v1.Tasks) => {
     const allTaskLists: TaskList[] = [];
     let listPageToken: string | undefined = undefined;
@@ -56,12 +85,17 @@ export const updateTaskList = async (tasksClient: tasks_v1.Tasks, tasklistId: st
         tasklist: tasklistId,
         requestBody: taskList
     });
-        return {
+    return {
         id: response.data.id ?? undefined,
         title: response.data.title ?? "Untitled task list"
     };
 };
 
+export const deleteTaskList = async (tasksClient: tasks_v1.Tasks, tasklistId: string) => {
+    await tasksClient.tasklists.delete({ tasklist: tasklistId });
+    return { id: tasklistId, deleted: true };
+};
+
 export const getTasks = async (
     tasksClient: tasks_v1.Tasks,
     allTaskLists: TaskList[],
@@ -85,14 +119,7 @@ export const getTasks = async (
             };
             const tasksPage = await tasksClient.tasks.list(tasksReq);
             const tasks = tasksPage.data.items ?? [];
-            const items: TaskItem[] = tasks.map(task => ({
-                id: task.id ?? undefined,
-                title: task.title ?? "Untitled event",
-                due: task.due ?? undefined,
-                description: task.notes ?? undefined,
-                status: task.status ?? "Missing status",
-                completed: task.completed ?? undefined,
-            }));
+            const items: TaskItem[] = tasks.map(task => toTaskItem(task, tl.id));
             collected.push(...items);
             
             tasksPageToken = tasksPage.data.nextPageToken ?? undefined;
@@ -106,7 +133,9 @@ export const insertTask = async (
     tasklistId: string,
     title: string,
     description: string,
-    due: string
+    due: string,
+    parent?: string,
+    previous?: string
 ) => {
     const task : tasks_v1.Schema$Task = {
         title,
@@ -114,18 +143,14 @@ export const insertTask = async (
         status: "needsAction",
         due,
     }
+    // parent nests the task as a subtask, previous places it after a sibling
     const response = await tasksClient.tasks.insert({
         tasklist: tasklistId,
+        parent,
+        previous,
         requestBody: task
     });
-    return {
-        id: response.data.id ?? undefined,
-        title: response.data.title ?? "Untitled event",
-        due: response.data.due ?? undefined,
-        description: response.data.notes ?? undefined,
-        status: response.data.status ?? "Missing status",
-        completed: response.data.completed ?? undefined,
-    };
+    return toTaskItem(response.data, tasklistId);
 };
 
 export const updateTask = async (
@@ -148,14 +173,53 @@ export const updateTask = async (
         task: taskId,
         requestBody: task
     });
-    return {
-        id: response.data.id ?? undefined,
-        title: response.data.title ?? "Untitled event",
-        due: response.data.due ?? undefined,
-        description: response.data.notes ?? undefined,
-        status: response.data.status ?? "Missing status",
-        completed: response.data.completed ?? undefined,
-    };
+    return toTaskItem(response.data, tasklistId);
+};
+
+export const completeTask = async (
+    tasksClient: tasks_v1.Tasks,
+    tasklistId: string,
+    taskId: string
+) => {
+    const response = await tasksClient.tasks.patch({
+        tasklist: tasklistId,
+        task: taskId,
+        requestBody: { status: "completed" }
+    });
+    return toTaskItem(response.data, tasklistId);
+};
+
+export const deleteTask = async (
+    tasksClient: tasks_v1.Tasks,
+    tasklistId: string,
+    taskId: string
+) => {
+    await tasksClient.tasks.delete({ tasklist: tasklistId, task: taskId });
+    return { id: taskId, tasklistId, deleted: true };
+};
+
+/**
+ * Reorder a task, (un)nest it under a parent or move it to another list.
+ * Without parent the task moves to the top level; without previous it becomes the first sibling.
+ */
+export const moveTask = async (
+    tasksClient: tasks_v1.Tasks,
+    tasklistId: string,
+    taskId: string,
+    options: {
+        parent?: string;
+        previous?: string;
+        destinationTasklistId?: string;
+    }
+) => {
+    const response = await tasksClient.tasks.move({
+        tasklist: tasklistId,
+        task: taskId,
+        parent: options.parent,
+        previous: options.previous,
+        destinationTasklist: options.destinationTasklistId,
+    });
+    return toTaskItem(response.data, options.destinationTasklistId ?? tasklistId);
 };
 
 export const clearTasks = async (tasksClient: tasks_v1.Tasks, tasklistId: string) => {
@@ -1,5 +1,8 @@
+import { randomUUID } from "crypto";
 import { jwtVerify, SignJWT } from "jose";
 import { env } from "@/env";
+import { getMongoClient } from "@/lib/db";
+import { revokeAllPersonalAccessTokens } from "@/lib/personal-access-tokens";
 
 // Define available MCP scopes
 export const MCP_SCOPES = {
@@ -54,38 +57,72 @@ export const MCP_SCOPE_SETS = {
 
 export interface McpTokenPayload {
   userId: string;
-  googleAccessToken?: string;
+  jti?: string;
+  issuedAt?: number; // seconds since epoch
+  expiresAt?: number; // seconds since epoch
   scopes?: string[];
   workflowRunId?: string;
   [key: string]: unknown;
 }
 
+const REVOCATIONS_COLLECTION = "mcp_token_revocations";
+// Owned by mcp-oauth, which imports this module
+const OAUTH_REFRESH_TOKENS_COLLECTION = "oauth_refresh_tokens";
+const MCP_TOKEN_TTL_SECONDS = 60 * 60;
+// Session tokens share the signing key, so each token kind has its own audience
+export const MCP_TOKEN_AUDIENCE = "mcp";
+
+/**
+ * Either a single revoked token (jti) or a per-user cutoff: every token of the
+ * user issued before revokedBefore is rejected. Documents expire once no token
+ * they could match is still valid.
+ */
+interface McpTokenRevocation {
+  jti?: string;
+  userId?: string;
+  revokedBefore?: Date;
+  reason?: string;
+  expiresAt: Date;
+}
+
+async function getRevocationsCollection() {
+  const client = await getMongoClient();
+  const col = client
+    .db()
+    .collection<McpTokenRevocation>(REVOCATIONS_COLLECTION);
+  await col.createIndex({ jti: 1 }, { unique: true, sparse: true });
+  await col.createIndex({ userId: 1 }, { unique: true, sparse: true });
+  await col.createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+  return col;
+}
+
 /**
  * Generates a single-use MCP token with 1 hour expiry
- * Used for both frontend realtime sessions and backend agents
+ * Used for both frontend realtime sessions and backend agents.
+ * The token never carries the Google access token; the MCP server resolves it
+ * from the user's stored tokens on every request.
  *
  * @param userId - User ID to associate with the token
- * @param googleAccessToken - Optional Google access token for calendar operations
  * @param scopes - Optional array of scopes. If not provided, scopes are auto-assigned based on user capabilities
+ * @param workflowRunId - Optional workflow run that tool calls are logged to
  *
  * @example
  * // Auto-assign scopes (recommended for most use cases)
- * const token = await generateMcpToken(userId, googleToken);
+ * const token = await generateMcpToken(userId);
  *
  * @example
  * // Explicit scopes using constants
- * const token = await generateMcpToken(userId, googleToken, [
+ * const token = await generateMcpToken(userId, [
  *   MCP_SCOPES.USER_CONTEXT_READ,
  *   MCP_SCOPES.CALENDAR_READ
  * ]);
  *
  * @example
  * // Use predefined scope set
- * const token = await generateMcpToken(userId, googleToken, MCP_SCOPE_SETS.CALENDAR_READ_ONLY);
+ * const token = await generateMcpToken(userId, MCP_SCOPE_SETS.CALENDAR_READ_ONLY);
  */
 export async function generateMcpToken(
   userId: string,
-  googleAccessToken?: string,
   scopes?: readonly string[] | string[],
   workflowRunId?: string
 ): Promise<string> {
@@ -95,10 +132,6 @@ export async function generateMcpToken(
     userId,
   };
 
-  if (googleAccessToken) {
-    payload.googleAccessToken = googleAccessToken;
-  }
-
   if (scopes && scopes.length > 0) {
     payload.scopes = [...scopes]; // Convert readonly to mutable array
   }
@@ -110,8 +143,10 @@ export async function generateMcpToken(
   return await new SignJWT(payload)
     .setProtectedHeader({ alg: "HS256" })
     .setSubject(userId)
+    .setAudience(MCP_TOKEN_AUDIENCE)
+    .setJti(randomUUID())
     .setIssuedAt()
-    .setExpirationTime("1h") // 1 hour expiry for single-session use
+    .setExpirationTime(`${MCP_TOKEN_TTL_SECONDS}s`) // 1 hour expiry for single-session use
     .sign(secret);
 }
 
@@ -120,35 +155,131 @@ export async function generateMcpToken(
  * Useful for creating tokens with predefined permission levels
  *
  * @example
- * const readOnlyToken = await generateMcpTokenWithScopeSet(userId, googleToken, "CALENDAR_READ_ONLY");
+ * const readOnlyToken = await generateMcpTokenWithScopeSet(userId, "CALENDAR_READ_ONLY");
  */
 export async function generateMcpTokenWithScopeSet(
   userId: string,
-  googleAccessToken: string | undefined,
   scopeSet: keyof typeof MCP_SCOPE_SETS
 ): Promise<string> {
-  return generateMcpToken(userId, googleAccessToken, MCP_SCOPE_SETS[scopeSet]);
+  return generateMcpToken(userId, MCP_SCOPE_SETS[scopeSet]);
+}
+
+/**
+ * Revoke a single MCP token by its jti until it would have expired anyway
+ */
+export async function revokeMcpToken(
+  jti: string,
+  expiresAt: number,
+  reason?: string
+): Promise<void> {
+  const collection = await getRevocationsCollection();
+  await collection.updateOne(
+    { jti },
+    { $set: { reason, expiresAt: new Date(expiresAt * 1000) } },
+    { upsert: true }
+  );
+}
+
+/**
+ * Revoke every live MCP token of a user (e.g. on logout). Tokens minted
+ * afterwards are unaffected, and so are the OAuth refresh tokens and personal
+ * access tokens that outlive a browser session.
+ */
+export async function revokeAllMcpTokensForUser(
+  userId: string,
+  reason: string
+): Promise<void> {
+  // JWT iat has second precision, so the cutoff is truncated to whole seconds
+  const revokedBefore = new Date(Math.floor(Date.now() / 1000) * 1000);
+  const collection = await getRevocationsCollection();
+  await collection.updateOne(
+    { userId },
+    {
+      $set: {
+        revokedBefore,
+        reason,
+        expiresAt: new Date(
+          revokedBefore.getTime() + MCP_TOKEN_TTL_SECONDS * 1000
+        ),
+      },
+    },
+    { upsert: true }
+  );
+  console.log("[MCP Auth] Revoked all tokens for user", { userId, reason });
+}
+
+/**
+ * Revoke every MCP credential of a user (Google unlink, tier downgrade): live
+ * tokens, plus the OAuth refresh tokens and personal access tokens that could
+ * mint or stand in for new ones
+ */
+export async function revokeAllMcpCredentialsForUser(
+  userId: string,
+  reason: string
+): Promise<void> {
+  await revokeAllMcpTokensForUser(userId, reason);
+
+  const client = await getMongoClient();
+  await client
+    .db()
+    .collection(OAUTH_REFRESH_TOKENS_COLLECTION)
+    .updateMany(
+      { userId, revokedAt: { $exists: false } },
+      { $set: { revokedAt: new Date() } }
+    );
+  await revokeAllPersonalAccessTokens(userId);
+
+  console.log("[MCP Auth] Revoked all credentials for user", { userId, reason });
+}
+
+async function isMcpTokenRevoked(
+  jti: string,
+  userId: string,
+  issuedAt: number
+): Promise<boolean> {
+  const collection = await getRevocationsCollection();
+  const revocation = await collection.findOne({
+    $or: [
+      { jti },
+      { userId, revokedBefore: { $gt: new Date(issuedAt * 1000) } },
+    ],
+  });
+  return revocation !== null;
 }
 
 /**
  * Verifies an MCP token and returns the payload
- * Returns null if token is invalid or expired
+ * Returns null if token is invalid, expired or revoked
  */
 export async function verifyMcpToken(
   token: string
 ): Promise<McpTokenPayload | null> {
   try {
     const secret = env.JWT_SECRET;
-    const { payload } = await jwtVerify(token, secret);
+    const { payload } = await jwtVerify(token, secret, {
+      audience: MCP_TOKEN_AUDIENCE,
+    });
 
     if (!payload.userId || typeof payload.userId !== "string") {
       console.error("Invalid MCP token: missing or invalid userId");
       return null;
     }
 
+    if (!payload.jti || !payload.iat) {
+      console.error("Invalid MCP token: missing jti or iat");
+      return null;
+    }
+
+    if (await isMcpTokenRevoked(payload.jti, payload.userId, payload.iat)) {
+      console.error("MCP token has been revoked", { jti: payload.jti });
+      return null;
+    }
+
     return {
       userId: payload.userId as string,
-      googleAccessToken: payload.googleAccessToken as string | undefined,
+      jti: payload.jti,
+      issuedAt: payload.iat,
+      expiresAt: payload.exp,
       scopes: Array.isArray(payload.scopes) ? payload.scopes as string[] : undefined,
       workflowRunId: payload.workflowRunId as string | undefined,
     };
@@ -0,0 +1,298 @@
+import { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import {
+  CallToolResult,
+  ErrorCode,
+  McpError,
+  ServerNotification,
+} from "@modelcontextprotocol/sdk/types.js";
+import { ObjectId } from "mongodb";
+
+import { logToolCall, getDefaultToolDisplayInfo } from "@/lib/workflow-runs";
+import { onResourceUpdated } from "@/lib/mcp-resources";
+import { consumeRateLimit } from "@/lib/rate-limit";
+
+export type McpToolErrorCode =
+  | "SCOPE_DENIED"
+  | "NO_USER"
+  | "NO_GOOGLE_TOKEN"
+  | "UPSTREAM_GOOGLE"
+  | "INVALID_INPUT"
+  | "NOT_FOUND"
+  | "RATE_LIMITED"
+  | "INTERNAL";
+
+/**
+ * Error thrown from tool handlers to return a typed error code to the client
+ */
+export class McpToolError extends Error {
+  constructor(
+    public readonly code: McpToolErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = "McpToolError";
+  }
+}
+
+export interface McpToolContext {
+  toolCallId: string;
+  userId: string;
+  authInfo: AuthInfo;
+  workflowRunId?: string;
+  googleAccessToken?: string;
+}
+
+export type McpToolExtra = {
+  authInfo?: AuthInfo;
+  sendNotification?: (notification: ServerNotification) => Promise<void>;
+};
+
+type McpToolHandler<Args> = (
+  args: Omit<Args, "log_message">,
+  context: McpToolContext
+) => Promise<unknown>;
+
+// Stored tool results are capped so a large calendar listing can't bloat workflow_runs
+const MAX_STORED_RESULT_CHARS = 4000;
+
+const REDACTED_KEY_PATTERN =
+  /token|secret|password|authorization|api[-_]?key|credential/i;
+
+export const scopesFromAuth = (auth?: AuthInfo): Set<string> =>
+  new Set(auth?.scopes ?? []);
+
+export const userHasScope = (required: string[], auth?: AuthInfo): boolean =>
+  required.length === 0 ||
+  required.some((scope) => scopesFromAuth(auth).has(scope));
+
+/**
+ * Replace values of sensitive-looking keys so they never reach workflow_runs
+ */
+export function redactToolResult(value: unknown, depth = 0): unknown {
+  if (depth > 8) return "[Truncated]";
+  if (Array.isArray(value)) {
+    return value.map((item) => redactToolResult(item, depth + 1));
+  }
+  if (value instanceof Date) {
+    return value;
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>).map(([key, entry]) => [
+        key,
+        REDACTED_KEY_PATTERN.test(key)
+          ? "[REDACTED]"
+          : redactToolResult(entry, depth + 1),
+      ])
+    );
+  }
+  return value;
+}
+
+/**
+ * Redacted copy of a tool result, replaced by a preview when it exceeds the size cap
+ */
+export function toStoredToolResult(value: unknown): unknown {
+  const redacted = redactToolResult(value);
+  const serialized =
+    typeof redacted === "string" ? redacted : JSON.stringify(redacted);
+  if (serialized === undefined || serialized.length <= MAX_STORED_RESULT_CHARS) {
+    return redacted;
+  }
+  return {
+    truncated: true,
+    size: serialized.length,
+    preview: serialized.slice(0, MAX_STORED_RESULT_CHARS),
+  };
+}
+
+function isGoogleApiError(error: unknown): boolean {
+  if (!error || typeof error !== "object") return false;
+  const config = (error as { config?: { url?: unknown } }).config;
+  return String(config?.url ?? "").includes("googleapis.com");
+}
+
+function toToolError(error: unknown): McpToolError {
+  if (error instanceof McpToolError) {
+    return error;
+  }
+  const message = error instanceof Error ? error.message : "Unknown error";
+  if (isGoogleApiError(error)) {
+    return new McpToolError("UPSTREAM_GOOGLE", message);
+  }
+  return new McpToolError("INTERNAL", message);
+}
+
+const formatToolText = (result: unknown): string =>
+  typeof result === "string" ? result : JSON.stringify(result, null, 2);
+
+export const formatToolError = (error: McpToolError): CallToolResult => ({
+  content: [
+    {
+      type: "text",
+      text: JSON.stringify({
+        error: { code: error.code, message: error.message },
+      }),
+    },
+  ],
+  isError: true,
+});
+
+function resolveScopedUser(
+  name: string,
+  requiredScopes: string[],
+  authInfo?: AuthInfo
+): AuthInfo {
+  if (!authInfo || !userHasScope(requiredScopes, authInfo)) {
+    console.error(`[MCP Auth] Missing required scope for ${name}`, {
+      required: requiredScopes,
+      userScopes: authInfo?.scopes,
+    });
+    throw new McpToolError(
+      "SCOPE_DENIED",
+      `Access denied: Missing required scope ${requiredScopes.join(", ")}`
+    );
+  }
+  if (!authInfo.clientId) {
+    throw new McpToolError("NO_USER", "User ID is required");
+  }
+  return authInfo;
+}
+
+/**
+ * Resolve the calling user for MCP resource and prompt requests,
+ * enforcing the same scopes as the equivalent tools
+ */
+export function requireScopedUser(
+  name: string,
+  requiredScopes: string[],
+  authInfo?: AuthInfo
+): string {
+  try {
+    return resolveScopedUser(name, requiredScopes, authInfo).clientId;
+  } catch (error) {
+    const toolError = toToolError(error);
+    throw new McpError(ErrorCode.InvalidRequest, toolError.message, {
+      code: toolError.code,
+    });
+  }
+}
+
+/**
+ * Require the Google access token attached to the MCP session
+ */
+export function requireGoogleAccessToken(context: McpToolContext): string {
+  if (!context.googleAccessToken) {
+    throw new McpToolError("NO_GOOGLE_TOKEN", "Missing Google access token");
+  }
+  return context.googleAccessToken;
+}
+
+/**
+ * Wrap an MCP tool handler with scope checks, user resolution, tier rate limits
+ * and workflow run logging (arguments, result, duration and error code)
+ */
+export function instrumentTool<Args extends { log_message?: string }>(
+  toolName: string,
+  requiredScopes: string[],
+  handler: McpToolHandler<Args>
+) {
+  return async (args: Args, extra: McpToolExtra): Promise<CallToolResult> => {
+    const startedAt = Date.now();
+    const toolCallId = new ObjectId().toString();
+    const authInfo = extra?.authInfo;
+    const workflowRunId = authInfo?.extra?.workflowRunId as string | undefined;
+    const { log_message, ...toolArgs } = args;
+
+    const displayInfo = log_message
+      ? { displayTitle: log_message, displayDescription: "" }
+      : getDefaultToolDisplayInfo(toolName);
+
+    // Log tool start (only if workflowRunId exists)
+    if (workflowRunId) {
+      await logToolCall(workflowRunId, toolCallId, {
+        toolName,
+        displayTitle: displayInfo.displayTitle,
+        displayDescription: displayInfo.displayDescription,
+        arguments: toolArgs,
+        status: "pending",
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      }).catch((err) => console.error("Failed to log tool call start:", err));
+    }
+
+    try {
+      const scopedAuth = resolveScopedUser(toolName, requiredScopes, authInfo);
+      const userId = scopedAuth.clientId;
+      const rateLimit = await consumeRateLimit(userId, {
+        kind: "mcp_tool",
+        toolName,
+        write: requiredScopes.some((scope) => scope.includes("write")),
+      });
+      if (!rateLimit.allowed) {
+        throw new McpToolError(
+          "RATE_LIMITED",
+          `Rate limit exceeded for ${toolName}: ${rateLimit.limit} calls per ${Math.round(
+            rateLimit.windowMs / 60000
+          )} min. Retry in ${Math.ceil(rateLimit.retryAfterMs / 1000)}s.`
+        );
+      }
+      const googleAccessToken = scopedAuth.extra?.googleAccessToken;
+      // Forward resource changes made by this tool call to the client; this
+      // request is the only place they are delivered
+      const unsubscribe = onResourceUpdated(userId, ({ uri }) => {
+        extra.sendNotification?.({
+          method: "notifications/resources/updated",
+          params: { uri },
+        }).catch((err) =>
+          console.error("Failed to send resource update notification:", err)
+        );
+      });
+      let result: unknown;
+      try {
+        result = await handler(toolArgs, {
+          toolCallId,
+          userId,
+          authInfo: scopedAuth,
+          workflowRunId,
+          googleAccessToken:
+            typeof googleAccessToken === "string" && googleAccessToken
+              ? googleAccessToken
+              : undefined,
+        });
+      } finally {
+        unsubscribe();
+      }
+
+      if (workflowRunId) {
+        await logToolCall(workflowRunId, toolCallId, {
+          status: "success",
+          result: toStoredToolResult(result),
+          duration: Date.now() - startedAt,
+          updatedAt: new Date(),
+        }).catch((err) =>
+          console.error("Failed to log tool call success:", err)
+        );
+      }
+
+      return { content: [{ type: "text", text: formatToolText(result) }] };
+    } catch (error) {
+      const toolError = toToolError(error);
+      if (toolError.code === "INTERNAL" || toolError.code === "UPSTREAM_GOOGLE") {
+        console.error(`[MCP] ${toolName} failed:`, error);
+      }
+
+      if (workflowRunId) {
+        await logToolCall(workflowRunId, toolCallId, {
+          status: "error",
+          error: toolError.message,
+          errorCode: toolError.code,
+          duration: Date.now() - startedAt,
+          updatedAt: new Date(),
+        }).catch((err) => console.error("Failed to log tool call error:", err));
+      }
+
+      return formatToolError(toolError);
+    }
+  };
+}
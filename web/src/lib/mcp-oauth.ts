@@ -0,0 +1,510 @@
+import { createHash, randomBytes, timingSafeEqual } from "crypto";
+import { ObjectId } from "mongodb";
+
+import { getMongoClient } from "@/lib/db";
+import { generateMcpToken, MCP_SCOPES, McpScope } from "@/lib/mcp-auth";
+
+const CLIENTS_COLLECTION = "oauth_clients";
+const CODES_COLLECTION = "oauth_authorization_codes";
+const REFRESH_TOKENS_COLLECTION = "oauth_refresh_tokens";
+
+export const OAUTH_ACCESS_TOKEN_TTL_SECONDS = 60 * 60; // matches generateMcpToken expiry
+const AUTHORIZATION_CODE_TTL_MS = 5 * 60 * 1000;
+const REFRESH_TOKEN_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+// Registration and token requests come straight from browser-based MCP clients
+export const OAUTH_CORS_HEADERS = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization",
+};
+
+export type OAuthTokenEndpointAuthMethod =
+  | "none"
+  | "client_secret_post"
+  | "client_secret_basic";
+
+export interface OAuthClient {
+  _id?: ObjectId;
+  clientId: string;
+  clientSecretHash?: string;
+  clientName: string;
+  redirectUris: string[];
+  tokenEndpointAuthMethod: OAuthTokenEndpointAuthMethod;
+  scope?: string;
+  createdAt: Date;
+}
+
+export interface OAuthAuthorizationCode {
+  _id?: ObjectId;
+  codeHash: string;
+  clientId: string;
+  userId: string;
+  redirectUri: string;
+  codeChallenge: string;
+  scopes: McpScope[];
+  expiresAt: Date;
+  usedAt?: Date;
+  createdAt: Date;
+}
+
+export interface OAuthRefreshToken {
+  _id?: ObjectId;
+  tokenHash: string;
+  clientId: string;
+  userId: string;
+  scopes: McpScope[];
+  expiresAt: Date;
+  revokedAt?: Date;
+  createdAt: Date;
+}
+
+/**
+ * Error surfaced to OAuth clients as `{ error, error_description }`
+ */
+export class OAuthError extends Error {
+  constructor(
+    public readonly error:
+      | "invalid_request"
+      | "invalid_client"
+      | "invalid_grant"
+      | "invalid_scope"
+      | "invalid_client_metadata"
+      | "invalid_redirect_uri"
+      | "unsupported_grant_type"
+      | "unsupported_response_type",
+    description: string,
+    public readonly status = 400
+  ) {
+    super(description);
+    this.name = "OAuthError";
+  }
+
+  // Set once the redirect_uri is verified: the error goes back to the client
+  redirectTo?: string;
+
+  toJSON() {
+    return { error: this.error, error_description: this.message };
+  }
+}
+
+export const SUPPORTED_MCP_SCOPES = Object.values(MCP_SCOPES);
+
+export const MCP_SCOPE_DESCRIPTIONS: Record<McpScope, string> = {
+  "read:user-context": "Read what Micromanager remembers about you and your conversations",
+  "write:user-context": "Update your saved context and workplans",
+  "calendar:read": "View your Google Calendar events and availability",
+  "calendar:write": "Create, update and delete Google Calendar events",
+  "tasks:read": "View your Google Tasks",
+  "tasks:write": "Create and update Google Tasks",
+};
+
+async function getClientsCollection() {
+  const client = await getMongoClient();
+  const col = client.db().collection<OAuthClient>(CLIENTS_COLLECTION);
+  await col.createIndex({ clientId: 1 }, { unique: true });
+  return col;
+}
+
+async function getCodesCollection() {
+  const client = await getMongoClient();
+  const col = client.db().collection<OAuthAuthorizationCode>(CODES_COLLECTION);
+  await col.createIndex({ codeHash: 1 }, { unique: true });
+  await col.createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+  return col;
+}
+
+async function getRefreshTokensCollection() {
+  const client = await getMongoClient();
+  const col = client
+    .db()
+    .collection<OAuthRefreshToken>(REFRESH_TOKENS_COLLECTION);
+  await col.createIndex({ tokenHash: 1 }, { unique: true });
+  await col.createIndex({ userId: 1, clientId: 1 });
+  await col.createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+  return col;
+}
+
+const generateSecret = () => randomBytes(32).toString("base64url");
+
+const hashSecret = (value: string) =>
+  createHash("sha256").update(value).digest("hex");
+
+const safeEqual = (a: string, b: string) => {
+  const bufA = Buffer.from(a);
+  const bufB = Buffer.from(b);
+  return bufA.length === bufB.length && timingSafeEqual(bufA, bufB);
+};
+
+/**
+ * Issuer URL for the authorization server (origin of the MCP server URL)
+ */
+export function getOAuthIssuer(): string {
+  const serverUrl = process.env.NEXT_PUBLIC_MICROMANAGER_MCP_SERVER_URL;
+  if (!serverUrl) {
+    throw new Error("NEXT_PUBLIC_MICROMANAGER_MCP_SERVER_URL is not set");
+  }
+  return new URL(serverUrl).origin;
+}
+
+/**
+ * RFC 8414 authorization server metadata
+ */
+export function getAuthorizationServerMetadata() {
+  const issuer = getOAuthIssuer();
+  return {
+    issuer,
+    authorization_endpoint: `${issuer}/oauth/authorize`,
+    token_endpoint: `${issuer}/api/oauth/token`,
+    registration_endpoint: `${issuer}/api/oauth/register`,
+    scopes_supported: SUPPORTED_MCP_SCOPES,
+    response_types_supported: ["code"],
+    grant_types_supported: ["authorization_code", "refresh_token"],
+    token_endpoint_auth_methods_supported: [
+      "none",
+      "client_secret_post",
+      "client_secret_basic",
+    ],
+    code_challenge_methods_supported: ["S256"],
+  };
+}
+
+/**
+ * Parse a space-delimited scope string, keeping only supported MCP scopes.
+ * An empty request grants every supported scope (subject to consent).
+ */
+export function parseScopes(scope?: string | null): McpScope[] {
+  if (!scope?.trim()) {
+    return [...SUPPORTED_MCP_SCOPES];
+  }
+  const requested = scope.trim().split(/\s+/);
+  const unsupported = requested.filter(
+    (value) => !SUPPORTED_MCP_SCOPES.includes(value as McpScope)
+  );
+  if (unsupported.length > 0) {
+    throw new OAuthError(
+      "invalid_scope",
+      `Unsupported scope: ${unsupported.join(" ")}`
+    );
+  }
+  return SUPPORTED_MCP_SCOPES.filter((value) => requested.includes(value));
+}
+
+/**
+ * Dynamic client registration (RFC 7591)
+ */
+export async function registerOAuthClient(input: {
+  clientName?: string;
+  redirectUris: string[];
+  tokenEndpointAuthMethod?: OAuthTokenEndpointAuthMethod;
+  scope?: string;
+}): Promise<{ client: OAuthClient; clientSecret?: string }> {
+  if (input.redirectUris.length === 0) {
+    throw new OAuthError(
+      "invalid_redirect_uri",
+      "At least one redirect_uri is required"
+    );
+  }
+  for (const uri of input.redirectUris) {
+    let parsed: URL;
+    try {
+      parsed = new URL(uri);
+    } catch {
+      throw new OAuthError("invalid_redirect_uri", `Invalid redirect_uri: ${uri}`);
+    }
+    const isLoopback = ["localhost", "127.0.0.1", "[::1]"].includes(
+      parsed.hostname
+    );
+    if (parsed.protocol === "http:" && !isLoopback) {
+      throw new OAuthError(
+        "invalid_redirect_uri",
+        "redirect_uri must use https unless it targets a loopback address"
+      );
+    }
+    if (parsed.hash) {
+      throw new OAuthError(
+        "invalid_redirect_uri",
+        "redirect_uri must not contain a fragment"
+      );
+    }
+  }
+  if (input.scope) {
+    parseScopes(input.scope);
+  }
+
+  const tokenEndpointAuthMethod = input.tokenEndpointAuthMethod ?? "none";
+  const clientSecret =
+    tokenEndpointAuthMethod === "none" ? undefined : generateSecret();
+
+  const client: OAuthClient = {
+    clientId: `mcp_${generateSecret()}`,
+    clientSecretHash: clientSecret ? hashSecret(clientSecret) : undefined,
+    clientName: input.clientName?.trim() || "MCP client",
+    redirectUris: input.redirectUris,
+    tokenEndpointAuthMethod,
+    scope: input.scope,
+    createdAt: new Date(),
+  };
+
+  const collection = await getClientsCollection();
+  const result = await collection.insertOne(client);
+  return { client: { ...client, _id: result.insertedId }, clientSecret };
+}
+
+export async function getOAuthClient(clientId: string) {
+  const collection = await getClientsCollection();
+  return collection.findOne({ clientId });
+}
+
+/**
+ * Authenticate a client at the token endpoint
+ */
+export async function authenticateOAuthClient(
+  clientId: string | undefined,
+  clientSecret: string | undefined
+): Promise<OAuthClient> {
+  if (!clientId) {
+    throw new OAuthError("invalid_client", "client_id is required", 401);
+  }
+  const client = await getOAuthClient(clientId);
+  if (!client) {
+    throw new OAuthError("invalid_client", "Unknown client", 401);
+  }
+  if (client.tokenEndpointAuthMethod !== "none") {
+    if (
+      !clientSecret ||
+      !client.clientSecretHash ||
+      !safeEqual(hashSecret(clientSecret), client.clientSecretHash)
+    ) {
+      throw new OAuthError("invalid_client", "Invalid client credentials", 401);
+    }
+  }
+  return client;
+}
+
+export interface AuthorizationRequest {
+  client: OAuthClient;
+  redirectUri: string;
+  codeChallenge: string;
+  scopes: McpScope[];
+  state?: string;
+}
+
+/**
+ * Validate the parameters of an authorization request. Errors thrown before the
+ * redirect_uri is verified must be shown to the user, never redirected; later
+ * errors carry `redirectTo` so they are reported to the client.
+ */
+export async function validateAuthorizationRequest(params: {
+  client_id?: string | null;
+  redirect_uri?: string | null;
+  response_type?: string | null;
+  code_challenge?: string | null;
+  code_challenge_method?: string | null;
+  scope?: string | null;
+  state?: string | null;
+}): Promise<AuthorizationRequest> {
+  const client = params.client_id
+    ? await getOAuthClient(params.client_id)
+    : null;
+  if (!client) {
+    throw new OAuthError("invalid_client", "Unknown client");
+  }
+
+  // A single registered redirect_uri may be omitted from the request
+  const redirectUri =
+    params.redirect_uri ??
+    (client.redirectUris.length === 1 ? client.redirectUris[0] : undefined);
+  if (!redirectUri || !client.redirectUris.includes(redirectUri)) {
+    throw new OAuthError(
+      "invalid_redirect_uri",
+      "redirect_uri is not registered for this client"
+    );
+  }
+
+  const state = params.state ?? undefined;
+  const redirectError = (error: OAuthError) => {
+    error.redirectTo = buildAuthorizationRedirect(redirectUri, {
+      ...error.toJSON(),
+      state,
+    });
+    return error;
+  };
+
+  if (params.response_type !== "code") {
+    throw redirectError(
+      new OAuthError(
+        "unsupported_response_type",
+        "response_type must be code"
+      )
+    );
+  }
+  // OAuth 2.1 requires PKCE for every client; only S256 is accepted
+  if (!params.code_challenge || params.code_challenge_method !== "S256") {
+    throw redirectError(
+      new OAuthError(
+        "invalid_request",
+        "code_challenge with code_challenge_method S256 is required"
+      )
+    );
+  }
+
+  let scopes: McpScope[];
+  try {
+    scopes = parseScopes(params.scope ?? client.scope);
+  } catch (error) {
+    throw error instanceof OAuthError ? redirectError(error) : error;
+  }
+
+  return {
+    client,
+    redirectUri,
+    codeChallenge: params.code_challenge,
+    scopes,
+    state,
+  };
+}
+
+/**
+ * Build the redirect back to the client with either a code or an error
+ */
+export function buildAuthorizationRedirect(
+  redirectUri: string,
+  params: Record<string, string | undefined>
+): string {
+  const url = new URL(redirectUri);
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined) {
+      url.searchParams.set(key, value);
+    }
+  }
+  return url.toString();
+}
+
+/**
+ * Issue a single-use authorization code bound to a PKCE challenge
+ */
+export async function createAuthorizationCode(input: {
+  clientId: string;
+  userId: string;
+  redirectUri: string;
+  codeChallenge: string;
+  scopes: McpScope[];
+}): Promise<string> {
+  const code = generateSecret();
+  const now = new Date();
+  const collection = await getCodesCollection();
+  await collection.insertOne({
+    ...input,
+    codeHash: hashSecret(code),
+    expiresAt: new Date(now.getTime() + AUTHORIZATION_CODE_TTL_MS),
+    createdAt: now,
+  });
+  return code;
+}
+
+function verifyPkce(codeVerifier: string, codeChallenge: string) {
+  const computed = createHash("sha256")
+    .update(codeVerifier)
+    .digest("base64url");
+  return safeEqual(computed, codeChallenge);
+}
+
+/**
+ * Exchange an authorization code. Codes are consumed atomically, so a replayed
+ * code fails even if it is still within its lifetime.
+ */
+export async function consumeAuthorizationCode(input: {
+  code: string;
+  clientId: string;
+  redirectUri?: string;
+  codeVerifier?: string;
+}): Promise<OAuthAuthorizationCode> {
+  if (!input.codeVerifier) {
+    throw new OAuthError("invalid_request", "code_verifier is required");
+  }
+  const collection = await getCodesCollection();
+  const now = new Date();
+  const stored = await collection.findOneAndUpdate(
+    {
+      codeHash: hashSecret(input.code),
+      usedAt: { $exists: false },
+      expiresAt: { $gt: now },
+    },
+    { $set: { usedAt: now } },
+    { returnDocument: "after" }
+  );
+
+  if (!stored || stored.clientId !== input.clientId) {
+    throw new OAuthError("invalid_grant", "Invalid or expired authorization code");
+  }
+  if (input.redirectUri && input.redirectUri !== stored.redirectUri) {
+    throw new OAuthError("invalid_grant", "redirect_uri does not match");
+  }
+  if (!verifyPkce(input.codeVerifier, stored.codeChallenge)) {
+    throw new OAuthError("invalid_grant", "PKCE verification failed");
+  }
+  return stored;
+}
+
+export async function createRefreshToken(input: {
+  clientId: string;
+  userId: string;
+  scopes: McpScope[];
+}): Promise<string> {
+  const token = generateSecret();
+  const now = new Date();
+  const collection = await getRefreshTokensCollection();
+  await collection.insertOne({
+    ...input,
+    tokenHash: hashSecret(token),
+    expiresAt: new Date(now.getTime() + REFRESH_TOKEN_TTL_MS),
+    createdAt: now,
+  });
+  return token;
+}
+
+/**
+ * Rotate a refresh token: the presented token is revoked and its grant returned
+ */
+export async function rotateRefreshToken(input: {
+  refreshToken: string;
+  clientId: string;
+}): Promise<OAuthRefreshToken> {
+  const collection = await getRefreshTokensCollection();
+  const now = new Date();
+  const stored = await collection.findOneAndUpdate(
+    {
+      tokenHash: hashSecret(input.refreshToken),
+      revokedAt: { $exists: false },
+      expiresAt: { $gt: now },
+    },
+    { $set: { revokedAt: now } },
+    { returnDocument: "after" }
+  );
+  if (!stored || stored.clientId !== input.clientId) {
+    throw new OAuthError("invalid_grant", "Invalid or expired refresh token");
+  }
+  return stored;
+}
+
+/**
+ * Token endpoint response for a granted user/client/scope set. Access tokens are
+ * regular MCP JWTs so the MCP route verifies them like any other token.
+ */
+export async function issueOAuthTokens(grant: {
+  clientId: string;
+  userId: string;
+  scopes: McpScope[];
+}) {
+  const accessToken = await generateMcpToken(grant.userId, grant.scopes);
+  const refreshToken = await createRefreshToken(grant);
+
+  return {
+    access_token: accessToken,
+    token_type: "Bearer",
+    expires_in: OAUTH_ACCESS_TOKEN_TTL_SECONDS,
+    refresh_token: refreshToken,
+    scope: grant.scopes.join(" "),
+  };
+}
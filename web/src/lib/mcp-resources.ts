@@ -0,0 +1,49 @@
+import { EventEmitter } from "events";
+
+const RESOURCE_UPDATED_EVENT = "resource-updated";
+
+export const MCP_RESOURCE_SCHEME = "micromanager";
+
+export const MCP_RESOURCE_URIS = {
+  context: `${MCP_RESOURCE_SCHEME}://context`,
+  recentConversation: `${MCP_RESOURCE_SCHEME}://conversation/recent`,
+  workplanTemplate: `${MCP_RESOURCE_SCHEME}://workplans/{eventId}`,
+  workplan: (eventId: string) =>
+    `${MCP_RESOURCE_SCHEME}://workplans/${encodeURIComponent(eventId)}`,
+} as const;
+
+export interface ResourceUpdatedEvent {
+  userId: string;
+  uri: string;
+}
+
+// In-process bus: data helpers emit here, and the MCP tool call that made the
+// change forwards the events to its own client as notifications/resources/updated.
+// Other requests and server instances never see them.
+const resourceEvents = new EventEmitter();
+resourceEvents.setMaxListeners(0);
+
+/**
+ * Announce that a user's MCP resource changed
+ */
+export function emitResourceUpdated(userId: string, uri: string): void {
+  resourceEvents.emit(RESOURCE_UPDATED_EVENT, { userId, uri });
+}
+
+/**
+ * Listen for resource changes of a single user. Returns an unsubscribe function.
+ */
+export function onResourceUpdated(
+  userId: string,
+  listener: (event: ResourceUpdatedEvent) => void
+): () => void {
+  const handler = (event: ResourceUpdatedEvent) => {
+    if (event.userId === userId) {
+      listener(event);
+    }
+  };
+  resourceEvents.on(RESOURCE_UPDATED_EVENT, handler);
+  return () => {
+    resourceEvents.off(RESOURCE_UPDATED_EVENT, handler);
+  };
+}
@@ -0,0 +1,160 @@
+import { createHash, randomBytes } from "crypto";
+import { ObjectId } from "mongodb";
+
+import { getMongoClient } from "@/lib/db";
+import type { McpScope } from "@/lib/mcp-auth";
+
+const COLLECTION = "personal_access_tokens";
+
+// Prefix lets verifyToken route PATs without trying JWT verification first
+export const PERSONAL_ACCESS_TOKEN_PREFIX = "mmpat_";
+
+// Only one lastUsedAt write per token per minute
+const LAST_USED_UPDATE_INTERVAL_MS = 60 * 1000;
+
+export interface PersonalAccessToken {
+  _id?: ObjectId;
+  userId: string;
+  name: string;
+  tokenHash: string;
+  tokenHint: string; // last 4 characters, for display
+  scopes: McpScope[];
+  expiresAt?: Date | null; // unset or null when the token never expires
+  lastUsedAt?: Date;
+  revokedAt?: Date;
+  createdAt: Date;
+}
+
+export interface PersonalAccessTokenSummary {
+  id: string;
+  name: string;
+  tokenHint: string;
+  scopes: McpScope[];
+  expiresAt?: string;
+  lastUsedAt?: string;
+  createdAt: string;
+}
+
+async function getTokensCollection() {
+  const client = await getMongoClient();
+  const col = client.db().collection<PersonalAccessToken>(COLLECTION);
+  await col.createIndex({ tokenHash: 1 }, { unique: true });
+  await col.createIndex({ userId: 1, createdAt: -1 });
+  return col;
+}
+
+const hashToken = (token: string) =>
+  createHash("sha256").update(token).digest("hex");
+
+export const isPersonalAccessToken = (token: string) =>
+  token.startsWith(PERSONAL_ACCESS_TOKEN_PREFIX);
+
+export function toPersonalAccessTokenSummary(
+  token: PersonalAccessToken
+): PersonalAccessTokenSummary {
+  return {
+    id: token._id!.toString(),
+    name: token.name,
+    tokenHint: token.tokenHint,
+    scopes: token.scopes,
+    expiresAt: token.expiresAt?.toISOString(),
+    lastUsedAt: token.lastUsedAt?.toISOString(),
+    createdAt: token.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Create a personal access token. The plaintext token is only returned here;
+ * Mongo keeps its SHA-256 hash.
+ */
+export async function createPersonalAccessToken(
+  userId: string,
+  input: { name: string; scopes: McpScope[]; expiresAt?: Date }
+): Promise<{ token: string; record: PersonalAccessToken }> {
+  const token = `${PERSONAL_ACCESS_TOKEN_PREFIX}${randomBytes(32).toString("base64url")}`;
+  const record: PersonalAccessToken = {
+    userId,
+    name: input.name,
+    tokenHash: hashToken(token),
+    tokenHint: token.slice(-4),
+    scopes: input.scopes,
+    expiresAt: input.expiresAt,
+    createdAt: new Date(),
+  };
+
+  const collection = await getTokensCollection();
+  const result = await collection.insertOne(record);
+  return { token, record: { ...record, _id: result.insertedId } };
+}
+
+/**
+ * Active (not revoked or expired) tokens of a user, newest first
+ */
+export async function listPersonalAccessTokens(
+  userId: string
+): Promise<PersonalAccessToken[]> {
+  const collection = await getTokensCollection();
+  return collection
+    .find({
+      userId,
+      revokedAt: { $exists: false },
+      // null also matches tokens that never expire
+      $or: [{ expiresAt: null }, { expiresAt: { $gt: new Date() } }],
+    })
+    .sort({ createdAt: -1 })
+    .toArray();
+}
+
+export async function revokePersonalAccessToken(
+  userId: string,
+  tokenId: string
+): Promise<boolean> {
+  if (!ObjectId.isValid(tokenId)) return false;
+  const collection = await getTokensCollection();
+  const result = await collection.updateOne(
+    { _id: new ObjectId(tokenId), userId, revokedAt: { $exists: false } },
+    { $set: { revokedAt: new Date() } }
+  );
+  return result.modifiedCount > 0;
+}
+
+export async function revokeAllPersonalAccessTokens(userId: string) {
+  const collection = await getTokensCollection();
+  await collection.updateMany(
+    { userId, revokedAt: { $exists: false } },
+    { $set: { revokedAt: new Date() } }
+  );
+}
+
+/**
+ * Resolve a presented token to its record, or null when unknown, revoked or expired
+ */
+export async function verifyPersonalAccessToken(
+  token: string
+): Promise<PersonalAccessToken | null> {
+  const collection = await getTokensCollection();
+  const record = await collection.findOne({
+    tokenHash: hashToken(token),
+    revokedAt: { $exists: false },
+  });
+
+  if (!record) return null;
+
+  const now = new Date();
+  if (record.expiresAt && record.expiresAt <= now) {
+    return null;
+  }
+
+  if (
+    !record.lastUsedAt ||
+    now.getTime() - record.lastUsedAt.getTime() > LAST_USED_UPDATE_INTERVAL_MS
+  ) {
+    await collection
+      .updateOne({ _id: record._id }, { $set: { lastUsedAt: now } })
+      .catch((error) =>
+        console.error("Failed to update token lastUsedAt:", error)
+      );
+  }
+
+  return record;
+}
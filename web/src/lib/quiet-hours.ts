@@ -0,0 +1,216 @@
+import { ObjectId } from "mongodb";
+
+import { getMongoClient } from "@/lib/db";
+import { fromZonedDateTime, toZonedDateTime } from "@/lib/recurrence";
+import { getUserTimezone } from "@/lib/user";
+
+const USERS_COLLECTION = "users";
+
+// Local wall-clock window, "HH:MM"; wraps past midnight when end < start
+export interface TimeWindow {
+  start: string;
+  end: string;
+}
+
+/**
+ * - as_weekdays: weekends follow the same quiet and working hours
+ * - quiet_hours_only: working hours don't apply on weekends
+ * - silent: no proactive messages on Saturday and Sunday
+ */
+export type WeekendRule = "as_weekdays" | "quiet_hours_only" | "silent";
+
+export const WEEKEND_RULES: WeekendRule[] = [
+  "as_weekdays",
+  "quiet_hours_only",
+  "silent",
+];
+
+export interface QuietHoursSettings {
+  quietHours: TimeWindow | null; // No proactive messages inside
+  workingHours: TimeWindow | null; // Proactive messages only inside
+  weekends: WeekendRule;
+  snoozedUntil: Date | null; // "Snooze all" until this instant
+}
+
+export const DEFAULT_QUIET_HOURS_SETTINGS: QuietHoursSettings = {
+  quietHours: null,
+  workingHours: null,
+  weekends: "as_weekdays",
+  snoozedUntil: null,
+};
+
+// Days after `at` or the end of a snooze to look for an allowed time; covers a
+// silent weekend after a Friday evening
+const SEARCH_DAYS = 8;
+
+const toMinutes = (time: string) => {
+  const [hour, minute] = time.split(":").map(Number);
+  return hour * 60 + minute;
+};
+
+const inWindow = (minutes: number, window: TimeWindow) => {
+  const start = toMinutes(window.start);
+  const end = toMinutes(window.end);
+  return start <= end
+    ? minutes >= start && minutes < end
+    : minutes >= start || minutes < end;
+};
+
+/**
+ * Whether a proactive message may be sent at `at` under these settings
+ */
+export function isMessageAllowed(
+  settings: QuietHoursSettings,
+  timeZone: string,
+  at: Date
+): boolean {
+  if (settings.snoozedUntil && settings.snoozedUntil > at) {
+    return false;
+  }
+
+  const local = toZonedDateTime(at, timeZone);
+  const minutes = local.hour * 60 + local.minute;
+  const weekday = new Date(
+    Date.UTC(local.year, local.month - 1, local.day)
+  ).getUTCDay();
+  const isWeekend = weekday === 0 || weekday === 6;
+
+  if (isWeekend && settings.weekends === "silent") {
+    return false;
+  }
+  if (settings.quietHours && inWindow(minutes, settings.quietHours)) {
+    return false;
+  }
+  const workingHoursApply =
+    !isWeekend || settings.weekends !== "quiet_hours_only";
+  if (
+    settings.workingHours &&
+    workingHoursApply &&
+    !inWindow(minutes, settings.workingHours)
+  ) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * The earliest instant at or after `at` when a proactive message may be sent.
+ * Null when the settings allow no time in the week after `at` or after the
+ * snooze ends.
+ */
+export function nextAllowedTime(
+  settings: QuietHoursSettings,
+  timeZone: string,
+  at: Date
+): Date | null {
+  // Nothing goes out during a snooze, so the search starts where it ends
+  const from =
+    settings.snoozedUntil && settings.snoozedUntil > at
+      ? settings.snoozedUntil
+      : at;
+  if (isMessageAllowed(settings, timeZone, from)) {
+    return from;
+  }
+
+  // Restrictions only lift at a quiet-hours end, the start of working hours
+  // or midnight (weekend rules), so those are the candidates
+  const boundaries = [
+    "00:00",
+    settings.quietHours?.end,
+    settings.workingHours?.start,
+  ]
+    .filter((time): time is string => Boolean(time))
+    .map(toMinutes);
+  const today = toZonedDateTime(from, timeZone);
+  const candidates: Date[] = [];
+
+  for (let offset = 0; offset <= SEARCH_DAYS; offset++) {
+    const date = new Date(
+      Date.UTC(today.year, today.month - 1, today.day + offset)
+    );
+    for (const minutes of boundaries) {
+      candidates.push(
+        fromZonedDateTime(
+          {
+            year: date.getUTCFullYear(),
+            month: date.getUTCMonth() + 1,
+            day: date.getUTCDate(),
+            hour: Math.floor(minutes / 60),
+            minute: minutes % 60,
+          },
+          timeZone
+        )
+      );
+    }
+  }
+
+  return (
+    candidates
+      .filter((candidate) => candidate > from)
+      .sort((a, b) => a.getTime() - b.getTime())
+      .find((candidate) => isMessageAllowed(settings, timeZone, candidate)) ??
+    null
+  );
+}
+
+export async function getQuietHoursSettings(
+  userId: string
+): Promise<QuietHoursSettings> {
+  if (!ObjectId.isValid(userId)) return DEFAULT_QUIET_HOURS_SETTINGS;
+  const client = await getMongoClient();
+  const user = await client
+    .db()
+    .collection(USERS_COLLECTION)
+    .findOne({ _id: new ObjectId(userId) }, { projection: { quietHours: 1 } });
+  return {
+    ...DEFAULT_QUIET_HOURS_SETTINGS,
+    ...(user?.quietHours as Partial<QuietHoursSettings> | undefined),
+  };
+}
+
+export async function setQuietHoursSettings(
+  userId: string,
+  settings: Partial<QuietHoursSettings>
+): Promise<QuietHoursSettings> {
+  const client = await getMongoClient();
+  const updates = Object.fromEntries(
+    Object.entries(settings)
+      .filter(([, value]) => value !== undefined)
+      .map(([key, value]) => [`quietHours.${key}`, value])
+  );
+  await client
+    .db()
+    .collection(USERS_COLLECTION)
+    .updateOne(
+      { _id: new ObjectId(userId) },
+      { $set: { ...updates, updatedAt: new Date() } }
+    );
+  return getQuietHoursSettings(userId);
+}
+
+/**
+ * When a proactive message due at `at` may go out for this user: `at` itself
+ * when it's allowed, otherwise the next allowed time
+ */
+export async function resolveDeliveryTime(
+  userId: string,
+  at = new Date()
+): Promise<Date> {
+  const settings = await getQuietHoursSettings(userId);
+  const timeZone = (await getUserTimezone(userId)) ?? "UTC";
+  const next = nextAllowedTime(settings, timeZone, at);
+  if (next) {
+    return next;
+  }
+  // Without an allowed time the other rules are ignored, but a snooze still holds
+  const snoozedUntil =
+    settings.snoozedUntil && settings.snoozedUntil > at
+      ? settings.snoozedUntil
+      : null;
+  console.warn(
+    `[Quiet Hours] Settings for user ${userId} allow no time in the next week, ${
+      snoozedUntil ? "deferring to the end of the snooze" : "not deferring"
+    }`
+  );
+  return snoozedUntil ?? at;
+}
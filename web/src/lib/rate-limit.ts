@@ -0,0 +1,177 @@
+import { ObjectId } from "mongodb";
+import { NextResponse } from "next/server";
+
+import { getMongoClient } from "@/lib/db";
+import { logUsage } from "@/lib/usage-tracking";
+import { getUserById } from "@/lib/user";
+import {
+  RateLimitRule,
+  TIER_RATE_LIMITS,
+  UserTier,
+} from "@/types/user";
+
+const COLLECTION = "rate_limit_events";
+
+export interface RateLimitEvent {
+  _id?: ObjectId;
+  key: string;
+  userId: string;
+  createdAt: Date;
+  expiresAt: Date;
+}
+
+export type RateLimitTarget =
+  | { kind: "route"; route: string; source?: "telegram" | "web" | "api" }
+  | { kind: "mcp_tool"; toolName: string; write: boolean };
+
+export type RateLimitResult =
+  | { allowed: true }
+  | {
+      allowed: false;
+      key: string;
+      limit: number;
+      windowMs: number;
+      retryAfterMs: number;
+    };
+
+async function getRateLimitCollection() {
+  const client = await getMongoClient();
+  const col = client.db().collection<RateLimitEvent>(COLLECTION);
+  await col.createIndex({ key: 1, createdAt: -1 });
+  await col.createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+  return col;
+}
+
+async function getUserTier(userId: string): Promise<UserTier> {
+  if (!ObjectId.isValid(userId)) return "free";
+  const user = await getUserById(userId);
+  const tier = user?.tier as UserTier | undefined;
+  return tier && tier in TIER_RATE_LIMITS ? tier : "free";
+}
+
+function rulesFor(
+  userId: string,
+  tier: UserTier,
+  target: RateLimitTarget
+): Array<{ key: string; rule: RateLimitRule }> {
+  const limits = TIER_RATE_LIMITS[tier];
+  if (target.kind === "route") {
+    return [{ key: `${userId}:route:${target.route}`, rule: limits.chat }];
+  }
+  return [
+    { key: `${userId}:mcp`, rule: limits.mcpTotal },
+    {
+      key: `${userId}:mcp:${target.toolName}`,
+      rule: target.write ? limits.mcpWriteTool : limits.mcpTool,
+    },
+  ];
+}
+
+async function logRateLimitRejection(
+  userId: string,
+  target: RateLimitTarget,
+  key: string
+) {
+  try {
+    await logUsage({
+      userId,
+      taskType: "rate_limit",
+      source: target.kind === "route" ? target.source ?? "api" : "api",
+      inputTokens: 0,
+      outputTokens: 0,
+      totalTokens: 0,
+      inputCost: 0,
+      outputCost: 0,
+      totalCost: 0,
+      toolCalls: 0,
+      toolNames: target.kind === "mcp_tool" ? [target.toolName] : [],
+      duration: 0,
+      success: false,
+      error: `Rate limit exceeded (${key})`,
+    });
+  } catch (error) {
+    console.error("[Rate Limit] Failed to log rejection:", error);
+  }
+}
+
+/**
+ * Sliding-window rate limit check for a user. Consumes one slot in every window
+ * that applies to the target when allowed; records rejections in usage_logs.
+ *
+ * The slots are inserted before counting, so concurrent requests always see
+ * each other and can't both take the last slot. A rejected request removes
+ * its slots again.
+ */
+export async function consumeRateLimit(
+  userId: string,
+  target: RateLimitTarget
+): Promise<RateLimitResult> {
+  const collection = await getRateLimitCollection();
+  const tier = await getUserTier(userId);
+  const rules = rulesFor(userId, tier, target);
+  const now = Date.now();
+
+  const createdAt = new Date(now);
+  const { insertedIds } = await collection.insertMany(
+    rules.map(({ key, rule }) => ({
+      key,
+      userId,
+      createdAt,
+      expiresAt: new Date(now + rule.windowMs),
+    }))
+  );
+
+  for (const { key, rule } of rules) {
+    const windowStart = new Date(now - rule.windowMs);
+    const count = await collection.countDocuments({
+      key,
+      createdAt: { $gt: windowStart },
+    });
+
+    if (count > rule.limit) {
+      await collection.deleteMany({ _id: { $in: Object.values(insertedIds) } });
+
+      const oldest = await collection.findOne(
+        { key, createdAt: { $gt: windowStart } },
+        { sort: { createdAt: 1 } }
+      );
+      const retryAfterMs = oldest
+        ? Math.max(oldest.createdAt.getTime() + rule.windowMs - now, 0)
+        : rule.windowMs;
+
+      console.warn("[Rate Limit] Rejected", { userId, tier, key, count });
+      await logRateLimitRejection(userId, target, key);
+
+      return {
+        allowed: false,
+        key,
+        limit: rule.limit,
+        windowMs: rule.windowMs,
+        retryAfterMs,
+      };
+    }
+  }
+
+  return { allowed: true };
+}
+
+/**
+ * HTTP 429 response for a rejected route request
+ */
+export function rateLimitResponse(
+  result: Extract<RateLimitResult, { allowed: false }>
+) {
+  const retryAfterSeconds = Math.ceil(result.retryAfterMs / 1000);
+  return NextResponse.json(
+    {
+      error: "Too many requests",
+      limit: result.limit,
+      windowSeconds: Math.round(result.windowMs / 1000),
+      retryAfterSeconds,
+    },
+    {
+      status: 429,
+      headers: { "Retry-After": String(retryAfterSeconds) },
+    }
+  );
+}
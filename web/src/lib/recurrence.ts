@@ -0,0 +1,551 @@
+/**
+ * Calendar recurrence for scheduled tasks: a subset of iCalendar RRULE and
+ * five-field cron expressions, both evaluated as wall-clock times in an IANA
+ * timezone. Local times skipped by a DST change run after the gap; repeated
+ * local times run once, at the first occurrence.
+ */
+
+export type TaskSchedule =
+  | {
+      kind: "rrule";
+      rule: string;
+      timezone: string;
+      // DTSTART: anchors INTERVAL and supplies defaults for missing BY* parts
+      startAt: Date;
+    }
+  | { kind: "cron"; expression: string; timezone: string };
+
+export class InvalidScheduleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidScheduleError";
+  }
+}
+
+export interface ZonedDateTime {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+// How far ahead to look for the next occurrence before giving up
+const MAX_SEARCH_DAYS = 366 * 8;
+
+const WEEKDAY_CODES = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+const MONTH_NAMES = [
+  "JAN",
+  "FEB",
+  "MAR",
+  "APR",
+  "MAY",
+  "JUN",
+  "JUL",
+  "AUG",
+  "SEP",
+  "OCT",
+  "NOV",
+  "DEC",
+];
+const DAY_NAMES = ["SUN", "MON", "TUE", "WED", "THU", "FRI", "SAT"];
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const formatterFor = (timeZone: string) => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    formatterFor(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Wall-clock date and time of an instant in `timeZone`
+ */
+export function toZonedDateTime(date: Date, timeZone: string): ZonedDateTime {
+  const parts: Record<string, number> = {};
+  for (const part of formatterFor(timeZone).formatToParts(date)) {
+    if (part.type !== "literal") parts[part.type] = Number(part.value);
+  }
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+  };
+}
+
+const wallClockMs = (time: ZonedDateTime) =>
+  Date.UTC(time.year, time.month - 1, time.day, time.hour, time.minute);
+
+// How far the zone's wall clock is ahead of UTC at `instant`, in ms
+const offsetAt = (instant: number, timeZone: string) =>
+  wallClockMs(toZonedDateTime(new Date(instant), timeZone)) -
+  Math.floor(instant / MINUTE_MS) * MINUTE_MS;
+
+/**
+ * The instant a wall-clock time happens in `timeZone`. A time inside a DST gap
+ * resolves to the same distance after the gap; a repeated time to its first
+ * occurrence.
+ */
+export function fromZonedDateTime(time: ZonedDateTime, timeZone: string): Date {
+  const wall = wallClockMs(time);
+  // Offsets on either side of any DST change close to this time
+  const before = offsetAt(wall - DAY_MS, timeZone);
+  const after = offsetAt(wall + DAY_MS, timeZone);
+  const matches = [wall - before, wall - after].filter(
+    (instant) =>
+      wallClockMs(toZonedDateTime(new Date(instant), timeZone)) === wall
+  );
+  return new Date(matches.length > 0 ? Math.min(...matches) : wall - before);
+}
+
+// Calendar dates are handled as UTC midnights so day arithmetic ignores DST
+interface LocalDate {
+  year: number;
+  month: number;
+  day: number;
+  weekday: number; // 0 = Sunday
+  ms: number;
+}
+
+const localDate = (ms: number): LocalDate => {
+  const date = new Date(ms);
+  return {
+    year: date.getUTCFullYear(),
+    month: date.getUTCMonth() + 1,
+    day: date.getUTCDate(),
+    weekday: date.getUTCDay(),
+    ms,
+  };
+};
+
+const daysInMonth = (year: number, month: number) =>
+  new Date(Date.UTC(year, month, 0)).getUTCDate();
+
+/**
+ * Walk local dates from the one containing `after`, and the given times on
+ * each matching date, returning the first instant after `after`
+ */
+function searchOccurrence(
+  after: Date,
+  timeZone: string,
+  matchesDate: (date: LocalDate) => boolean,
+  times: (date: LocalDate) => { hour: number; minute: number }[],
+  accept: (instant: Date) => boolean = () => true
+): Date | null {
+  const start = toZonedDateTime(after, timeZone);
+  const firstDay = Date.UTC(start.year, start.month - 1, start.day);
+  for (let i = 0; i < MAX_SEARCH_DAYS; i++) {
+    const date = localDate(firstDay + i * DAY_MS);
+    if (!matchesDate(date)) continue;
+    for (const { hour, minute } of times(date)) {
+      const instant = fromZonedDateTime(
+        { year: date.year, month: date.month, day: date.day, hour, minute },
+        timeZone
+      );
+      if (instant > after && accept(instant)) {
+        return instant;
+      }
+    }
+  }
+  return null;
+}
+
+const timesOf = (hours: number[], minutes: number[]) =>
+  hours.flatMap((hour) => minutes.map((minute) => ({ hour, minute })));
+
+interface CronFields {
+  minutes: number[];
+  hours: number[];
+  days: Set<number>;
+  months: Set<number>;
+  weekdays: Set<number>;
+  // Cron matches either field when both day-of-month and day-of-week are restricted
+  daysRestricted: boolean;
+  weekdaysRestricted: boolean;
+}
+
+const CRON_MACROS: Record<string, string> = {
+  "@hourly": "0 * * * *",
+  "@daily": "0 0 * * *",
+  "@midnight": "0 0 * * *",
+  "@weekly": "0 0 * * 0",
+  "@monthly": "0 0 1 * *",
+  "@yearly": "0 0 1 1 *",
+  "@annually": "0 0 1 1 *",
+};
+
+function parseCronField(
+  field: string,
+  min: number,
+  max: number,
+  names: string[] = [],
+  nameOffset = 0
+): number[] {
+  const toNumber = (value: string) => {
+    const named = names.indexOf(value.toUpperCase());
+    const number = named >= 0 ? named + nameOffset : Number(value);
+    if (!Number.isInteger(number) || number < min || number > max) {
+      throw new InvalidScheduleError(
+        `"${value}" is out of range in "${field}"`
+      );
+    }
+    return number;
+  };
+
+  const values = new Set<number>();
+  for (const part of field.split(",")) {
+    const [range, stepText] = part.split("/");
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new InvalidScheduleError(`Invalid step in "${field}"`);
+    }
+    let from: number;
+    let to: number;
+    if (range === "*") {
+      from = min;
+      to = max;
+    } else if (range.includes("-")) {
+      const [start, end] = range.split("-");
+      from = toNumber(start);
+      to = toNumber(end);
+    } else {
+      from = toNumber(range);
+      to = stepText === undefined ? from : max;
+    }
+    if (from > to) {
+      throw new InvalidScheduleError(`Invalid range in "${field}"`);
+    }
+    for (let value = from; value <= to; value += step) {
+      values.add(value);
+    }
+  }
+  return [...values].sort((a, b) => a - b);
+}
+
+export function parseCronExpression(expression: string): CronFields {
+  const normalized = CRON_MACROS[expression.trim().toLowerCase()] ?? expression;
+  const fields = normalized.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new InvalidScheduleError(
+      "Cron expressions need five fields: minute hour day-of-month month day-of-week"
+    );
+  }
+  const [minute, hour, day, month, weekday] = fields;
+  return {
+    minutes: parseCronField(minute, 0, 59),
+    hours: parseCronField(hour, 0, 23),
+    days: new Set(parseCronField(day, 1, 31)),
+    months: new Set(parseCronField(month, 1, 12, MONTH_NAMES, 1)),
+    // 7 is also Sunday
+    weekdays: new Set(
+      parseCronField(weekday, 0, 7, DAY_NAMES).map((value) => value % 7)
+    ),
+    daysRestricted: day !== "*",
+    weekdaysRestricted: weekday !== "*",
+  };
+}
+
+function nextCronOccurrence(
+  fields: CronFields,
+  timeZone: string,
+  after: Date
+): Date | null {
+  const times = timesOf(fields.hours, fields.minutes);
+  return searchOccurrence(
+    after,
+    timeZone,
+    (date) => {
+      if (!fields.months.has(date.month)) return false;
+      const dayMatch = fields.days.has(date.day);
+      const weekdayMatch = fields.weekdays.has(date.weekday);
+      if (fields.daysRestricted && fields.weekdaysRestricted) {
+        return dayMatch || weekdayMatch;
+      }
+      return dayMatch && weekdayMatch;
+    },
+    () => times
+  );
+}
+
+type RRuleFrequency = "DAILY" | "WEEKLY" | "MONTHLY";
+
+interface RRuleParts {
+  freq: RRuleFrequency;
+  interval: number;
+  byDay: { weekday: number; ordinal: number | null }[] | null;
+  byMonthDay: number[] | null;
+  byMonth: Set<number> | null;
+  byHour: number[] | null;
+  byMinute: number[] | null;
+  until: Date | null;
+}
+
+const parseIntList = (value: string, min: number, max: number, name: string) =>
+  value.split(",").map((item) => {
+    const number = Number(item);
+    if (
+      !Number.isInteger(number) ||
+      number < min ||
+      number > max ||
+      (number === 0 && min < 0)
+    ) {
+      throw new InvalidScheduleError(`Invalid ${name} value "${item}"`);
+    }
+    return number;
+  });
+
+const parseUntil = (value: string) => {
+  const match = value.match(
+    /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/
+  );
+  if (!match) {
+    throw new InvalidScheduleError(`Invalid UNTIL value "${value}"`);
+  }
+  const [, year, month, day, hour = "23", minute = "59", second = "59"] = match;
+  return new Date(Date.UTC(+year, +month - 1, +day, +hour, +minute, +second));
+};
+
+export function parseRRule(rule: string): RRuleParts {
+  const body = rule.trim().replace(/^RRULE:/i, "");
+  const parts = new Map<string, string>();
+  for (const pair of body.split(";").filter(Boolean)) {
+    const [key, value] = pair.split("=");
+    if (!key || value === undefined) {
+      throw new InvalidScheduleError(`Invalid RRULE part "${pair}"`);
+    }
+    parts.set(key.toUpperCase(), value.toUpperCase());
+  }
+
+  const freq = parts.get("FREQ");
+  if (freq !== "DAILY" && freq !== "WEEKLY" && freq !== "MONTHLY") {
+    throw new InvalidScheduleError(
+      "RRULE FREQ must be DAILY, WEEKLY or MONTHLY"
+    );
+  }
+  for (const key of parts.keys()) {
+    if (
+      ![
+        "FREQ",
+        "INTERVAL",
+        "BYDAY",
+        "BYMONTHDAY",
+        "BYMONTH",
+        "BYHOUR",
+        "BYMINUTE",
+        "UNTIL",
+        "WKST",
+      ].includes(key)
+    ) {
+      throw new InvalidScheduleError(`RRULE ${key} is not supported`);
+    }
+  }
+
+  const interval = Number(parts.get("INTERVAL") ?? "1");
+  if (!Number.isInteger(interval) || interval < 1) {
+    throw new InvalidScheduleError("RRULE INTERVAL must be a positive integer");
+  }
+
+  const byDayText = parts.get("BYDAY");
+  const byDay = byDayText
+    ? byDayText.split(",").map((item) => {
+        const match = item.match(/^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/);
+        const ordinal = match?.[1] ? Number(match[1]) : null;
+        if (
+          !match ||
+          (ordinal !== null && (ordinal === 0 || Math.abs(ordinal) > 5))
+        ) {
+          throw new InvalidScheduleError(`Invalid BYDAY value "${item}"`);
+        }
+        if (ordinal !== null && freq !== "MONTHLY") {
+          throw new InvalidScheduleError(
+            "Numbered BYDAY values need FREQ=MONTHLY"
+          );
+        }
+        return { weekday: WEEKDAY_CODES.indexOf(match[2]), ordinal };
+      })
+    : null;
+
+  const byMonthDay = parts.has("BYMONTHDAY")
+    ? parseIntList(parts.get("BYMONTHDAY")!, -31, 31, "BYMONTHDAY")
+    : null;
+  const byMonth = parts.has("BYMONTH")
+    ? new Set(parseIntList(parts.get("BYMONTH")!, 1, 12, "BYMONTH"))
+    : null;
+  const byHour = parts.has("BYHOUR")
+    ? parseIntList(parts.get("BYHOUR")!, 0, 23, "BYHOUR").sort((a, b) => a - b)
+    : null;
+  const byMinute = parts.has("BYMINUTE")
+    ? parseIntList(parts.get("BYMINUTE")!, 0, 59, "BYMINUTE").sort(
+        (a, b) => a - b
+      )
+    : null;
+  const until = parts.has("UNTIL") ? parseUntil(parts.get("UNTIL")!) : null;
+
+  return {
+    freq,
+    interval,
+    byDay,
+    byMonthDay,
+    byMonth,
+    byHour,
+    byMinute,
+    until,
+  };
+}
+
+const monthDayMatches = (date: LocalDate, monthDay: number) =>
+  monthDay > 0
+    ? date.day === monthDay
+    : date.day === daysInMonth(date.year, date.month) + monthDay + 1;
+
+const nthWeekdayMatches = (date: LocalDate, ordinal: number) =>
+  ordinal > 0
+    ? Math.ceil(date.day / 7) === ordinal
+    : Math.ceil((daysInMonth(date.year, date.month) - date.day + 1) / 7) ===
+      -ordinal;
+
+// Weeks start on Monday (WKST=MO)
+const weekStart = (date: LocalDate) =>
+  date.ms - ((date.weekday + 6) % 7) * DAY_MS;
+
+function nextRRuleOccurrence(
+  rule: RRuleParts,
+  timeZone: string,
+  startAt: Date,
+  after: Date
+): Date | null {
+  const zonedStart = toZonedDateTime(startAt, timeZone);
+  const anchor = localDate(
+    Date.UTC(zonedStart.year, zonedStart.month - 1, zonedStart.day)
+  );
+  const times = timesOf(
+    rule.byHour ?? [zonedStart.hour],
+    rule.byMinute ?? [zonedStart.minute]
+  );
+
+  const inPeriod = (date: LocalDate) => {
+    switch (rule.freq) {
+      case "DAILY":
+        return Math.round((date.ms - anchor.ms) / DAY_MS) % rule.interval === 0;
+      case "WEEKLY":
+        return (
+          Math.round((weekStart(date) - weekStart(anchor)) / (7 * DAY_MS)) %
+            rule.interval ===
+          0
+        );
+      case "MONTHLY":
+        return (
+          ((date.year - anchor.year) * 12 + date.month - anchor.month) %
+            rule.interval ===
+          0
+        );
+    }
+  };
+
+  const dayMatches = (date: LocalDate) => {
+    const byDayMatch =
+      rule.byDay?.some(
+        ({ weekday, ordinal }) =>
+          weekday === date.weekday &&
+          (ordinal === null || nthWeekdayMatches(date, ordinal))
+      ) ?? null;
+    const byMonthDayMatch =
+      rule.byMonthDay?.some((monthDay) => monthDayMatches(date, monthDay)) ??
+      null;
+    if (byDayMatch !== null || byMonthDayMatch !== null) {
+      return byDayMatch !== false && byMonthDayMatch !== false;
+    }
+    // Without BYDAY/BYMONTHDAY the start date decides
+    switch (rule.freq) {
+      case "DAILY":
+        return true;
+      case "WEEKLY":
+        return date.weekday === anchor.weekday;
+      case "MONTHLY":
+        return date.day === anchor.day;
+    }
+  };
+
+  return searchOccurrence(
+    after,
+    timeZone,
+    (date) =>
+      date.ms >= anchor.ms &&
+      (!rule.byMonth || rule.byMonth.has(date.month)) &&
+      inPeriod(date) &&
+      dayMatches(date),
+    () => times,
+    (instant) => instant >= startAt && (!rule.until || instant <= rule.until)
+  );
+}
+
+/**
+ * Throw an InvalidScheduleError if the schedule can't be evaluated
+ */
+export function validateSchedule(schedule: TaskSchedule): void {
+  if (!isValidTimeZone(schedule.timezone)) {
+    throw new InvalidScheduleError(`Unknown timezone "${schedule.timezone}"`);
+  }
+  if (schedule.kind === "cron") {
+    parseCronExpression(schedule.expression);
+  } else {
+    parseRRule(schedule.rule);
+  }
+}
+
+/**
+ * First occurrence strictly after `after`, or null when the schedule has ended
+ */
+export function nextOccurrence(
+  schedule: TaskSchedule,
+  after: Date
+): Date | null {
+  if (schedule.kind === "cron") {
+    return nextCronOccurrence(
+      parseCronExpression(schedule.expression),
+      schedule.timezone,
+      after
+    );
+  }
+  return nextRRuleOccurrence(
+    parseRRule(schedule.rule),
+    schedule.timezone,
+    new Date(schedule.startAt),
+    after
+  );
+}
+
+/**
+ * Short label for a schedule, e.g. for settings screens
+ */
+export function describeSchedule(schedule: TaskSchedule): string {
+  const pattern =
+    schedule.kind === "cron"
+      ? `cron ${schedule.expression.trim()}`
+      : schedule.rule.trim().replace(/^RRULE:/i, "");
+  return `${pattern} (${schedule.timezone})`;
+}
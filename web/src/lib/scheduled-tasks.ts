@@ -1,9 +1,32 @@
 import { ObjectId } from "mongodb";
 import { getMongoClient } from "@/lib/db";
+import {
+  nextOccurrence,
+  TaskSchedule,
+  toZonedDateTime,
+} from "@/lib/recurrence";
 
 const COLLECTION = "scheduled_tasks";
+const DEAD_TASKS_COLLECTION = "dead_tasks";
 
-export type TaskType = "daily_check" | "reminder" | "custom";
+export type TaskType =
+  | "daily_check"
+  | "reminder"
+  | "context_prune"
+  | "workplan_refresh"
+  | "custom";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Pruning is cheap (no model calls), so stale entries don't linger for long
+const CONTEXT_PRUNE_INTERVAL_MS = 6 * 60 * 60 * 1000;
+// Half the plan staleness window, so a plan is refreshed before anyone finds it stale
+const WORKPLAN_REFRESH_TASK_INTERVAL_MS = 6 * 60 * 60 * 1000;
+
+// A failed run is retried after up to 5, 10, 20, 40 min (with jitter), then dead-lettered
+export const MAX_TASK_ATTEMPTS = 5;
+const RETRY_BASE_DELAY_MS = 5 * 60 * 1000;
+const RETRY_MAX_DELAY_MS = 2 * 60 * 60 * 1000;
 
 export interface ScheduledTask {
   _id?: ObjectId;
@@ -11,13 +34,46 @@ export interface ScheduledTask {
   taskType: TaskType;
   nextRunAt: Date;
   intervalMs?: number; // Recurring interval (e.g., 24 * 60 * 60 * 1000 for daily)
+  schedule?: TaskSchedule; // Calendar recurrence (RRULE or cron); takes precedence over intervalMs
   payload?: Record<string, unknown>; // Custom data for the task
   lastRunAt?: Date;
   lockedUntil?: Date; // Optimistic locking to prevent duplicate execution
+  attempts?: number; // Failed attempts of the current run
+  lastError?: string;
+  nextRetryAt?: Date; // Backoff: the current run is not picked up before this
+  deferredUntil?: Date; // Quiet hours: the current run is not picked up before this
+  progress?: TaskRunProgress; // Side effects of the current run already done
   createdAt: Date;
   updatedAt: Date;
 }
 
+/**
+ * What the current run has already done, so a retry after a partial failure
+ * resumes instead of repeating it. Cleared when the task moves to its next run.
+ */
+export interface TaskRunProgress {
+  message?: string; // Generated message text
+  storedAt?: Date; // Message saved to the conversation
+  sentAt?: Date; // Message sent via Telegram
+}
+
+/**
+ * A run that failed MAX_TASK_ATTEMPTS times. Recurring tasks carry on with
+ * their next run; requeueing replays this one as a one-time task.
+ */
+export interface DeadTask {
+  _id?: ObjectId;
+  taskId: ObjectId;
+  userId: string;
+  taskType: TaskType;
+  payload?: Record<string, unknown>;
+  dueAt: Date;
+  recurring: boolean;
+  attempts: number;
+  lastError: string;
+  failedAt: Date;
+}
+
 async function getScheduledTasksCollection() {
   const client = await getMongoClient();
   const col = client.db().collection<ScheduledTask>(COLLECTION);
@@ -30,6 +86,13 @@ async function getScheduledTasksCollection() {
   return col;
 }
 
+async function getDeadTasksCollection() {
+  const client = await getMongoClient();
+  const col = client.db().collection<DeadTask>(DEAD_TASKS_COLLECTION);
+  await col.createIndex({ failedAt: -1 });
+  return col;
+}
+
 /**
  * Create a new scheduled task
  */
@@ -50,7 +113,7 @@ export async function createScheduledTask(
 }
 
 /**
- * Get tasks that are ready to run (not locked, nextRunAt in past)
+ * Get tasks that are ready to run (not locked, not backing off, nextRunAt in past)
  */
 export async function getReadyTasks(limit = 50): Promise<ScheduledTask[]> {
   const collection = await getScheduledTasksCollection();
@@ -59,9 +122,25 @@ export async function getReadyTasks(limit = 50): Promise<ScheduledTask[]> {
   return collection
     .find({
       nextRunAt: { $lte: now },
-      $or: [
-        { lockedUntil: { $exists: false } },
-        { lockedUntil: { $lte: now } },
+      $and: [
+        {
+          $or: [
+            { lockedUntil: { $exists: false } },
+            { lockedUntil: { $lte: now } },
+          ],
+        },
+        {
+          $or: [
+            { nextRetryAt: { $exists: false } },
+            { nextRetryAt: { $lte: now } },
+          ],
+        },
+        {
+          $or: [
+            { deferredUntil: { $exists: false } },
+            { deferredUntil: { $lte: now } },
+          ],
+        },
       ],
     })
     .sort({ nextRunAt: 1 })
@@ -94,10 +173,44 @@ export async function lockTask(taskId: ObjectId, lockDurationMs = 5 * 60 * 1000)
   return result.modifiedCount > 0;
 }
 
+/**
+ * When a recurring task runs next after the run due at `lastDueAt`. Runs are
+ * counted from the schedule, not from when the last one finished, and runs
+ * missed while the task was overdue are skipped. Null when the schedule has
+ * ended.
+ */
+export function nextRunAfter(
+  task: Pick<ScheduledTask, "intervalMs" | "schedule">,
+  lastDueAt: Date,
+  now = new Date()
+): Date | null {
+  if (task.schedule) {
+    return nextOccurrence(task.schedule, lastDueAt > now ? lastDueAt : now);
+  }
+  if (!task.intervalMs) {
+    return null;
+  }
+  const missed = Math.floor(
+    (now.getTime() - lastDueAt.getTime()) / task.intervalMs
+  );
+  return new Date(
+    lastDueAt.getTime() + (Math.max(missed, 0) + 1) * task.intervalMs
+  );
+}
+
+// Per-run state cleared when a task moves on to its next run
+const RUN_STATE_RESET = {
+  attempts: "",
+  lastError: "",
+  nextRetryAt: "",
+  deferredUntil: "",
+  progress: "",
+} as const;
+
 /**
  * Update task after successful execution
- * If recurring (has intervalMs), schedules next run
- * Otherwise, deletes the task
+ * If recurring (has a schedule or intervalMs), schedules next run
+ * Otherwise, or once the schedule has ended, deletes the task
  */
 export async function completeTask(taskId: ObjectId): Promise<void> {
   const collection = await getScheduledTasksCollection();
@@ -106,46 +219,191 @@ export async function completeTask(taskId: ObjectId): Promise<void> {
   if (!task) return;
 
   const now = new Date();
+  const nextRunAt = nextRunAfter(task, task.nextRunAt, now);
 
-  if (task.intervalMs) {
+  if (nextRunAt) {
     // Recurring task: schedule next run
     await collection.updateOne(
       { _id: taskId },
       {
         $set: {
-          nextRunAt: new Date(now.getTime() + task.intervalMs),
+          nextRunAt,
           lastRunAt: now,
           updatedAt: now,
         },
+        $unset: { ...RUN_STATE_RESET, lockedUntil: "" },
+      }
+    );
+  } else {
+    // One-time or finished task: delete
+    await collection.deleteOne({ _id: taskId });
+  }
+}
+
+/**
+ * Delay before retrying a run that has failed `attempts` times: exponential,
+ * capped, with jitter so tasks that failed together don't retry together
+ */
+export function retryDelayMs(attempts: number, random = Math.random): number {
+  const delay = Math.min(
+    RETRY_BASE_DELAY_MS * 2 ** Math.max(attempts - 1, 0),
+    RETRY_MAX_DELAY_MS
+  );
+  return delay / 2 + random() * (delay / 2);
+}
+
+export type TaskFailureOutcome =
+  | { status: "retry"; attempts: number; nextRetryAt: Date }
+  | { status: "dead"; attempts: number };
+
+/**
+ * Handle task failure: back off and unlock for a retry, or once the run has
+ * used up MAX_TASK_ATTEMPTS, move it to dead_tasks. A recurring task then
+ * moves on to its next run; a one-time task is removed.
+ */
+export async function failTask(
+  taskId: ObjectId,
+  error: string
+): Promise<TaskFailureOutcome | null> {
+  const collection = await getScheduledTasksCollection();
+  const task = await collection.findOne({ _id: taskId });
+  if (!task) return null;
+
+  const now = new Date();
+  const attempts = (task.attempts ?? 0) + 1;
+
+  if (attempts < MAX_TASK_ATTEMPTS) {
+    const nextRetryAt = new Date(now.getTime() + retryDelayMs(attempts));
+    await collection.updateOne(
+      { _id: taskId },
+      {
+        $set: { attempts, lastError: error, nextRetryAt, updatedAt: now },
         $unset: { lockedUntil: "" },
       }
     );
+    return { status: "retry", attempts, nextRetryAt };
+  }
+
+  const nextRunAt = nextRunAfter(task, task.nextRunAt, now);
+  const deadTasks = await getDeadTasksCollection();
+  await deadTasks.insertOne({
+    taskId,
+    userId: task.userId,
+    taskType: task.taskType,
+    payload: task.payload,
+    dueAt: task.nextRunAt,
+    recurring: Boolean(task.schedule || task.intervalMs),
+    attempts,
+    lastError: error,
+    failedAt: now,
+  });
+
+  if (nextRunAt) {
+    await collection.updateOne(
+      { _id: taskId },
+      {
+        $set: { nextRunAt, updatedAt: now },
+        $unset: { ...RUN_STATE_RESET, lockedUntil: "" },
+      }
+    );
   } else {
-    // One-time task: delete
     await collection.deleteOne({ _id: taskId });
   }
+  return { status: "dead", attempts };
 }
 
 /**
- * Handle task failure - unlock for retry
+ * Record side effects of the task's current run (see TaskRunProgress)
  */
-export async function unlockTask(taskId: ObjectId): Promise<void> {
+export async function recordTaskProgress(
+  taskId: ObjectId,
+  progress: TaskRunProgress
+): Promise<void> {
+  const collection = await getScheduledTasksCollection();
+  const updates = Object.fromEntries(
+    Object.entries(progress).map(([key, value]) => [`progress.${key}`, value])
+  );
+
+  await collection.updateOne(
+    { _id: taskId },
+    { $set: { ...updates, updatedAt: new Date() } }
+  );
+}
+
+/**
+ * Most recent dead-lettered runs, newest first
+ */
+export async function listDeadTasks(limit = 100): Promise<DeadTask[]> {
+  const collection = await getDeadTasksCollection();
+  return collection.find({}).sort({ failedAt: -1 }).limit(limit).toArray();
+}
+
+/**
+ * Replay a dead-lettered run as a one-time task due now and remove it from
+ * dead_tasks. Null when no such dead task exists.
+ */
+export async function requeueDeadTask(
+  deadTaskId: ObjectId
+): Promise<ScheduledTask | null> {
+  const deadTasks = await getDeadTasksCollection();
+  const deadTask = await deadTasks.findOneAndDelete({ _id: deadTaskId });
+  if (!deadTask) return null;
+
+  return createScheduledTask({
+    userId: deadTask.userId,
+    taskType: deadTask.taskType,
+    nextRunAt: new Date(),
+    payload: deadTask.payload,
+  });
+}
+
+/**
+ * Hold a task's run until `until` without running it (e.g. during quiet
+ * hours). The run keeps its due time, so a recurring task's next run is still
+ * counted from it.
+ */
+export async function deferTask(taskId: ObjectId, until: Date): Promise<void> {
   const collection = await getScheduledTasksCollection();
   const now = new Date();
 
   await collection.updateOne(
     { _id: taskId },
     {
+      $set: { deferredUntil: until, updatedAt: now },
       $unset: { lockedUntil: "" },
-      $set: { updatedAt: now },
     }
   );
 }
 
+// "HH:MM", as the notification settings store it
+const formatLocalTime = (hour: number, minute: number) =>
+  `${String(hour).padStart(2, "0")}:${String(minute).padStart(2, "0")}`;
+
+/**
+ * Daily schedule at a wall-clock time in `timezone`, so it keeps its local
+ * time when the clocks change
+ */
+export function dailySchedule(
+  hour: number,
+  minute: number,
+  timezone: string
+): TaskSchedule {
+  return {
+    kind: "rrule",
+    rule: `FREQ=DAILY;BYHOUR=${hour};BYMINUTE=${minute}`,
+    timezone,
+    startAt: new Date(),
+  };
+}
+
 /**
- * Schedule a daily check for a user
+ * Schedule a daily check for a user at a local hour in their timezone
  */
-export async function scheduleDailyCheck(userId: string, hourUTC = 9): Promise<void> {
+export async function scheduleDailyCheck(
+  userId: string,
+  timezone: string,
+  hour = 9
+): Promise<void> {
   const collection = await getScheduledTasksCollection();
 
   // Check if user already has a daily check scheduled
@@ -159,26 +417,116 @@ export async function scheduleDailyCheck(userId: string, hourUTC = 9): Promise<v
     return;
   }
 
-  // Schedule for next occurrence at specified hour UTC
-  const now = new Date();
-  const nextRun = new Date();
-  nextRun.setUTCHours(hourUTC, 0, 0, 0);
-
-  // If today's time has passed, schedule for tomorrow
-  if (nextRun <= now) {
-    nextRun.setDate(nextRun.getDate() + 1);
-  }
+  const schedule = dailySchedule(hour, 0, timezone);
+  const nextRun = nextOccurrence(schedule, new Date())!;
 
   await createScheduledTask({
     userId,
     taskType: "daily_check",
     nextRunAt: nextRun,
-    intervalMs: 24 * 60 * 60 * 1000, // 24 hours
+    schedule,
+    payload: { interval: "daily", time: formatLocalTime(hour, 0) },
   });
 
   console.log(`Daily check scheduled for user ${userId} at ${nextRun.toISOString()}`);
 }
 
+/**
+ * Move a user's daily checks onto `timezone`. Calendar schedules keep their
+ * local time in the new zone; checks from before per-user timezones (a fixed
+ * 24h interval from a UTC hour) become daily schedules at the local time
+ * their next run falls on.
+ */
+export async function rescheduleDailyChecks(
+  userId: string,
+  timezone: string
+): Promise<void> {
+  const collection = await getScheduledTasksCollection();
+  const tasks = await collection
+    .find({ userId, taskType: "daily_check" })
+    .toArray();
+  const now = new Date();
+
+  for (const task of tasks) {
+    let schedule: TaskSchedule;
+    let payload = task.payload;
+    if (task.schedule) {
+      schedule = { ...task.schedule, timezone };
+    } else if (task.intervalMs === DAY_MS) {
+      const local = toZonedDateTime(task.nextRunAt, timezone);
+      schedule = dailySchedule(local.hour, local.minute, timezone);
+      payload = {
+        interval: "daily",
+        time: formatLocalTime(local.hour, local.minute),
+      };
+    } else {
+      continue;
+    }
+
+    const nextRunAt = nextOccurrence(schedule, now);
+    if (!nextRunAt) {
+      continue;
+    }
+
+    await collection.updateOne(
+      { _id: task._id },
+      {
+        $set: { schedule, payload, nextRunAt, updatedAt: now },
+        $unset: { intervalMs: "" },
+      }
+    );
+  }
+}
+
+/**
+ * Schedule the recurring cleanup of expired and stale user context entries
+ */
+export async function scheduleContextPrune(userId: string): Promise<void> {
+  const collection = await getScheduledTasksCollection();
+  const existing = await collection.findOne({
+    userId,
+    taskType: "context_prune",
+  });
+  if (existing) {
+    return;
+  }
+
+  const nextRunAt = new Date(Date.now() + CONTEXT_PRUNE_INTERVAL_MS);
+  await createScheduledTask({
+    userId,
+    taskType: "context_prune",
+    nextRunAt,
+    intervalMs: CONTEXT_PRUNE_INTERVAL_MS,
+  });
+
+  console.log(`Context prune scheduled for user ${userId} at ${nextRunAt.toISOString()}`);
+}
+
+/**
+ * Schedule the recurring pre-generation of workplans for upcoming events.
+ * The first run is due right away.
+ */
+export async function scheduleWorkplanRefresh(userId: string): Promise<void> {
+  const collection = await getScheduledTasksCollection();
+  const existing = await collection.findOne({
+    userId,
+    taskType: "workplan_refresh",
+  });
+  if (existing) {
+    return;
+  }
+
+  const nextRunAt = new Date();
+  await createScheduledTask({
+    userId,
+    taskType: "workplan_refresh",
+    nextRunAt,
+    intervalMs: WORKPLAN_REFRESH_TASK_INTERVAL_MS,
+  });
+
+  console.log(`Workplan refresh scheduled for user ${userId} at ${nextRunAt.toISOString()}`);
+}
+
 /**
  * Get all scheduled tasks for a user
  */
@@ -1,4 +1,4 @@
-import { jwtVerify, SignJWT } from "jose";
+import { jwtVerify, JWTPayload, SignJWT } from "jose";
 import { env } from "@/env";
 
 export async function generateTelegramServerToken() {
@@ -15,4 +15,26 @@ export async function verifyTelegramServerToken(token: string) {
   const secret = new TextEncoder().encode(env.TELEGRAM_SERVER_SECRET);
   const { payload } = await jwtVerify(token, secret);
   return payload.role === "telegram-service";
-}
\ No newline at end of file
+}
+
+/**
+ * Audience of the mini app session token. MCP and OAuth access tokens are
+ * signed with the same key under a different audience, so requiring this one
+ * keeps them out of first-party routes.
+ */
+export const SESSION_TOKEN_AUDIENCE = "session";
+
+export async function signSessionToken(claims: JWTPayload & { sub: string }) {
+  return await new SignJWT(claims)
+    .setProtectedHeader({ alg: "HS256" })
+    .setAudience(SESSION_TOKEN_AUDIENCE)
+    .setIssuedAt()
+    .setExpirationTime("7d")
+    .sign(env.JWT_SECRET);
+}
+
+export async function verifySessionToken(token: string) {
+  return await jwtVerify(token, env.JWT_SECRET, {
+    audience: SESSION_TOKEN_AUDIENCE,
+  });
+}
@@ -1,5 +1,11 @@
-import { Bot, webhookCallback } from "grammy";
+import { Bot, InlineKeyboard, webhookCallback } from "grammy";
 import { getMongoClient } from "@/lib/db";
+import {
+  APPROVAL_TIMEOUT_MS,
+  describeApprovalAction,
+  PendingApproval,
+  setApprovalTelegramMessage,
+} from "@/lib/approvals";
 import { UserProfile } from "@/types/user";
 
 type SendMessageOptions = Parameters<Bot["api"]["sendMessage"]>[2];
@@ -201,4 +207,66 @@ export async function notifyTelegramUser(userId: string, message: string) {
   }
 }
 
+// Callback data of the approval inline buttons: approval:<approve|reject>:<approvalId>
+export const APPROVAL_CALLBACK_PATTERN = /^approval:(approve|reject):([a-f0-9]{24})$/;
+
+/**
+ * Ask the user to approve paused agent actions with inline Approve/Reject buttons
+ */
+export async function sendTelegramApprovalRequest(approval: PendingApproval) {
+  try {
+    const user = await getTelegramUserByUserId(approval.userId);
+    if (!user || !user.telegramChatId || !approval._id) {
+      return { success: false, error: "No Telegram user linked" };
+    }
+
+    const approvalId = approval._id.toString();
+    const keyboard = new InlineKeyboard()
+      .text("✅ Approve", `approval:approve:${approvalId}`)
+      .text("❌ Reject", `approval:reject:${approvalId}`);
+
+    // Plain text: tool arguments may contain Markdown control characters
+    const message = await getBot().api.sendMessage(
+      user.telegramChatId,
+      `🛑 Approval needed\n\nMicromanager wants to:\n${approval.actions
+        .map((action) => `• ${describeApprovalAction(action)}`)
+        .join("\n")}\n\nThis request expires in ${Math.round(
+        APPROVAL_TIMEOUT_MS / 60000
+      )} minutes.`,
+      { reply_markup: keyboard }
+    );
+
+    await setApprovalTelegramMessage(
+      approval._id,
+      user.telegramChatId,
+      message.message_id
+    );
+    return { success: true };
+  } catch (error) {
+    console.error(`Error sending approval request to ${approval.userId}:`, error);
+    return { success: false, error: String(error) };
+  }
+}
+
+/**
+ * Replace the approval buttons with the final decision
+ */
+export async function resolveTelegramApprovalMessage(
+  approval: PendingApproval,
+  text: string
+) {
+  if (!approval.telegramChatId || !approval.telegramMessageId) return;
+  try {
+    await getBot().api.editMessageText(
+      approval.telegramChatId,
+      approval.telegramMessageId,
+      `${text}\n\n${approval.actions
+        .map((action) => `• ${describeApprovalAction(action)}`)
+        .join("\n")}`
+    );
+  } catch (error) {
+    console.error("Failed to update Telegram approval message:", error);
+  }
+}
+
 export const webhookHandler = webhookCallback(getBot(), "std/http");
@@ -5,6 +5,10 @@ import type {
   MessageSource,
 } from "@/lib/conversations";
 import type { UserContextDocument } from "@/lib/user-context";
+import {
+  emptyUserContextData,
+  USER_CONTEXT_SCHEMA_VERSION,
+} from "@/lib/user-context-schema";
 
 let idCounter = 0;
 
@@ -71,18 +75,20 @@ export class TestFactory {
     return {
       _id: new ObjectId(),
       userId: "test-user-id",
+      schemaVersion: USER_CONTEXT_SCHEMA_VERSION,
+      version: 0,
       data: {
+        ...emptyUserContextData(),
         preferences: {
           theme: "dark",
           notifications: true,
         },
-        projects: [
-          { name: "Project Alpha", status: "active" },
-          { name: "Project Beta", status: "planning" },
-        ],
-        notes: {
-          daily: "Stand up at 9am",
-          reminders: ["Review PRs", "Update docs"],
+        projects: {
+          "project-alpha": { name: "Project Alpha", status: "active" },
+          "project-beta": { name: "Project Beta", status: "planning" },
+        },
+        routines: {
+          "daily-standup": { description: "Stand up at 9am" },
         },
         ...overrides,
       },
@@ -6,7 +6,15 @@ const COLLECTION = "usage_logs";
 export interface UsageLog {
   _id?: ObjectId;
   userId: string;
-  taskType: "chat" | "daily_check" | "reminder" | "workflow" | "notification";
+  taskType:
+    | "chat"
+    | "daily_check"
+    | "reminder"
+    | "workflow"
+    | "notification"
+    | "workplan_refresh"
+    | "conversation_summary"
+    | "rate_limit";
   source?: "telegram" | "web" | "api";
 
   // Token usage
@@ -0,0 +1,144 @@
+import { google } from "googleapis";
+
+import {
+  getUserContextDocument,
+  updateUserContextDocument,
+} from "@/lib/user-context";
+import {
+  USER_CONTEXT_SECTIONS,
+  UserContextEntryMetadata,
+} from "@/lib/user-context-schema";
+
+export interface ContextPruneResult {
+  removed: { path: string; reason: string }[];
+}
+
+type EntryLink = Pick<
+  UserContextEntryMetadata,
+  "calendarId" | "eventId" | "tasklistId" | "taskId"
+>;
+
+const googleClientsFor = (accessToken: string) => {
+  const oAuth2Client = new google.auth.OAuth2();
+  oAuth2Client.setCredentials({ access_token: accessToken });
+  return {
+    tasks: google.tasks({ version: "v1", auth: oAuth2Client }),
+    calendar: google.calendar({ version: "v3", auth: oAuth2Client }),
+  };
+};
+
+const isGoneError = (error: unknown) => {
+  const code = (error as { code?: number | string })?.code;
+  return code === 404 || code === 410 || code === "404" || code === "410";
+};
+
+/**
+ * Links declared on the entry itself (upcoming entries carry IDs) or in its metadata
+ */
+const linkFor = (
+  entry: unknown,
+  metadata: UserContextEntryMetadata | undefined
+): EntryLink => {
+  const fields =
+    typeof entry === "object" && entry !== null
+      ? (entry as Record<string, unknown>)
+      : {};
+  const pick = (key: keyof EntryLink) =>
+    metadata?.[key] ??
+    (typeof fields[key] === "string" ? (fields[key] as string) : undefined);
+  return {
+    calendarId: pick("calendarId"),
+    eventId: pick("eventId"),
+    tasklistId: pick("tasklistId"),
+    taskId: pick("taskId"),
+  };
+};
+
+/**
+ * Decide whether an entry is stale. Returns the reason, or null to keep it.
+ * Google errors other than "not found" keep the entry so a flaky API never
+ * deletes context.
+ */
+async function staleReason(
+  link: EntryLink,
+  metadata: UserContextEntryMetadata | undefined,
+  clients: ReturnType<typeof googleClientsFor> | null,
+  now: Date
+): Promise<string | null> {
+  if (metadata?.expiresAt && new Date(metadata.expiresAt) <= now) {
+    return "expired";
+  }
+  if (!clients) {
+    return null;
+  }
+
+  if (link.eventId) {
+    try {
+      const { data: event } = await clients.calendar.events.get({
+        calendarId: link.calendarId ?? "primary",
+        eventId: link.eventId,
+      });
+      if (event.status === "cancelled") return "event cancelled";
+      const end = event.end?.dateTime ?? event.end?.date;
+      if (end && new Date(end) <= now) return "event ended";
+    } catch (error) {
+      if (isGoneError(error)) return "event deleted";
+      console.error(`[Context Prune] Failed to check event ${link.eventId}:`, error);
+    }
+  }
+
+  if (link.taskId) {
+    try {
+      const { data: task } = await clients.tasks.tasks.get({
+        tasklist: link.tasklistId ?? "@default",
+        task: link.taskId,
+      });
+      if (task.deleted) return "task deleted";
+      if (task.status === "completed") return "task completed";
+    } catch (error) {
+      if (isGoneError(error)) return "task deleted";
+      console.error(`[Context Prune] Failed to check task ${link.taskId}:`, error);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Remove context entries that expired or point at a past event or a completed
+ * task. Without a Google token only expiry is checked.
+ */
+export async function pruneUserContext(
+  userId: string,
+  accessToken: string | null,
+  now = new Date()
+): Promise<ContextPruneResult> {
+  const doc = await getUserContextDocument(userId);
+  const clients = accessToken ? googleClientsFor(accessToken) : null;
+  const removed: ContextPruneResult["removed"] = [];
+
+  for (const section of USER_CONTEXT_SECTIONS) {
+    const entries = Object.entries(doc.data[section] ?? {});
+    for (const [key, entry] of entries) {
+      const metadata = doc.metadata?.[section]?.[key];
+      const reason = await staleReason(
+        linkFor(entry, metadata),
+        metadata,
+        clients,
+        now
+      );
+      if (reason) {
+        removed.push({ path: `${section}.${key}`, reason });
+      }
+    }
+  }
+
+  if (removed.length > 0) {
+    await updateUserContextDocument(
+      userId,
+      removed.map(({ path }) => ({ path })),
+      { actor: { type: "system", job: "context_prune" } }
+    );
+  }
+  return { removed };
+}
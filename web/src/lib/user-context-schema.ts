@@ -0,0 +1,337 @@
+import { z } from "zod";
+
+/**
+ * Bump when the shape of UserContextData changes and add a step to migrateUserContextData
+ */
+export const USER_CONTEXT_SCHEMA_VERSION = 1;
+
+const text = z.string().trim().min(1).max(2000);
+
+export const profileSectionSchema = z
+  .object({
+    name: text,
+    preferredName: text,
+    role: text,
+    organization: text,
+    location: text,
+    timezone: text,
+    language: text,
+    notes: text,
+  })
+  .partial()
+  .strict();
+
+export const preferenceValueSchema = z.union([
+  text,
+  z.number(),
+  z.boolean(),
+  z.array(text),
+]);
+
+export const projectEntrySchema = z
+  .object({
+    name: text,
+    status: z.enum(["planning", "active", "paused", "done"]).optional(),
+    description: text.optional(),
+    deadline: text.optional(),
+    nextSteps: z.array(text).optional(),
+    notes: text.optional(),
+  })
+  .strict();
+
+export const personEntrySchema = z
+  .object({
+    name: text,
+    relation: text.optional(),
+    contact: text.optional(),
+    birthday: text.optional(),
+    notes: text.optional(),
+  })
+  .strict();
+
+export const routineEntrySchema = z
+  .object({
+    description: text,
+    schedule: text.optional(), // e.g. "weekdays at 9:00"
+    notes: text.optional(),
+  })
+  .strict();
+
+export const upcomingEntrySchema = z
+  .object({
+    title: text,
+    date: text.optional(),
+    calendarId: text.optional(),
+    eventId: text.optional(),
+    tasklistId: text.optional(),
+    taskId: text.optional(),
+    notes: text.optional(),
+  })
+  .strict();
+
+// Entry keys become Mongo field names, so they can't contain dots or start with $
+const entryKey = z.string().regex(/^[A-Za-z0-9_-]{1,64}$/);
+
+export const userContextSectionSchemas = {
+  profile: profileSectionSchema,
+  preferences: z.record(entryKey, preferenceValueSchema),
+  projects: z.record(entryKey, projectEntrySchema),
+  people: z.record(entryKey, personEntrySchema),
+  routines: z.record(entryKey, routineEntrySchema),
+  upcoming: z.record(entryKey, upcomingEntrySchema),
+  // Anything the agent learned that doesn't fit a declared section
+  unsorted: z.record(z.string(), z.unknown()),
+};
+
+export type UserContextSection = keyof typeof userContextSectionSchemas;
+
+export const USER_CONTEXT_SECTIONS = Object.keys(
+  userContextSectionSchemas
+) as UserContextSection[];
+
+export const userContextDataSchema = z
+  .object({
+    profile: profileSectionSchema.default({}),
+    preferences: userContextSectionSchemas.preferences.default({}),
+    projects: userContextSectionSchemas.projects.default({}),
+    people: userContextSectionSchemas.people.default({}),
+    routines: userContextSectionSchemas.routines.default({}),
+    upcoming: userContextSectionSchemas.upcoming.default({}),
+    unsorted: userContextSectionSchemas.unsorted.default({}),
+  })
+  .strict();
+
+export type UserContextData = z.infer<typeof userContextDataSchema>;
+
+export const USER_CONTEXT_SOURCES = [
+  "user",
+  "conversation",
+  "calendar",
+  "tasks",
+  "inferred",
+] as const;
+
+/**
+ * Optional bookkeeping for a single entry (`<section>.<key>`). Entries that
+ * expire or point at a past event or completed task are pruned on a schedule.
+ */
+export const userContextEntryMetadataSchema = z
+  .object({
+    expiresAt: z.string().datetime({ offset: true }).optional(),
+    source: z.enum(USER_CONTEXT_SOURCES).optional(),
+    confidence: z.number().min(0).max(1).optional(),
+    calendarId: text.optional(),
+    eventId: text.optional(),
+    tasklistId: text.optional(),
+    taskId: text.optional(),
+  })
+  .strict();
+
+export type UserContextEntryMetadataInput = z.infer<
+  typeof userContextEntryMetadataSchema
+>;
+
+export type UserContextEntryMetadata = Omit<
+  UserContextEntryMetadataInput,
+  "expiresAt"
+> & { expiresAt?: Date };
+
+export const USER_CONTEXT_SECTION_LABELS: Record<UserContextSection, string> = {
+  profile: "Profile",
+  preferences: "Preferences",
+  projects: "Projects",
+  people: "People",
+  routines: "Routines",
+  upcoming: "Upcoming",
+  unsorted: "Other notes",
+};
+
+export const emptyUserContextData = (): UserContextData =>
+  userContextDataSchema.parse({});
+
+export function isUserContextSection(value: string): value is UserContextSection {
+  return (USER_CONTEXT_SECTIONS as string[]).includes(value);
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Split a dotted context path into segments, or null when it is not a valid path
+ */
+export function parseContextPath(path: string): string[] | null {
+  const segments = path.split(".");
+  if (
+    segments.some(
+      (segment) => segment.length === 0 || segment.startsWith("$")
+    )
+  ) {
+    return null;
+  }
+  return segments;
+}
+
+/**
+ * Read the value at a parsed path, or undefined when any segment is missing
+ */
+export function getContextPathValue(
+  data: Record<string, unknown>,
+  segments: string[]
+): unknown {
+  let node: unknown = data;
+  for (const segment of segments) {
+    if (!isPlainObject(node)) return undefined;
+    node = node[segment];
+  }
+  return node;
+}
+
+export interface UserContextDiffEntry {
+  path: string;
+  before?: unknown; // undefined when the path was added
+  after?: unknown; // undefined when the path was removed
+}
+
+const isSameValue = (a: unknown, b: unknown) =>
+  JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * List the paths that differ between two contexts. Objects are compared key by
+ * key; anything else (including arrays) is compared as a single value.
+ */
+export function diffUserContextData(
+  before: Record<string, unknown>,
+  after: Record<string, unknown>,
+  prefix: string[] = []
+): UserContextDiffEntry[] {
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+  return [...keys].flatMap((key) => {
+    const from = before[key];
+    const to = after[key];
+    if (isPlainObject(from) && isPlainObject(to)) {
+      return diffUserContextData(from, to, [...prefix, key]);
+    }
+    if (isSameValue(from, to)) return [];
+    return [{ path: [...prefix, key].join("."), before: from, after: to }];
+  });
+}
+
+const toEntryKey = (value: unknown, fallback: string) => {
+  const slug = String(value ?? "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 64);
+  return slug || fallback;
+};
+
+// Label field used to turn legacy arrays and bare strings into keyed entries
+const ENTRY_LABEL_FIELD: Partial<Record<UserContextSection, string>> = {
+  projects: "name",
+  people: "name",
+  routines: "description",
+  upcoming: "title",
+};
+
+/**
+ * Legacy sections were often arrays; turn them into entries keyed by a slug of their label
+ */
+function toKeyedEntries(
+  section: UserContextSection,
+  value: unknown
+): Record<string, unknown> {
+  const labelField = ENTRY_LABEL_FIELD[section]!;
+  if (!Array.isArray(value)) {
+    return isPlainObject(value) ? value : { item: value };
+  }
+  const entries: Record<string, unknown> = {};
+  value.forEach((item, index) => {
+    const entry = typeof item === "string" ? { [labelField]: item } : item;
+    let key = toEntryKey(
+      isPlainObject(entry) ? entry[labelField] : undefined,
+      `item-${index + 1}`
+    );
+    while (key in entries) key = `${key}-${index + 1}`;
+    entries[key] = entry;
+  });
+  return entries;
+}
+
+/**
+ * Convert a context document of any older version into the current schema.
+ * Nothing is dropped: values that don't validate end up under `unsorted`.
+ */
+export function migrateUserContextData(
+  legacy: Record<string, unknown> | undefined
+): UserContextData {
+  const data = emptyUserContextData();
+
+  for (const [key, value] of Object.entries(legacy ?? {})) {
+    if (!isUserContextSection(key)) {
+      data.unsorted[key] = value;
+      continue;
+    }
+
+    if (key === "unsorted") {
+      Object.assign(data.unsorted, isPlainObject(value) ? value : { value });
+      continue;
+    }
+
+    if (key === "profile") {
+      for (const [field, fieldValue] of Object.entries(
+        isPlainObject(value) ? value : { notes: value }
+      )) {
+        const candidate = { ...data.profile, [field]: fieldValue };
+        if (profileSectionSchema.safeParse(candidate).success) {
+          data.profile = candidate;
+        } else {
+          data.unsorted[`profile_${field}`] = fieldValue;
+        }
+      }
+      continue;
+    }
+
+    const entries =
+      key === "preferences"
+        ? isPlainObject(value)
+          ? value
+          : { value }
+        : toKeyedEntries(key, value);
+    const section = data[key] as Record<string, unknown>;
+    for (const [entryName, entry] of Object.entries(entries)) {
+      const candidate = { ...section, [entryName]: entry };
+      if (userContextSectionSchemas[key].safeParse(candidate).success) {
+        section[entryName] = entry;
+      } else {
+        data.unsorted[`${key}_${entryName}`] = entry;
+      }
+    }
+  }
+
+  return data;
+}
+
+const formatValue = (value: unknown): string =>
+  typeof value === "string"
+    ? value
+    : Array.isArray(value)
+    ? value.map(formatValue).join(", ")
+    : isPlainObject(value)
+    ? Object.entries(value)
+        .map(([key, entry]) => `${key}: ${formatValue(entry)}`)
+        .join("; ")
+    : String(value);
+
+/**
+ * Plain-text outline of the context, e.g. for voice sessions and prompts
+ */
+export function formatUserContextAsText(data: UserContextData): string {
+  return USER_CONTEXT_SECTIONS.flatMap((section) => {
+    const entries = Object.entries(data[section] ?? {});
+    if (entries.length === 0) return [];
+    return [
+      `${USER_CONTEXT_SECTION_LABELS[section]}:`,
+      ...entries.map(([key, value]) => `- ${key}: ${formatValue(value)}`),
+    ];
+  }).join("\n");
+}
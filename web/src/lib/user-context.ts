@@ -1,16 +1,106 @@
 import { ObjectId } from "mongodb";
 import { getMongoClient } from "@/lib/db";
+import { emitResourceUpdated, MCP_RESOURCE_URIS } from "@/lib/mcp-resources";
+import { scheduleContextPrune } from "@/lib/scheduled-tasks";
+import {
+  diffUserContextData,
+  emptyUserContextData,
+  getContextPathValue,
+  isUserContextSection,
+  migrateUserContextData,
+  parseContextPath,
+  USER_CONTEXT_SCHEMA_VERSION,
+  UserContextData,
+  UserContextEntryMetadata,
+  UserContextEntryMetadataInput,
+  userContextEntryMetadataSchema,
+  UserContextSection,
+  userContextSectionSchemas,
+} from "@/lib/user-context-schema";
 
 const COLLECTION = "user_contexts";
+const HISTORY_COLLECTION = "user_context_history";
+const DUPLICATE_KEY_ERROR_CODE = 11000;
+// Writes racing other writes are re-planned this many times at most
+const MAX_UPDATE_ATTEMPTS = 5;
+// No write takes this long, so an older history record past the document's
+// version was left by a writer that died before updating the document
+const ORPHANED_HISTORY_AGE_MS = 60 * 1000;
 
 export interface UserContextDocument {
   _id?: ObjectId;
   userId: string;
-  data: Record<string, unknown>;
+  schemaVersion: number;
+  version: number; // incremented on every change, see user_context_history
+  data: UserContextData;
+  // Keyed like data, one level deep: metadata.<section>.<key>
+  metadata?: Partial<
+    Record<UserContextSection, Record<string, UserContextEntryMetadata>>
+  >;
   createdAt: Date;
   updatedAt: Date;
 }
 
+export interface UserContextUpdate {
+  path: string;
+  value?: unknown; // undefined deletes the path
+  // Replaces the metadata of the entry the path belongs to. Writing a whole
+  // entry without metadata clears it.
+  metadata?: UserContextEntryMetadataInput;
+}
+
+export interface UserContextUpdateResult {
+  document: UserContextDocument;
+  // Paths that didn't fit their section and were stored under unsorted instead
+  movedToUnsorted: { path: string; storedAt: string; reason: string }[];
+}
+
+export type UserContextActor =
+  | { type: "agent"; sessionId?: string }
+  | { type: "user"; userId: string }
+  | { type: "admin"; userId: string }
+  | { type: "system"; job: string };
+
+export interface UserContextChange {
+  path: string;
+  oldValue?: unknown; // undefined when the path didn't exist
+  newValue?: unknown; // undefined when the path was deleted
+}
+
+/**
+ * One stored update: every path it touched, who made it and the version it produced
+ */
+export interface UserContextChangeRecord {
+  _id?: ObjectId;
+  userId: string;
+  version: number;
+  changes: UserContextChange[];
+  actor: UserContextActor;
+  rolledBackTo?: number;
+  createdAt: Date;
+}
+
+export interface UserContextUpdateOptions {
+  actor: UserContextActor;
+  onInvalid?: "unsorted" | "reject";
+  rolledBackTo?: number;
+  // Fail with UserContextConflictError unless the document is still at this revision
+  expectedUpdatedAt?: Date;
+}
+
+/**
+ * Thrown when a context write doesn't fit the schema and moving it is not allowed
+ */
+export class UserContextValidationError extends Error {
+  constructor(
+    public readonly path: string,
+    message: string
+  ) {
+    super(message);
+    this.name = "UserContextValidationError";
+  }
+}
+
 async function getUserContextCollection() {
   const client = await getMongoClient();
   const col = client.db().collection<UserContextDocument>(COLLECTION);
@@ -18,16 +108,83 @@ async function getUserContextCollection() {
   return col;
 }
 
+/**
+ * Thrown when the context changed between reading it and writing to it
+ */
+export class UserContextConflictError extends Error {
+  constructor(public readonly current: UserContextDocument) {
+    super("User context was changed by someone else; reload it and try again");
+    this.name = "UserContextConflictError";
+  }
+}
+
+/**
+ * Thrown when a requested context version isn't covered by the stored history
+ */
+export class UserContextVersionNotFoundError extends Error {
+  constructor(public readonly version: number) {
+    super(`Context version ${version} does not exist`);
+    this.name = "UserContextVersionNotFoundError";
+  }
+}
+
+async function getUserContextHistoryCollection() {
+  const client = await getMongoClient();
+  const col = client
+    .db()
+    .collection<UserContextChangeRecord>(HISTORY_COLLECTION);
+  await col.createIndex({ userId: 1, version: -1 }, { unique: true });
+  return col;
+}
+
+/**
+ * Bring a stored document up to the current schema version and persist the result
+ */
+async function ensureMigrated(
+  doc: UserContextDocument
+): Promise<UserContextDocument> {
+  if (
+    doc.schemaVersion === USER_CONTEXT_SCHEMA_VERSION &&
+    doc.version !== undefined
+  ) {
+    return doc;
+  }
+  const collection = await getUserContextCollection();
+  const migrated: UserContextDocument = {
+    ...doc,
+    schemaVersion: USER_CONTEXT_SCHEMA_VERSION,
+    version: doc.version ?? 0,
+    data:
+      doc.schemaVersion === USER_CONTEXT_SCHEMA_VERSION
+        ? doc.data
+        : migrateUserContextData(doc.data as Record<string, unknown>),
+  };
+  // Guarded on the old version so a concurrent migration doesn't run twice
+  await collection.updateOne(
+    { userId: doc.userId, schemaVersion: doc.schemaVersion },
+    {
+      $set: {
+        schemaVersion: migrated.schemaVersion,
+        version: migrated.version,
+        data: migrated.data,
+      },
+    }
+  );
+  return migrated;
+}
+
 export async function getUserContextDocument(userId: string) {
   const collection = await getUserContextCollection();
   const doc = await collection.findOne({ userId });
   if (doc) {
-    return doc;
+    return ensureMigrated(doc);
   }
   const now = new Date();
   const base: UserContextDocument = {
     userId,
-    data: {},
+    schemaVersion: USER_CONTEXT_SCHEMA_VERSION,
+    version: 0,
+    data: emptyUserContextData(),
     createdAt: now,
     updatedAt: now,
   };
@@ -35,38 +192,399 @@ export async function getUserContextDocument(userId: string) {
   return base;
 }
 
-export async function updateUserContextDocument(
-  userId: string,
-  contextUpdates: { path: string; value?: unknown }[]
+/**
+ * Migrate every stored context document to the current schema version
+ */
+export async function migrateAllUserContextDocuments(): Promise<number> {
+  const collection = await getUserContextCollection();
+  const outdated = collection.find({
+    $or: [
+      { schemaVersion: { $ne: USER_CONTEXT_SCHEMA_VERSION } },
+      { version: { $exists: false } },
+    ],
+  });
+  let migrated = 0;
+  for await (const doc of outdated) {
+    await ensureMigrated(doc);
+    migrated += 1;
+  }
+  return migrated;
+}
+
+const setAtPath = (
+  target: Record<string, unknown>,
+  segments: string[],
+  value: unknown
+) => {
+  let node = target;
+  for (const segment of segments.slice(0, -1)) {
+    const next = node[segment];
+    if (typeof next !== "object" || next === null) {
+      node[segment] = {};
+    }
+    node = node[segment] as Record<string, unknown>;
+  }
+  const last = segments[segments.length - 1];
+  if (value === undefined) {
+    delete node[last];
+  } else {
+    node[last] = value;
+  }
+};
+
+const withoutUndefined = (change: UserContextChange): UserContextChange => ({
+  path: change.path,
+  ...(change.oldValue !== undefined && { oldValue: change.oldValue }),
+  ...(change.newValue !== undefined && { newValue: change.newValue }),
+});
+
+/**
+ * Resolve where each update is written and what it replaces. Updates that would
+ * leave their section invalid are redirected to `unsorted` (or rejected when
+ * onInvalid is "reject"); updates that change nothing are dropped.
+ */
+function planContextUpdates(
+  data: UserContextData,
+  contextUpdates: UserContextUpdate[],
+  onInvalid: "unsorted" | "reject"
 ) {
+  const draft = structuredClone(data) as Record<string, unknown>;
+  const changes: UserContextChange[] = [];
+  const movedToUnsorted: UserContextUpdateResult["movedToUnsorted"] = [];
+  // Entry path -> new metadata, or null to clear it
+  const metadata = new Map<string, UserContextEntryMetadata | null>();
+
+  const applyMetadata = (segments: string[], update: UserContextUpdate) => {
+    if (update.metadata === undefined) {
+      // Whole entries and sections lose metadata that described the old value
+      if (segments.length <= 2) metadata.set(segments.join("."), null);
+      return;
+    }
+    if (segments.length < 2 || update.value === undefined) {
+      throw new UserContextValidationError(
+        update.path,
+        "Metadata can only be set when writing an entry (<section>.<key>)"
+      );
+    }
+    const result = userContextEntryMetadataSchema.safeParse(update.metadata);
+    if (!result.success) {
+      throw new UserContextValidationError(
+        update.path,
+        `Invalid metadata: ${result.error.issues.map((issue) => issue.message).join("; ")}`
+      );
+    }
+    const { expiresAt, ...rest } = result.data;
+    metadata.set(segments.slice(0, 2).join("."), {
+      ...rest,
+      ...(expiresAt && { expiresAt: new Date(expiresAt) }),
+    });
+  };
+
+  const apply = (segments: string[], update: UserContextUpdate) => {
+    applyMetadata(segments, update);
+    const value = update.value;
+    const oldValue = getContextPathValue(draft, segments);
+    if (JSON.stringify(oldValue) === JSON.stringify(value)) return;
+    setAtPath(draft, segments, value);
+    changes.push(
+      withoutUndefined({ path: segments.join("."), oldValue, newValue: value })
+    );
+  };
+
+  for (const update of contextUpdates) {
+    const segments = parseContextPath(update.path);
+    if (!segments) {
+      throw new UserContextValidationError(
+        update.path,
+        `Invalid context path "${update.path}"`
+      );
+    }
+
+    const [section] = segments;
+    let reason: string | undefined;
+    if (!isUserContextSection(section)) {
+      reason = `Unknown section "${section}"`;
+    } else if (segments.length === 1 && update.value === undefined) {
+      reason = `Section "${section}" can't be deleted`;
+    } else {
+      const candidate = structuredClone(draft[section] ?? {});
+      const sectionDraft = { [section]: candidate } as Record<string, unknown>;
+      setAtPath(sectionDraft, segments, update.value);
+      const result = userContextSectionSchemas[section].safeParse(
+        sectionDraft[section]
+      );
+      if (result.success) {
+        apply(segments, update);
+        continue;
+      }
+      reason = result.error.issues
+        .map((issue) => `${[section, ...issue.path].join(".")}: ${issue.message}`)
+        .join("; ");
+    }
+
+    // Deleting something that doesn't fit the schema is a no-op
+    if (update.value === undefined) {
+      continue;
+    }
+    if (onInvalid === "reject") {
+      throw new UserContextValidationError(update.path, reason);
+    }
+    const storedAt = `unsorted.${segments.join("_")}`;
+    apply(storedAt.split("."), update);
+    movedToUnsorted.push({ path: update.path, storedAt, reason });
+  }
+
+  return { changes, metadata, movedToUnsorted };
+}
+
+/**
+ * Write planned changes to the revision they were planned against. The history
+ * record goes in first: its unique version makes racing writers collide there,
+ * and it is removed again if the document update doesn't go through. Returns
+ * null when the document changed in the meantime.
+ */
+async function applyContextUpdates(
+  current: UserContextDocument,
+  contextUpdates: UserContextUpdate[],
+  options: UserContextUpdateOptions
+): Promise<UserContextUpdateResult | null> {
+  const { userId } = current;
+  const { changes, metadata, movedToUnsorted } = planContextUpdates(
+    current.data,
+    contextUpdates,
+    options.onInvalid ?? "unsorted"
+  );
+  const metadataChanged = [...metadata].some(
+    ([entryPath, entryMetadata]) =>
+      entryMetadata !== null ||
+      getContextPathValue(current.metadata ?? {}, entryPath.split(".")) !==
+        undefined
+  );
+  if (changes.length === 0 && !metadataChanged) {
+    return { document: current, movedToUnsorted };
+  }
+
+  const $set: Record<string, unknown> = {};
+  const $unset: Record<string, ""> = {};
+  for (const change of changes) {
+    const fullPath = `data.${change.path}`;
+    if (change.newValue === undefined) {
+      delete $set[fullPath];
+      $unset[fullPath] = "";
+    } else {
+      delete $unset[fullPath];
+      $set[fullPath] = change.newValue;
+    }
+  }
+  for (const [entryPath, entryMetadata] of metadata) {
+    const fullPath = `metadata.${entryPath}`;
+    if (entryMetadata === null) {
+      delete $set[fullPath];
+      $unset[fullPath] = "";
+    } else {
+      delete $unset[fullPath];
+      $set[fullPath] = entryMetadata;
+    }
+  }
+
+  const now = new Date();
+  const version = current.version + 1;
+  const history = await getUserContextHistoryCollection();
+  if (changes.length > 0) {
+    try {
+      await history.insertOne({
+        userId,
+        version,
+        changes,
+        actor: options.actor,
+        ...(options.rolledBackTo !== undefined && {
+          rolledBackTo: options.rolledBackTo,
+        }),
+        createdAt: now,
+      });
+    } catch (error) {
+      if ((error as { code?: number }).code === DUPLICATE_KEY_ERROR_CODE) {
+        await history.deleteOne({
+          userId,
+          version,
+          createdAt: { $lt: new Date(now.getTime() - ORPHANED_HISTORY_AGE_MS) },
+        });
+        return null;
+      }
+      throw error;
+    }
+  }
+  const discardHistory = async () => {
+    if (changes.length > 0) {
+      await history.deleteOne({ userId, version, createdAt: now });
+    }
+  };
+
   const collection = await getUserContextCollection();
-  const doc = await collection.findOneAndUpdate(
-    { userId },
-    {
-      $set: {
-        ...contextUpdates.reduce((acc, update) => {
-          if (update.value !== undefined) {
-            const fullPath = `data.${update.path}`;
-            acc[fullPath] = update.value;
-          }
-          return acc;
-        }, {} as Record<string, unknown>),
-        updatedAt: new Date(),
-      },
-      $unset: {
-        ...contextUpdates.reduce((acc, update) => {
-          const fullPath = `data.${update.path}`;
-          if (update.value === undefined) {
-            acc[fullPath] = "";
-          }
-          return acc;
-        }, {} as Record<string, "">),
+  let doc: UserContextDocument | null;
+  try {
+    // Guarded on the revision the changes were planned against, so the recorded
+    // old values are exactly what this update replaced
+    doc = await collection.findOneAndUpdate(
+      { userId, version: current.version, updatedAt: current.updatedAt },
+      {
+        $set: { ...$set, updatedAt: now },
+        $unset,
+        ...(changes.length > 0 && { $inc: { version: 1 } }),
       },
-    },
-    { returnDocument: "after" }
-  );
+      { returnDocument: "after" }
+    );
+  } catch (error) {
+    await discardHistory();
+    throw error;
+  }
   if (!doc) {
-    throw new Error("Failed to update user context document");
+    await discardHistory();
+    return null;
+  }
+
+  // Anything that can go stale gets picked up by the periodic prune
+  const prunable =
+    [...metadata.values()].some((entryMetadata) => entryMetadata !== null) ||
+    changes.some((change) => change.path.startsWith("upcoming."));
+  if (prunable) {
+    await scheduleContextPrune(userId);
   }
-  return doc;
+
+  emitResourceUpdated(userId, MCP_RESOURCE_URIS.context);
+  return { document: doc, movedToUnsorted };
+}
+
+/**
+ * Apply path updates to a user's context. With expectedUpdatedAt the write fails
+ * on any concurrent change; without it, it is re-planned against the latest
+ * document a few times (last writer wins) before giving up.
+ */
+export async function updateUserContextDocument(
+  userId: string,
+  contextUpdates: UserContextUpdate[],
+  options: UserContextUpdateOptions
+): Promise<UserContextUpdateResult> {
+  for (let attempt = 1; ; attempt++) {
+    const current = await getUserContextDocument(userId);
+    if (
+      options.expectedUpdatedAt &&
+      options.expectedUpdatedAt.getTime() !== current.updatedAt.getTime()
+    ) {
+      throw new UserContextConflictError(current);
+    }
+
+    const result = await applyContextUpdates(current, contextUpdates, options);
+    if (result) {
+      return result;
+    }
+    if (options.expectedUpdatedAt || attempt >= MAX_UPDATE_ATTEMPTS) {
+      throw new UserContextConflictError(await getUserContextDocument(userId));
+    }
+  }
+}
+
+export async function listUserContextHistory(
+  userId: string,
+  options: { limit?: number; beforeVersion?: number } = {}
+): Promise<UserContextChangeRecord[]> {
+  const history = await getUserContextHistoryCollection();
+  return history
+    .find({
+      userId,
+      ...(options.beforeVersion !== undefined && {
+        version: { $lt: options.beforeVersion },
+      }),
+    })
+    .sort({ version: -1 })
+    .limit(options.limit ?? 50)
+    .toArray();
+}
+
+/**
+ * Rebuild the context as it was right after the given version by undoing every
+ * newer change record
+ */
+export async function getUserContextAtVersion(
+  userId: string,
+  version: number
+): Promise<UserContextData> {
+  const current = await getUserContextDocument(userId);
+  if (!Number.isInteger(version) || version < 0 || version > current.version) {
+    throw new UserContextVersionNotFoundError(version);
+  }
+
+  const history = await getUserContextHistoryCollection();
+  const newer = await history
+    .find({ userId, version: { $gt: version } })
+    .sort({ version: -1 })
+    .toArray();
+  if (newer.length !== current.version - version) {
+    throw new UserContextVersionNotFoundError(version);
+  }
+
+  const data = structuredClone(current.data) as Record<string, unknown>;
+  for (const record of newer) {
+    for (const change of [...record.changes].reverse()) {
+      setAtPath(data, change.path.split("."), change.oldValue);
+    }
+  }
+  return data as UserContextData;
+}
+
+/**
+ * Paths that differ between two versions; `to` defaults to the current version
+ */
+export async function diffUserContextVersions(
+  userId: string,
+  from: number,
+  to?: number
+) {
+  const current = await getUserContextDocument(userId);
+  const toVersion = to ?? current.version;
+  const [before, after] = await Promise.all([
+    getUserContextAtVersion(userId, from),
+    getUserContextAtVersion(userId, toVersion),
+  ]);
+  return {
+    from,
+    to: toVersion,
+    changes: diffUserContextData(before, after),
+  };
+}
+
+/**
+ * Restore one path, or the whole document, to its value at the given version.
+ * The rollback is recorded as a new version, so it can be rolled back too.
+ */
+export async function rollbackUserContext(
+  userId: string,
+  version: number,
+  options: { actor: UserContextActor; path?: string }
+): Promise<UserContextUpdateResult> {
+  const current = await getUserContextDocument(userId);
+  const target = await getUserContextAtVersion(userId, version);
+
+  let updates: UserContextUpdate[];
+  if (options.path) {
+    const segments = parseContextPath(options.path);
+    if (!segments) {
+      throw new UserContextValidationError(
+        options.path,
+        `Invalid context path "${options.path}"`
+      );
+    }
+    updates = [{ path: options.path, value: getContextPathValue(target, segments) }];
+  } else {
+    updates = diffUserContextData(current.data, target).map((entry) => ({
+      path: entry.path,
+      value: entry.after,
+    }));
+  }
+
+  return updateUserContextDocument(userId, updates, {
+    actor: options.actor,
+    onInvalid: "reject",
+    rolledBackTo: version,
+  });
 }
@@ -1,5 +1,7 @@
 import { ObjectId } from "mongodb";
 import { getMongoClient } from "./db";
+import { InvalidScheduleError, isValidTimeZone } from "./recurrence";
+import { rescheduleDailyChecks } from "./scheduled-tasks";
 
 export const getUserByTelegramId = async (telegramId: number) => {
   const client = await getMongoClient();
@@ -17,3 +19,35 @@ export const getUserById = async (userId: string) => {
     _id: new ObjectId(userId),
   });
 };
+
+/**
+ * The user's IANA timezone, or null when none has been captured yet
+ */
+export const getUserTimezone = async (userId: string) => {
+  const user = await getUserById(userId);
+  const timezone = user?.timezone;
+  return typeof timezone === "string" && isValidTimeZone(timezone)
+    ? timezone
+    : null;
+};
+
+/**
+ * Store the user's timezone (from Telegram or the browser) and move their
+ * daily check-ins onto it when it changed
+ */
+export const setUserTimezone = async (userId: string, timezone: string) => {
+  if (!isValidTimeZone(timezone)) {
+    throw new InvalidScheduleError(`Unknown timezone "${timezone}"`);
+  }
+
+  const client = await getMongoClient();
+  const usersCollection = client.db().collection("users");
+  const previous = await usersCollection.findOneAndUpdate(
+    { _id: new ObjectId(userId) },
+    { $set: { timezone, updatedAt: new Date() } }
+  );
+
+  if (previous && previous.timezone !== timezone) {
+    await rescheduleDailyChecks(userId, timezone);
+  }
+};
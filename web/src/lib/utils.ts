@@ -5,6 +5,21 @@ export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
 
+const CALLBACK_BASE_URL = "http://callback.invalid";
+
+// Only same-origin paths are allowed, so login can't be used as an open redirect.
+// Parsing catches what browsers normalize, e.g. "/\evil.com" means "//evil.com".
+export function getSafeCallbackUrl(callbackUrl?: string | null): string {
+  if (!callbackUrl || !callbackUrl.startsWith("/")) {
+    return "/";
+  }
+  const url = new URL(callbackUrl, CALLBACK_BASE_URL);
+  if (url.origin !== CALLBACK_BASE_URL) {
+    return "/";
+  }
+  return `${url.pathname}${url.search}${url.hash}`;
+}
+
 export const MODELS = {
   realtime: "gpt-realtime" as const,
   text: "gpt-5-mini-2025-08-07" as const,
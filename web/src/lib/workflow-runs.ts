@@ -1,5 +1,6 @@
 import { ObjectId } from "mongodb";
 import { getMongoClient } from "@/lib/db";
+import type { McpToolErrorCode } from "@/lib/mcp-instrumentation";
 
 const COLLECTION = "workflow_runs";
 
@@ -11,7 +12,10 @@ export interface ToolCall {
   result?: unknown;
   status: "pending" | "success" | "error";
   error?: string;
-  duration?: number;
+  errorCode?: McpToolErrorCode;
+  duration?: number; // milliseconds
+  undoActionId?: string; // agent_actions entry that can reverse this call
+  undoneAt?: Date;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -22,7 +26,7 @@ export interface WorkflowRun {
   sessionId: string;
   startedAt: Date;
   completedAt?: Date;
-  status: "running" | "completed" | "error";
+  status: "running" | "awaiting_approval" | "completed" | "error";
   userMessage: string;
   assistantMessage?: string;
   toolCalls: Record<string, ToolCall>;
@@ -119,7 +123,7 @@ export async function getLatestWorkflows(
 
   // Get last completed workflow
   const previous = await collection.findOne(
-    { userId, status: { $in: ["completed", "error"] } },
+    { userId, status: { $in: ["completed", "awaiting_approval", "error"] } },
     { sort: { startedAt: -1 } }
   );
 
@@ -149,10 +153,26 @@ export function getDefaultToolDisplayInfo(
       displayTitle: "✏️ Update user context",
       displayDescription: "",
     },
+    get_user_context_history: {
+      displayTitle: "🕘 Read context history",
+      displayDescription: "",
+    },
+    diff_user_context: {
+      displayTitle: "🔍 Compare context versions",
+      displayDescription: "",
+    },
+    rollback_user_context: {
+      displayTitle: "⏪ Roll back user context",
+      displayDescription: "",
+    },
     get_conversation_messages: {
       displayTitle: "💬 Get conversation history",
       displayDescription: "",
     },
+    search_conversation: {
+      displayTitle: "🔎 Search conversation",
+      displayDescription: "",
+    },
     "list-calendars": {
       displayTitle: "📅 List calendars",
       displayDescription: "",
@@ -209,6 +229,34 @@ export function getDefaultToolDisplayInfo(
       displayTitle: "💾 Update a Task",
       displayDescription: "",
     },
+    "complete_google_task": {
+      displayTitle: "☑️ Complete Task",
+      displayDescription: "",
+    },
+    "delete_google_task": {
+      displayTitle: "🗑️ Delete Task",
+      displayDescription: "",
+    },
+    "move_google_task": {
+      displayTitle: "↕️ Move Task",
+      displayDescription: "",
+    },
+    "rename_google_task_list": {
+      displayTitle: "✏️ Rename Task list",
+      displayDescription: "",
+    },
+    "delete_google_task_list": {
+      displayTitle: "🗑️ Delete Task list",
+      displayDescription: "",
+    },
+    "undo_last_action": {
+      displayTitle: "↩️ Undo last change",
+      displayDescription: "",
+    },
+    complete_workplan_step: {
+      displayTitle: "☑️ Complete workplan step",
+      displayDescription: "",
+    },
   };
 
   return toolMap[actualTool] || {
@@ -0,0 +1,411 @@
+import { google, tasks_v1 } from "googleapis";
+import { CreateEventHandler } from "@cocal/google-calendar-mcp/src/handlers/core/CreateEventHandler";
+import { OAuth2Client } from "@cocal/google-calendar-mcp/node_modules/google-auth-library";
+
+import { env } from "@/env";
+import { extractEventId } from "@/lib/agent-actions";
+import {
+  completeTask,
+  getTaskLists,
+  insertTask,
+  insertTaskList,
+  updateTask,
+} from "@/lib/google-tasks";
+import {
+  findWorkplan,
+  linkWorkplanStep,
+  setWorkplanStepDone,
+  StoredWorkplan,
+  WorkplanStep,
+} from "@/lib/workplans";
+
+// Exported steps go to their own list so they don't clutter the user's lists
+export const WORKPLAN_TASK_LIST_TITLE = "Micromanager workplans";
+
+const DEFAULT_PREP_MINUTES = 30;
+const SLOT_GRANULARITY_MINUTES = 15;
+// Prep blocks are only proposed within this many days before their deadline
+const PREP_SEARCH_DAYS = 3;
+// Local hours a prep block may start and end within
+const PREP_DAY_START_HOUR = 8;
+const PREP_DAY_END_HOUR = 20;
+
+const MINUTE_MS = 60 * 1000;
+
+export interface TimeRange {
+  start: Date;
+  end: Date;
+}
+
+export interface PrepBlock extends TimeRange {
+  stepId: string;
+}
+
+export class WorkplanExportError extends Error {
+  constructor(
+    public readonly code: "NOT_FOUND" | "INVALID_INPUT",
+    message: string
+  ) {
+    super(message);
+    this.name = "WorkplanExportError";
+  }
+}
+
+const googleClientsFor = (accessToken: string) => {
+  const oAuth2Client = new google.auth.OAuth2();
+  oAuth2Client.setCredentials({ access_token: accessToken });
+  return {
+    tasks: google.tasks({ version: "v1", auth: oAuth2Client }),
+    calendar: google.calendar({ version: "v3", auth: oAuth2Client }),
+  };
+};
+
+async function requireWorkplan(userId: string, eventId: string) {
+  const plan = await findWorkplan(userId, eventId);
+  if (!plan) {
+    throw new WorkplanExportError(
+      "NOT_FOUND",
+      `No workplan for event ${eventId}`
+    );
+  }
+  return plan;
+}
+
+const selectSteps = (plan: StoredWorkplan, stepIds: string[]) => {
+  const steps = plan.steps.filter((step) => stepIds.includes(step.id));
+  if (steps.length !== stepIds.length) {
+    throw new WorkplanExportError(
+      "INVALID_INPUT",
+      "Some steps are not part of this workplan"
+    );
+  }
+  return steps;
+};
+
+/**
+ * When a step should be finished: its due offset from the event start, or
+ * the event start itself. Null when the event has no start.
+ */
+export function stepDeadline(
+  eventStart: string | null | undefined,
+  step: Pick<WorkplanStep, "dueOffsetMinutes">
+): Date | null {
+  if (!eventStart) return null;
+  const start = new Date(eventStart);
+  if (Number.isNaN(start.getTime())) return null;
+  return new Date(start.getTime() + (step.dueOffsetMinutes ?? 0) * MINUTE_MS);
+}
+
+async function getOrCreateWorkplanTaskList(tasksClient: tasks_v1.Tasks) {
+  const lists = await getTaskLists(tasksClient);
+  const existing = lists.find(
+    (list) => list.title === WORKPLAN_TASK_LIST_TITLE
+  );
+  if (existing) {
+    return existing.id;
+  }
+  const created = await insertTaskList(tasksClient, WORKPLAN_TASK_LIST_TITLE);
+  if (!created.id) {
+    throw new Error("Google did not return an ID for the new task list");
+  }
+  return created.id;
+}
+
+/**
+ * Create a Google Task for each selected step that isn't linked to one yet
+ * and link the step to it
+ */
+export async function exportStepsToTasks(
+  userId: string,
+  eventId: string,
+  stepIds: string[],
+  accessToken: string
+): Promise<StoredWorkplan> {
+  const plan = await requireWorkplan(userId, eventId);
+  const steps = selectSteps(plan, stepIds).filter((step) => !step.taskId);
+  if (steps.length === 0) {
+    return plan;
+  }
+
+  const { tasks } = googleClientsFor(accessToken);
+  const tasklistId = await getOrCreateWorkplanTaskList(tasks);
+  let updated = plan;
+  for (const step of steps) {
+    const due = stepDeadline(plan.event.start, step) ?? new Date();
+    const task = await insertTask(
+      tasks,
+      tasklistId,
+      step.text,
+      `Workplan step for "${plan.event.title}"`,
+      due.toISOString()
+    );
+    if (!task.id) continue;
+    if (step.done) {
+      await completeTask(tasks, tasklistId, task.id);
+    }
+    updated =
+      (await linkWorkplanStep(userId, eventId, step.id, {
+        taskId: task.id,
+        tasklistId,
+      })) ?? updated;
+  }
+  return updated;
+}
+
+const overlaps = (a: TimeRange, b: TimeRange) =>
+  a.start < b.end && b.start < a.end;
+
+const localHour = (date: Date, timeZone: string) =>
+  Number(
+    new Intl.DateTimeFormat("en-US", {
+      hour: "numeric",
+      minute: "numeric",
+      hourCycle: "h23",
+      timeZone,
+    })
+      .formatToParts(date)
+      .reduce(
+        (hours, part) =>
+          part.type === "hour"
+            ? hours + Number(part.value)
+            : part.type === "minute"
+              ? hours + Number(part.value) / 60
+              : hours,
+        0
+      )
+  );
+
+/**
+ * Latest free slot before each step's deadline, within local daytime hours
+ * and not overlapping busy time or slots picked for earlier steps
+ */
+export function findPrepSlots(
+  requests: { stepId: string; minutes: number; deadline: Date }[],
+  busy: TimeRange[],
+  options: { now: Date; timeZone: string }
+): PrepBlock[] {
+  const slots: PrepBlock[] = [];
+  const stepMs = SLOT_GRANULARITY_MINUTES * MINUTE_MS;
+
+  for (const request of requests) {
+    const duration = request.minutes * MINUTE_MS;
+    const earliest = Math.max(
+      options.now.getTime(),
+      request.deadline.getTime() - PREP_SEARCH_DAYS * 24 * 60 * MINUTE_MS
+    );
+    // Align the first candidate end to the slot grid
+    let end = Math.floor(request.deadline.getTime() / stepMs) * stepMs;
+    for (; end - duration >= earliest; end -= stepMs) {
+      const candidate = { start: new Date(end - duration), end: new Date(end) };
+      const startHour = localHour(candidate.start, options.timeZone);
+      const endHour = localHour(candidate.end, options.timeZone);
+      if (
+        startHour < PREP_DAY_START_HOUR ||
+        endHour > PREP_DAY_END_HOUR ||
+        endHour < startHour
+      ) {
+        continue;
+      }
+      if ([...busy, ...slots].some((range) => overlaps(range, candidate))) {
+        continue;
+      }
+      slots.push({ stepId: request.stepId, ...candidate });
+      break;
+    }
+  }
+  return slots;
+}
+
+/**
+ * Propose prep blocks for the selected steps from the user's free/busy time
+ */
+export async function proposePrepBlocks(
+  userId: string,
+  eventId: string,
+  stepIds: string[],
+  accessToken: string,
+  now = new Date()
+): Promise<PrepBlock[]> {
+  const plan = await requireWorkplan(userId, eventId);
+  const requests = selectSteps(plan, stepIds)
+    .filter((step) => !step.done && !step.calendarEventId)
+    .map((step) => ({
+      stepId: step.id,
+      minutes: step.estimatedMinutes ?? DEFAULT_PREP_MINUTES,
+      deadline: stepDeadline(plan.event.start, step),
+    }))
+    .filter(
+      (
+        request
+      ): request is { stepId: string; minutes: number; deadline: Date } =>
+        request.deadline !== null && request.deadline > now
+    );
+  if (requests.length === 0) {
+    return [];
+  }
+
+  const { calendar } = googleClientsFor(accessToken);
+  const timeMax = new Date(
+    Math.max(...requests.map((request) => request.deadline.getTime()))
+  );
+  const [{ data: freeBusy }, { data: primary }] = await Promise.all([
+    calendar.freebusy.query({
+      requestBody: {
+        timeMin: now.toISOString(),
+        timeMax: timeMax.toISOString(),
+        items: [{ id: "primary" }],
+      },
+    }),
+    calendar.calendars.get({ calendarId: "primary" }),
+  ]);
+  const busy = (freeBusy.calendars?.primary?.busy ?? [])
+    .filter((range) => range.start && range.end)
+    .map((range) => ({
+      start: new Date(range.start!),
+      end: new Date(range.end!),
+    }));
+
+  return findPrepSlots(requests, busy, {
+    now,
+    timeZone: primary.timeZone ?? "UTC",
+  });
+}
+
+// The calendar handler takes wall-clock times without an offset
+const toHandlerTime = (date: Date) => date.toISOString().slice(0, 19);
+
+/**
+ * Create calendar events for accepted prep blocks and link each step to its block
+ */
+export async function bookPrepBlocks(
+  userId: string,
+  eventId: string,
+  blocks: PrepBlock[],
+  accessToken: string
+): Promise<StoredWorkplan> {
+  const plan = await requireWorkplan(userId, eventId);
+  const steps = selectSteps(
+    plan,
+    blocks.map((block) => block.stepId)
+  );
+
+  const oAuth2Client = new OAuth2Client({
+    clientId: env.GOOGLE_CLIENT_ID,
+    clientSecret: env.GOOGLE_CLIENT_SECRET,
+  });
+  oAuth2Client.setCredentials({ access_token: accessToken });
+
+  let updated = plan;
+  for (const block of blocks) {
+    const step = steps.find((candidate) => candidate.id === block.stepId)!;
+    if (step.calendarEventId) continue;
+    const result = await new CreateEventHandler().runTool(
+      {
+        calendarId: "primary",
+        summary: `Prep: ${step.text}`,
+        description: `Preparation for "${plan.event.title}"`,
+        start: toHandlerTime(block.start),
+        end: toHandlerTime(block.end),
+        timeZone: "UTC",
+      },
+      oAuth2Client
+    );
+    const calendarEventId = extractEventId(result);
+    if (!calendarEventId) continue;
+    updated =
+      (await linkWorkplanStep(userId, eventId, step.id, { calendarEventId })) ??
+      updated;
+  }
+  return updated;
+}
+
+/**
+ * Mirror a step's checkbox onto its Google Task. Failures are logged only;
+ * the step itself is already saved.
+ */
+export async function syncStepToTask(
+  step: WorkplanStep,
+  accessToken: string
+): Promise<void> {
+  if (!step.taskId || !step.tasklistId) return;
+  try {
+    const { tasks } = googleClientsFor(accessToken);
+    if (step.done) {
+      await completeTask(tasks, step.tasklistId, step.taskId);
+    } else {
+      await updateTask(
+        tasks,
+        step.taskId,
+        step.tasklistId,
+        undefined,
+        undefined,
+        "needsAction",
+        undefined
+      );
+    }
+  } catch (error) {
+    console.error(
+      `[Workplan Export] Failed to sync task ${step.taskId}:`,
+      error
+    );
+  }
+}
+
+/**
+ * Check off (or reopen) steps whose linked Google Task changed status.
+ * Returns the plans with their steps updated.
+ */
+export async function syncStepsFromTasks(
+  userId: string,
+  plans: StoredWorkplan[],
+  accessToken: string
+): Promise<StoredWorkplan[]> {
+  const tasklistIds = new Set(
+    plans.flatMap((plan) =>
+      plan.steps.flatMap((step) => (step.tasklistId ? [step.tasklistId] : []))
+    )
+  );
+  if (tasklistIds.size === 0) {
+    return plans;
+  }
+
+  const { tasks } = googleClientsFor(accessToken);
+  const completed = new Map<string, boolean>();
+  for (const tasklist of tasklistIds) {
+    try {
+      let pageToken: string | undefined;
+      do {
+        const { data } = await tasks.tasks.list({
+          tasklist,
+          showCompleted: true,
+          showHidden: true,
+          maxResults: 100,
+          pageToken,
+        });
+        for (const task of data.items ?? []) {
+          if (task.id) completed.set(task.id, task.status === "completed");
+        }
+        pageToken = data.nextPageToken ?? undefined;
+      } while (pageToken);
+    } catch (error) {
+      console.error(
+        `[Workplan Export] Failed to list tasks in ${tasklist}:`,
+        error
+      );
+    }
+  }
+
+  return Promise.all(
+    plans.map(async (plan) => {
+      let updated = plan;
+      for (const step of plan.steps) {
+        const done = step.taskId ? completed.get(step.taskId) : undefined;
+        if (done === undefined || done === step.done) continue;
+        updated =
+          (await setWorkplanStepDone(userId, plan.eventId, step.id, done)) ??
+          updated;
+      }
+      return updated;
+    })
+  );
+}
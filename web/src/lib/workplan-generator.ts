@@ -1,9 +1,21 @@
+import { z } from "zod";
+
+import { fetchUpcomingCalendarItems } from "@/lib/calendar";
+import {
+  WORKPLAN_DEFAULT_EVENT_LIMIT,
+  WORKPLAN_PREGENERATE_CONCURRENCY,
+  WORKPLAN_PREGENERATE_DAYS,
+} from "@/lib/constants";
 import { OpenAIAgent, runOpenAIAgent } from "@/lib/openai";
 import { MODELS } from "@/lib/utils";
 
 import {
   WorkplanEventSnapshot,
+  WorkplanStep,
+  WorkplanVersionTrigger,
   StoredWorkplan,
+  carryOverProgress,
+  createWorkplanStep,
   findWorkplan,
   hasEventChanged,
   isWorkplanStale,
@@ -12,13 +24,60 @@ import {
   markWorkplanStatus,
 } from "@/lib/workplans";
 
+const WORKPLAN_MODEL = MODELS.text;
+
+// Structured output the model must return; every field is required for strict mode
+const generatedPlanSchema = z.object({
+  steps: z
+    .array(
+      z.object({
+        text: z.string().min(1).describe("Short, actionable step"),
+        estimatedMinutes: z
+          .number()
+          .int()
+          .min(1)
+          .max(24 * 60)
+          .describe("Estimated time the step takes"),
+        dueOffsetMinutes: z
+          .number()
+          .int()
+          .nullable()
+          .describe(
+            "When the step should be done, in minutes relative to the event start (negative is before), or null"
+          ),
+      })
+    )
+    .min(1)
+    .max(12),
+});
+
+export interface WorkplanGenerationUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
 export interface WorkplanGenerationInput {
   userId: string;
   eventId: string;
   event: WorkplanEventSnapshot;
   roleHint?: string;
+  // Called with the model's token usage whenever steps are generated
+  onUsage?: (usage: WorkplanGenerationUsage) => void;
+  // Rethrow generation errors instead of returning the existing plan
+  throwOnError?: boolean;
+}
+
+export interface WorkplanRefreshResult {
+  checked: number;
+  generated: number;
+  skipped: number;
+  failed: number;
+  model: string;
+  usage: WorkplanGenerationUsage;
 }
 
+export type WorkplanGenerationLimiter = <T>(run: () => Promise<T>) => Promise<T>;
+
 export async function ensureWorkplanForEvent(
   input: WorkplanGenerationInput
 ): Promise<StoredWorkplan> {
@@ -47,11 +106,23 @@ export async function ensureWorkplanForEvent(
     return existing;
   }
 
+  const trigger: WorkplanVersionTrigger = !existing
+    ? "created"
+    : hasEventChanged(existing, snapshot)
+    ? "event_changed"
+    : roleChanged
+    ? "role_changed"
+    : "stale";
+
   try {
-    const steps = await generateSteps({
-      event: snapshot,
-      roleHint: role ?? undefined,
-    });
+    const steps = carryOverProgress(
+      existing?.steps,
+      await generateSteps({
+        event: snapshot,
+        roleHint: role ?? undefined,
+        onUsage: input.onUsage,
+      })
+    );
     return await saveWorkplan(
       input.userId,
       input.eventId,
@@ -59,13 +130,16 @@ export async function ensureWorkplanForEvent(
       steps,
       "ready",
       "auto",
-      role
+      role,
+      { trigger }
     );
   } catch (error) {
     console.error("[Workplan] Generation failed:", error);
     if (existing) {
       await markWorkplanStatus(input.userId, input.eventId, "error");
-      return existing;
+      if (!input.throwOnError) {
+        return existing;
+      }
     }
     throw error;
   }
@@ -78,13 +152,24 @@ export async function regenerateWorkplanForEvent(
   const existing = ensureRoleField(
     await findWorkplan(input.userId, input.eventId)
   );
-  const role = normalizeRole(input.roleHint) ?? existing?.role ?? null;
+  const normalizedRoleHint = normalizeRole(input.roleHint);
+  const role = normalizedRoleHint ?? existing?.role ?? null;
+  // Regeneration is asked for by the user or the agent
+  const trigger: WorkplanVersionTrigger = !existing
+    ? "created"
+    : normalizedRoleHint !== null && normalizedRoleHint !== existing.role
+    ? "role_changed"
+    : "manual";
 
   try {
-    const steps = await generateSteps({
-      event: snapshot,
-      roleHint: role ?? undefined,
-    });
+    const steps = carryOverProgress(
+      existing?.steps,
+      await generateSteps({
+        event: snapshot,
+        roleHint: role ?? undefined,
+        onUsage: input.onUsage,
+      })
+    );
     return await saveWorkplan(
       input.userId,
       input.eventId,
@@ -92,7 +177,8 @@ export async function regenerateWorkplanForEvent(
       steps,
       "ready",
       "auto",
-      role
+      role,
+      { trigger }
     );
   } catch (error) {
     console.error("[Workplan] Regeneration failed:", error);
@@ -101,19 +187,132 @@ export async function regenerateWorkplanForEvent(
   }
 }
 
+/**
+ * Run plan generations with at most `max` in flight; share one limiter to cap
+ * a whole batch
+ */
+export function createWorkplanGenerationLimiter(
+  max: number
+): WorkplanGenerationLimiter {
+  let active = 0;
+  const waiting: (() => void)[] = [];
+
+  return async (run) => {
+    if (active >= max) {
+      await new Promise<void>((resolve) => waiting.push(resolve));
+    }
+    active++;
+    try {
+      return await run();
+    } finally {
+      active--;
+      waiting.shift()?.();
+    }
+  };
+}
+
+/**
+ * Generate or refresh plans for the user's upcoming events ahead of time so
+ * opening the workplan view doesn't wait on the model. Manual plans and plans
+ * that are still fresh are left alone.
+ */
+export async function refreshUpcomingWorkplans(
+  userId: string,
+  accessToken: string,
+  options: {
+    days?: number;
+    limit?: number;
+    limiter?: WorkplanGenerationLimiter;
+  } = {}
+): Promise<WorkplanRefreshResult> {
+  const limiter =
+    options.limiter ??
+    createWorkplanGenerationLimiter(WORKPLAN_PREGENERATE_CONCURRENCY);
+  const items = await fetchUpcomingCalendarItems(
+    accessToken,
+    options.days ?? WORKPLAN_PREGENERATE_DAYS,
+    options.limit ?? WORKPLAN_DEFAULT_EVENT_LIMIT
+  );
+
+  const result: WorkplanRefreshResult = {
+    checked: items.length,
+    generated: 0,
+    skipped: 0,
+    failed: 0,
+    model: WORKPLAN_MODEL,
+    usage: { inputTokens: 0, outputTokens: 0 },
+  };
+  const onUsage = (usage: WorkplanGenerationUsage) => {
+    result.usage.inputTokens += usage.inputTokens;
+    result.usage.outputTokens += usage.outputTokens;
+  };
+
+  await Promise.all(
+    items.map(async (item) => {
+      const snapshot = normalizeEventSnapshot({
+        title: item.title,
+        start: item.start,
+        end: item.end,
+        location: item.location,
+        description: item.description,
+      });
+      const existing = await findWorkplan(userId, item.id);
+      if (
+        existing &&
+        (existing.source === "manual" ||
+          (existing.steps.length > 0 &&
+            !hasEventChanged(existing, snapshot) &&
+            !isWorkplanStale(existing)))
+      ) {
+        result.skipped++;
+        return;
+      }
+
+      try {
+        let generated = false;
+        await limiter(() =>
+          ensureWorkplanForEvent({
+            userId,
+            eventId: item.id,
+            event: snapshot,
+            onUsage: (usage) => {
+              generated = true;
+              onUsage(usage);
+            },
+            // A failed regeneration keeps the old plan but still counts as failed
+            throwOnError: true,
+          })
+        );
+        if (generated) {
+          result.generated++;
+        }
+      } catch (error) {
+        console.error(
+          `[Workplan] Pre-generation failed for event ${item.id}:`,
+          error
+        );
+        result.failed++;
+      }
+    })
+  );
+
+  return result;
+}
+
 async function generateSteps({
   event,
   roleHint,
+  onUsage,
 }: {
   event: WorkplanEventSnapshot;
   roleHint?: string;
-}): Promise<string[]> {
+  onUsage?: WorkplanGenerationInput["onUsage"];
+}): Promise<WorkplanStep[]> {
   const instructions = `
 You are Micromanager, an operations assistant.
 Determine the user's most relevant hands-on role for this event based on the available details.
 Produce a concise, practical, step-by-step work plan tailored to that role.
-Keep each step short and actionable.
-Output only the steps as a numbered list.`;
+Keep each step short and actionable, estimate how long it takes and, when it matters, when it should be done relative to the event start.`;
 
   const metaLines = [
     `Event: ${event.title}`,
@@ -122,7 +321,7 @@ Output only the steps as a numbered list.`;
     event.location ? `Location: ${event.location}` : null,
     event.description ? `Notes: ${event.description}` : null,
     roleHint ? `Role hint: ${roleHint}` : null,
-    "Return 6-10 steps, numbered, one per line.",
+    "Return 6-10 steps in the order they should be done.",
   ].filter(Boolean);
 
   const prompt = metaLines.join("\n");
@@ -130,19 +329,22 @@ Output only the steps as a numbered list.`;
   const agent = new OpenAIAgent({
     name: "workplan",
     instructions,
-    model: MODELS.text,
+    model: WORKPLAN_MODEL,
     tools: [],
+    outputType: generatedPlanSchema,
   });
 
   const result = await runOpenAIAgent(agent, prompt);
-  const text = result.finalOutput?.trim() ?? "";
-  const steps = splitToSteps(text);
-
-  if (!steps.length) {
-    throw new Error("No steps returned from model");
+  const { inputTokens, outputTokens } = result.state._context.usage;
+  onUsage?.({ inputTokens, outputTokens });
+  const parsed = generatedPlanSchema.safeParse(result.finalOutput);
+  if (!parsed.success) {
+    throw new Error("No valid steps returned from model");
   }
 
-  return steps;
+  return parsed.data.steps.map(({ text, estimatedMinutes, dueOffsetMinutes }) =>
+    createWorkplanStep(text.trim(), { estimatedMinutes, dueOffsetMinutes })
+  );
 }
 
 function normalizeRole(role?: string | null): string | null {
@@ -160,14 +362,3 @@ function ensureRoleField(
   }
   return plan;
 }
-
-function splitToSteps(text: string): string[] {
-  if (!text) return [];
-  return text
-    .split(/\r?\n/)
-    .map((line) => line.trim())
-    .filter(Boolean)
-    .map((line) => line.replace(/^\d+[\.\)]\s*/, "").trim())
-    .filter(Boolean)
-    .slice(0, 12);
-}
@@ -1,12 +1,14 @@
 import { ObjectId } from "mongodb";
 
 import { getMongoClient } from "@/lib/db";
+import { emitResourceUpdated, MCP_RESOURCE_URIS } from "@/lib/mcp-resources";
 import {
   WORKPLAN_DEFAULT_EVENT_LIMIT,
   WORKPLAN_REFRESH_INTERVAL_MINUTES,
 } from "@/lib/constants";
 
 const COLLECTION = "workplans";
+const VERSIONS_COLLECTION = "workplan_versions";
 
 export type WorkplanEventSnapshot = {
   title: string;
@@ -18,33 +20,109 @@ export type WorkplanEventSnapshot = {
 
 export type WorkplanStatus = "ready" | "stale" | "error";
 
+export interface WorkplanStep {
+  id: string;
+  text: string;
+  done: boolean;
+  doneAt: Date | null;
+  estimatedMinutes: number | null;
+  // When the step should be finished, in minutes from the event start (negative is before)
+  dueOffsetMinutes: number | null;
+  // Google Task or prep block the step was exported to
+  taskId?: string;
+  tasklistId?: string;
+  calendarEventId?: string;
+}
+
+export type WorkplanStepLink = Pick<
+  WorkplanStep,
+  "taskId" | "tasklistId" | "calendarEventId"
+>;
+
+// Why a plan was (re)generated
+export const WORKPLAN_VERSION_TRIGGERS = [
+  "created",
+  "event_changed",
+  "stale",
+  "role_changed",
+  "manual",
+] as const;
+
+export type WorkplanVersionTrigger = (typeof WORKPLAN_VERSION_TRIGGERS)[number];
+
 export interface StoredWorkplan {
   _id?: ObjectId;
   id?: string;
   userId: string;
   eventId: string;
   event: WorkplanEventSnapshot;
-  steps: string[];
+  steps: WorkplanStep[];
   status: WorkplanStatus;
   lastGeneratedAt: Date;
   createdAt: Date;
   updatedAt: Date;
   source: "auto" | "manual";
   role: string | null;
+  // Number of the latest saved version; missing on plans saved before versioning
+  version?: number;
+}
+
+export interface WorkplanVersion {
+  _id?: ObjectId;
+  userId: string;
+  eventId: string;
+  version: number;
+  trigger: WorkplanVersionTrigger;
+  event: WorkplanEventSnapshot;
+  steps: WorkplanStep[];
+  source: "auto" | "manual";
+  role: string | null;
+  // Set when this version restored an older one
+  restoredFrom?: number;
+  createdAt: Date;
+}
+
+export interface WorkplanStepsDiff {
+  added: string[];
+  removed: string[];
+}
+
+export class WorkplanVersionNotFoundError extends Error {
+  constructor(eventId: string, version: number) {
+    super(`Version ${version} of the workplan for event ${eventId} not found`);
+    this.name = "WorkplanVersionNotFoundError";
+  }
 }
 
 export interface WorkplanWithEvent extends StoredWorkplan {
   eventStartTimestamp?: number;
 }
 
+// Plans generated before steps became objects still store plain strings
+type StoredWorkplanDocument = Omit<StoredWorkplan, "steps"> & {
+  steps: (string | WorkplanStep)[];
+};
+
 async function getCollection() {
   const client = await getMongoClient();
-  const collection = client.db().collection<StoredWorkplan>(COLLECTION);
+  const collection = client.db().collection<StoredWorkplanDocument>(COLLECTION);
   await collection.createIndex({ userId: 1, eventId: 1 }, { unique: true });
   await collection.createIndex({ userId: 1, "event.start": 1 });
   return collection;
 }
 
+async function getVersionsCollection() {
+  const client = await getMongoClient();
+  const collection = client
+    .db()
+    .collection<WorkplanVersion>(VERSIONS_COLLECTION);
+  await collection.createIndex(
+    { userId: 1, eventId: 1, version: -1 },
+    { unique: true }
+  );
+  return collection;
+}
+
 export function normalizeEventSnapshot(event: Partial<WorkplanEventSnapshot>): WorkplanEventSnapshot {
   return {
     title: event.title ?? "Untitled event",
@@ -82,9 +160,93 @@ export function isWorkplanStale(workplan: StoredWorkplan) {
   );
 }
 
+export function createWorkplanStep(
+  text: string,
+  fields: Partial<Omit<WorkplanStep, "id" | "text">> = {}
+): WorkplanStep {
+  return {
+    id: new ObjectId().toHexString(),
+    text,
+    done: false,
+    doneAt: null,
+    estimatedMinutes: null,
+    dueOffsetMinutes: null,
+    ...fields,
+  };
+}
+
+export function migrateWorkplanSteps(
+  steps: (string | WorkplanStep)[]
+): WorkplanStep[] {
+  return steps.map((step) =>
+    typeof step === "string" ? createWorkplanStep(step) : step
+  );
+}
+
+/**
+ * Keep progress and Google links of steps that a regenerated or restored
+ * plan repeats
+ */
+export function carryOverProgress(
+  previous: WorkplanStep[] | undefined,
+  next: WorkplanStep[]
+): WorkplanStep[] {
+  const key = (text: string) => text.trim().toLowerCase();
+  const tracked = new Map(
+    (previous ?? [])
+      .filter((step) => step.done || step.taskId || step.calendarEventId)
+      .map((step) => [key(step.text), step])
+  );
+  return next.map((step) => {
+    const match = tracked.get(key(step.text));
+    if (!match) return step;
+    return {
+      ...step,
+      done: match.done,
+      doneAt: match.doneAt,
+      ...(match.taskId && { taskId: match.taskId, tasklistId: match.tasklistId }),
+      ...(match.calendarEventId && { calendarEventId: match.calendarEventId }),
+    };
+  });
+}
+
+/**
+ * Convert legacy string steps to step objects and persist the result
+ */
+async function ensureStepsMigrated(
+  plan: StoredWorkplanDocument
+): Promise<StoredWorkplan> {
+  if (!plan.steps.some((step) => typeof step === "string")) {
+    return plan as StoredWorkplan;
+  }
+  const collection = await getCollection();
+  const steps = migrateWorkplanSteps(plan.steps);
+  // Guarded on string steps so a concurrent migration doesn't assign new IDs twice
+  await collection.updateOne(
+    { _id: plan._id, steps: { $type: "string" } },
+    { $set: { steps } }
+  );
+  return { ...plan, steps };
+}
+
+/**
+ * Migrate every workplan that still stores string steps
+ */
+export async function migrateAllWorkplans(): Promise<number> {
+  const collection = await getCollection();
+  const outdated = collection.find({ steps: { $type: "string" } });
+  let migrated = 0;
+  for await (const plan of outdated) {
+    await ensureStepsMigrated(plan);
+    migrated += 1;
+  }
+  return migrated;
+}
+
 export async function findWorkplan(userId: string, eventId: string) {
   const collection = await getCollection();
-  return collection.findOne({ userId, eventId });
+  const plan = await collection.findOne({ userId, eventId });
+  return plan ? ensureStepsMigrated(plan) : null;
 }
 
 export async function listWorkplans(
@@ -92,24 +254,47 @@ export async function listWorkplans(
   limit: number = WORKPLAN_DEFAULT_EVENT_LIMIT
 ) {
   const collection = await getCollection();
-  return collection
+  const plans = await collection
     .find({ userId })
     .sort({ "event.start": 1, createdAt: 1 })
     .limit(limit)
     .toArray();
+  return Promise.all(plans.map(ensureStepsMigrated));
 }
 
 export async function saveWorkplan(
   userId: string,
   eventId: string,
   event: WorkplanEventSnapshot,
-  steps: string[],
+  steps: WorkplanStep[],
   status: WorkplanStatus = "ready",
   source: "auto" | "manual" = "auto",
-  role: string | null = null
+  role: string | null = null,
+  options: { trigger?: WorkplanVersionTrigger; restoredFrom?: number } = {}
 ): Promise<StoredWorkplan> {
   const collection = await getCollection();
+  const versions = await getVersionsCollection();
   const now = new Date();
+
+  // Plans saved before versioning become version 0 so the next save doesn't lose them
+  const previous = await collection.findOne({ userId, eventId });
+  if (previous && previous.version === undefined) {
+    await versions.updateOne(
+      { userId, eventId, version: 0 },
+      {
+        $setOnInsert: {
+          trigger: "created",
+          event: previous.event,
+          steps: migrateWorkplanSteps(previous.steps),
+          source: previous.source,
+          role: previous.role ?? null,
+          createdAt: previous.lastGeneratedAt,
+        },
+      },
+      { upsert: true }
+    );
+  }
+
   const update = {
     userId,
     eventId,
@@ -127,9 +312,11 @@ export async function saveWorkplan(
     {
       $setOnInsert: { createdAt: now },
       $set: update,
+      $inc: { version: 1 },
     },
     { upsert: true, returnDocument: "after" }
   );
+  emitResourceUpdated(userId, MCP_RESOURCE_URIS.workplan(eventId));
 
   const savedDoc =
     saved && "value" in saved ? (saved.value as StoredWorkplan | null) : (saved as StoredWorkplan | null);
@@ -142,6 +329,23 @@ export async function saveWorkplan(
     };
   }
 
+  if (savedDoc.version !== undefined) {
+    await versions.insertOne({
+      userId,
+      eventId,
+      version: savedDoc.version,
+      trigger: options.trigger ?? "manual",
+      event,
+      steps,
+      source,
+      role,
+      ...(options.restoredFrom !== undefined && {
+        restoredFrom: options.restoredFrom,
+      }),
+      createdAt: now,
+    });
+  }
+
   return {
     ...savedDoc,
     id: savedDoc._id?.toString() ?? savedDoc.id,
@@ -149,6 +353,69 @@ export async function saveWorkplan(
   };
 }
 
+/**
+ * Saved versions of a plan, newest first
+ */
+export async function listWorkplanVersions(
+  userId: string,
+  eventId: string,
+  limit = 20
+): Promise<WorkplanVersion[]> {
+  const versions = await getVersionsCollection();
+  return versions
+    .find({ userId, eventId })
+    .sort({ version: -1 })
+    .limit(limit)
+    .toArray();
+}
+
+/**
+ * Steps added and removed between two versions, compared by their text
+ */
+export function diffWorkplanSteps(
+  before: WorkplanStep[],
+  after: WorkplanStep[]
+): WorkplanStepsDiff {
+  const key = (step: WorkplanStep) => step.text.trim().toLowerCase();
+  const beforeKeys = new Set(before.map(key));
+  const afterKeys = new Set(after.map(key));
+  return {
+    added: after
+      .filter((step) => !beforeKeys.has(key(step)))
+      .map((step) => step.text),
+    removed: before
+      .filter((step) => !afterKeys.has(key(step)))
+      .map((step) => step.text),
+  };
+}
+
+/**
+ * Make an older version current again. The restored plan is saved as a new
+ * manual version, so automatic regeneration leaves it alone.
+ */
+export async function restoreWorkplanVersion(
+  userId: string,
+  eventId: string,
+  version: number
+): Promise<StoredWorkplan> {
+  const versions = await getVersionsCollection();
+  const target = await versions.findOne({ userId, eventId, version });
+  if (!target) {
+    throw new WorkplanVersionNotFoundError(eventId, version);
+  }
+  const current = await findWorkplan(userId, eventId);
+  return saveWorkplan(
+    userId,
+    eventId,
+    current?.event ?? target.event,
+    carryOverProgress(current?.steps, target.steps),
+    "ready",
+    "manual",
+    target.role,
+    { trigger: "manual", restoredFrom: version }
+  );
+}
+
 export async function markWorkplanStatus(
   userId: string,
   eventId: string,
@@ -164,4 +431,66 @@ export async function markWorkplanStatus(
       },
     }
   );
+  emitResourceUpdated(userId, MCP_RESOURCE_URIS.workplan(eventId));
+}
+
+/**
+ * Check a step off (or back on). Returns null when the plan or step doesn't exist.
+ */
+export async function setWorkplanStepDone(
+  userId: string,
+  eventId: string,
+  stepId: string,
+  done: boolean
+): Promise<StoredWorkplan | null> {
+  // Reading first migrates legacy string steps so they have IDs to match
+  if (!(await findWorkplan(userId, eventId))) {
+    return null;
+  }
+  const collection = await getCollection();
+  const now = new Date();
+  const updated = await collection.findOneAndUpdate(
+    { userId, eventId, "steps.id": stepId },
+    {
+      $set: {
+        "steps.$.done": done,
+        "steps.$.doneAt": done ? now : null,
+        updatedAt: now,
+      },
+    },
+    { returnDocument: "after" }
+  );
+  if (!updated) {
+    return null;
+  }
+  emitResourceUpdated(userId, MCP_RESOURCE_URIS.workplan(eventId));
+  return updated as StoredWorkplan;
+}
+
+/**
+ * Remember the Google Task or calendar block a step was exported to.
+ * Returns null when the plan or step doesn't exist.
+ */
+export async function linkWorkplanStep(
+  userId: string,
+  eventId: string,
+  stepId: string,
+  link: WorkplanStepLink
+): Promise<StoredWorkplan | null> {
+  const collection = await getCollection();
+  const fields = Object.fromEntries(
+    Object.entries(link)
+      .filter(([, value]) => value !== undefined)
+      .map(([key, value]) => [`steps.$.${key}`, value])
+  );
+  const updated = await collection.findOneAndUpdate(
+    { userId, eventId, "steps.id": stepId },
+    { $set: { ...fields, updatedAt: new Date() } },
+    { returnDocument: "after" }
+  );
+  if (!updated) {
+    return null;
+  }
+  emitResourceUpdated(userId, MCP_RESOURCE_URIS.workplan(eventId));
+  return updated as StoredWorkplan;
 }
@@ -8,6 +8,22 @@ export interface TierPermissions {
   models: string[];
 }
 
+export interface RateLimitRule {
+  limit: number;
+  windowMs: number;
+}
+
+export interface TierRateLimits {
+  // Chat messages per route (/api/chat, /api/telegram/chat)
+  chat: RateLimitRule;
+  // All MCP tool calls of a user combined
+  mcpTotal: RateLimitRule;
+  // Each read-only MCP tool
+  mcpTool: RateLimitRule;
+  // Each MCP tool that writes calendar, tasks or context
+  mcpWriteTool: RateLimitRule;
+}
+
 export interface UserProfile {
   id: string;
   email?: string;
@@ -15,6 +31,7 @@ export interface UserProfile {
   telegramChatId?: number;
   name: string;
   tier: UserTier;
+  timezone?: string; // IANA name, from Telegram or the browser
   createdAt: Date;
   lastLogin: Date;
 }
@@ -36,3 +53,27 @@ export const TIER_PERMISSIONS: Record<UserTier, TierPermissions> = {
     models: [MODELS.text, MODELS.textBudget, MODELS.realtime],
   },
 };
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+export const TIER_RATE_LIMITS: Record<UserTier, TierRateLimits> = {
+  free: {
+    chat: { limit: 30, windowMs: HOUR_MS },
+    mcpTotal: { limit: 120, windowMs: HOUR_MS },
+    mcpTool: { limit: 30, windowMs: 10 * MINUTE_MS },
+    mcpWriteTool: { limit: 10, windowMs: 10 * MINUTE_MS },
+  },
+  paid: {
+    chat: { limit: 200, windowMs: HOUR_MS },
+    mcpTotal: { limit: 600, windowMs: HOUR_MS },
+    mcpTool: { limit: 120, windowMs: 10 * MINUTE_MS },
+    mcpWriteTool: { limit: 30, windowMs: 10 * MINUTE_MS },
+  },
+  admin: {
+    chat: { limit: 1000, windowMs: HOUR_MS },
+    mcpTotal: { limit: 3000, windowMs: HOUR_MS },
+    mcpTool: { limit: 600, windowMs: 10 * MINUTE_MS },
+    mcpWriteTool: { limit: 120, windowMs: 10 * MINUTE_MS },
+  },
+};